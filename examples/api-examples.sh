@@ -2,6 +2,9 @@
 # API Usage Examples for Verifiable Credential Issuance
 
 BASE_URL="http://localhost:3000/api"
+# Development API keys (see src/mocks/dev-api-clients.ts)
+BANK_API_KEY="${BANK_API_KEY:-dev-jpmorgan-api-key}"
+VERIFIER_API_KEY="${VERIFIER_API_KEY:-dev-verifier-api-key}"
 
 echo "========================================="
 echo "Verifiable Credential API Examples"
@@ -32,14 +35,14 @@ echo ""
 # List all customers
 echo "4. List All Customers"
 echo "----------------------------------------"
-curl -s -X GET "$BASE_URL/customers" | jq .
+curl -s -X GET "$BASE_URL/customers" -H "X-API-Key: $BANK_API_KEY" | jq .
 echo ""
 echo ""
 
 # Get specific customer
 echo "5. Get Customer KYC Data"
 echo "----------------------------------------"
-curl -s -X GET "$BASE_URL/customers/KYC-001" | jq .
+curl -s -X GET "$BASE_URL/customers/KYC-001" -H "X-API-Key: $BANK_API_KEY" | jq .
 echo ""
 echo ""
 
@@ -48,6 +51,7 @@ echo "6. Issue Verifiable Credential (Enhanced KYC)"
 echo "----------------------------------------"
 curl -s -X POST "$BASE_URL/credentials/issue" \
   -H "Content-Type: application/json" \
+  -H "X-API-Key: $BANK_API_KEY" \
   -d '{
     "customerKycId": "KYC-001",
     "issuerDid": "did:did3:bank:jpmorgan",
@@ -65,6 +69,7 @@ echo "7. Issue Verifiable Credential (Basic KYC)"
 echo "----------------------------------------"
 curl -s -X POST "$BASE_URL/credentials/issue" \
   -H "Content-Type: application/json" \
+  -H "X-API-Key: $BANK_API_KEY" \
   -d '{
     "customerKycId": "KYC-002",
     "issuerDid": "did:did3:bank:jpmorgan",
@@ -81,6 +86,7 @@ echo "8. Batch Issue Credentials"
 echo "----------------------------------------"
 curl -s -X POST "$BASE_URL/credentials/batch-issue" \
   -H "Content-Type: application/json" \
+  -H "X-API-Key: $BANK_API_KEY" \
   -d '{
     "requests": [
       {
@@ -108,7 +114,7 @@ echo ""
 echo "9. Verify Credential"
 echo "----------------------------------------"
 echo "Note: First issue a credential, then copy it to verify.json and run:"
-echo 'curl -X POST "$BASE_URL/credentials/verify" -H "Content-Type: application/json" -d @verify.json | jq .'
+echo 'curl -X POST "$BASE_URL/credentials/verify" -H "Content-Type: application/json" -H "X-API-Key: $VERIFIER_API_KEY" -d @verify.json | jq .'
 echo ""
 
 echo "========================================="
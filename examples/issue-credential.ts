@@ -42,7 +42,7 @@ async function main() {
     console.log(`  Jurisdiction: ${credential1.credentialSubject.jurisdictions.join(', ')}`);
     console.log(`  Issued: ${credential1.issuanceDate}`);
     console.log(`  Expires: ${credential1.expirationDate}`);
-    console.log(`  Signature Algorithm: ${credential1.proof.type}`);
+    console.log(`  Proof: ${credential1.proof.type} (${credential1.proof.cryptosuite})`);
     console.log();
 
     // Verify the credential
@@ -0,0 +1,135 @@
+/**
+ * API Authentication and Authorization
+ * Identifies the calling client from an API key (X-API-Key) or an OAuth2 client-credentials access token
+ * (Authorization: Bearer) and enforces route scopes and issuer bindings
+ */
+
+import { Request, Response, NextFunction, RequestHandler } from 'express';
+import {
+  ApiScope,
+  ALL_ISSUERS,
+  canActForIssuer,
+  findClientByApiKey,
+  getApiClient
+} from '../auth/api-clients';
+import { verifyAccessToken } from '../auth/access-tokens';
+import { isCompactJws } from '../utils/jwt';
+
+export type AuthMethod = 'api-key' | 'access-token';
+
+/**
+ * The authenticated caller of a request
+ */
+export interface AuthContext {
+  clientId: string;
+  name: string;
+  method: AuthMethod;
+  scopes: ApiScope[]; // For access tokens, the granted scopes the client is also configured with
+  issuerDids: string[];
+}
+
+declare global {
+  namespace Express {
+    interface Request {
+      auth?: AuthContext;
+      authError?: string; // Why presented credentials were rejected
+    }
+  }
+}
+
+/**
+ * Resolve the caller from the request's credentials - null if it presents none, throws if they are invalid
+ * Bearer values that are not JWTs are left alone (e.g. OID4VCI wallet access tokens)
+ */
+async function resolveCaller(req: Request): Promise<AuthContext | null> {
+  const apiKey = req.get('X-API-Key');
+  if (apiKey !== undefined) {
+    const client = findClientByApiKey(apiKey);
+    if (!client) {
+      throw new Error('Invalid API key');
+    }
+    return {
+      clientId: client.clientId,
+      name: client.name,
+      method: 'api-key',
+      scopes: client.scopes,
+      issuerDids: client.issuerDids
+    };
+  }
+
+  const [scheme, token] = (req.get('Authorization') || '').split(' ');
+  if (scheme?.toLowerCase() === 'bearer' && isCompactJws(token)) {
+    const claims = await verifyAccessToken(token);
+    const client = getApiClient(claims.clientId);
+    if (!client) {
+      throw new Error(`Unknown client: ${claims.clientId}`);
+    }
+    return {
+      clientId: client.clientId,
+      name: client.name,
+      method: 'access-token',
+      scopes: client.scopes.filter(scope => claims.scopes.includes(scope)),
+      issuerDids: client.issuerDids
+    };
+  }
+
+  return null;
+}
+
+/**
+ * Attach the caller to the request as req.auth
+ * Never rejects by itself - routes opt in with requireScope, so public routes stay reachable
+ */
+export const authenticate: RequestHandler = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    req.auth = (await resolveCaller(req)) || undefined;
+  } catch (error) {
+    req.authError = error instanceof Error ? error.message : String(error);
+  }
+  next();
+};
+
+/**
+ * Require an authenticated caller holding a scope
+ */
+export function requireScope(scope: ApiScope): RequestHandler {
+  return (req: Request, res: Response, next: NextFunction) => {
+    if (!req.auth) {
+      res.setHeader('WWW-Authenticate', 'Bearer, ApiKey');
+      return res.status(401).json({
+        error: 'Authentication required',
+        message: req.authError || 'Provide an X-API-Key header or an Authorization: Bearer access token'
+      });
+    }
+
+    if (!req.auth.scopes.includes(scope)) {
+      return res.status(403).json({
+        error: 'Insufficient scope',
+        code: 'INSUFFICIENT_SCOPE',
+        requiredScope: scope
+      });
+    }
+
+    next();
+  };
+}
+
+/**
+ * Require a caller bound to every issuer - trust registry changes are for the registry operator
+ * Use after requireScope
+ */
+export const requireRegistryOperator: RequestHandler = (req: Request, res: Response, next: NextFunction) => {
+  if (!req.auth?.issuerDids.includes(ALL_ISSUERS)) {
+    return res.status(403).json({
+      error: 'Only the trust registry operator may change the registry'
+    });
+  }
+  next();
+};
+
+/**
+ * Check whether the caller may act for an issuer DID
+ */
+export function canActAsIssuer(req: Request, issuerDid: string): boolean {
+  return req.auth !== undefined && canActForIssuer(req.auth.issuerDids, issuerDid);
+}
@@ -0,0 +1,182 @@
+/**
+ * ISO 20022 Content Negotiation
+ * Lets the JSON issuance and verification routes speak ISO 20022 XML: an application/xml request body is
+ * validated and translated to the route's JSON request, and when the request is XML or the client accepts
+ * only XML, the route's JSON response is written as the matching status or verification report
+ */
+
+import express, { Request, Response, NextFunction, RequestHandler } from 'express';
+import {
+  Iso20022ParseResult,
+  Iso20022Reason,
+  ISO20022_REASON_CODES,
+  parseIssuanceRequestMessage,
+  parseVerificationRequestMessage,
+  buildIssuanceStatusReport,
+  buildVerificationReport
+} from '../services/iso20022';
+import { PiiSalts, VerifiableCredential } from '../types/credentials';
+import { decodeJwt } from '../utils/jwt';
+
+const XML_TYPES = ['application/xml', 'text/xml'];
+
+/**
+ * JSON response of the issuance and verification routes, as far as the reports use it
+ */
+interface RouteResponseBody {
+  error?: string;
+  message?: string;
+  validationErrors?: string[];
+  existingCredentialIds?: string[];
+  format?: string;
+  credential?: unknown; // Issued credential, or the summary of a verified one
+  piiSalts?: PiiSalts;
+  supersededCredentialIds?: string[];
+  valid?: boolean;
+  revoked?: boolean;
+  weakProof?: boolean;
+  keyBound?: boolean;
+  errors?: string[];
+  warnings?: string[];
+}
+
+/**
+ * Summary of the verified credential in a verification response
+ */
+interface VerifiedCredentialSummary {
+  id?: string;
+  issuer?: string;
+  subject?: string;
+  dataModelVersion?: string;
+  validFrom?: string | null;
+  validUntil?: string | null;
+}
+
+const parseXmlBody = express.text({ type: XML_TYPES, limit: '10mb' });
+
+/**
+ * Reasons for a rejected request, from the route's JSON error response
+ */
+function getRejectionReasons(statusCode: number, body: RouteResponseBody): Iso20022Reason[] {
+  if (Array.isArray(body.validationErrors)) {
+    return body.validationErrors.map(message => ({ code: ISO20022_REASON_CODES.invalidMessage, message }));
+  }
+
+  const code = statusCode === 401 || statusCode === 403
+    ? ISO20022_REASON_CODES.forbidden
+    : statusCode === 409 ? ISO20022_REASON_CODES.duplicate : ISO20022_REASON_CODES.narrative;
+  let message = [body.error, body.message].filter(Boolean).join(': ');
+  if (Array.isArray(body.existingCredentialIds)) {
+    message += ` (${body.existingCredentialIds.join(', ')})`;
+  }
+  return [{ code, message: message || `HTTP ${statusCode}` }];
+}
+
+/**
+ * ID of an issued credential, also when it is returned as a JWT-VC or SD-JWT VC
+ */
+function getIssuedCredentialId(credential: unknown): string | undefined {
+  if (typeof credential === 'string') {
+    const { payload } = decodeJwt(credential.split('~')[0]);
+    return typeof payload.jti === 'string' ? payload.jti : undefined;
+  }
+  return (credential as { id?: string } | undefined)?.id;
+}
+
+/**
+ * Build the negotiation middleware for one kind of message
+ */
+function negotiateIso20022(
+  parseMessage: (xml: string) => Iso20022ParseResult<object>,
+  buildReport: (req: Request, statusCode: number, body: RouteResponseBody, originalMessageId: string | null) => string
+): RequestHandler[] {
+  const negotiate = (req: Request, res: Response, next: NextFunction) => {
+    const xmlRequest = Boolean(req.is(XML_TYPES));
+    if (!xmlRequest && req.accepts(['application/json', ...XML_TYPES]) === 'application/json') {
+      return next();
+    }
+
+    // 1. Answer in XML from here on, including authentication and validation errors
+    let originalMessageId: string | null = null;
+    res.json = (body: RouteResponseBody) => {
+      res.type('application/xml');
+      return res.send(buildReport(req, res.statusCode, body || {}, originalMessageId));
+    };
+
+    // 2. Validate and translate an XML request
+    if (xmlRequest) {
+      const parsed = parseMessage(typeof req.body === 'string' ? req.body : '');
+      originalMessageId = parsed.messageId;
+      if (!parsed.request) {
+        return res.status(400).json({
+          error: 'Invalid ISO 20022 message',
+          validationErrors: parsed.errors
+        });
+      }
+      req.body = parsed.request;
+    }
+    next();
+  };
+
+  return [parseXmlBody, negotiate];
+}
+
+/**
+ * ISO 20022 support for POST /api/credentials/issue - vcrd.001 in, vcrd.002 out
+ */
+export const iso20022Issuance = negotiateIso20022(
+  parseIssuanceRequestMessage,
+  (req, statusCode, body, originalMessageId) => {
+    const accepted = statusCode < 300;
+    return buildIssuanceStatusReport({
+      originalMessageId,
+      accepted,
+      issuerDid: req.body?.issuerDid,
+      customerKycId: req.body?.customerKycId,
+      credentialId: accepted ? getIssuedCredentialId(body.credential) : undefined,
+      format: body.format,
+      credential: body.credential as VerifiableCredential | string | undefined,
+      piiSalts: body.piiSalts,
+      supersededCredentialIds: body.supersededCredentialIds,
+      reasons: accepted ? [] : getRejectionReasons(statusCode, body)
+    });
+  }
+);
+
+/**
+ * ISO 20022 support for POST /api/credentials/verify - vcrd.003 in, vcrd.004 out
+ */
+export const iso20022Verification = negotiateIso20022(
+  parseVerificationRequestMessage,
+  (req, statusCode, body, originalMessageId) => {
+    if (statusCode >= 300) {
+      return buildVerificationReport({
+        originalMessageId,
+        rejected: true,
+        errors: [],
+        warnings: [],
+        reasons: getRejectionReasons(statusCode, body)
+      });
+    }
+
+    const credential = (body.credential || {}) as VerifiedCredentialSummary;
+    return buildVerificationReport({
+      originalMessageId,
+      rejected: false,
+      valid: body.valid,
+      format: body.format,
+      credentialId: credential.id,
+      issuerDid: credential.issuer,
+      subjectId: credential.subject,
+      dataModelVersion: credential.dataModelVersion,
+      validFrom: credential.validFrom,
+      validUntil: credential.validUntil,
+      revoked: body.revoked,
+      weakProof: body.weakProof,
+      keyBound: body.keyBound,
+      errors: body.errors || [],
+      warnings: body.warnings || [],
+      reasons: []
+    });
+  }
+);
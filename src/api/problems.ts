@@ -0,0 +1,106 @@
+/**
+ * Problem Details
+ * Error responses as RFC 7807 application/problem+json. Routes answer errors as `{ error, message?, code?, ... }`;
+ * the response is rewritten with the problem type and title of its error code (the generic code of the status
+ * when it has none), the route's error and message as the detail, and the other members as extensions
+ */
+
+import { Request, Response, NextFunction } from 'express';
+import { ERROR_CODES, ErrorCode, getStatusErrorCode, isDomainError } from '../utils/errors';
+
+export const PROBLEM_TYPE_BASE = 'https://did3.org/problems/';
+
+export interface ProblemDetails {
+  type: string;
+  title: string;
+  status: number;
+  detail?: string;
+  instance: string;
+  code: ErrorCode;
+  [extension: string]: unknown;
+}
+
+/**
+ * Error response body of a route
+ */
+interface ErrorResponseBody {
+  error: string;
+  message?: string;
+  code?: string;
+  [member: string]: unknown;
+}
+
+function isErrorResponseBody(body: unknown): body is ErrorResponseBody {
+  return typeof body === 'object' && body !== null && typeof (body as ErrorResponseBody).error === 'string';
+}
+
+/**
+ * Problem type URI of an error code, e.g. https://did3.org/problems/customer-not-found
+ */
+export function getProblemType(code: ErrorCode): string {
+  return `${PROBLEM_TYPE_BASE}${code.toLowerCase().replace(/_/g, '-')}`;
+}
+
+/**
+ * Convert a route's error response to problem details
+ */
+export function toProblemDetails(status: number, body: ErrorResponseBody, instance: string): ProblemDetails {
+  const { error, message, code, ...extensions } = body;
+  const errorCode = code !== undefined && code in ERROR_CODES ? code as ErrorCode : getStatusErrorCode(status);
+  const { title } = ERROR_CODES[errorCode];
+  const detail = message ? `${error}: ${message}` : error;
+
+  return {
+    type: getProblemType(errorCode),
+    title,
+    status,
+    ...(detail !== title && { detail }),
+    instance,
+    code: errorCode,
+    ...extensions
+  };
+}
+
+/**
+ * Send every error response as problem details - apply before the routes
+ */
+export function problemDetails(req: Request, res: Response, next: NextFunction): void {
+  const json = res.json.bind(res);
+  res.json = (body: unknown) => {
+    if (res.statusCode < 400 || res.locals.oauthErrors || !isErrorResponseBody(body)) {
+      return json(body);
+    }
+    res.type('application/problem+json');
+    return json(toProblemDetails(res.statusCode, body, req.originalUrl));
+  };
+  next();
+}
+
+/**
+ * Keep OAuth error responses (`{ error, error_description }`) on the OID4VCI and OID4VP protocol endpoints,
+ * where wallets expect them
+ */
+export function oauthErrors(req: Request, res: Response, next: NextFunction): void {
+  res.locals.oauthErrors = true;
+  next();
+}
+
+/**
+ * Answer an error caught by a route - a domain error with its status, code and details, any other error with
+ * `status`. `summary` says what failed, the error message why
+ */
+export function sendError(res: Response, error: unknown, summary: string, status = 500): Response {
+  const message = error instanceof Error ? error.message : String(error);
+  if (isDomainError(error)) {
+    return res.status(error.status).json({
+      error: summary,
+      message,
+      code: error.code,
+      ...error.details
+    });
+  }
+  return res.status(status).json({
+    error: summary,
+    message
+  });
+}
@@ -1,20 +1,352 @@
 /**
  * API Routes for Verifiable Credential Issuance
  * RESTful endpoints for financial institutions
+ * Routes guarded by requireScope need an authenticated client (see auth.ts); the rest are public - issuer
+ * metadata, status lists, the trust registry and the wallet-facing OID4VCI/OID4VP endpoints
  */
 
-import { Router, Request, Response } from 'express';
+import express, { Router, Request, Response } from 'express';
 import {
   issueCredential,
   verifyCredential,
-  batchIssueCredentials
+  batchIssueCredentials,
+  revokeCredential,
+  verifyJwtCredential,
+  findDuplicateCredentials,
+  BatchIssueCredentialRequest
 } from '../services/credential-issuer';
+import { runIdempotent, validateIdempotencyKey } from '../services/idempotency';
+import {
+  IssuanceUploadFormat,
+  ParsedIssuanceRow,
+  parseIssuanceUpload,
+  createIssuanceJob,
+  getIssuanceJob,
+  cancelIssuanceJob,
+  resumeIssuanceJob
+} from '../services/issuance-jobs';
+import { getIssuanceJobStore } from '../storage/issuance-job-store';
+import { MAX_PAGE_SIZE } from '../storage/credential-repository';
+import { getStatusListCredential } from '../services/status-list';
+import { verifySdJwtCredential, isSdJwt, SdJwtIssueOptions } from '../services/sd-jwt';
+import { createChallenge, verifyPresentation } from '../services/presentation';
+import { buildIssuerDidDocument } from '../services/did-resolver';
+import { matchPiiCommitment } from '../services/pii-commitments';
+import {
+  CREDENTIAL_OFFER_REQUEST_SCHEMA,
+  CreateCredentialOfferRequest,
+  createCredentialOffer,
+  exchangePreAuthorizedCode,
+  issueCredentialToWallet,
+  getCredentialIssuerUrl,
+  isOid4vciError
+} from '../services/oid4vci';
+import {
+  KYC_PRESENTATION_REQUIREMENTS_SCHEMA,
+  KycPresentationRequirements,
+  PresentationDefinition,
+  buildKycPresentationDefinition
+} from '../services/presentation-exchange';
+import {
+  createAuthorizationRequest,
+  handleAuthorizationResponse,
+  getAuthorizationRequestState,
+  isOid4vpError
+} from '../services/oid4vp';
+import {
+  evaluateVerificationPolicy,
+  getCredentialPolicySubject,
+  getSdJwtPolicySubject
+} from '../services/verification-policy';
+import {
+  ACCREDITATION_REQUEST_SCHEMA,
+  REGISTER_ISSUER_REQUEST_SCHEMA,
+  RegisterIssuerRequest,
+  getTrustRegistry,
+  getTrustRegistryEntry,
+  getTrustRegistryDid,
+  registerTrustedIssuer,
+  addAccreditation,
+  withdrawAccreditation,
+  suspendIssuer,
+  reinstateIssuer,
+  exportTrustList
+} from '../services/trust-registry';
+import {
+  ROTATE_ISSUER_KEY_SCHEMA,
+  getIssuerKeys,
+  getActiveIssuerKey,
+  rotateIssuerKey,
+  revokeIssuerKey
+} from '../services/issuer-keys';
+import { recordAuditEvent, findAuditEntries, verifyAuditLog, getAuditLogDid } from '../services/audit-log';
+import { getDataModelVersion, getValidFrom, getValidUntil } from '../utils/data-model';
 import { getAllIssuers, getIssuerByDid } from '../config/bank-issuers';
-import { getAllCustomers, getCustomerKYC } from '../mocks/kyc-database';
-import { IssueCredentialRequest, VerifiableCredential } from '../types/credentials';
+import {
+  getAllCustomers,
+  getCustomerKYC,
+  upsertCustomerKYC,
+  deleteCustomerKYC,
+  searchCustomers,
+  validateCustomerKYC
+} from '../services/customers';
+import { MaskingProfileName, maskCustomer } from '../services/customer-masking';
+import { getKycChangeActions, getCredentialKycChanges } from '../services/kyc-changes';
+import {
+  WEBHOOK_EVENT_TYPES,
+  WEBHOOK_DELIVERY_STATUSES,
+  WEBHOOK_SUBSCRIPTION_SCHEMA,
+  createWebhookSubscription,
+  getWebhookSubscription,
+  listWebhookSubscriptions,
+  deleteWebhookSubscription,
+  getWebhookDeliveries,
+  getWebhookDelivery,
+  replayWebhookDelivery
+} from '../services/webhooks';
+import { getKycDataSource, isWritableKycDataSource } from '../storage/kyc-data-source';
+import { KYC_FIELD_VALUES } from '../storage/kyc-field-mapping';
+import { getCredentialRepository, getRecordStatus } from '../storage/credential-repository';
+import {
+  IssueCredentialRequest,
+  VerifiableCredential,
+  CredentialQuery,
+  CredentialRecordStatus,
+  CredentialEnvelope,
+  VerifiablePresentation,
+  PiiSalts,
+  VerificationPolicy,
+  AuditAction,
+  AuditEvent,
+  AuditOutcome,
+  AuditQuery,
+  IssuanceJob,
+  IssuanceJobRowStatus,
+  CustomerKYCData,
+  KycChangeAction,
+  KycChangeActionType,
+  WebhookDeliveryStatus,
+  WebhookEventType,
+  WebhookSubscription
+} from '../types/credentials';
+import { isCompactJws, decodeJwt } from '../utils/jwt';
+import { requireScope, requireRegistryOperator, canActAsIssuer } from './auth';
+import { iso20022Issuance, iso20022Verification } from './iso20022';
+import { oauthErrors, sendError } from './problems';
+import {
+  validateBody,
+  SUSPEND_ISSUER_SCHEMA,
+  ISSUE_CREDENTIAL_SCHEMA,
+  BATCH_ISSUE_CREDENTIALS_SCHEMA,
+  VERIFY_CREDENTIAL_SCHEMA,
+  VERIFY_PII_SCHEMA,
+  PRESENTATION_CHALLENGE_SCHEMA,
+  PRESENTATION_SCHEMA,
+  AUTHORIZATION_REQUEST_SCHEMA
+} from './schemas';
+import { ALL_ISSUERS } from '../auth/api-clients';
+
+const CREDENTIAL_STATUSES: CredentialRecordStatus[] = ['active', 'revoked', 'expired'];
+const AUDIT_ACTIONS: AuditAction[] = [
+  'credential.issue',
+  'credential.batch-issue',
+  'credential.verify',
+  'credential.revoke',
+  'presentation.verify',
+  'customer.create',
+  'customer.update',
+  'customer.delete'
+];
+const AUDIT_OUTCOMES: AuditOutcome[] = ['success', 'failure'];
+const JOB_ROW_STATUSES: IssuanceJobRowStatus[] = ['pending', 'succeeded', 'failed'];
+const KYC_CHANGE_ACTIONS: KycChangeActionType[] = ['revoke', 'supersede'];
+
+const JOB_UPLOAD_TYPES: Record<string, IssuanceUploadFormat> = {
+  'application/json': 'json',
+  'application/x-ndjson': 'ndjson',
+  'application/ndjson': 'ndjson',
+  'text/csv': 'csv'
+};
+
+// Job uploads bypass the API body parser, so uploads of every format may exceed its 10mb limit
+const JOB_UPLOAD_LIMIT = process.env.JOB_UPLOAD_LIMIT || '200mb';
+const parseJobUpload = [
+  express.json({ limit: JOB_UPLOAD_LIMIT }),
+  express.text({ type: ['application/x-ndjson', 'application/ndjson', 'text/csv'], limit: JOB_UPLOAD_LIMIT })
+];
+
+// Trust registry changes need the admin scope on a client bound to every issuer
+const REGISTRY_OPERATOR = [requireScope('admin'), requireRegistryOperator];
 
 const router = Router();
 
+/**
+ * Public base URL of this service - PUBLIC_BASE_URL, or derived from the request
+ */
+export function getPublicBaseUrl(req: Request): string {
+  return process.env.PUBLIC_BASE_URL || `${req.protocol}://${req.get('host')}`;
+}
+
+/**
+ * Append to the audit log, by default as the calling client - a failed write is logged rather than failing
+ * the request
+ */
+async function audit(req: Request, event: Omit<AuditEvent, 'actor'> & { actor?: string }): Promise<void> {
+  try {
+    await recordAuditEvent({ actor: req.auth?.clientId || 'anonymous', ...event });
+  } catch (error) {
+    console.error('Failed to write audit entry:', error);
+  }
+}
+
+/**
+ * Audit the outcome of a verification
+ */
+function auditVerification(
+  req: Request,
+  action: AuditAction,
+  subject: { issuerDid?: string | null; credentialId?: string | null },
+  result: { valid: boolean; errors: string[] }
+): Promise<void> {
+  return audit(req, {
+    action,
+    ...subject,
+    outcome: result.valid ? 'success' : 'failure',
+    error: result.valid ? null : result.errors.join('; ')
+  });
+}
+
+/**
+ * Masking profile for the caller - full PII with the customers:pii scope, the support view otherwise
+ */
+function getMaskingProfile(req: Request): MaskingProfileName {
+  return req.auth?.scopes.includes('customers:pii') ? 'full' : 'support';
+}
+
+/**
+ * Check that customers can be written to the KYC data source. Returns false after sending a 405 if not
+ */
+function requireWritableKycSource(res: Response): boolean {
+  const source = getKycDataSource();
+  if (!isWritableKycDataSource(source)) {
+    res.status(405).json({
+      error: 'KYC data source is read-only',
+      code: 'KYC_SOURCE_READ_ONLY',
+      source: source.name
+    });
+    return false;
+  }
+  return true;
+}
+
+/**
+ * An updated customer with the PII salts of the credentials its KYC change re-issued, by credential ID - the
+ * only time they are returned, for delivery to the holders. Salts of issuers the caller is not bound to are
+ * left out
+ */
+function withReplacementPiiSalts<T extends object>(
+  req: Request,
+  customer: T,
+  actions: KycChangeAction[],
+  piiSalts: Record<string, PiiSalts>
+) {
+  const replacementPiiSalts = Object.fromEntries(actions
+    .filter(action => action.replacementCredentialId && piiSalts[action.replacementCredentialId] &&
+      canActAsIssuer(req, action.issuerDid))
+    .map(action => [action.replacementCredentialId, piiSalts[action.replacementCredentialId as string]]));
+  return Object.keys(replacementPiiSalts).length > 0 ? { ...customer, replacementPiiSalts } : customer;
+}
+
+/**
+ * Issuer filter of a listing - clients see only records of the issuers they are bound to, and must name one
+ * if bound to several. Returns null after sending the error response if the filter is not allowed
+ */
+function getIssuerFilter(req: Request, res: Response, issuer: string | undefined): string | undefined | null {
+  const issuerDids = req.auth?.issuerDids || [];
+  let issuerFilter = issuer;
+  if (issuerFilter === undefined && !canActAsIssuer(req, ALL_ISSUERS)) {
+    if (issuerDids.length !== 1) {
+      res.status(400).json({
+        error: 'Missing query parameter: issuer',
+        allowed: issuerDids
+      });
+      return null;
+    }
+    issuerFilter = issuerDids[0];
+  }
+  if (issuerFilter !== undefined && !canActAsIssuer(req, issuerFilter)) {
+    res.status(403).json({
+      error: 'Not authorized for this issuer',
+      code: 'ISSUER_NOT_AUTHORIZED',
+      issuer: issuerFilter
+    });
+    return null;
+  }
+  return issuerFilter;
+}
+
+/**
+ * Issuance job requested by the caller - only the client that submitted a job may see or change it.
+ * Returns null after sending the error response if it may not
+ */
+async function getOwnedIssuanceJob(req: Request, res: Response): Promise<IssuanceJob | null> {
+  const job = await getIssuanceJob(req.params.id);
+  if (!job) {
+    res.status(404).json({
+      error: 'Issuance job not found',
+      code: 'ISSUANCE_JOB_NOT_FOUND',
+      id: req.params.id
+    });
+    return null;
+  }
+  if (job.clientId !== req.auth?.clientId) {
+    res.status(403).json({
+      error: 'Not authorized for this issuance job',
+      code: 'ISSUANCE_JOB_NOT_AUTHORIZED',
+      id: job.id
+    });
+    return null;
+  }
+  return job;
+}
+
+/**
+ * A job with its progress
+ */
+function describeIssuanceJob(job: IssuanceJob) {
+  const processed = job.succeeded + job.failed;
+  return {
+    ...job,
+    processed,
+    percentComplete: Math.floor((processed / job.total) * 100)
+  };
+}
+
+/**
+ * Webhook subscription requested by the caller - a client only sees its own subscriptions, others' are
+ * reported as not found. Returns null after sending the error response if it may not
+ */
+async function getOwnedWebhookSubscription(req: Request, res: Response): Promise<WebhookSubscription | null> {
+  const subscription = await getWebhookSubscription(req.params.id);
+  if (!subscription || subscription.clientId !== req.auth?.clientId) {
+    res.status(404).json({
+      error: 'Webhook subscription not found',
+      code: 'WEBHOOK_SUBSCRIPTION_NOT_FOUND',
+      id: req.params.id
+    });
+    return null;
+  }
+  return subscription;
+}
+
+/**
+ * A subscription without its signing secret, which is only returned when the subscription is created
+ */
+function describeWebhookSubscription(subscription: WebhookSubscription) {
+  const { secret: _secret, ...described } = subscription;
+  return described;
+}
+
 /**
  * Health check endpoint
  */
@@ -33,22 +365,23 @@ router.get('/health', (req: Request, res: Response) => {
 router.get('/issuers', (req: Request, res: Response) => {
   try {
     const issuers = getAllIssuers();
-    // Don't expose private keys in the response
-    const sanitizedIssuers = issuers.map(issuer => ({
-      did: issuer.did,
-      name: issuer.name,
-      jurisdiction: issuer.jurisdiction,
-      regulators: issuer.regulators,
-      tier: issuer.tier,
-      signatureAlgorithm: issuer.signatureAlgorithm,
-      publicKey: issuer.publicKey
-    }));
+    // Report the active key - private keys are held by the signer, never by the issuer config
+    const sanitizedIssuers = issuers.map(issuer => {
+      const activeKey = getActiveIssuerKey(issuer.did);
+      return {
+        did: issuer.did,
+        name: issuer.name,
+        jurisdiction: issuer.jurisdiction,
+        regulators: issuer.regulators,
+        tier: issuer.tier,
+        signatureAlgorithm: activeKey.signatureAlgorithm,
+        publicKey: activeKey.publicKey,
+        verificationMethod: activeKey.id
+      };
+    });
     res.json(sanitizedIssuers);
   } catch (error) {
-    res.status(500).json({
-      error: 'Failed to retrieve issuers',
-      message: error instanceof Error ? error.message : String(error)
-    });
+    sendError(res, error, 'Failed to retrieve issuers');
   }
 });
 
@@ -63,187 +396,1878 @@ router.get('/issuers/:did', (req: Request, res: Response) => {
     if (!issuer) {
       return res.status(404).json({
         error: 'Issuer not found',
+        code: 'ISSUER_NOT_FOUND',
         did
       });
     }
 
-    // Don't expose private key
+    const activeKey = getActiveIssuerKey(issuer.did);
     const sanitizedIssuer = {
       did: issuer.did,
       name: issuer.name,
       jurisdiction: issuer.jurisdiction,
       regulators: issuer.regulators,
       tier: issuer.tier,
-      signatureAlgorithm: issuer.signatureAlgorithm,
-      publicKey: issuer.publicKey
+      signatureAlgorithm: activeKey.signatureAlgorithm,
+      publicKey: activeKey.publicKey,
+      verificationMethod: activeKey.id
     };
 
     res.json(sanitizedIssuer);
   } catch (error) {
-    res.status(500).json({
-      error: 'Failed to retrieve issuer',
-      message: error instanceof Error ? error.message : String(error)
-    });
+    sendError(res, error, 'Failed to retrieve issuer');
   }
 });
 
 /**
- * Get all customers (for testing/admin purposes)
+ * Get the W3C DID document of an issuer
+ * GET /api/issuers/:did/did.json
  */
-router.get('/customers', (req: Request, res: Response) => {
+router.get('/issuers/:did/did.json', (req: Request, res: Response) => {
   try {
-    const customers = getAllCustomers();
-    res.json(customers);
+    const { did } = req.params;
+    const issuer = getIssuerByDid(did);
+
+    if (!issuer) {
+      return res.status(404).json({
+        error: 'Issuer not found',
+        code: 'ISSUER_NOT_FOUND',
+        did
+      });
+    }
+
+    res.type('application/did+json').send(JSON.stringify(buildIssuerDidDocument(issuer)));
   } catch (error) {
-    res.status(500).json({
-      error: 'Failed to retrieve customers',
-      message: error instanceof Error ? error.message : String(error)
-    });
+    sendError(res, error, 'Failed to build DID document');
   }
 });
 
 /**
- * Get customer KYC data by ID
+ * List an issuer's signing keys (admin)
+ * GET /api/issuers/:did/keys
  */
-router.get('/customers/:kycId', (req: Request, res: Response) => {
+router.get('/issuers/:did/keys', requireScope('admin'), (req: Request, res: Response) => {
   try {
-    const { kycId } = req.params;
-    const customer = getCustomerKYC(kycId);
+    const { did } = req.params;
 
-    if (!customer) {
+    if (!getIssuerByDid(did)) {
       return res.status(404).json({
-        error: 'Customer not found',
-        kycId
+        error: 'Issuer not found',
+        code: 'ISSUER_NOT_FOUND',
+        did
       });
     }
 
-    res.json(customer);
-  } catch (error) {
-    res.status(500).json({
-      error: 'Failed to retrieve customer',
-      message: error instanceof Error ? error.message : String(error)
+    if (!canActAsIssuer(req, did)) {
+      return res.status(403).json({
+        error: 'Not authorized for this issuer',
+        code: 'ISSUER_NOT_AUTHORIZED',
+        did
+      });
+    }
+
+    res.json({
+      did,
+      keys: getIssuerKeys(did)
     });
+  } catch (error) {
+    sendError(res, error, 'Failed to retrieve issuer keys');
   }
 });
 
 /**
- * Issue a verifiable credential
- * POST /api/credentials/issue
+ * Rotate an issuer's signing key (admin)
+ * POST /api/issuers/:did/keys/rotate
+ * Body: { signatureAlgorithm?: 'Ed25519' | 'P-256', revokePrevious?: boolean }
  */
-router.post('/credentials/issue', async (req: Request, res: Response) => {
+router.post('/issuers/:did/keys/rotate', requireScope('admin'), validateBody(ROTATE_ISSUER_KEY_SCHEMA), async (req: Request, res: Response) => {
   try {
-    const request: IssueCredentialRequest = req.body;
+    const { did } = req.params;
+    const { signatureAlgorithm, revokePrevious } = req.body || {};
 
-    // Validate required fields
-    if (!request.customerKycId) {
-      return res.status(400).json({
-        error: 'Missing required field: customerKycId'
+    if (!getIssuerByDid(did)) {
+      return res.status(404).json({
+        error: 'Issuer not found',
+        code: 'ISSUER_NOT_FOUND',
+        did
       });
     }
 
-    if (!request.issuerDid) {
-      return res.status(400).json({
-        error: 'Missing required field: issuerDid'
+    if (!canActAsIssuer(req, did)) {
+      return res.status(403).json({
+        error: 'Not authorized for this issuer',
+        code: 'ISSUER_NOT_AUTHORIZED',
+        did
       });
     }
 
-    if (!request.kycLevel) {
-      return res.status(400).json({
-        error: 'Missing required field: kycLevel'
+    const key = await rotateIssuerKey(did, {
+      signatureAlgorithm,
+      revokePrevious: revokePrevious === true
+    });
+
+    res.status(201).json({
+      success: true,
+      key,
+      keys: getIssuerKeys(did)
+    });
+  } catch (error) {
+    sendError(res, error, 'Failed to rotate issuer key');
+  }
+});
+
+/**
+ * Revoke a retired issuer key (admin) - credentials signed with it no longer verify
+ * POST /api/issuers/:did/keys/:keyId/revoke
+ */
+router.post('/issuers/:did/keys/:keyId/revoke', requireScope('admin'), async (req: Request, res: Response) => {
+  try {
+    const { did, keyId } = req.params;
+
+    if (!getIssuerByDid(did)) {
+      return res.status(404).json({
+        error: 'Issuer not found',
+        code: 'ISSUER_NOT_FOUND',
+        did
       });
     }
 
-    if (request.accreditedInvestor === undefined) {
-      return res.status(400).json({
-        error: 'Missing required field: accreditedInvestor'
+    if (!canActAsIssuer(req, did)) {
+      return res.status(403).json({
+        error: 'Not authorized for this issuer',
+        code: 'ISSUER_NOT_AUTHORIZED',
+        did
       });
     }
 
-    if (!request.jurisdiction || request.jurisdiction.length === 0) {
-      return res.status(400).json({
-        error: 'Missing required field: jurisdiction'
+    const verificationMethod = `${did}#${keyId}`;
+    const key = getIssuerKeys(did).find(k => k.id === verificationMethod);
+    if (!key) {
+      return res.status(404).json({
+        error: 'Issuer key not found',
+        code: 'ISSUER_KEY_NOT_FOUND',
+        verificationMethod
+      });
+    }
+
+    if (key.status !== 'retired') {
+      return res.status(409).json({
+        error: key.status === 'active'
+          ? 'The active key cannot be revoked; rotate with revokePrevious instead'
+          : 'Issuer key already revoked',
+        verificationMethod
       });
     }
 
-    // Issue the credential
-    const credential = await issueCredential(request);
+    res.json({
+      success: true,
+      key: await revokeIssuerKey(did, verificationMethod)
+    });
+  } catch (error) {
+    sendError(res, error, 'Failed to revoke issuer key');
+  }
+});
+
+/**
+ * Register a new bank issuer with its accreditations (admin) - its first signing key is generated in the signer
+ * POST /api/issuers
+ * Body: { did, name, jurisdiction, regulators, tier, signatureAlgorithm,
+ *         accreditations: [{ regulator, jurisdictions, credentialTypes, validFrom?, validUntil? }] }
+ */
+router.post('/issuers', REGISTRY_OPERATOR, validateBody(REGISTER_ISSUER_REQUEST_SCHEMA), async (req: Request, res: Response) => {
+  try {
+    const request: RegisterIssuerRequest = req.body;
+
+    const entry = await registerTrustedIssuer(request);
 
     res.status(201).json({
       success: true,
-      credential
+      issuer: getIssuerByDid(request.did),
+      trustRegistryEntry: entry
     });
   } catch (error) {
-    res.status(400).json({
-      error: 'Failed to issue credential',
-      message: error instanceof Error ? error.message : String(error)
+    sendError(res, error, 'Failed to register issuer', 400);
+  }
+});
+
+/**
+ * Get the trust registry
+ * GET /api/trust-registry
+ */
+router.get('/trust-registry', async (req: Request, res: Response) => {
+  try {
+    res.json({
+      registryDid: await getTrustRegistryDid(),
+      entries: getTrustRegistry()
     });
+  } catch (error) {
+    sendError(res, error, 'Failed to retrieve trust registry');
   }
 });
 
 /**
- * Batch issue credentials
- * POST /api/credentials/batch-issue
+ * Export the trust registry as a signed trust list for offline verifiers
+ * GET /api/trust-registry/trust-list
+ */
+router.get('/trust-registry/trust-list', async (req: Request, res: Response) => {
+  try {
+    res.json(await exportTrustList(`${getPublicBaseUrl(req)}/api/trust-registry/trust-list`));
+  } catch (error) {
+    sendError(res, error, 'Failed to export trust list');
+  }
+});
+
+/**
+ * Get an issuer's trust registry entry
+ * GET /api/trust-registry/issuers/:did
+ */
+router.get('/trust-registry/issuers/:did', (req: Request, res: Response) => {
+  const entry = getTrustRegistryEntry(req.params.did);
+
+  if (!entry) {
+    return res.status(404).json({
+      error: 'Issuer not found',
+      code: 'ISSUER_NOT_FOUND',
+      did: req.params.did
+    });
+  }
+
+  res.json(entry);
+});
+
+/**
+ * Add an accreditation to an issuer (admin)
+ * POST /api/trust-registry/issuers/:did/accreditations
+ * Body: { regulator, jurisdictions, credentialTypes, validFrom?, validUntil? }
  */
-router.post('/credentials/batch-issue', async (req: Request, res: Response) => {
+router.post('/trust-registry/issuers/:did/accreditations', REGISTRY_OPERATOR, validateBody(ACCREDITATION_REQUEST_SCHEMA), async (req: Request, res: Response) => {
   try {
-    const requests: IssueCredentialRequest[] = req.body.requests;
+    const { did } = req.params;
 
-    if (!Array.isArray(requests) || requests.length === 0) {
-      return res.status(400).json({
-        error: 'Invalid request: expected array of credential requests'
+    if (!getTrustRegistryEntry(did)) {
+      return res.status(404).json({
+        error: 'Issuer not found',
+        code: 'ISSUER_NOT_FOUND',
+        did
       });
     }
 
-    const result = await batchIssueCredentials(requests);
-
-    res.status(200).json({
+    res.status(201).json({
       success: true,
-      totalRequests: requests.length,
-      successful: result.successful.length,
-      failed: result.failed.length,
-      credentials: result.successful,
-      errors: result.failed
+      accreditation: await addAccreditation(did, req.body)
     });
   } catch (error) {
-    res.status(400).json({
-      error: 'Failed to batch issue credentials',
-      message: error instanceof Error ? error.message : String(error)
+    sendError(res, error, 'Failed to add accreditation', 400);
+  }
+});
+
+/**
+ * Withdraw an issuer's accreditation (admin) - credentials issued before now are unaffected
+ * POST /api/trust-registry/issuers/:did/accreditations/:accreditationId/withdraw
+ */
+router.post('/trust-registry/issuers/:did/accreditations/:accreditationId/withdraw', REGISTRY_OPERATOR, async (req: Request, res: Response) => {
+  try {
+    const { did, accreditationId } = req.params;
+    const entry = getTrustRegistryEntry(did);
+    const accreditation = entry?.accreditations.find(a => a.id === accreditationId);
+
+    if (!accreditation) {
+      return res.status(404).json({
+        error: entry ? 'Accreditation not found' : 'Issuer not found',
+        code: entry ? 'ACCREDITATION_NOT_FOUND' : 'ISSUER_NOT_FOUND',
+        did,
+        accreditationId
+      });
+    }
+
+    if (accreditation.validUntil && new Date(accreditation.validUntil) <= new Date()) {
+      return res.status(409).json({
+        error: 'Accreditation already ended',
+        code: 'ACCREDITATION_ENDED',
+        accreditation
+      });
+    }
+
+    res.json({
+      success: true,
+      accreditation: await withdrawAccreditation(did, accreditationId)
     });
+  } catch (error) {
+    sendError(res, error, 'Failed to withdraw accreditation');
   }
 });
 
 /**
- * Verify a credential
- * POST /api/credentials/verify
+ * Suspend an issuer (admin) - it cannot issue and its credentials fail verification until reinstated
+ * POST /api/trust-registry/issuers/:did/suspend
+ * Body: { reason? }
  */
-router.post('/credentials/verify', async (req: Request, res: Response) => {
+router.post('/trust-registry/issuers/:did/suspend', REGISTRY_OPERATOR, validateBody(SUSPEND_ISSUER_SCHEMA), async (req: Request, res: Response) => {
   try {
-    const credential: VerifiableCredential = req.body;
+    const { did } = req.params;
+    const entry = getTrustRegistryEntry(did);
 
-    if (!credential || !credential.id || !credential.proof) {
-      return res.status(400).json({
-        error: 'Invalid credential format'
+    if (!entry) {
+      return res.status(404).json({
+        error: 'Issuer not found',
+        code: 'ISSUER_NOT_FOUND',
+        did
       });
     }
 
-    const result = await verifyCredential(credential);
+    if (entry.status === 'suspended') {
+      return res.status(409).json({
+        error: 'Issuer already suspended',
+        code: 'ISSUER_ALREADY_SUSPENDED',
+        did
+      });
+    }
 
     res.json({
-      valid: result.valid,
-      errors: result.errors,
-      credential: {
-        id: credential.id,
-        issuer: credential.issuer.id,
-        subject: credential.credentialSubject.id,
-        issuanceDate: credential.issuanceDate,
-        expirationDate: credential.expirationDate
-      }
+      success: true,
+      trustRegistryEntry: await suspendIssuer(did, req.body?.reason)
     });
   } catch (error) {
-    res.status(400).json({
-      error: 'Failed to verify credential',
-      message: error instanceof Error ? error.message : String(error)
+    sendError(res, error, 'Failed to suspend issuer');
+  }
+});
+
+/**
+ * Reinstate a suspended issuer (admin)
+ * POST /api/trust-registry/issuers/:did/reinstate
+ */
+router.post('/trust-registry/issuers/:did/reinstate', REGISTRY_OPERATOR, async (req: Request, res: Response) => {
+  try {
+    const { did } = req.params;
+    const entry = getTrustRegistryEntry(did);
+
+    if (!entry) {
+      return res.status(404).json({
+        error: 'Issuer not found',
+        code: 'ISSUER_NOT_FOUND',
+        did
+      });
+    }
+
+    if (entry.status !== 'suspended') {
+      return res.status(409).json({
+        error: 'Issuer is not suspended',
+        code: 'ISSUER_NOT_SUSPENDED',
+        did
+      });
+    }
+
+    res.json({
+      success: true,
+      trustRegistryEntry: await reinstateIssuer(did)
     });
+  } catch (error) {
+    sendError(res, error, 'Failed to reinstate issuer');
+  }
+});
+
+/**
+ * Get all customers (for testing/admin purposes), masked for the caller
+ */
+router.get('/customers', requireScope('customers:read'), async (req: Request, res: Response) => {
+  try {
+    const profile = getMaskingProfile(req);
+    const customers = await getAllCustomers();
+    res.setHeader('PII-Masking-Profile', profile);
+    res.json(customers.map(customer => maskCustomer(customer, profile)));
+  } catch (error) {
+    sendError(res, error, 'Failed to retrieve customers');
+  }
+});
+
+/**
+ * Search customers, masked for the caller
+ * GET /api/customers/search?kycLevel=&accreditedInvestor=&entityType=&jurisdiction=&limit=&offset=
+ */
+router.get('/customers/search', requireScope('customers:read'), async (req: Request, res: Response) => {
+  try {
+    const { kycLevel, accreditedInvestor, entityType, jurisdiction, limit, offset } = req.query;
+
+    for (const [name, value] of Object.entries({ kycLevel, entityType })) {
+      const allowed = KYC_FIELD_VALUES[name as keyof CustomerKYCData] || [];
+      if (value !== undefined && !allowed.includes(String(value))) {
+        return res.status(400).json({
+          error: `Invalid ${name}: expected one of ${allowed.join(', ')}`
+        });
+      }
+    }
+
+    if (accreditedInvestor !== undefined && !['true', 'false'].includes(String(accreditedInvestor))) {
+      return res.status(400).json({
+        error: 'Invalid accreditedInvestor: expected true or false'
+      });
+    }
+
+    for (const [name, value] of Object.entries({ limit, offset })) {
+      if (value !== undefined && !/^\d+$/.test(String(value))) {
+        return res.status(400).json({
+          error: `Invalid ${name}: expected a non-negative integer`
+        });
+      }
+    }
+
+    const profile = getMaskingProfile(req);
+    const page = await searchCustomers({
+      kycLevel: kycLevel as string | undefined,
+      accreditedInvestor: accreditedInvestor === undefined ? undefined : accreditedInvestor === 'true',
+      entityType: entityType as string | undefined,
+      jurisdiction: jurisdiction as string | undefined,
+      limit: limit === undefined ? undefined : Number(limit),
+      offset: offset === undefined ? undefined : Number(offset)
+    });
+
+    res.setHeader('PII-Masking-Profile', profile);
+    res.json({ ...page, items: page.items.map(customer => maskCustomer(customer, profile)) });
+  } catch (error) {
+    sendError(res, error, 'Failed to search customers');
+  }
+});
+
+/**
+ * Get customer KYC data by ID, masked for the caller
+ */
+router.get('/customers/:kycId', requireScope('customers:read'), async (req: Request, res: Response) => {
+  try {
+    const { kycId } = req.params;
+    const customer = await getCustomerKYC(kycId);
+
+    if (!customer) {
+      return res.status(404).json({
+        error: 'Customer not found',
+        code: 'CUSTOMER_NOT_FOUND',
+        kycId
+      });
+    }
+
+    const profile = getMaskingProfile(req);
+    res.setHeader('PII-Masking-Profile', profile);
+    res.json(maskCustomer(customer, profile));
+  } catch (error) {
+    sendError(res, error, 'Failed to retrieve customer');
+  }
+});
+
+/**
+ * List the customer's credentials revoked or superseded because their KYC data changed, newest first,
+ * with the reason and any replacement (and its PII salts for the holder)
+ * GET /api/customers/:kycId/kyc-changes?action=&issuer=&limit=&offset=
+ */
+router.get('/customers/:kycId/kyc-changes', requireScope('credentials:read'), async (req: Request, res: Response) => {
+  try {
+    const { kycId } = req.params;
+    const { action, issuer, limit, offset } = req.query;
+
+    if (action !== undefined && !KYC_CHANGE_ACTIONS.includes(action as KycChangeActionType)) {
+      return res.status(400).json({
+        error: `Invalid action: expected one of ${KYC_CHANGE_ACTIONS.join(', ')}`
+      });
+    }
+
+    for (const [name, value] of Object.entries({ limit, offset })) {
+      if (value !== undefined && !/^\d+$/.test(String(value))) {
+        return res.status(400).json({
+          error: `Invalid ${name}: expected a non-negative integer`
+        });
+      }
+    }
+
+    const issuerFilter = getIssuerFilter(req, res, issuer as string | undefined);
+    if (issuerFilter === null) {
+      return;
+    }
+
+    res.json(await getKycChangeActions(kycId, {
+      action: action as KycChangeActionType | undefined,
+      issuer: issuerFilter,
+      limit: limit !== undefined ? Number(limit) : undefined,
+      offset: offset !== undefined ? Number(offset) : undefined
+    }));
+  } catch (error) {
+    sendError(res, error, 'Failed to retrieve KYC changes');
+  }
+});
+
+/**
+ * Create a customer
+ * POST /api/customers
+ * Body: CustomerKYCData
+ */
+router.post('/customers', requireScope('customers:write'), async (req: Request, res: Response) => {
+  try {
+    const validationErrors = validateCustomerKYC(req.body);
+    if (validationErrors.length > 0) {
+      return res.status(400).json({
+        error: 'Invalid customer',
+        code: 'VALIDATION_FAILED',
+        validationErrors
+      });
+    }
+
+    if (!requireWritableKycSource(res)) {
+      return;
+    }
+
+    const customer: CustomerKYCData = req.body;
+    if (await getCustomerKYC(customer.kycId)) {
+      return res.status(409).json({
+        error: 'Customer already exists',
+        code: 'CUSTOMER_ALREADY_EXISTS',
+        kycId: customer.kycId
+      });
+    }
+
+    await upsertCustomerKYC(customer, req.auth?.clientId);
+
+    const profile = getMaskingProfile(req);
+    res.setHeader('Location', `/api/customers/${encodeURIComponent(customer.kycId)}`);
+    res.setHeader('PII-Masking-Profile', profile);
+    res.status(201).json(maskCustomer(customer, profile));
+  } catch (error) {
+    sendError(res, error, 'Failed to create customer');
+  }
+});
+
+/**
+ * Replace a customer's KYC data
+ * PUT /api/customers/:kycId
+ * Body: CustomerKYCData (kycId may be left out)
+ */
+router.put('/customers/:kycId', requireScope('customers:write'), async (req: Request, res: Response) => {
+  try {
+    const { kycId } = req.params;
+    const isObject = req.body && typeof req.body === 'object' && !Array.isArray(req.body);
+    const body = isObject ? { kycId, ...req.body } : req.body;
+    const validationErrors = validateCustomerKYC(body);
+    if (body?.kycId !== kycId) {
+      validationErrors.push('Invalid kycId: must match the customer in the path');
+    }
+    if (validationErrors.length > 0) {
+      return res.status(400).json({
+        error: 'Invalid customer',
+        code: 'VALIDATION_FAILED',
+        validationErrors
+      });
+    }
+
+    if (!requireWritableKycSource(res)) {
+      return;
+    }
+
+    if (!(await getCustomerKYC(kycId))) {
+      return res.status(404).json({
+        error: 'Customer not found',
+        code: 'CUSTOMER_NOT_FOUND',
+        kycId
+      });
+    }
+
+    const customer: CustomerKYCData = body;
+    const piiSalts: Record<string, PiiSalts> = {};
+    const actions = await upsertCustomerKYC(customer, req.auth?.clientId, {
+      deliverPiiSalts: (salts, credentialId) => { piiSalts[credentialId] = salts; }
+    });
+
+    const profile = getMaskingProfile(req);
+    res.setHeader('PII-Masking-Profile', profile);
+    res.json(withReplacementPiiSalts(req, maskCustomer(customer, profile), actions, piiSalts));
+  } catch (error) {
+    sendError(res, error, 'Failed to update customer');
+  }
+});
+
+/**
+ * Update some of a customer's KYC data
+ * PATCH /api/customers/:kycId
+ * Body: the fields to change; userDid: null removes the customer's DID
+ */
+router.patch('/customers/:kycId', requireScope('customers:write'), async (req: Request, res: Response) => {
+  try {
+    const { kycId } = req.params;
+    const changes = req.body;
+    if (!changes || typeof changes !== 'object' || Array.isArray(changes)) {
+      return res.status(400).json({
+        error: 'Invalid customer',
+        code: 'VALIDATION_FAILED',
+        validationErrors: ['Changes must be a JSON object']
+      });
+    }
+
+    if (changes.kycId !== undefined && changes.kycId !== kycId) {
+      return res.status(400).json({
+        error: 'Invalid customer',
+        code: 'VALIDATION_FAILED',
+        validationErrors: ['Invalid kycId: a customer\'s KYC ID cannot be changed']
+      });
+    }
+
+    if (!requireWritableKycSource(res)) {
+      return;
+    }
+
+    const existing = await getCustomerKYC(kycId);
+    if (!existing) {
+      return res.status(404).json({
+        error: 'Customer not found',
+        code: 'CUSTOMER_NOT_FOUND',
+        kycId
+      });
+    }
+
+    const customer = { ...existing, ...changes };
+    if (changes.userDid === null) {
+      delete customer.userDid;
+    }
+    const validationErrors = validateCustomerKYC(customer);
+    if (validationErrors.length > 0) {
+      return res.status(400).json({
+        error: 'Invalid customer',
+        code: 'VALIDATION_FAILED',
+        validationErrors
+      });
+    }
+
+    const piiSalts: Record<string, PiiSalts> = {};
+    const actions = await upsertCustomerKYC(customer, req.auth?.clientId, {
+      deliverPiiSalts: (salts, credentialId) => { piiSalts[credentialId] = salts; }
+    });
+
+    const profile = getMaskingProfile(req);
+    res.setHeader('PII-Masking-Profile', profile);
+    res.json(withReplacementPiiSalts(req, maskCustomer(customer, profile), actions, piiSalts));
+  } catch (error) {
+    sendError(res, error, 'Failed to update customer');
+  }
+});
+
+/**
+ * Delete a customer
+ * DELETE /api/customers/:kycId
+ */
+router.delete('/customers/:kycId', requireScope('customers:write'), async (req: Request, res: Response) => {
+  try {
+    const { kycId } = req.params;
+
+    if (!requireWritableKycSource(res)) {
+      return;
+    }
+
+    if (!(await deleteCustomerKYC(kycId, req.auth?.clientId))) {
+      return res.status(404).json({
+        error: 'Customer not found',
+        code: 'CUSTOMER_NOT_FOUND',
+        kycId
+      });
+    }
+
+    res.status(204).end();
+  } catch (error) {
+    sendError(res, error, 'Failed to delete customer');
+  }
+});
+
+/**
+ * Issue a verifiable credential
+ * POST /api/credentials/issue
+ */
+router.post('/credentials/issue', iso20022Issuance, requireScope('issue'), validateBody(ISSUE_CREDENTIAL_SCHEMA), async (req: Request, res: Response) => {
+  try {
+    const {
+      envelope = 'none',
+      alwaysDisclosed,
+      holderPublicKey,
+      ...request
+    }: IssueCredentialRequest & { envelope?: CredentialEnvelope } & SdJwtIssueOptions = req.body;
+
+    if (!canActAsIssuer(req, request.issuerDid)) {
+      await audit(req, {
+        action: 'credential.issue',
+        issuerDid: request.issuerDid,
+        customerKycId: request.customerKycId,
+        outcome: 'failure',
+        error: 'Not authorized to issue as this issuer'
+      });
+      return res.status(403).json({
+        error: 'Not authorized to issue as this issuer',
+        code: 'ISSUER_NOT_AUTHORIZED',
+        issuerDid: request.issuerDid
+      });
+    }
+
+    const idempotencyKey = req.get('Idempotency-Key');
+    if (idempotencyKey !== undefined) {
+      try {
+        validateIdempotencyKey(idempotencyKey);
+      } catch (error) {
+        return res.status(400).json({
+          error: 'Invalid Idempotency-Key header',
+          message: error instanceof Error ? error.message : String(error)
+        });
+      }
+    }
+
+    // Issue the credential - the PII salts go to the holder with the response and are not stored
+    const issue = async (): Promise<{ statusCode: number; body: Record<string, unknown> }> => {
+      if (request.duplicatePolicy === 'reject') {
+        const duplicates = await findDuplicateCredentials(request);
+        if (duplicates.length > 0) {
+          await audit(req, {
+            action: 'credential.issue',
+            issuerDid: request.issuerDid,
+            customerKycId: request.customerKycId,
+            outcome: 'failure',
+            error: 'Subject already holds an active credential from this issuer'
+          });
+          return {
+            statusCode: 409,
+            body: {
+              error: 'Subject already holds an active credential from this issuer',
+              code: 'DUPLICATE_CREDENTIAL',
+              existingCredentialIds: duplicates.map(record => record.id)
+            }
+          };
+        }
+      }
+
+      let piiSalts: PiiSalts | undefined;
+      let credentialId: string | undefined;
+      const supersededCredentialIds: string[] = [];
+      const credential = await issueCredential(request, {
+        envelope,
+        alwaysDisclosed,
+        holderPublicKey,
+        authorizedIssuerDids: req.auth?.issuerDids,
+        deliverPiiSalts: (salts, id) => { piiSalts = salts; credentialId = id; },
+        onSuperseded: async revokedRecords => {
+          for (const record of revokedRecords) {
+            supersededCredentialIds.push(record.id);
+            await audit(req, {
+              action: 'credential.revoke',
+              issuerDid: record.issuerDid,
+              customerKycId: record.customerKycId,
+              credentialId: record.id,
+              outcome: 'success'
+            });
+          }
+        }
+      });
+
+      await audit(req, {
+        action: 'credential.issue',
+        issuerDid: request.issuerDid,
+        customerKycId: request.customerKycId,
+        credentialId,
+        outcome: 'success'
+      });
+
+      return {
+        statusCode: 201,
+        body: {
+          success: true,
+          format: { none: 'ldp_vc', jwt: 'jwt_vc', 'sd-jwt': 'vc+sd-jwt' }[envelope],
+          credential,
+          piiSalts,
+          ...(supersededCredentialIds.length > 0 && { supersededCredentialIds })
+        }
+      };
+    };
+
+    if (idempotencyKey === undefined) {
+      const { statusCode, body } = await issue();
+      return res.status(statusCode).json(body);
+    }
+
+    // With an Idempotency-Key, a retry of the same request gets the stored response back, less the PII salts
+    const outcome = await runIdempotent(
+      req.auth?.clientId || 'anonymous',
+      idempotencyKey,
+      req.body,
+      issue,
+      ({ statusCode, body: { piiSalts: _piiSalts, ...body } }) => ({ statusCode, body })
+    );
+    if (outcome.status === 'conflict') {
+      return res.status(409).json({
+        error: 'Idempotency-Key already used for a different request',
+        code: 'IDEMPOTENCY_KEY_REUSED',
+        idempotencyKey
+      });
+    }
+    if (outcome.status === 'in-progress') {
+      return res.status(409).json({
+        error: 'A request with this Idempotency-Key is still in progress',
+        code: 'IDEMPOTENCY_KEY_IN_PROGRESS',
+        idempotencyKey
+      });
+    }
+    if (outcome.status === 'replayed') {
+      res.setHeader('Idempotent-Replayed', 'true');
+    }
+    res.status(outcome.result.statusCode).json(outcome.result.body);
+  } catch (error) {
+    await audit(req, {
+      action: 'credential.issue',
+      issuerDid: req.body?.issuerDid,
+      customerKycId: req.body?.customerKycId,
+      outcome: 'failure',
+      error: error instanceof Error ? error.message : String(error)
+    });
+    sendError(res, error, 'Failed to issue credential', 400);
+  }
+});
+
+/**
+ * Batch issue credentials
+ * POST /api/credentials/batch-issue
+ */
+router.post('/credentials/batch-issue', requireScope('issue'), validateBody(BATCH_ISSUE_CREDENTIALS_SCHEMA), async (req: Request, res: Response) => {
+  try {
+    const requests: BatchIssueCredentialRequest[] = req.body.requests;
+
+    const piiSalts: Record<string, PiiSalts> = {};
+    const supersededCredentialIds: string[] = [];
+    const result = await batchIssueCredentials(requests, {
+      clientId: req.auth?.clientId || 'anonymous',
+      authorizedIssuerDids: req.auth?.issuerDids,
+      deliverPiiSalts: (salts, credentialId) => { piiSalts[credentialId] = salts; },
+      onSuperseded: async revokedRecords => {
+        for (const record of revokedRecords) {
+          supersededCredentialIds.push(record.id);
+          await audit(req, {
+            action: 'credential.revoke',
+            issuerDid: record.issuerDid,
+            customerKycId: record.customerKycId,
+            credentialId: record.id,
+            outcome: 'success'
+          });
+        }
+      }
+    });
+
+    // Successful credentials are in the order of the requests that did not fail; replays were audited when first issued
+    const issuedRequests = requests.filter(request => !result.failed.some(failure => failure.request === request));
+    for (const [index, credential] of result.successful.entries()) {
+      if (result.replayed.includes(credential.id)) {
+        continue;
+      }
+      await audit(req, {
+        action: 'credential.batch-issue',
+        issuerDid: credential.issuer.id,
+        customerKycId: issuedRequests[index]?.customerKycId,
+        credentialId: credential.id,
+        outcome: 'success'
+      });
+    }
+    for (const failure of result.failed) {
+      await audit(req, {
+        action: 'credential.batch-issue',
+        issuerDid: failure.request?.issuerDid,
+        customerKycId: failure.request?.customerKycId,
+        outcome: 'failure',
+        error: failure.error
+      });
+    }
+
+    res.status(200).json({
+      success: true,
+      totalRequests: requests.length,
+      successful: result.successful.length,
+      failed: result.failed.length,
+      credentials: result.successful,
+      piiSalts,
+      replayed: result.replayed,
+      supersededCredentialIds,
+      errors: result.failed
+    });
+  } catch (error) {
+    sendError(res, error, 'Failed to batch issue credentials', 400);
+  }
+});
+
+/**
+ * Verify a credential
+ * POST /api/credentials/verify
+ * Accepts a JSON-LD credential (bare or as { "credential": ... }), a JWT-VC as { "jwt": "..." }, an SD-JWT VC
+ * presentation as { "sdJwt": "...", "audience"?: "...", "nonce"?: "..." } - audience and nonce are required
+ * for holder-bound SD-JWTs - or a raw application/jwt or application/vc+sd-jwt body. JSON bodies may add a "policy" evaluated rule by rule against the credential.
+ */
+router.post('/credentials/verify', iso20022Verification, requireScope('verify'), validateBody(VERIFY_CREDENTIAL_SCHEMA), async (req: Request, res: Response) => {
+  try {
+    const raw = typeof req.body === 'string' ? req.body.trim() : undefined;
+    const policy: VerificationPolicy | undefined = raw === undefined ? req.body?.policy : undefined;
+
+    const sdJwt = raw !== undefined && isSdJwt(raw) ? raw : req.body?.sdJwt;
+    if (sdJwt !== undefined) {
+      if (!isSdJwt(sdJwt)) {
+        return res.status(400).json({
+          error: 'Invalid SD-JWT format'
+        });
+      }
+
+      const result = await verifySdJwtCredential(sdJwt, {
+        audience: req.body?.audience,
+        nonce: req.body?.nonce
+      });
+      const { payload } = decodeJwt(sdJwt.split('~')[0]);
+      await auditVerification(req, 'credential.verify', {
+        issuerDid: typeof payload.iss === 'string' ? payload.iss : null,
+        credentialId: typeof payload.jti === 'string' ? payload.jti : null
+      }, result);
+
+      return res.json({
+        valid: result.valid,
+        revoked: result.revoked,
+        weakProof: result.weakProof,
+        errors: result.errors,
+        warnings: result.warnings,
+        format: 'vc+sd-jwt',
+        keyBound: result.keyBound,
+        disclosedClaims: result.disclosedClaims,
+        ...(policy && {
+          policy: evaluateVerificationPolicy(policy, getSdJwtPolicySubject(sdJwt, result.disclosedClaims))
+        })
+      });
+    }
+
+    const jwt = raw !== undefined ? raw : req.body?.jwt;
+    if (jwt !== undefined) {
+      if (!isCompactJws(jwt)) {
+        return res.status(400).json({
+          error: 'Invalid JWT format'
+        });
+      }
+
+      const result = await verifyJwtCredential(jwt);
+      await auditVerification(req, 'credential.verify', {
+        issuerDid: result.credential?.issuer?.id,
+        credentialId: result.credential?.id
+      }, result);
+
+      return res.json({
+        valid: result.valid,
+        revoked: result.revoked,
+        weakProof: result.weakProof,
+        errors: result.errors,
+        warnings: result.warnings,
+        format: 'jwt_vc',
+        credential: result.credential && {
+          id: result.credential.id,
+          issuer: result.credential.issuer?.id,
+          subject: result.credential.credentialSubject?.id
+        },
+        ...(policy && {
+          policy: result.credential
+            ? evaluateVerificationPolicy(policy, getCredentialPolicySubject(result.credential))
+            : null
+        })
+      });
+    }
+
+    const credential: VerifiableCredential = req.body?.credential || req.body;
+
+    if (!credential || !credential.id || !credential.proof) {
+      return res.status(400).json({
+        error: 'Invalid credential format'
+      });
+    }
+
+    const result = await verifyCredential(credential);
+    await auditVerification(req, 'credential.verify', {
+      issuerDid: credential.issuer?.id,
+      credentialId: credential.id
+    }, result);
+
+    res.json({
+      valid: result.valid,
+      revoked: result.revoked,
+      weakProof: result.weakProof,
+      errors: result.errors,
+      warnings: result.warnings,
+      format: 'ldp_vc',
+      credential: {
+        id: credential.id,
+        issuer: credential.issuer.id,
+        subject: credential.credentialSubject.id,
+        dataModelVersion: getDataModelVersion(credential),
+        validFrom: getValidFrom(credential),
+        validUntil: getValidUntil(credential)
+      },
+      ...(policy && {
+        policy: evaluateVerificationPolicy(policy, getCredentialPolicySubject(credential))
+      })
+    });
+  } catch (error) {
+    sendError(res, error, 'Failed to verify credential', 400);
+  }
+});
+
+/**
+ * Check PII disclosed by a holder against the salted commitment in a credential
+ * POST /api/credentials/verify-pii
+ * Body: { credential | credentialId, field, value, salt }
+ */
+router.post('/credentials/verify-pii', requireScope('verify'), validateBody(VERIFY_PII_SCHEMA), async (req: Request, res: Response) => {
+  try {
+    const { credentialId, field, value, salt } = req.body;
+    let { credential }: { credential?: VerifiableCredential } = req.body;
+
+    if (!credential) {
+      const record = await getCredentialRepository().findById(credentialId);
+      if (!record) {
+        return res.status(404).json({
+          error: 'Credential not found',
+          code: 'CREDENTIAL_NOT_FOUND',
+          id: credentialId
+        });
+      }
+      credential = record.credential;
+    }
+
+    // The commitment is only meaningful if the credential itself verifies
+    const result = await verifyCredential(credential);
+
+    res.json({
+      match: result.valid && matchPiiCommitment(credential, field, value, salt),
+      field,
+      credentialId: credential.id,
+      credentialValid: result.valid,
+      revoked: result.revoked,
+      errors: result.errors
+    });
+  } catch (error) {
+    sendError(res, error, 'Failed to verify PII', 400);
+  }
+});
+
+/**
+ * List issued credentials
+ * GET /api/credentials?subject=&issuer=&status=&issuedAfter=&issuedBefore=&limit=&offset=
+ */
+router.get('/credentials', requireScope('credentials:read'), async (req: Request, res: Response) => {
+  try {
+    const { subject, issuer, status, issuedAfter, issuedBefore, limit, offset } = req.query;
+
+    if (status !== undefined && !CREDENTIAL_STATUSES.includes(status as CredentialRecordStatus)) {
+      return res.status(400).json({
+        error: `Invalid status: expected one of ${CREDENTIAL_STATUSES.join(', ')}`
+      });
+    }
+
+    for (const [name, value] of Object.entries({ issuedAfter, issuedBefore })) {
+      if (value !== undefined && isNaN(Date.parse(String(value)))) {
+        return res.status(400).json({
+          error: `Invalid date for ${name}`
+        });
+      }
+    }
+
+    for (const [name, value] of Object.entries({ limit, offset })) {
+      if (value !== undefined && !/^\d+$/.test(String(value))) {
+        return res.status(400).json({
+          error: `Invalid ${name}: expected a non-negative integer`
+        });
+      }
+    }
+
+    const issuerFilter = getIssuerFilter(req, res, issuer as string | undefined);
+    if (issuerFilter === null) {
+      return;
+    }
+
+    const query: CredentialQuery = {
+      subject: subject as string | undefined,
+      issuer: issuerFilter,
+      status: status as CredentialRecordStatus | undefined,
+      issuedAfter: issuedAfter as string | undefined,
+      issuedBefore: issuedBefore as string | undefined,
+      limit: limit !== undefined ? Number(limit) : undefined,
+      offset: offset !== undefined ? Number(offset) : undefined
+    };
+
+    const result = await getCredentialRepository().find(query);
+    res.json({
+      ...result,
+      items: result.items.map(record => ({ ...record, status: getRecordStatus(record) }))
+    });
+  } catch (error) {
+    sendError(res, error, 'Failed to retrieve credentials');
+  }
+});
+
+/**
+ * Get a signed StatusList2021 credential
+ * GET /api/credentials/status/:listId
+ */
+router.get('/credentials/status/:listId', async (req: Request, res: Response) => {
+  try {
+    const { listId } = req.params;
+    const statusListCredential = await getStatusListCredential(listId);
+
+    if (!statusListCredential) {
+      return res.status(404).json({
+        error: 'Status list not found',
+        code: 'STATUS_LIST_NOT_FOUND',
+        listId
+      });
+    }
+
+    res.json(statusListCredential);
+  } catch (error) {
+    sendError(res, error, 'Failed to retrieve status list');
+  }
+});
+
+/**
+ * Get an issued credential by ID
+ * GET /api/credentials/:id
+ */
+router.get('/credentials/:id', requireScope('credentials:read'), async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const record = await getCredentialRepository().findById(id);
+
+    if (!record) {
+      return res.status(404).json({
+        error: 'Credential not found',
+        code: 'CREDENTIAL_NOT_FOUND',
+        id
+      });
+    }
+
+    if (!canActAsIssuer(req, record.issuerDid)) {
+      return res.status(403).json({
+        error: 'Not authorized for the issuer of this credential',
+        code: 'ISSUER_NOT_AUTHORIZED',
+        id
+      });
+    }
+
+    // Links to the credential it replaced or was replaced by after a KYC change
+    const kycChanges = await getCredentialKycChanges(id);
+    const change = kycChanges.find(action => action.credentialId === id);
+    res.json({
+      ...record,
+      status: getRecordStatus(record),
+      supersedes: kycChanges.find(action => action.replacementCredentialId === id)?.credentialId ?? null,
+      supersededBy: change?.replacementCredentialId ?? null,
+      kycChangeReason: change?.reason ?? null
+    });
+  } catch (error) {
+    sendError(res, error, 'Failed to retrieve credential');
+  }
+});
+
+/**
+ * Revoke an issued credential
+ * POST /api/credentials/:id/revoke
+ */
+router.post('/credentials/:id/revoke', requireScope('revoke'), async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const record = await getCredentialRepository().findById(id);
+
+    if (!record) {
+      return res.status(404).json({
+        error: 'Credential not found',
+        code: 'CREDENTIAL_NOT_FOUND',
+        id
+      });
+    }
+
+    if (!canActAsIssuer(req, record.issuerDid)) {
+      return res.status(403).json({
+        error: 'Not authorized for the issuer of this credential',
+        code: 'ISSUER_NOT_AUTHORIZED',
+        id
+      });
+    }
+
+    if (record.revokedAt !== null) {
+      await audit(req, {
+        action: 'credential.revoke',
+        issuerDid: record.issuerDid,
+        customerKycId: record.customerKycId,
+        credentialId: id,
+        outcome: 'failure',
+        error: 'Credential already revoked'
+      });
+      return res.status(409).json({
+        error: 'Credential already revoked',
+        code: 'CREDENTIAL_ALREADY_REVOKED',
+        id,
+        revokedAt: record.revokedAt
+      });
+    }
+
+    const revokedRecord = await revokeCredential(id);
+    await audit(req, {
+      action: 'credential.revoke',
+      issuerDid: revokedRecord.issuerDid,
+      customerKycId: revokedRecord.customerKycId,
+      credentialId: id,
+      outcome: 'success'
+    });
+
+    res.json({
+      success: true,
+      id: revokedRecord.id,
+      revokedAt: revokedRecord.revokedAt,
+      credentialStatus: revokedRecord.credential.credentialStatus
+    });
+  } catch (error) {
+    await audit(req, {
+      action: 'credential.revoke',
+      credentialId: req.params.id,
+      outcome: 'failure',
+      error: error instanceof Error ? error.message : String(error)
+    });
+    sendError(res, error, 'Failed to revoke credential', 400);
+  }
+});
+
+/**
+ * Issue a single-use presentation challenge
+ * POST /api/presentations/challenge
+ */
+router.post('/presentations/challenge', requireScope('verify'), validateBody(PRESENTATION_CHALLENGE_SCHEMA), (req: Request, res: Response) => {
+  try {
+    const { domain } = req.body;
+
+    res.status(201).json(createChallenge(domain, undefined, req.auth?.clientId));
+  } catch (error) {
+    sendError(res, error, 'Failed to create challenge');
+  }
+});
+
+/**
+ * Verify a presentation
+ * POST /api/presentations/verify
+ */
+router.post('/presentations/verify', requireScope('verify'), validateBody(PRESENTATION_SCHEMA), async (req: Request, res: Response) => {
+  try {
+    const presentation: VerifiablePresentation = req.body;
+
+    const result = await verifyPresentation(presentation, { clientId: req.auth?.clientId });
+    for (const credentialResult of result.credentials) {
+      const credential = presentation.verifiableCredential?.find(vc => vc.id === credentialResult.id);
+      await auditVerification(req, 'presentation.verify', {
+        issuerDid: credential?.issuer?.id,
+        credentialId: credentialResult.id
+      }, {
+        valid: result.valid && credentialResult.valid,
+        errors: result.valid ? credentialResult.errors : result.errors
+      });
+    }
+    res.json(result);
+  } catch (error) {
+    sendError(res, error, 'Failed to verify presentation', 400);
+  }
+});
+
+/**
+ * Create an OID4VCI credential offer for a KYC record (bank-facing)
+ * POST /api/oid4vci/offers
+ * Body: { issuerDid, customerKycId, jurisdiction, kycLevel?, accreditedInvestor?, expiryDays?,
+ *         dataModelVersion?, credentialConfigurationIds?, txCode? }
+ */
+router.post('/oid4vci/offers', requireScope('issue'), validateBody(CREDENTIAL_OFFER_REQUEST_SCHEMA), async (req: Request, res: Response) => {
+  try {
+    const request: CreateCredentialOfferRequest = req.body;
+
+    if (!canActAsIssuer(req, request.issuerDid)) {
+      return res.status(403).json({
+        error: 'Not authorized to issue as this issuer',
+        code: 'ISSUER_NOT_AUTHORIZED',
+        issuerDid: request.issuerDid
+      });
+    }
+
+    const offer = await createCredentialOffer(
+      request,
+      getCredentialIssuerUrl(getPublicBaseUrl(req), request.issuerDid)
+    );
+
+    res.status(201).json(offer);
+  } catch (error) {
+    sendError(res, error, 'Failed to create credential offer', 400);
+  }
+});
+
+/**
+ * OID4VCI token endpoint (pre-authorized code grant)
+ * POST /api/oid4vci/:did/token
+ * Body (form or JSON): grant_type, pre-authorized_code, tx_code?
+ */
+router.post('/oid4vci/:did/token', oauthErrors, (req: Request, res: Response) => {
+  try {
+    const result = exchangePreAuthorizedCode(req.params.did, req.body || {});
+
+    res.set('Cache-Control', 'no-store');
+    if (isOid4vciError(result)) {
+      return res.status(400).json(result);
+    }
+    res.json(result);
+  } catch (error) {
+    res.status(500).json({
+      error: 'server_error',
+      error_description: error instanceof Error ? error.message : String(error)
+    });
+  }
+});
+
+/**
+ * OID4VCI credential endpoint
+ * POST /api/oid4vci/:did/credential
+ * Headers: Authorization: Bearer <access_token>
+ * Body: { credential_configuration_id | format, proof: { proof_type: 'jwt', jwt } }
+ */
+router.post('/oid4vci/:did/credential', oauthErrors, async (req: Request, res: Response) => {
+  try {
+    const { did } = req.params;
+    const authorization = req.headers.authorization || '';
+    const accessToken = authorization.startsWith('Bearer ') ? authorization.slice('Bearer '.length) : undefined;
+
+    const result = await issueCredentialToWallet(
+      did,
+      accessToken,
+      req.body || {},
+      getCredentialIssuerUrl(getPublicBaseUrl(req), did)
+    );
+
+    res.set('Cache-Control', 'no-store');
+    if (isOid4vciError(result)) {
+      return res.status(result.error === 'invalid_token' ? 401 : 400).json(result);
+    }
+    res.json(result);
+  } catch (error) {
+    res.status(400).json({
+      error: 'invalid_credential_request',
+      error_description: error instanceof Error ? error.message : String(error)
+    });
+  }
+});
+
+/**
+ * Build a presentation definition from KYC requirements
+ * POST /api/presentation-definitions
+ * Body: { name?, purpose?, minKycLevel?, accreditedInvestor?, jurisdictions?, minTier?, screeningsPassed?,
+ *         trustedIssuers?, limitDisclosure? }
+ */
+router.post('/presentation-definitions', requireScope('verify'), validateBody(KYC_PRESENTATION_REQUIREMENTS_SCHEMA), (req: Request, res: Response) => {
+  try {
+    const requirements: KycPresentationRequirements = req.body || {};
+
+    res.status(201).json(buildKycPresentationDefinition(requirements));
+  } catch (error) {
+    sendError(res, error, 'Failed to build presentation definition', 400);
+  }
+});
+
+/**
+ * Create an OID4VP authorization request for a wallet
+ * POST /api/oid4vp/requests
+ * Body: { presentationDefinition } or { requirements } (see /presentation-definitions)
+ */
+router.post('/oid4vp/requests', requireScope('verify'), validateBody(AUTHORIZATION_REQUEST_SCHEMA), (req: Request, res: Response) => {
+  try {
+    const { presentationDefinition, requirements } = req.body as {
+      presentationDefinition?: PresentationDefinition;
+      requirements?: KycPresentationRequirements;
+    };
+
+    const result = createAuthorizationRequest({
+      presentationDefinition: presentationDefinition || buildKycPresentationDefinition(requirements),
+      responseUri: `${getPublicBaseUrl(req)}/api/oid4vp/responses`,
+      apiClientId: req.auth?.clientId
+    });
+
+    res.status(201).json(result);
+  } catch (error) {
+    sendError(res, error, 'Failed to create authorization request', 400);
+  }
+});
+
+/**
+ * Get the status of an OID4VP authorization request and the evaluation of the wallet's response - only the
+ * client that created the request can read it
+ * GET /api/oid4vp/requests/:state
+ */
+router.get('/oid4vp/requests/:state', requireScope('verify'), (req: Request, res: Response) => {
+  const requestState = getAuthorizationRequestState(req.params.state, req.auth?.clientId);
+
+  if (!requestState) {
+    return res.status(404).json({
+      error: 'Authorization request not found',
+      code: 'AUTHORIZATION_REQUEST_NOT_FOUND'
+    });
+  }
+
+  res.json(requestState);
+});
+
+/**
+ * OID4VP response endpoint (direct_post)
+ * POST /api/oid4vp/responses
+ * Body (form or JSON): vp_token, presentation_submission, state
+ */
+router.post('/oid4vp/responses', oauthErrors, async (req: Request, res: Response) => {
+  try {
+    const result = await handleAuthorizationResponse(req.body || {});
+
+    res.set('Cache-Control', 'no-store');
+    if (isOid4vpError(result)) {
+      return res.status(400).json(result);
+    }
+    for (const descriptor of result.descriptors) {
+      await audit(req, {
+        action: 'presentation.verify',
+        actor: result.holder || 'wallet',
+        credentialId: descriptor.credentialId,
+        outcome: descriptor.satisfied ? 'success' : 'failure',
+        error: descriptor.satisfied ? null : descriptor.errors.join('; ')
+      });
+    }
+    res.json({});
+  } catch (error) {
+    res.status(500).json({
+      error: 'server_error',
+      error_description: error instanceof Error ? error.message : String(error)
+    });
+  }
+});
+
+/**
+ * Submit a bulk issuance job
+ * POST /api/jobs/issuance
+ * The body is a JSON array of credential requests (or { "requests": [...] }), NDJSON (application/x-ndjson)
+ * or CSV (text/csv) with a header row. Returns 202 and the job to poll
+ */
+router.post('/jobs/issuance', requireScope('issue'), parseJobUpload, async (req: Request, res: Response) => {
+  try {
+    const contentType = (req.get('Content-Type') || '').split(';')[0].trim().toLowerCase();
+    const format = JOB_UPLOAD_TYPES[contentType];
+    if (!format) {
+      return res.status(415).json({
+        error: 'Unsupported upload type',
+        supported: Object.keys(JOB_UPLOAD_TYPES)
+      });
+    }
+
+    let rows: ParsedIssuanceRow[];
+    try {
+      rows = parseIssuanceUpload(req.body, format);
+    } catch (error) {
+      return res.status(400).json({
+        error: 'Invalid upload',
+        message: error instanceof Error ? error.message : String(error)
+      });
+    }
+
+    const job = await createIssuanceJob(rows, {
+      clientId: req.auth?.clientId || 'anonymous',
+      authorizedIssuerDids: req.auth?.issuerDids || []
+    });
+
+    res.setHeader('Location', `/api/jobs/${job.id}`);
+    res.status(202).json({
+      success: true,
+      job: describeIssuanceJob(job)
+    });
+  } catch (error) {
+    sendError(res, error, 'Failed to create issuance job', 400);
+  }
+});
+
+/**
+ * Get a job's progress and its failed rows
+ * GET /api/jobs/:id?limit=&offset= (pagination of the failed rows)
+ */
+router.get('/jobs/:id', requireScope('issue'), async (req: Request, res: Response) => {
+  try {
+    const { limit, offset } = req.query;
+    for (const [name, value] of Object.entries({ limit, offset })) {
+      if (value !== undefined && !/^\d+$/.test(String(value))) {
+        return res.status(400).json({
+          error: `Invalid ${name}: expected a non-negative integer`
+        });
+      }
+    }
+
+    const job = await getOwnedIssuanceJob(req, res);
+    if (!job) {
+      return;
+    }
+
+    const failedRows = await getIssuanceJobStore().getRows(job.id, {
+      status: 'failed',
+      limit: limit !== undefined ? Number(limit) : undefined,
+      offset: offset !== undefined ? Number(offset) : undefined
+    });
+
+    res.json({
+      job: describeIssuanceJob(job),
+      errors: {
+        ...failedRows,
+        items: failedRows.items.map(row => ({
+          index: row.index,
+          customerKycId: row.request?.customerKycId ?? null,
+          issuerDid: row.request?.issuerDid ?? null,
+          error: row.error
+        }))
+      }
+    });
+  } catch (error) {
+    sendError(res, error, 'Failed to retrieve issuance job');
+  }
+});
+
+/**
+ * Download a job's rows as NDJSON, in upload order - issued credentials with their PII salts, and errors.
+ * Salts are handed out once: the first download of a row clears them from the store
+ * GET /api/jobs/:id/results?status=
+ */
+router.get('/jobs/:id/results', requireScope('issue'), async (req: Request, res: Response) => {
+  try {
+    const status = req.query.status as IssuanceJobRowStatus | undefined;
+    if (status !== undefined && !JOB_ROW_STATUSES.includes(status)) {
+      return res.status(400).json({
+        error: `Invalid status: expected one of ${JOB_ROW_STATUSES.join(', ')}`
+      });
+    }
+
+    const job = await getOwnedIssuanceJob(req, res);
+    if (!job) {
+      return;
+    }
+
+    res.setHeader('Content-Type', 'application/x-ndjson');
+    res.setHeader('Content-Disposition', `attachment; filename="issuance-job-${job.id}.ndjson"`);
+    const store = getIssuanceJobStore();
+    for (let offset = 0; ; offset += MAX_PAGE_SIZE) {
+      const page = await store.getRows(job.id, { status, limit: MAX_PAGE_SIZE, offset });
+      for (const row of page.items) {
+        res.write(JSON.stringify({
+          index: row.index,
+          status: row.status,
+          customerKycId: row.request?.customerKycId ?? null,
+          issuerDid: row.request?.issuerDid ?? null,
+          credentialId: row.credentialId,
+          credential: row.credential,
+          piiSalts: row.piiSalts,
+          error: row.error
+        }) + '\n');
+      }
+      await store.saveRows(page.items
+        .filter(row => row.piiSalts)
+        .map(row => ({ ...row, piiSalts: null })));
+      if (offset + MAX_PAGE_SIZE >= page.total) {
+        break;
+      }
+    }
+    res.end();
+  } catch (error) {
+    if (res.headersSent) {
+      return res.end();
+    }
+    sendError(res, error, 'Failed to retrieve issuance job results');
+  }
+});
+
+/**
+ * Cancel a queued or running job - rows already issued stay issued
+ * POST /api/jobs/:id/cancel
+ */
+router.post('/jobs/:id/cancel', requireScope('issue'), async (req: Request, res: Response) => {
+  try {
+    const job = await getOwnedIssuanceJob(req, res);
+    if (!job) {
+      return;
+    }
+
+    if (job.status !== 'queued' && job.status !== 'running') {
+      return res.status(409).json({
+        error: `Issuance job is already ${job.status}`,
+        code: 'ISSUANCE_JOB_STATE_CONFLICT',
+        id: job.id
+      });
+    }
+
+    res.json({
+      success: true,
+      job: describeIssuanceJob(await cancelIssuanceJob(job.id))
+    });
+  } catch (error) {
+    sendError(res, error, 'Failed to cancel issuance job', 400);
+  }
+});
+
+/**
+ * Resume a cancelled job with the rows it had not issued
+ * POST /api/jobs/:id/resume
+ */
+router.post('/jobs/:id/resume', requireScope('issue'), async (req: Request, res: Response) => {
+  try {
+    const job = await getOwnedIssuanceJob(req, res);
+    if (!job) {
+      return;
+    }
+
+    if (job.status !== 'cancelled') {
+      return res.status(409).json({
+        error: `Only cancelled jobs can be resumed, this one is ${job.status}`,
+        code: 'ISSUANCE_JOB_STATE_CONFLICT',
+        id: job.id
+      });
+    }
+
+    res.json({
+      success: true,
+      job: describeIssuanceJob(await resumeIssuanceJob(job.id))
+    });
+  } catch (error) {
+    sendError(res, error, 'Failed to resume issuance job', 400);
+  }
+});
+
+/**
+ * Subscribe to webhook events - credential events are limited to the caller's issuers, batches to its own.
+ * The response is the only time the signing secret is returned
+ * POST /api/webhooks/subscriptions
+ */
+router.post('/webhooks/subscriptions', requireScope('webhooks'), validateBody(WEBHOOK_SUBSCRIPTION_SCHEMA), async (req: Request, res: Response) => {
+  try {
+    const subscription = await createWebhookSubscription(req.body, {
+      clientId: req.auth?.clientId || 'anonymous',
+      issuerDids: req.auth?.issuerDids || []
+    });
+
+    res.setHeader('Location', `/api/webhooks/subscriptions/${subscription.id}`);
+    res.status(201).json({
+      success: true,
+      subscription
+    });
+  } catch (error) {
+    sendError(res, error, 'Failed to create webhook subscription');
+  }
+});
+
+/**
+ * List the caller's webhook subscriptions
+ * GET /api/webhooks/subscriptions
+ */
+router.get('/webhooks/subscriptions', requireScope('webhooks'), async (req: Request, res: Response) => {
+  try {
+    const subscriptions = await listWebhookSubscriptions(req.auth?.clientId || 'anonymous');
+    res.json({
+      subscriptions: subscriptions.map(describeWebhookSubscription),
+      total: subscriptions.length
+    });
+  } catch (error) {
+    sendError(res, error, 'Failed to retrieve webhook subscriptions');
+  }
+});
+
+/**
+ * Get a webhook subscription
+ * GET /api/webhooks/subscriptions/:id
+ */
+router.get('/webhooks/subscriptions/:id', requireScope('webhooks'), async (req: Request, res: Response) => {
+  try {
+    const subscription = await getOwnedWebhookSubscription(req, res);
+    if (!subscription) {
+      return;
+    }
+    res.json(describeWebhookSubscription(subscription));
+  } catch (error) {
+    sendError(res, error, 'Failed to retrieve webhook subscription');
+  }
+});
+
+/**
+ * Delete a webhook subscription - deliveries still being retried become dead letters
+ * DELETE /api/webhooks/subscriptions/:id
+ */
+router.delete('/webhooks/subscriptions/:id', requireScope('webhooks'), async (req: Request, res: Response) => {
+  try {
+    const subscription = await getOwnedWebhookSubscription(req, res);
+    if (!subscription) {
+      return;
+    }
+    await deleteWebhookSubscription(subscription.id);
+    res.json({
+      success: true,
+      id: subscription.id
+    });
+  } catch (error) {
+    sendError(res, error, 'Failed to delete webhook subscription');
+  }
+});
+
+/**
+ * The caller's delivery log, newest first - status=dead_letter lists the deliveries given up on
+ * GET /api/webhooks/deliveries?subscriptionId=&eventType=&credentialId=&status=&limit=&offset=
+ */
+router.get('/webhooks/deliveries', requireScope('webhooks'), async (req: Request, res: Response) => {
+  try {
+    const { subscriptionId, eventType, credentialId, status, limit, offset } = req.query;
+
+    if (eventType !== undefined && !WEBHOOK_EVENT_TYPES.includes(eventType as WebhookEventType)) {
+      return res.status(400).json({
+        error: `Invalid eventType: expected one of ${WEBHOOK_EVENT_TYPES.join(', ')}`
+      });
+    }
+
+    if (status !== undefined && !WEBHOOK_DELIVERY_STATUSES.includes(status as WebhookDeliveryStatus)) {
+      return res.status(400).json({
+        error: `Invalid status: expected one of ${WEBHOOK_DELIVERY_STATUSES.join(', ')}`
+      });
+    }
+
+    for (const [name, value] of Object.entries({ limit, offset })) {
+      if (value !== undefined && !/^\d+$/.test(String(value))) {
+        return res.status(400).json({
+          error: `Invalid ${name}: expected a non-negative integer`
+        });
+      }
+    }
+
+    res.json(await getWebhookDeliveries({
+      clientId: req.auth?.clientId || 'anonymous',
+      subscriptionId: subscriptionId as string | undefined,
+      eventType: eventType as WebhookEventType | undefined,
+      credentialId: credentialId as string | undefined,
+      status: status as WebhookDeliveryStatus | undefined,
+      limit: limit !== undefined ? Number(limit) : undefined,
+      offset: offset !== undefined ? Number(offset) : undefined
+    }));
+  } catch (error) {
+    sendError(res, error, 'Failed to retrieve webhook deliveries');
+  }
+});
+
+/**
+ * Get a delivery with its event and last attempt
+ * GET /api/webhooks/deliveries/:id
+ */
+router.get('/webhooks/deliveries/:id', requireScope('webhooks'), async (req: Request, res: Response) => {
+  try {
+    const delivery = await getWebhookDelivery(req.params.id);
+    if (!delivery || delivery.clientId !== req.auth?.clientId) {
+      return res.status(404).json({
+        error: 'Webhook delivery not found',
+        code: 'WEBHOOK_DELIVERY_NOT_FOUND',
+        id: req.params.id
+      });
+    }
+    res.json(delivery);
+  } catch (error) {
+    sendError(res, error, 'Failed to retrieve webhook delivery');
+  }
+});
+
+/**
+ * Send a delivery's event again, as a new delivery to the subscription's current URL. Returns 202 and the
+ * new delivery to poll
+ * POST /api/webhooks/deliveries/:id/replay
+ */
+router.post('/webhooks/deliveries/:id/replay', requireScope('webhooks'), async (req: Request, res: Response) => {
+  try {
+    const delivery = await getWebhookDelivery(req.params.id);
+    if (!delivery || delivery.clientId !== req.auth?.clientId) {
+      return res.status(404).json({
+        error: 'Webhook delivery not found',
+        code: 'WEBHOOK_DELIVERY_NOT_FOUND',
+        id: req.params.id
+      });
+    }
+
+    const replay = await replayWebhookDelivery(delivery.id);
+    res.setHeader('Location', `/api/webhooks/deliveries/${replay.id}`);
+    res.status(202).json({
+      success: true,
+      delivery: replay
+    });
+  } catch (error) {
+    sendError(res, error, 'Failed to replay webhook delivery');
+  }
+});
+
+/**
+ * Query the audit log, newest first
+ * GET /api/audit?action=&actor=&issuer=&customerKycId=&credentialId=&outcome=&from=&to=&limit=&offset=
+ */
+router.get('/audit', requireScope('audit:read'), async (req: Request, res: Response) => {
+  try {
+    const { action, actor, issuer, customerKycId, credentialId, outcome, from, to, limit, offset } = req.query;
+
+    if (action !== undefined && !AUDIT_ACTIONS.includes(action as AuditAction)) {
+      return res.status(400).json({
+        error: `Invalid action: expected one of ${AUDIT_ACTIONS.join(', ')}`
+      });
+    }
+
+    if (outcome !== undefined && !AUDIT_OUTCOMES.includes(outcome as AuditOutcome)) {
+      return res.status(400).json({
+        error: `Invalid outcome: expected one of ${AUDIT_OUTCOMES.join(', ')}`
+      });
+    }
+
+    for (const [name, value] of Object.entries({ from, to })) {
+      if (value !== undefined && isNaN(Date.parse(String(value)))) {
+        return res.status(400).json({
+          error: `Invalid date for ${name}`
+        });
+      }
+    }
+
+    for (const [name, value] of Object.entries({ limit, offset })) {
+      if (value !== undefined && !/^\d+$/.test(String(value))) {
+        return res.status(400).json({
+          error: `Invalid ${name}: expected a non-negative integer`
+        });
+      }
+    }
+
+    const issuerFilter = getIssuerFilter(req, res, issuer as string | undefined);
+    if (issuerFilter === null) {
+      return;
+    }
+
+    const query: AuditQuery = {
+      action: action as AuditAction | undefined,
+      actor: actor as string | undefined,
+      issuer: issuerFilter,
+      customerKycId: customerKycId as string | undefined,
+      credentialId: credentialId as string | undefined,
+      outcome: outcome as AuditOutcome | undefined,
+      from: from as string | undefined,
+      to: to as string | undefined,
+      limit: limit !== undefined ? Number(limit) : undefined,
+      offset: offset !== undefined ? Number(offset) : undefined
+    };
+
+    res.json(await findAuditEntries(query));
+  } catch (error) {
+    sendError(res, error, 'Failed to retrieve audit entries');
+  }
+});
+
+/**
+ * Check the integrity of the whole audit log - the hash chain and every signed checkpoint
+ * GET /api/audit/verify
+ */
+router.get('/audit/verify', requireScope('audit:read'), async (req: Request, res: Response) => {
+  try {
+    const auditLogDid = await getAuditLogDid();
+    res.json({
+      auditLogDid,
+      ...(await verifyAuditLog(undefined, auditLogDid))
+    });
+  } catch (error) {
+    sendError(res, error, 'Failed to verify audit log');
   }
 });
 
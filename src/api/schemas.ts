@@ -0,0 +1,166 @@
+/**
+ * Request Schemas
+ * JSON schemas of the API's request bodies - a body that does not match is answered with 400 and one
+ * validation error per problem before the route runs. Schemas of service requests live with their service
+ */
+
+import { Request, Response, NextFunction, RequestHandler } from 'express';
+import { JsonSchema, validateJsonSchema } from '../utils/json-schema';
+import { KEY_ALGORITHMS } from '../utils/crypto';
+import { ISSUE_CREDENTIAL_REQUEST_SCHEMA } from '../services/credential-issuer';
+import { SD_CLAIM_PATHS } from '../services/sd-jwt';
+import { PII_FIELDS } from '../services/pii-commitments';
+import { VERIFICATION_POLICY_SCHEMA } from '../services/verification-policy';
+import { KYC_PRESENTATION_REQUIREMENTS_SCHEMA } from '../services/presentation-exchange';
+import { CredentialEnvelope } from '../types/credentials';
+
+const CREDENTIAL_ENVELOPES: CredentialEnvelope[] = ['none', 'jwt', 'sd-jwt'];
+const OBJECT_SCHEMA: JsonSchema = { type: 'object' };
+const TEXT_SCHEMA: JsonSchema = { type: 'string', minLength: 1 };
+
+/**
+ * POST /api/trust-registry/issuers/:did/suspend
+ */
+export const SUSPEND_ISSUER_SCHEMA: JsonSchema = {
+  type: 'object',
+  additionalProperties: false,
+  properties: {
+    reason: TEXT_SCHEMA
+  }
+};
+
+/**
+ * POST /api/credentials/issue - an IssueCredentialRequest with the envelope and its SD-JWT options
+ */
+export const ISSUE_CREDENTIAL_SCHEMA: JsonSchema = {
+  ...ISSUE_CREDENTIAL_REQUEST_SCHEMA,
+  properties: {
+    ...ISSUE_CREDENTIAL_REQUEST_SCHEMA.properties,
+    envelope: { type: 'string', enum: CREDENTIAL_ENVELOPES },
+    alwaysDisclosed: { type: 'array', items: { type: 'string', enum: SD_CLAIM_PATHS } },
+    holderPublicKey: {
+      type: 'object',
+      required: ['publicKey', 'algorithm'],
+      additionalProperties: false,
+      properties: {
+        publicKey: TEXT_SCHEMA,
+        algorithm: { type: 'string', enum: KEY_ALGORITHMS }
+      }
+    }
+  }
+};
+
+/**
+ * POST /api/credentials/batch-issue
+ */
+export const BATCH_ISSUE_CREDENTIALS_SCHEMA: JsonSchema = {
+  type: 'object',
+  required: ['requests'],
+  additionalProperties: false,
+  properties: {
+    requests: {
+      type: 'array',
+      minItems: 1,
+      items: {
+        ...ISSUE_CREDENTIAL_REQUEST_SCHEMA,
+        properties: {
+          ...ISSUE_CREDENTIAL_REQUEST_SCHEMA.properties,
+          idempotencyKey: { type: 'string' }
+        }
+      }
+    }
+  }
+};
+
+/**
+ * POST /api/credentials/verify with a JSON body - a bare credential, or one of credential, jwt or sdJwt
+ * (see the route), with an optional policy
+ */
+export const VERIFY_CREDENTIAL_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    credential: OBJECT_SCHEMA,
+    jwt: { type: 'string' },
+    sdJwt: { type: 'string' },
+    audience: { type: 'string' },
+    nonce: { type: 'string' },
+    policy: VERIFICATION_POLICY_SCHEMA
+  }
+};
+
+/**
+ * POST /api/credentials/verify-pii
+ */
+export const VERIFY_PII_SCHEMA: JsonSchema = {
+  type: 'object',
+  required: ['field', 'value', 'salt'],
+  additionalProperties: false,
+  properties: {
+    credential: OBJECT_SCHEMA,
+    credentialId: TEXT_SCHEMA,
+    field: { type: 'string', enum: PII_FIELDS },
+    value: { type: 'string' },
+    salt: TEXT_SCHEMA
+  },
+  anyOf: [{ required: ['credential'] }, { required: ['credentialId'] }]
+};
+
+/**
+ * POST /api/presentations/challenge
+ */
+export const PRESENTATION_CHALLENGE_SCHEMA: JsonSchema = {
+  type: 'object',
+  required: ['domain'],
+  additionalProperties: false,
+  properties: {
+    domain: TEXT_SCHEMA
+  }
+};
+
+/**
+ * POST /api/presentations/verify - a verifiable presentation, checked in full by its verification
+ */
+export const PRESENTATION_SCHEMA: JsonSchema = {
+  type: 'object',
+  required: ['holder', 'proof'],
+  properties: {
+    holder: TEXT_SCHEMA,
+    proof: OBJECT_SCHEMA,
+    verifiableCredential: { type: 'array', items: OBJECT_SCHEMA }
+  }
+};
+
+/**
+ * POST /api/oid4vp/requests - a presentation definition, checked in full when the request is created, or
+ * KYC requirements to build one from
+ */
+export const AUTHORIZATION_REQUEST_SCHEMA: JsonSchema = {
+  type: 'object',
+  additionalProperties: false,
+  properties: {
+    presentationDefinition: { type: 'object', required: ['id', 'input_descriptors'] },
+    requirements: KYC_PRESENTATION_REQUIREMENTS_SCHEMA
+  },
+  anyOf: [{ required: ['presentationDefinition'] }, { required: ['requirements'] }]
+};
+
+/**
+ * Reject a JSON request body that does not match a schema. Text bodies (JWTs, SD-JWTs) are left to the route
+ */
+export function validateBody(schema: JsonSchema): RequestHandler {
+  return (req: Request, res: Response, next: NextFunction) => {
+    if (typeof req.body === 'string') {
+      return next();
+    }
+
+    const validationErrors = validateJsonSchema(req.body ?? {}, schema, 'request body');
+    if (validationErrors.length > 0) {
+      return res.status(400).json({
+        error: 'Invalid request body',
+        code: 'VALIDATION_FAILED',
+        validationErrors
+      });
+    }
+    next();
+  };
+}
@@ -3,15 +3,63 @@
  */
 
 import express, { Express, Request, Response, NextFunction } from 'express';
+import fs from 'fs';
 import path from 'path';
-import router from './routes';
+import router, { getPublicBaseUrl } from './routes';
+import { authenticate } from './auth';
+import { problemDetails, PROBLEM_TYPE_BASE } from './problems';
+import { ERROR_CODES } from '../utils/errors';
+import { API_SCOPES, setApiClients, loadApiClients, useDevApiClients } from '../auth/api-clients';
+import { setAccessTokenConfig, loadJwks } from '../auth/access-tokens';
+import { setCredentialRepository, getCredentialRepository } from '../storage/credential-repository';
+import { createSqliteCredentialRepository } from '../storage/sqlite-credential-repository';
+import { setAuditLogStore } from '../storage/audit-log-store';
+import { createSqliteAuditLogStore } from '../storage/sqlite-audit-log-store';
+import { createAuditCheckpoint } from '../services/audit-log';
+import { setIssuanceJobStore } from '../storage/issuance-job-store';
+import { createSqliteIssuanceJobStore } from '../storage/sqlite-issuance-job-store';
+import { setKycChangeStore } from '../storage/kyc-change-store';
+import { createSqliteKycChangeStore } from '../storage/sqlite-kyc-change-store';
+import { setIssuerKeyStore } from '../storage/issuer-key-store';
+import { createSqliteIssuerKeyStore } from '../storage/sqlite-issuer-key-store';
+import { loadIssuerKeys } from '../services/issuer-keys';
+import { setTrustRegistryStore } from '../storage/trust-registry-store';
+import { createSqliteTrustRegistryStore } from '../storage/sqlite-trust-registry-store';
+import { loadTrustRegistry } from '../services/trust-registry';
+import { setJobConcurrency, resumeUnfinishedIssuanceJobs } from '../services/issuance-jobs';
+import { setWebhookStore } from '../storage/webhook-store';
+import { createSqliteWebhookStore } from '../storage/sqlite-webhook-store';
+import { setIdempotencyStore } from '../storage/idempotency-store';
+import { createSqliteIdempotencyStore } from '../storage/sqlite-idempotency-store';
+import { allowLocalWebhookUrls, checkExpiringCredentials, resumeWebhookDeliveries } from '../services/webhooks';
+import { setKycDataSource, getKycDataSource } from '../storage/kyc-data-source';
+import { createSqliteKycDataSource } from '../storage/sqlite-kyc-data-source';
+import { createHttpKycDataSource } from '../storage/http-kyc-data-source';
+import { KycFieldMapping, loadKycFieldMapping } from '../storage/kyc-field-mapping';
+import { importCustomers } from '../services/kyc-import';
+import { rebuildStatusLists } from '../services/status-list';
+import { setSigner } from '../keystore/signer';
+import { setPiiPepper } from '../services/pii-commitments';
+import { createEncryptedKeystoreSigner } from '../keystore/encrypted-keystore';
+import { buildIssuerDidDocument } from '../services/did-resolver';
+import { getIssuerByDid } from '../config/bank-issuers';
+import {
+  getCredentialIssuerUrl,
+  getCredentialIssuerMetadata,
+  getAuthorizationServerMetadata
+} from '../services/oid4vci';
 
 const app: Express = express();
 const PORT = process.env.PORT || 3000;
 
-// Middleware
-app.use(express.json({ limit: '10mb' }));
+// Middleware - error responses are problem details from here on, including those of the body parsers
+app.use(problemDetails);
+// Issuance job uploads skip this parser - their route parses them with the larger job upload limit
+const parseJson = express.json({ limit: '10mb' });
+app.use((req: Request, res: Response, next: NextFunction) =>
+  req.method === 'POST' && req.path === '/api/jobs/issuance' ? next() : parseJson(req, res, next));
 app.use(express.urlencoded({ extended: true }));
+app.use(express.text({ type: ['application/jwt', 'application/vc+jwt', 'application/vc+sd-jwt'] }));
 
 // Serve static files from public directory
 app.use(express.static(path.join(__dirname, '../../public')));
@@ -19,8 +67,9 @@ app.use(express.static(path.join(__dirname, '../../public')));
 // CORS middleware for development
 app.use((req: Request, res: Response, next: NextFunction) => {
   res.header('Access-Control-Allow-Origin', '*');
-  res.header('Access-Control-Allow-Methods', 'GET, POST, PUT, DELETE, OPTIONS');
-  res.header('Access-Control-Allow-Headers', 'Content-Type, Authorization');
+  res.header('Access-Control-Allow-Methods', 'GET, POST, PUT, PATCH, DELETE, OPTIONS');
+  res.header('Access-Control-Allow-Headers', 'Content-Type, Authorization, X-API-Key, Idempotency-Key');
+  res.header('Access-Control-Expose-Headers', 'Idempotent-Replayed, PII-Masking-Profile, Location');
   if (req.method === 'OPTIONS') {
     return res.sendStatus(200);
   }
@@ -40,21 +89,96 @@ app.get('/api-info', (req: Request, res: Response) => {
     service: 'Financial Institution Verifiable Credential Issuance API',
     version: '1.0.0',
     description: 'RESTful API for issuing and verifying KYC-based verifiable credentials',
+    authentication: {
+      apiKey: 'X-API-Key: <key>',
+      accessToken: 'Authorization: Bearer <client-credentials access token>',
+      scopes: API_SCOPES
+    },
+    idempotency: {
+      issueCredential: 'Idempotency-Key: <key> - a retry with the same key and body replays the stored response',
+      batchIssue: 'idempotencyKey on each request in "requests"'
+    },
+    piiMasking: {
+      full: 'Scope customers:pii - customer data unmasked',
+      support: 'Scope customers:read only - dateOfBirth reduced to the year, street line of address masked, ' +
+        'verifiedAmount left out',
+      header: 'PII-Masking-Profile names the profile applied to a customer response'
+    },
+    iso20022: {
+      issueCredential: 'application/xml vcrd.001.001.01 VrfblCdtlIssnc -> vcrd.002.001.01 VrfblCdtlIssncStsRpt',
+      verifyCredential: 'application/xml vcrd.003.001.01 VrfblCdtlVrfctnReq -> vcrd.004.001.01 VrfblCdtlVrfctnRpt'
+    },
+    errors: {
+      format: 'application/problem+json (RFC 7807) - type, title, status, detail, instance and a stable code',
+      types: `${PROBLEM_TYPE_BASE}<code in kebab case>, e.g. ${PROBLEM_TYPE_BASE}customer-not-found`,
+      validation: 'Invalid request bodies are answered with 400 VALIDATION_FAILED and validationErrors',
+      oauth: 'The OID4VCI token and credential endpoints and the OID4VP response endpoint keep OAuth errors',
+      codes: Object.keys(ERROR_CODES)
+    },
     endpoints: {
       health: 'GET /api/health',
       issuers: 'GET /api/issuers',
       issuer: 'GET /api/issuers/:did',
+      issuerDidDocument: 'GET /api/issuers/:did/did.json',
+      issuerKeys: 'GET /api/issuers/:did/keys',
+      rotateIssuerKey: 'POST /api/issuers/:did/keys/rotate',
+      revokeIssuerKey: 'POST /api/issuers/:did/keys/:keyId/revoke',
+      registerIssuer: 'POST /api/issuers',
+      trustRegistry: 'GET /api/trust-registry',
+      trustList: 'GET /api/trust-registry/trust-list',
+      trustRegistryEntry: 'GET /api/trust-registry/issuers/:did',
+      addAccreditation: 'POST /api/trust-registry/issuers/:did/accreditations',
+      withdrawAccreditation: 'POST /api/trust-registry/issuers/:did/accreditations/:accreditationId/withdraw',
+      suspendIssuer: 'POST /api/trust-registry/issuers/:did/suspend',
+      reinstateIssuer: 'POST /api/trust-registry/issuers/:did/reinstate',
+      wellKnownDidDocument: 'GET /.well-known/did.json',
       customers: 'GET /api/customers',
+      searchCustomers: 'GET /api/customers/search?kycLevel=&accreditedInvestor=&entityType=&jurisdiction=&limit=&offset=',
       customer: 'GET /api/customers/:kycId',
+      customerKycChanges: 'GET /api/customers/:kycId/kyc-changes?action=&issuer=&limit=&offset=',
+      createCustomer: 'POST /api/customers',
+      replaceCustomer: 'PUT /api/customers/:kycId',
+      updateCustomer: 'PATCH /api/customers/:kycId',
+      deleteCustomer: 'DELETE /api/customers/:kycId',
+      credentials: 'GET /api/credentials?subject=&issuer=&status=&limit=&offset=',
+      credential: 'GET /api/credentials/:id',
+      revokeCredential: 'POST /api/credentials/:id/revoke',
+      statusList: 'GET /api/credentials/status/:listId',
+      presentationChallenge: 'POST /api/presentations/challenge',
+      verifyPresentation: 'POST /api/presentations/verify',
       issueCredential: 'POST /api/credentials/issue',
       batchIssue: 'POST /api/credentials/batch-issue',
-      verifyCredential: 'POST /api/credentials/verify'
+      verifyCredential: 'POST /api/credentials/verify',
+      verifyPii: 'POST /api/credentials/verify-pii',
+      oid4vciOffer: 'POST /api/oid4vci/offers',
+      oid4vciMetadata: 'GET /.well-known/openid-credential-issuer/api/oid4vci/:did',
+      oid4vciToken: 'POST /api/oid4vci/:did/token',
+      oid4vciCredential: 'POST /api/oid4vci/:did/credential',
+      presentationDefinition: 'POST /api/presentation-definitions',
+      oid4vpRequest: 'POST /api/oid4vp/requests',
+      oid4vpRequestState: 'GET /api/oid4vp/requests/:state',
+      oid4vpResponse: 'POST /api/oid4vp/responses',
+      issuanceJob: 'POST /api/jobs/issuance (application/json, application/x-ndjson or text/csv)',
+      issuanceJobStatus: 'GET /api/jobs/:id?limit=&offset=',
+      issuanceJobResults: 'GET /api/jobs/:id/results?status=',
+      cancelIssuanceJob: 'POST /api/jobs/:id/cancel',
+      resumeIssuanceJob: 'POST /api/jobs/:id/resume',
+      createWebhookSubscription: 'POST /api/webhooks/subscriptions',
+      webhookSubscriptions: 'GET /api/webhooks/subscriptions',
+      webhookSubscription: 'GET /api/webhooks/subscriptions/:id',
+      deleteWebhookSubscription: 'DELETE /api/webhooks/subscriptions/:id',
+      webhookDeliveries: 'GET /api/webhooks/deliveries?subscriptionId=&eventType=&credentialId=&status=&limit=&offset=',
+      webhookDelivery: 'GET /api/webhooks/deliveries/:id',
+      replayWebhookDelivery: 'POST /api/webhooks/deliveries/:id/replay',
+      auditLog: 'GET /api/audit?action=&actor=&issuer=&customerKycId=&credentialId=&outcome=&from=&to=&limit=&offset=',
+      verifyAuditLog: 'GET /api/audit/verify'
     },
     documentation: 'https://github.com/did3/verifiable-credentials',
     examples: {
       issueCredential: {
         method: 'POST',
         endpoint: '/api/credentials/issue',
+        headers: { 'X-API-Key': 'dev-jpmorgan-api-key' },
         body: {
           customerKycId: 'KYC-001',
           issuerDid: 'did:did3:bank:jpmorgan',
@@ -62,15 +186,57 @@ app.get('/api-info', (req: Request, res: Response) => {
           accreditedInvestor: true,
           jurisdiction: ['US'],
           expiryDays: 365,
-          signatureAlgorithm: 'Ed25519'
+          signatureAlgorithm: 'Ed25519',
+          duplicatePolicy: 'supersede'
         }
       }
     }
   });
 });
 
-// Mount API routes
-app.use('/api', router);
+// DID document of the issuer this host represents (WELL_KNOWN_ISSUER_DID), for did:web resolution
+app.get('/.well-known/did.json', (req: Request, res: Response) => {
+  const issuerDid = process.env.WELL_KNOWN_ISSUER_DID;
+  const issuer = issuerDid ? getIssuerByDid(issuerDid) : null;
+
+  if (!issuer) {
+    return res.status(404).json({
+      error: 'No DID document published at this host'
+    });
+  }
+
+  res.type('application/did+json').send(JSON.stringify(buildIssuerDidDocument(issuer)));
+});
+
+// OID4VCI credential issuer and authorization server metadata of each bank issuer
+app.get('/.well-known/openid-credential-issuer/api/oid4vci/:did', (req: Request, res: Response) => {
+  const issuer = getIssuerByDid(req.params.did);
+  if (!issuer) {
+    return res.status(404).json({
+      error: 'Issuer not found',
+      code: 'ISSUER_NOT_FOUND',
+      did: req.params.did
+    });
+  }
+
+  res.json(getCredentialIssuerMetadata(issuer, getCredentialIssuerUrl(getPublicBaseUrl(req), issuer.did)));
+});
+
+app.get('/.well-known/oauth-authorization-server/api/oid4vci/:did', (req: Request, res: Response) => {
+  const issuer = getIssuerByDid(req.params.did);
+  if (!issuer) {
+    return res.status(404).json({
+      error: 'Issuer not found',
+      code: 'ISSUER_NOT_FOUND',
+      did: req.params.did
+    });
+  }
+
+  res.json(getAuthorizationServerMetadata(getCredentialIssuerUrl(getPublicBaseUrl(req), issuer.did)));
+});
+
+// Mount API routes - callers are identified here, each route enforces its own scope
+app.use('/api', authenticate, router);
 
 // 404 handler
 app.use((req: Request, res: Response) => {
@@ -81,8 +247,15 @@ app.use((req: Request, res: Response) => {
   });
 });
 
-// Error handler
-app.use((err: Error, req: Request, res: Response, next: NextFunction) => {
+// Error handler - a body the parsers rejected (malformed JSON, too large) is the client's error
+app.use((err: Error & { status?: number }, req: Request, res: Response, next: NextFunction) => {
+  if (err.status !== undefined && err.status >= 400 && err.status < 500) {
+    return res.status(err.status).json({
+      error: 'Invalid request body',
+      message: err.message
+    });
+  }
+
   console.error('Error:', err);
   res.status(500).json({
     error: 'Internal server error',
@@ -90,9 +263,210 @@ app.use((err: Error, req: Request, res: Response, next: NextFunction) => {
   });
 });
 
+/**
+ * Configure the signer - an encrypted keystore file when KEYSTORE_PATH is set (unlocked with
+ * KEYSTORE_PASSPHRASE), otherwise an in-memory keystore holding the development issuer keys
+ */
+function configureSigner(): void {
+  const keystorePath = process.env.KEYSTORE_PATH;
+  if (keystorePath) {
+    const passphrase = process.env.KEYSTORE_PASSPHRASE;
+    if (!passphrase) {
+      throw new Error('KEYSTORE_PASSPHRASE is required when KEYSTORE_PATH is set');
+    }
+    setSigner(createEncryptedKeystoreSigner({ filePath: keystorePath, passphrase }));
+    console.log(`Keystore: ${keystorePath}`);
+  }
+}
+
+/**
+ * Configure API clients from AUTH_CLIENTS_PATH (the development clients if AUTH_DEV_CLIENTS=true, and refuse
+ * to start otherwise) and, when AUTH_JWKS_PATH is set, accept client-credentials access tokens from
+ * AUTH_TOKEN_ISSUER for AUTH_TOKEN_AUDIENCE
+ */
+function configureAuth(): void {
+  const clientsPath = process.env.AUTH_CLIENTS_PATH;
+  if (clientsPath) {
+    setApiClients(loadApiClients(clientsPath));
+    console.log(`API clients: ${clientsPath}`);
+  } else if (process.env.AUTH_DEV_CLIENTS === 'true') {
+    useDevApiClients();
+    console.warn('API clients: development clients with published API keys (AUTH_DEV_CLIENTS) - never use in production');
+  } else {
+    throw new Error('AUTH_CLIENTS_PATH is not set - set AUTH_DEV_CLIENTS=true to run with the development clients');
+  }
+
+  const jwksPath = process.env.AUTH_JWKS_PATH;
+  if (jwksPath) {
+    setAccessTokenConfig({
+      jwks: loadJwks(jwksPath),
+      issuer: process.env.AUTH_TOKEN_ISSUER || '',
+      audience: process.env.AUTH_TOKEN_AUDIENCE || ''
+    });
+    console.log(`Access tokens: ${process.env.AUTH_TOKEN_ISSUER} (JWKS ${jwksPath})`);
+  }
+}
+
+/**
+ * Configure the HMAC pepper for PII commitments from PII_PEPPER, if set
+ */
+function configurePiiPepper(): void {
+  if (process.env.PII_PEPPER) {
+    setPiiPepper(process.env.PII_PEPPER);
+  }
+}
+
+/**
+ * Configure the credential store - SQLite when CREDENTIAL_DB_PATH is set, in-memory otherwise -
+ * and restore status lists from the credentials it holds. The trust registry, issuer key sets, KYC
+ * change actions and idempotency keys go to SQLite when TRUST_REGISTRY_DB_PATH, ISSUER_KEY_DB_PATH,
+ * KYC_CHANGE_DB_PATH and IDEMPOTENCY_DB_PATH are set; the registry and key sets are loaded before anything
+ * is issued or verified
+ */
+async function configureStorage(): Promise<void> {
+  const trustRegistryDbPath = process.env.TRUST_REGISTRY_DB_PATH;
+  if (trustRegistryDbPath) {
+    setTrustRegistryStore(await createSqliteTrustRegistryStore(trustRegistryDbPath));
+    console.log(`Trust registry: SQLite (${trustRegistryDbPath})`);
+  }
+  const { issuers } = await loadTrustRegistry();
+  if (issuers > 0) {
+    console.log(`Restored ${issuers} registered issuer(s)`);
+  }
+
+  const issuerKeyDbPath = process.env.ISSUER_KEY_DB_PATH;
+  if (issuerKeyDbPath) {
+    setIssuerKeyStore(await createSqliteIssuerKeyStore(issuerKeyDbPath));
+    console.log(`Issuer keys: SQLite (${issuerKeyDbPath})`);
+  }
+  await loadIssuerKeys();
+
+  const dbPath = process.env.CREDENTIAL_DB_PATH;
+  if (dbPath) {
+    setCredentialRepository(await createSqliteCredentialRepository(dbPath));
+    console.log(`Credential store: SQLite (${dbPath})`);
+  }
+  await rebuildStatusLists(getCredentialRepository());
+
+  const kycChangeDbPath = process.env.KYC_CHANGE_DB_PATH;
+  if (kycChangeDbPath) {
+    setKycChangeStore(await createSqliteKycChangeStore(kycChangeDbPath));
+    console.log(`KYC change actions: SQLite (${kycChangeDbPath})`);
+  }
+
+  const idempotencyDbPath = process.env.IDEMPOTENCY_DB_PATH;
+  if (idempotencyDbPath) {
+    setIdempotencyStore(await createSqliteIdempotencyStore(idempotencyDbPath));
+    console.log(`Idempotency keys: SQLite (${idempotencyDbPath})`);
+  }
+}
+
+/**
+ * Configure the KYC data source - the core-banking API at KYC_API_URL (with KYC_API_TOKEN as bearer token),
+ * else SQLite when KYC_DB_PATH is set, else the mock customers. KYC_FIELD_MAPPING_PATH names a JSON field
+ * mapping for the API's records and for KYC_IMPORT_PATH, a CSV or JSON export imported on startup
+ */
+async function configureKycSource(): Promise<void> {
+  const mappingPath = process.env.KYC_FIELD_MAPPING_PATH;
+  const fieldMapping: KycFieldMapping | undefined = mappingPath ? loadKycFieldMapping(mappingPath) : undefined;
+
+  const apiUrl = process.env.KYC_API_URL;
+  const dbPath = process.env.KYC_DB_PATH;
+  if (apiUrl) {
+    const token = process.env.KYC_API_TOKEN;
+    setKycDataSource(createHttpKycDataSource({
+      baseUrl: apiUrl,
+      headers: token ? { Authorization: `Bearer ${token}` } : undefined,
+      timeoutMs: process.env.KYC_API_TIMEOUT_MS ? Number(process.env.KYC_API_TIMEOUT_MS) : undefined,
+      fieldMapping
+    }));
+    console.log(`KYC data source: ${apiUrl}`);
+  } else if (dbPath) {
+    setKycDataSource(await createSqliteKycDataSource(dbPath));
+    console.log(`KYC data source: SQLite (${dbPath})`);
+  }
+
+  const importPath = process.env.KYC_IMPORT_PATH;
+  if (importPath) {
+    const format = path.extname(importPath).toLowerCase() === '.csv' ? 'csv' : 'json';
+    const result = await importCustomers(fs.readFileSync(importPath, 'utf8'), format, { fieldMapping });
+    console.log(`Imported ${result.imported} of ${result.total} customers into ${getKycDataSource().name} from ${importPath}`);
+    if (result.credentialActions > 0) {
+      console.log(`  Revoked or superseded ${result.credentialActions} credential(s) of changed customers`);
+    }
+    result.failed.forEach(({ index, error }) => console.warn(`  Record ${index}: ${error}`));
+  }
+}
+
+/**
+ * Configure the audit log - SQLite when AUDIT_DB_PATH is set, in-memory otherwise - and sign a checkpoint
+ * over new entries every AUDIT_CHECKPOINT_MINUTES (default 15)
+ */
+async function configureAuditLog(): Promise<void> {
+  const dbPath = process.env.AUDIT_DB_PATH;
+  if (dbPath) {
+    setAuditLogStore(await createSqliteAuditLogStore(dbPath));
+    console.log(`Audit log: SQLite (${dbPath})`);
+  }
+
+  const intervalMinutes = Number(process.env.AUDIT_CHECKPOINT_MINUTES || 15);
+  setInterval(() => {
+    createAuditCheckpoint().catch(error => console.error('Failed to sign audit checkpoint:', error));
+  }, intervalMinutes * 60 * 1000).unref();
+}
+
+/**
+ * Configure bulk issuance jobs - SQLite when JOB_DB_PATH is set, in-memory otherwise, with JOB_CONCURRENCY
+ * workers (default 4) - and resume the jobs a previous process left unfinished
+ */
+async function configureJobs(): Promise<void> {
+  const dbPath = process.env.JOB_DB_PATH;
+  if (dbPath) {
+    setIssuanceJobStore(await createSqliteIssuanceJobStore(dbPath));
+    console.log(`Issuance jobs: SQLite (${dbPath})`);
+  }
+  if (process.env.JOB_CONCURRENCY) {
+    setJobConcurrency(Number(process.env.JOB_CONCURRENCY));
+  }
+
+  const resumed = await resumeUnfinishedIssuanceJobs();
+  if (resumed.length > 0) {
+    console.log(`Resuming ${resumed.length} unfinished issuance job(s)`);
+  }
+}
+
+/**
+ * Configure webhooks - SQLite when WEBHOOK_DB_PATH is set, in-memory otherwise - resume the deliveries a
+ * previous process left pending, and look for expiring credentials every WEBHOOK_EXPIRY_CHECK_MINUTES
+ * (default 60). WEBHOOK_ALLOW_LOCAL_URLS=true lets subscriptions use http and local addresses, for local
+ * receivers. Runs before the KYC source is configured, so events of the startup import reach subscribers
+ */
+async function configureWebhooks(): Promise<void> {
+  if (process.env.WEBHOOK_ALLOW_LOCAL_URLS === 'true') {
+    allowLocalWebhookUrls(true);
+    console.warn('Webhooks: http and local URLs allowed (WEBHOOK_ALLOW_LOCAL_URLS) - never use in production');
+  }
+
+  const dbPath = process.env.WEBHOOK_DB_PATH;
+  if (dbPath) {
+    setWebhookStore(await createSqliteWebhookStore(dbPath));
+    console.log(`Webhooks: SQLite (${dbPath})`);
+  }
+
+  const resumed = await resumeWebhookDeliveries();
+  if (resumed.length > 0) {
+    console.log(`Resuming ${resumed.length} pending webhook deliveries`);
+  }
+
+  const intervalMinutes = Number(process.env.WEBHOOK_EXPIRY_CHECK_MINUTES || 60);
+  setInterval(() => {
+    checkExpiringCredentials().catch(error => console.error('Failed to check for expiring credentials:', error));
+  }, intervalMinutes * 60 * 1000).unref();
+}
+
 // Start server
 if (require.main === module) {
-  app.listen(PORT, () => {
+  Promise.resolve().then(configureSigner).then(configureAuth).then(configurePiiPepper).then(configureStorage).then(configureAuditLog).then(configureWebhooks).then(configureKycSource).then(configureJobs).then(() => app.listen(PORT, () => {
     console.log('='.repeat(60));
     console.log('DIDgateway - Institutional Trust Network');
     console.log('='.repeat(60));
@@ -100,6 +474,7 @@ if (require.main === module) {
     console.log(`Landing Page: http://localhost:${PORT}/`);
     console.log(`API Documentation: http://localhost:${PORT}/api-info`);
     console.log(`Health Check: http://localhost:${PORT}/api/health`);
+    console.log('Authentication: X-API-Key header or Authorization: Bearer access token');
     console.log('='.repeat(60));
     console.log('\nAvailable Endpoints:');
     console.log('  GET  /                        - DIDgateway landing page');
@@ -107,12 +482,61 @@ if (require.main === module) {
     console.log('  GET  /api/health              - Health check');
     console.log('  GET  /api/issuers             - List all bank issuers');
     console.log('  GET  /api/issuers/:did        - Get issuer details');
+    console.log('  GET  /api/issuers/:did/did.json - Get issuer DID document');
+    console.log('  GET  /api/issuers/:did/keys   - List issuer signing keys');
+    console.log('  POST /api/issuers/:did/keys/rotate - Rotate issuer signing key');
+    console.log('  POST /api/issuers/:did/keys/:keyId/revoke - Revoke a retired issuer key');
+    console.log('  POST /api/issuers              - Register an issuer');
+    console.log('  GET  /api/trust-registry       - Trust registry');
+    console.log('  GET  /api/trust-registry/trust-list - Signed trust list export');
+    console.log('  GET  /api/trust-registry/issuers/:did - Issuer trust registry entry');
+    console.log('  POST /api/trust-registry/issuers/:did/accreditations - Add an accreditation');
+    console.log('  POST /api/trust-registry/issuers/:did/accreditations/:id/withdraw - Withdraw an accreditation');
+    console.log('  POST /api/trust-registry/issuers/:did/suspend - Suspend an issuer');
+    console.log('  POST /api/trust-registry/issuers/:did/reinstate - Reinstate an issuer');
     console.log('  GET  /api/customers           - List all customers');
+    console.log('  GET  /api/customers/search    - Search customers (paginated)');
     console.log('  GET  /api/customers/:kycId    - Get customer KYC data');
+    console.log('  GET  /api/customers/:kycId/kyc-changes - Credentials revoked or superseded by KYC changes');
+    console.log('  POST /api/customers           - Create a customer');
+    console.log('  PUT  /api/customers/:kycId    - Replace customer KYC data');
+    console.log('  PATCH /api/customers/:kycId   - Update customer KYC data');
+    console.log('  DELETE /api/customers/:kycId  - Delete a customer');
+    console.log('  GET  /api/credentials         - List issued credentials');
+    console.log('  GET  /api/credentials/:id     - Get an issued credential');
+    console.log('  POST /api/credentials/:id/revoke - Revoke a credential');
+    console.log('  GET  /api/credentials/status/:listId - StatusList2021 credential');
+    console.log('  POST /api/presentations/challenge - Issue a presentation challenge');
+    console.log('  POST /api/presentations/verify - Verify a presentation');
     console.log('  POST /api/credentials/issue   - Issue a credential');
     console.log('  POST /api/credentials/batch-issue - Batch issue credentials');
     console.log('  POST /api/credentials/verify  - Verify a credential');
+    console.log('  POST /api/credentials/verify-pii - Check disclosed PII against a credential');
+    console.log('  POST /api/oid4vci/offers      - Create an OID4VCI credential offer');
+    console.log('  POST /api/oid4vci/:did/token  - OID4VCI token endpoint');
+    console.log('  POST /api/oid4vci/:did/credential - OID4VCI credential endpoint');
+    console.log('  POST /api/presentation-definitions - Build a presentation definition');
+    console.log('  POST /api/oid4vp/requests     - Create an OID4VP authorization request');
+    console.log('  GET  /api/oid4vp/requests/:state - OID4VP request status and evaluation');
+    console.log('  POST /api/oid4vp/responses    - OID4VP response endpoint (direct_post)');
+    console.log('  POST /api/jobs/issuance       - Submit a bulk issuance job (JSON, NDJSON or CSV)');
+    console.log('  GET  /api/jobs/:id            - Issuance job progress and row errors');
+    console.log('  GET  /api/jobs/:id/results    - Download issuance job results (NDJSON)');
+    console.log('  POST /api/jobs/:id/cancel     - Cancel an issuance job');
+    console.log('  POST /api/jobs/:id/resume     - Resume a cancelled issuance job');
+    console.log('  POST /api/webhooks/subscriptions - Subscribe to webhook events');
+    console.log('  GET  /api/webhooks/subscriptions - List webhook subscriptions');
+    console.log('  GET  /api/webhooks/subscriptions/:id - Get a webhook subscription');
+    console.log('  DELETE /api/webhooks/subscriptions/:id - Delete a webhook subscription');
+    console.log('  GET  /api/webhooks/deliveries  - Webhook delivery log, including dead letters');
+    console.log('  GET  /api/webhooks/deliveries/:id - Get a webhook delivery');
+    console.log('  POST /api/webhooks/deliveries/:id/replay - Replay a webhook delivery');
+    console.log('  GET  /api/audit               - Query the audit log');
+    console.log('  GET  /api/audit/verify        - Check audit log integrity');
     console.log('='.repeat(60));
+  })).catch(error => {
+    console.error('Failed to start server:', error);
+    process.exit(1);
   });
 }
 
@@ -0,0 +1,123 @@
+/**
+ * OAuth2 Access Tokens
+ * Validates client-credentials access tokens (JWT, RFC 9068 profile) issued by the bank's authorization
+ * server against a locally configured JWKS - no network fetch of keys at request time
+ */
+
+import { readFileSync } from 'fs';
+import { PublicJwk, jwkToPublicKey } from '../utils/jwk';
+import { decodeJwt, verifyJwtSignature } from '../utils/jwt';
+
+export const CLOCK_SKEW_SECONDS = 60;
+
+const ACCESS_TOKEN_TYPES = ['at+jwt', 'application/at+jwt', 'JWT'];
+
+export interface Jwks {
+  keys: PublicJwk[];
+}
+
+export interface AccessTokenConfig {
+  jwks: Jwks;
+  issuer: string; // Expected "iss" - the authorization server
+  audience: string; // Expected "aud" - this API
+}
+
+export interface AccessTokenClaims {
+  clientId: string;
+  scopes: string[];
+  expiresAt: string;
+}
+
+let accessTokenConfig: AccessTokenConfig | null = null;
+
+/**
+ * Configure the authorization server whose access tokens are accepted
+ */
+export function setAccessTokenConfig(config: AccessTokenConfig): void {
+  if (!config.jwks || !Array.isArray(config.jwks.keys) || config.jwks.keys.length === 0) {
+    throw new Error('JWKS must contain at least one key');
+  }
+  for (const jwk of config.jwks.keys) {
+    jwkToPublicKey(jwk); // Throws on key types the JWT utilities cannot verify
+  }
+  if (!config.issuer || !config.audience) {
+    throw new Error('Access token issuer and audience are required');
+  }
+  accessTokenConfig = config;
+}
+
+/**
+ * Load a JWKS from a JSON file
+ */
+export function loadJwks(filePath: string): Jwks {
+  return JSON.parse(readFileSync(filePath, 'utf8'));
+}
+
+/**
+ * Check whether access tokens are accepted at all
+ */
+export function isAccessTokenConfigured(): boolean {
+  return accessTokenConfig !== null;
+}
+
+/**
+ * Validate an access token and return the client and scopes it was granted - throws if it is not valid
+ */
+export async function verifyAccessToken(token: string): Promise<AccessTokenClaims> {
+  if (!accessTokenConfig) {
+    throw new Error('Access tokens are not accepted: no authorization server is configured');
+  }
+  const { jwks, issuer, audience } = accessTokenConfig;
+
+  // 1. Decode and check the token type
+  const decoded = decodeJwt(token);
+  const { header, payload } = decoded;
+  if (header.typ !== undefined && !ACCESS_TOKEN_TYPES.includes(header.typ)) {
+    throw new Error(`Unexpected token type: ${header.typ}`);
+  }
+
+  // 2. Verify the signature with the JWKS key named by kid (or the only key)
+  const jwk = header.kid !== undefined
+    ? jwks.keys.find(key => key.kid === header.kid)
+    : jwks.keys.length === 1 ? jwks.keys[0] : undefined;
+  if (!jwk) {
+    throw new Error(`Unknown signing key: ${header.kid ?? '(no kid)'}`);
+  }
+  const { publicKey, algorithm } = jwkToPublicKey(jwk);
+  if (!await verifyJwtSignature(decoded, publicKey, algorithm)) {
+    throw new Error('Invalid access token signature');
+  }
+
+  // 3. Check issuer and audience
+  if (payload.iss !== issuer) {
+    throw new Error('Access token was not issued by the configured authorization server');
+  }
+  const audiences = Array.isArray(payload.aud) ? payload.aud : [payload.aud];
+  if (!audiences.includes(audience)) {
+    throw new Error('Access token is not intended for this API');
+  }
+
+  // 4. Check validity period
+  const now = Math.floor(Date.now() / 1000);
+  if (typeof payload.exp !== 'number') {
+    throw new Error('Access token has no expiry');
+  }
+  if (payload.exp + CLOCK_SKEW_SECONDS <= now) {
+    throw new Error('Access token has expired');
+  }
+  if (typeof payload.nbf === 'number' && payload.nbf - CLOCK_SKEW_SECONDS > now) {
+    throw new Error('Access token is not yet valid');
+  }
+
+  // 5. Read the client and granted scopes
+  const clientId = payload.client_id ?? payload.sub;
+  if (typeof clientId !== 'string' || !clientId) {
+    throw new Error('Access token has no client_id');
+  }
+
+  return {
+    clientId,
+    scopes: typeof payload.scope === 'string' ? payload.scope.split(' ').filter(Boolean) : [],
+    expiresAt: new Date(payload.exp * 1000).toISOString()
+  };
+}
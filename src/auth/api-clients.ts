@@ -0,0 +1,156 @@
+/**
+ * API Clients
+ * Callers of the API, the scopes they hold and the issuer DIDs they may sign for. Clients authenticate
+ * with an API key or with an OAuth2 client-credentials access token (see access-tokens.ts)
+ */
+
+import { readFileSync } from 'fs';
+import { timingSafeEqual } from 'crypto';
+import { sha256Hash } from '../utils/crypto';
+import { DEV_API_CLIENTS } from '../mocks/dev-api-clients';
+
+export type ApiScope =
+  | 'issue'
+  | 'revoke'
+  | 'customers:read'
+  | 'customers:pii'
+  | 'customers:write'
+  | 'credentials:read'
+  | 'verify'
+  | 'audit:read'
+  | 'webhooks'
+  | 'admin';
+
+export const API_SCOPES: ApiScope[] = [
+  'issue',
+  'revoke',
+  'customers:read',
+  'customers:pii',
+  'customers:write',
+  'credentials:read',
+  'verify',
+  'audit:read',
+  'webhooks',
+  'admin'
+];
+
+/**
+ * Wildcard issuer binding - the client may act for every issuer (registry operator)
+ */
+export const ALL_ISSUERS = '*';
+
+export interface ApiClient {
+  clientId: string;
+  name: string;
+  scopes: ApiScope[];
+  issuerDids: string[]; // Issuer DIDs the client may sign for, or ['*']
+  apiKeyHashes: string[]; // SHA-256 hex of the client's API keys - keys themselves are never stored
+}
+
+/**
+ * Client configuration as read from AUTH_CLIENTS_PATH
+ */
+export interface ApiClientConfig extends Omit<ApiClient, 'name' | 'apiKeyHashes'> {
+  name?: string;
+  apiKeyHashes?: string[];
+}
+
+/**
+ * Registered clients by client ID - empty, so every request is unauthenticated, until configured with
+ * setApiClients or useDevApiClients
+ */
+let clients: Map<string, ApiClient> = new Map();
+
+/**
+ * Hash an API key for storage and lookup
+ */
+export function hashApiKey(apiKey: string): string {
+  return sha256Hash(apiKey);
+}
+
+/**
+ * Check that a client configuration is well formed - throws on the first invalid field
+ */
+export function validateApiClient(client: ApiClientConfig): void {
+  if (!client || typeof client.clientId !== 'string' || !client.clientId) {
+    throw new Error('Client is missing clientId');
+  }
+  if (!Array.isArray(client.scopes) || client.scopes.some(scope => !API_SCOPES.includes(scope))) {
+    throw new Error(`Client ${client.clientId}: scopes must be an array of ${API_SCOPES.join(', ')}`);
+  }
+  if (!Array.isArray(client.issuerDids) || client.issuerDids.some(did => typeof did !== 'string')) {
+    throw new Error(`Client ${client.clientId}: issuerDids must be an array of strings`);
+  }
+  if (client.apiKeyHashes !== undefined &&
+    (!Array.isArray(client.apiKeyHashes) || client.apiKeyHashes.some(hash => !/^[0-9a-f]{64}$/.test(hash)))) {
+    throw new Error(`Client ${client.clientId}: apiKeyHashes must be SHA-256 hex digests`);
+  }
+}
+
+/**
+ * Replace the registered clients (e.g. with clients loaded from configuration)
+ */
+export function setApiClients(configs: ApiClientConfig[]): void {
+  const registered: Map<string, ApiClient> = new Map();
+  for (const config of configs) {
+    validateApiClient(config);
+    if (registered.has(config.clientId)) {
+      throw new Error(`Duplicate client: ${config.clientId}`);
+    }
+    registered.set(config.clientId, {
+      ...config,
+      name: config.name || config.clientId,
+      apiKeyHashes: config.apiKeyHashes || []
+    });
+  }
+  clients = registered;
+}
+
+/**
+ * Replace the registered clients with the development clients - their API keys are published in this
+ * repository, so for local development and tests only
+ */
+export function useDevApiClients(): void {
+  clients = new Map(DEV_API_CLIENTS.map(({ apiKeys, ...client }) => [
+    client.clientId,
+    { ...client, apiKeyHashes: apiKeys.map(hashApiKey) }
+  ]));
+}
+
+/**
+ * Load client configurations from a JSON file holding an array of ApiClientConfig
+ */
+export function loadApiClients(filePath: string): ApiClientConfig[] {
+  const configs = JSON.parse(readFileSync(filePath, 'utf8'));
+  if (!Array.isArray(configs)) {
+    throw new Error(`${filePath} must contain an array of API clients`);
+  }
+  return configs;
+}
+
+/**
+ * Get a registered client by client ID
+ */
+export function getApiClient(clientId: string): ApiClient | undefined {
+  return clients.get(clientId);
+}
+
+/**
+ * Find the client an API key belongs to
+ */
+export function findClientByApiKey(apiKey: string): ApiClient | undefined {
+  const hash = Buffer.from(hashApiKey(apiKey), 'hex');
+  for (const client of clients.values()) {
+    if (client.apiKeyHashes.some(stored => timingSafeEqual(Buffer.from(stored, 'hex'), hash))) {
+      return client;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Check whether a set of issuer bindings covers an issuer DID
+ */
+export function canActForIssuer(issuerDids: string[], issuerDid: string): boolean {
+  return issuerDids.includes(ALL_ISSUERS) || issuerDids.includes(issuerDid);
+}
@@ -1,40 +1,45 @@
 /**
- * Utility to generate real key pairs for bank issuers
- * Run this once to generate production keys
+ * Utility to create the signing keys of the bank issuers in an encrypted keystore
+ * Run this once per environment:
+ *   KEYSTORE_PATH=./data/keystore.json KEYSTORE_PASSPHRASE=... ts-node src/config/generate-keys.ts
+ * Pass --import-dev-keys to load the development keys of the mock issuers instead of generating new ones.
+ * Private keys are written to the keystore only; copy the printed public keys into bank-issuers.ts
  */
 
-import { generateKeyPair } from '../utils/crypto';
+import { getAllIssuers } from './bank-issuers';
+import { createEncryptedKeystoreSigner } from '../keystore/encrypted-keystore';
+import { DEV_ISSUER_KEYS } from '../mocks/dev-issuer-keys';
 
 async function generateBankKeys() {
-  console.log('Generating key pairs for bank issuers...\n');
-
-  // JPMorgan - Ed25519
-  const jpmKeys = await generateKeyPair('Ed25519');
-  console.log('JPMorgan Chase (Ed25519):');
-  console.log('  Private Key:', jpmKeys.privateKey);
-  console.log('  Public Key:', jpmKeys.publicKey);
-  console.log();
-
-  // Goldman Sachs - secp256k1
-  const gsKeys = await generateKeyPair('secp256k1');
-  console.log('Goldman Sachs (secp256k1):');
-  console.log('  Private Key:', gsKeys.privateKey);
-  console.log('  Public Key:', gsKeys.publicKey);
-  console.log();
-
-  // HSBC - Ed25519
-  const hsbcKeys = await generateKeyPair('Ed25519');
-  console.log('HSBC (Ed25519):');
-  console.log('  Private Key:', hsbcKeys.privateKey);
-  console.log('  Public Key:', hsbcKeys.publicKey);
-  console.log();
-
-  // DBS - secp256k1
-  const dbsKeys = await generateKeyPair('secp256k1');
-  console.log('DBS Bank (secp256k1):');
-  console.log('  Private Key:', dbsKeys.privateKey);
-  console.log('  Public Key:', dbsKeys.publicKey);
-  console.log();
+  const filePath = process.env.KEYSTORE_PATH;
+  const passphrase = process.env.KEYSTORE_PASSPHRASE;
+  if (!filePath || !passphrase) {
+    throw new Error('KEYSTORE_PATH and KEYSTORE_PASSPHRASE must be set');
+  }
+
+  const importDevKeys = process.argv.includes('--import-dev-keys');
+  const keystore = createEncryptedKeystoreSigner({ filePath, passphrase });
+  const existingKeys = keystore.listKeys();
+
+  console.log(`${importDevKeys ? 'Importing' : 'Generating'} key pairs for bank issuers into ${filePath}...\n`);
+
+  for (const issuer of getAllIssuers()) {
+    const keyId = `${issuer.did}#key-1`;
+    if (existingKeys.includes(keyId)) {
+      console.log(`${issuer.name}: ${keyId} already in keystore, skipped`);
+      continue;
+    }
+
+    const devKey = DEV_ISSUER_KEYS.find(key => key.keyId === keyId);
+    const { publicKey, algorithm } = importDevKeys && devKey
+      ? keystore.importKey(keyId, devKey.privateKey, devKey.algorithm)
+      : await keystore.generateKey(keyId, issuer.signatureAlgorithm);
+
+    console.log(`${issuer.name} (${algorithm}):`);
+    console.log('  Key ID:', keyId);
+    console.log('  Public Key:', publicKey);
+    console.log();
+  }
 }
 
 generateBankKeys().catch(console.error);
@@ -0,0 +1,36 @@
+/**
+ * Issuer Accreditations
+ * Mock regulator accreditations the trust registry starts from - which regulator authorises each bank
+ * issuer, for which jurisdictions and credential types
+ */
+
+import { IssuerAccreditation } from '../types/credentials';
+
+export type AccreditationConfig = Pick<IssuerAccreditation, 'regulator' | 'jurisdictions' | 'credentialTypes'>;
+
+/**
+ * Accreditations by issuer DID
+ */
+export const ISSUER_ACCREDITATIONS: Record<string, AccreditationConfig[]> = {
+  'did:did3:bank:jpmorgan': [
+    { regulator: 'OCC', jurisdictions: ['US'], credentialTypes: ['KYCCredential'] },
+    { regulator: 'FINRA', jurisdictions: ['US'], credentialTypes: ['KYCCredential'] },
+    { regulator: 'SEC', jurisdictions: ['US'], credentialTypes: ['KYCCredential'] },
+    { regulator: 'Federal Reserve', jurisdictions: ['US'], credentialTypes: ['KYCCredential'] },
+    { regulator: 'ECB', jurisdictions: ['EU'], credentialTypes: ['KYCCredential'] } // J.P. Morgan SE
+  ],
+  'did:did3:bank:goldmansachs': [
+    { regulator: 'OCC', jurisdictions: ['US'], credentialTypes: ['KYCCredential'] },
+    { regulator: 'SEC', jurisdictions: ['US'], credentialTypes: ['KYCCredential'] },
+    { regulator: 'FINRA', jurisdictions: ['US'], credentialTypes: ['KYCCredential'] }
+  ],
+  'did:did3:bank:hsbc': [
+    { regulator: 'FCA', jurisdictions: ['UK'], credentialTypes: ['KYCCredential'] },
+    { regulator: 'PRA', jurisdictions: ['UK'], credentialTypes: ['KYCCredential'] },
+    { regulator: 'ECB', jurisdictions: ['EU'], credentialTypes: ['KYCCredential'] },
+    { regulator: 'HKMA', jurisdictions: ['APAC'], credentialTypes: ['KYCCredential'] }
+  ],
+  'did:did3:bank:dbs': [
+    { regulator: 'MAS', jurisdictions: ['SG', 'APAC'], credentialTypes: ['KYCCredential'] }
+  ]
+};
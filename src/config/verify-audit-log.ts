@@ -0,0 +1,38 @@
+/**
+ * Utility to check the integrity of an audit log database, e.g. when producing evidence for examiners:
+ *   AUDIT_DB_PATH=./data/audit.sqlite AUDIT_LOG_DID=did:key:... ts-node src/config/verify-audit-log.ts
+ * AUDIT_LOG_DID pins the checkpoint signer (GET /api/audit/verify reports it); without it the signer of the
+ * first checkpoint is trusted. Exits with status 1 if the hash chain or a checkpoint does not verify
+ */
+
+import fs from 'fs';
+import { createSqliteAuditLogStore } from '../storage/sqlite-audit-log-store';
+import { verifyAuditLog } from '../services/audit-log';
+
+async function verifyAuditLogFile() {
+  const filePath = process.env.AUDIT_DB_PATH;
+  if (!filePath) {
+    throw new Error('AUDIT_DB_PATH must be set');
+  }
+  if (!fs.existsSync(filePath)) {
+    throw new Error(`Audit log not found: ${filePath}`);
+  }
+
+  const store = await createSqliteAuditLogStore(filePath, { readOnly: true });
+  const result = await verifyAuditLog(store, process.env.AUDIT_LOG_DID);
+
+  console.log(`Audit log: ${filePath}`);
+  console.log(`  Entries: ${result.entries}`);
+  console.log(`  Checkpoints: ${result.checkpoints}`);
+  console.log(`  Signed through entry: ${result.signedThrough}`);
+  result.warnings.forEach(warning => console.log(`  Warning: ${warning}`));
+  result.errors.forEach(error => console.log(`  Error: ${error}`));
+  console.log(result.valid ? '\nAudit log is intact' : '\nAudit log FAILED verification');
+
+  process.exitCode = result.valid ? 0 : 1;
+}
+
+verifyAuditLogFile().catch(error => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exitCode = 1;
+});
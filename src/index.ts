@@ -8,22 +8,468 @@ export * from './types/credentials';
 
 // Services
 export {
+  MAX_EXPIRY_DAYS,
+  ISSUE_CREDENTIAL_REQUEST_SCHEMA,
   issueCredential,
   verifyCredential,
   revokeCredential,
-  batchIssueCredentials
+  batchIssueCredentials,
+  verifyJwtCredential,
+  findDuplicateCredentials,
+  IssueCredentialOptions,
+  BatchIssueCredentialRequest,
+  JwtCredentialVerificationResult
 } from './services/credential-issuer';
+export { encodeCredentialAsJwt, decodeJwtCredential } from './services/jwt-vc';
+export {
+  SD_CLAIM_PATHS,
+  DEFAULT_ALWAYS_DISCLOSED,
+  KEY_BINDING_MAX_AGE_SECONDS,
+  SdJwtIssueOptions,
+  SdJwtKeyBindingOptions,
+  SdJwtVerifyOptions,
+  SdJwtVerificationResult,
+  encodeCredentialAsSdJwt,
+  createSdJwtPresentation,
+  verifySdJwtCredential,
+  isSdJwt
+} from './services/sd-jwt';
+export {
+  CHALLENGE_TTL_SECONDS,
+  CreatePresentationOptions,
+  createChallenge,
+  createPresentation,
+  verifyPresentation,
+  VerifyPresentationOptions
+} from './services/presentation';
+export {
+  DidWebFetcher,
+  ResolvedVerificationMethod,
+  VerificationRelationship,
+  setDidWebFetcher,
+  buildIssuerDidDocument,
+  didWebToUrl,
+  resolveDid,
+  resolveVerificationMethod,
+  resolveIssuerKey
+} from './services/did-resolver';
+export {
+  PRE_AUTHORIZED_CODE_GRANT,
+  PROOF_JWT_TYPE,
+  CREDENTIAL_CONFIGURATIONS,
+  CREDENTIAL_OFFER_REQUEST_SCHEMA,
+  Oid4vciErrorCode,
+  Oid4vciError,
+  CreateCredentialOfferRequest,
+  CredentialOffer,
+  CredentialOfferResult,
+  TokenRequest,
+  TokenResponse,
+  CredentialRequest,
+  CredentialResponse,
+  isOid4vciError,
+  getCredentialIssuerUrl,
+  getCredentialIssuerMetadata,
+  getAuthorizationServerMetadata,
+  createCredentialOffer,
+  exchangePreAuthorizedCode,
+  issueCredentialToWallet
+} from './services/oid4vci';
+export {
+  KYC_LEVELS,
+  MAX_FILTER_PATTERN_LENGTH,
+  KYC_PRESENTATION_REQUIREMENTS_SCHEMA,
+  FieldFilter,
+  FieldConstraint,
+  InputDescriptor,
+  PresentationDefinition,
+  DescriptorMapEntry,
+  PresentationSubmission,
+  SubmittedCredential,
+  InputDescriptorEvaluation,
+  PresentationEvaluation,
+  KycPresentationRequirements,
+  buildKycPresentationDefinition,
+  validatePresentationDefinition,
+  applyFieldFilter,
+  evaluateInputDescriptor,
+  evaluatePresentationDefinition
+} from './services/presentation-exchange';
+export {
+  AUTHORIZATION_REQUEST_TTL_SECONDS,
+  VP_FORMATS_SUPPORTED,
+  Oid4vpErrorCode,
+  Oid4vpError,
+  CreateAuthorizationRequestOptions,
+  AuthorizationRequest,
+  AuthorizationRequestResult,
+  AuthorizationResponse,
+  AuthorizationRequestStatus,
+  AuthorizationRequestState,
+  PresentationResult,
+  isOid4vpError,
+  createAuthorizationRequest,
+  getAuthorizationRequestState,
+  handleAuthorizationResponse
+} from './services/oid4vp';
+export {
+  VERIFICATION_POLICY_SCHEMA,
+  PolicySubject,
+  validateVerificationPolicy,
+  evaluateVerificationPolicy,
+  getCredentialPolicySubject,
+  getSdJwtPolicySubject,
+  verifyCredentialWithPolicy
+} from './services/verification-policy';
+export {
+  PII_FIELDS,
+  setPiiPepper,
+  computePiiCommitment,
+  createPiiCommitments,
+  matchPiiCommitment
+} from './services/pii-commitments';
+export {
+  SIGNATURE_ALGORITHMS,
+  ROTATE_ISSUER_KEY_SCHEMA,
+  RotateIssuerKeyOptions,
+  loadIssuerKeys,
+  getIssuerKeys,
+  getIssuerKey,
+  getActiveIssuerKey,
+  rotateIssuerKey,
+  revokeIssuerKey,
+  getIssuerKeySigner,
+  checkIssuerKeyUsage
+} from './services/issuer-keys';
+export {
+  TRUST_LIST_KEY_ID,
+  TRUST_LIST_TTL_DAYS,
+  ACCREDITATION_REQUEST_SCHEMA,
+  REGISTER_ISSUER_REQUEST_SCHEMA,
+  AddAccreditationRequest,
+  RegisterIssuerRequest,
+  IssuerTrustCheck,
+  loadTrustRegistry,
+  getTrustRegistryEntry,
+  getTrustRegistry,
+  registerTrustedIssuer,
+  addAccreditation,
+  withdrawAccreditation,
+  suspendIssuer,
+  reinstateIssuer,
+  assertIssuerAuthorized,
+  checkIssuerTrust,
+  resolveTrustedIssuerKey,
+  getTrustRegistryDid,
+  exportTrustList,
+  verifyTrustList
+} from './services/trust-registry';
+export {
+  AUDIT_LOG_KEY_ID,
+  AUDIT_CHECKPOINT_INTERVAL,
+  AUDIT_GENESIS_HASH,
+  computeAuditEntryHash,
+  getAuditLogDid,
+  recordAuditEvent,
+  createAuditCheckpoint,
+  findAuditEntries,
+  verifyAuditLog
+} from './services/audit-log';
+export {
+  IDEMPOTENCY_KEY_TTL_HOURS,
+  IDEMPOTENCY_KEY_MAX_LENGTH,
+  IdempotentOutcome,
+  validateIdempotencyKey,
+  runIdempotent
+} from './services/idempotency';
+export {
+  DEFAULT_JOB_CONCURRENCY,
+  MAX_JOB_ROWS,
+  ISSUANCE_CSV_COLUMNS,
+  IssuanceUploadFormat,
+  ParsedIssuanceRow,
+  setJobConcurrency,
+  parseIssuanceUpload,
+  createIssuanceJob,
+  getIssuanceJob,
+  cancelIssuanceJob,
+  resumeIssuanceJob,
+  resumeUnfinishedIssuanceJobs
+} from './services/issuance-jobs';
+export { parseCsv } from './utils/csv';
+export {
+  CustomerSearchCriteria,
+  KYC_ID_PATTERN,
+  CUSTOMER_TIERS,
+  CUSTOMER_SCHEMA,
+  validateCustomerKYC,
+  getCustomerKYC,
+  upsertCustomerKYC,
+  getAllCustomers,
+  deleteCustomerKYC,
+  searchCustomers
+} from './services/customers';
+export {
+  SCREENING_FIELDS,
+  SUPERSEDING_FIELDS,
+  detectKycChanges,
+  KycChangeOptions,
+  applyKycChange,
+  getKycChangeActions,
+  getCredentialKycChanges
+} from './services/kyc-changes';
+export {
+  WEBHOOK_EVENT_TYPES,
+  WEBHOOK_DELIVERY_STATUSES,
+  WEBHOOK_HEADERS,
+  WEBHOOK_SUBSCRIPTION_SCHEMA,
+  DEFAULT_EXPIRING_DAYS,
+  DEFAULT_WEBHOOK_RETRY_POLICY,
+  WebhookRetryPolicy,
+  CreateWebhookSubscriptionRequest,
+  setWebhookRetryPolicy,
+  allowLocalWebhookUrls,
+  checkWebhookUrl,
+  getWebhookRetryDelay,
+  computeWebhookSignature,
+  verifyWebhookSignature,
+  createWebhookSubscription,
+  getWebhookSubscription,
+  listWebhookSubscriptions,
+  deleteWebhookSubscription,
+  publishWebhookEvent,
+  checkExpiringCredentials,
+  getWebhookDeliveries,
+  getWebhookDelivery,
+  replayWebhookDelivery,
+  resumeWebhookDeliveries
+} from './services/webhooks';
+export {
+  CustomerFieldMask,
+  MaskingProfileName,
+  MaskingProfile,
+  MaskedCustomerKYCData,
+  MASKING_PROFILES,
+  maskCustomer
+} from './services/customer-masking';
+export {
+  KycImportFormat,
+  KycImportResult,
+  parseKycExport,
+  importCustomers
+} from './services/kyc-import';
+export {
+  ISO20022_NAMESPACES,
+  ISO20022_REASON_CODES,
+  Iso20022ParseResult,
+  Iso20022Reason,
+  Iso20022IssuanceStatus,
+  Iso20022VerificationOutcome,
+  parseIssuanceRequestMessage,
+  parseVerificationRequestMessage,
+  buildIssuanceStatusReport,
+  buildVerificationReport
+} from './services/iso20022';
+export { XmlNode, XmlElement, parseXml, serializeXml, escapeXml } from './utils/xml';
+export {
+  STATUS_LIST_SIZE,
+  allocateStatusListEntry,
+  getStatusListCredential,
+  resolveStatusListCredential,
+  checkCredentialStatus,
+  rebuildStatusLists,
+  encodeStatusList,
+  decodeStatusList
+} from './services/status-list';
+
+// Storage
+export {
+  CredentialRepository,
+  createInMemoryCredentialRepository,
+  getCredentialRepository,
+  setCredentialRepository,
+  getRecordStatus
+} from './storage/credential-repository';
+export { createSqliteCredentialRepository } from './storage/sqlite-credential-repository';
+export {
+  AuditLogStore,
+  createInMemoryAuditLogStore,
+  getAuditLogStore,
+  setAuditLogStore
+} from './storage/audit-log-store';
+export { createSqliteAuditLogStore } from './storage/sqlite-audit-log-store';
+export {
+  IssuanceJobStore,
+  createInMemoryIssuanceJobStore,
+  getIssuanceJobStore,
+  setIssuanceJobStore
+} from './storage/issuance-job-store';
+export { createSqliteIssuanceJobStore } from './storage/sqlite-issuance-job-store';
+export {
+  KycChangeStore,
+  matchesKycChangeQuery,
+  createInMemoryKycChangeStore,
+  getKycChangeStore,
+  setKycChangeStore
+} from './storage/kyc-change-store';
+export { createSqliteKycChangeStore } from './storage/sqlite-kyc-change-store';
+export {
+  TrustRegistryStore,
+  createInMemoryTrustRegistryStore,
+  getTrustRegistryStore,
+  setTrustRegistryStore
+} from './storage/trust-registry-store';
+export { createSqliteTrustRegistryStore } from './storage/sqlite-trust-registry-store';
+export {
+  IssuerKeyStore,
+  createInMemoryIssuerKeyStore,
+  getIssuerKeyStore,
+  setIssuerKeyStore
+} from './storage/issuer-key-store';
+export { createSqliteIssuerKeyStore } from './storage/sqlite-issuer-key-store';
+export {
+  WebhookStore,
+  matchesDeliveryQuery,
+  createInMemoryWebhookStore,
+  getWebhookStore,
+  setWebhookStore
+} from './storage/webhook-store';
+export { createSqliteWebhookStore } from './storage/sqlite-webhook-store';
+export {
+  IdempotencyRecord,
+  IdempotencyStore,
+  createInMemoryIdempotencyStore,
+  getIdempotencyStore,
+  setIdempotencyStore
+} from './storage/idempotency-store';
+export { createSqliteIdempotencyStore } from './storage/sqlite-idempotency-store';
+export {
+  KYC_SOURCE_UNAVAILABLE,
+  KycDataSource,
+  WritableKycDataSource,
+  kycSourceUnavailable,
+  isKycSourceUnavailable,
+  isWritableKycDataSource,
+  createInMemoryKycDataSource,
+  getKycDataSource,
+  setKycDataSource
+} from './storage/kyc-data-source';
+export { createSqliteKycDataSource } from './storage/sqlite-kyc-data-source';
+export { HttpKycDataSourceOptions, createHttpKycDataSource } from './storage/http-kyc-data-source';
+export {
+  KycFieldMapping,
+  KYC_FIELDS,
+  KYC_FIELD_VALUES,
+  validateKycFieldMapping,
+  loadKycFieldMapping,
+  mapKycRecord
+} from './storage/kyc-field-mapping';
+
+// Key custody
+export { Signer, SignerPublicKey, getSigner, setSigner, getKeySigner } from './keystore/signer';
+export {
+  EncryptedKeystoreOptions,
+  KeystoreSigner,
+  createEncryptedKeystoreSigner
+} from './keystore/encrypted-keystore';
+export { KmsClient, KmsSignerOptions, createKmsSigner } from './keystore/kms-signer';
+
+// API authentication
+export {
+  ApiScope,
+  API_SCOPES,
+  ALL_ISSUERS,
+  ApiClient,
+  ApiClientConfig,
+  hashApiKey,
+  validateApiClient,
+  setApiClients,
+  useDevApiClients,
+  loadApiClients,
+  getApiClient,
+  findClientByApiKey,
+  canActForIssuer
+} from './auth/api-clients';
+export {
+  Jwks,
+  AccessTokenConfig,
+  AccessTokenClaims,
+  setAccessTokenConfig,
+  loadJwks,
+  isAccessTokenConfigured,
+  verifyAccessToken
+} from './auth/access-tokens';
 
 // Utilities
 export {
+  KEY_ALGORITHMS,
   generateKeyPair,
   sha256Hash,
   hashPII,
   signCredential,
   verifySignature,
   generateCredentialId,
-  generateStatusUrl
+  generateStatusUrl,
+  signBytes,
+  verifyBytes,
+  SignFunction,
+  privateKeySigner,
+  derivePublicKey,
+  base58btcEncode,
+  base58btcDecode,
+  canonicalize
 } from './utils/crypto';
+export {
+  ProofFormat,
+  DATA_INTEGRITY_CONTEXT,
+  getCryptosuite,
+  getProofFormat,
+  createDataIntegrityProof,
+  verifyProof
+} from './utils/data-integrity';
+export {
+  VCDM_V1_CONTEXT,
+  VCDM_V2_CONTEXT,
+  getDataModelVersion,
+  getValidFrom,
+  getValidUntil
+} from './utils/data-model';
+
+export {
+  JwsAlgorithm,
+  JwtHeader,
+  JwtPayload,
+  getJwsAlgorithm,
+  signJwt,
+  decodeJwt,
+  verifyJwtSignature,
+  isCompactJws,
+  getJwtIssuedAt
+} from './utils/jwt';
+export { PublicJwk, publicKeyToJwk, jwkToPublicKey } from './utils/jwk';
+export {
+  publicKeyToMultibase,
+  multibaseToPublicKey,
+  publicKeyToDidKey,
+  didKeyToPublicKey
+} from './utils/did-key';
+export { parseJsonPath, queryJsonPath } from './utils/json-path';
+export {
+  JsonSchemaType,
+  JsonSchema,
+  validateJsonSchema,
+  DID_SCHEMA,
+  JURISDICTIONS_SCHEMA
+} from './utils/json-schema';
+export {
+  ErrorCodeDefinition,
+  ERROR_CODES,
+  ErrorCode,
+  DomainError,
+  domainError,
+  isDomainError,
+  getStatusErrorCode
+} from './utils/errors';
 
 // Configuration
 export {
@@ -36,13 +482,7 @@ export {
   registerIssuer,
   isIssuerRegistered
 } from './config/bank-issuers';
+export { AccreditationConfig, ISSUER_ACCREDITATIONS } from './config/issuer-accreditations';
 
 // Mock database (for testing)
-export {
-  getCustomerKYC,
-  upsertCustomerKYC,
-  getAllCustomers,
-  deleteCustomerKYC,
-  searchCustomers,
-  initializeMockDatabase
-} from './mocks/kyc-database';
+export { SAMPLE_CUSTOMERS, createMockKycDataSource } from './mocks/kyc-database';
@@ -0,0 +1,182 @@
+/**
+ * Encrypted Keystore
+ * Passphrase-protected key storage: private keys are encrypted with AES-256-GCM under a key derived
+ * from the passphrase with scrypt, and only decrypted for the duration of a signature
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { createCipheriv, createDecipheriv, randomBytes, scryptSync } from 'crypto';
+import { SignatureAlgorithm } from '../types/credentials';
+import { derivePublicKey, generateKeyPair, signBytes } from '../utils/crypto';
+import { Signer, SignerPublicKey } from './signer';
+
+const KEYSTORE_VERSION = 1;
+
+// scrypt cost parameters for newly created keystores (stored in the file, so they can be raised later)
+const DEFAULT_SCRYPT_PARAMS = { N: 32768, r: 8, p: 1 };
+
+export interface EncryptedKeystoreOptions {
+  passphrase: string;
+  filePath?: string; // Omit for a keystore that only lives in memory
+}
+
+interface EncryptedKeyEntry {
+  algorithm: SignatureAlgorithm;
+  publicKey: string;
+  iv: string;
+  ciphertext: string;
+  tag: string;
+}
+
+interface KeystoreFile {
+  version: number;
+  kdf: { name: 'scrypt'; salt: string; N: number; r: number; p: number };
+  keys: Record<string, EncryptedKeyEntry>;
+}
+
+/**
+ * Signer backed by an encrypted keystore, with import for existing key material
+ */
+export interface KeystoreSigner extends Signer {
+  importKey(keyId: string, privateKey: string, algorithm: SignatureAlgorithm): SignerPublicKey;
+  listKeys(): string[];
+}
+
+/**
+ * Derive the AES-256 key encrypting the keystore entries
+ */
+function deriveKeystoreKey(passphrase: string, kdf: KeystoreFile['kdf']): Buffer {
+  return scryptSync(passphrase, Buffer.from(kdf.salt, 'base64'), 32, {
+    N: kdf.N,
+    r: kdf.r,
+    p: kdf.p,
+    maxmem: 256 * kdf.N * kdf.r
+  });
+}
+
+/**
+ * Encrypt a private key; the key id is bound as additional authenticated data
+ */
+function encryptEntry(
+  encryptionKey: Buffer,
+  keyId: string,
+  privateKey: string,
+  algorithm: SignatureAlgorithm,
+  publicKey: string
+): EncryptedKeyEntry {
+  const iv = randomBytes(12);
+  const cipher = createCipheriv('aes-256-gcm', encryptionKey, iv);
+  cipher.setAAD(Buffer.from(keyId));
+  const ciphertext = Buffer.concat([cipher.update(Buffer.from(privateKey, 'hex')), cipher.final()]);
+
+  return {
+    algorithm,
+    publicKey,
+    iv: iv.toString('base64'),
+    ciphertext: ciphertext.toString('base64'),
+    tag: cipher.getAuthTag().toString('base64')
+  };
+}
+
+/**
+ * Decrypt a private key, failing if the passphrase is wrong or the entry was tampered with
+ */
+function decryptEntry(encryptionKey: Buffer, keyId: string, entry: EncryptedKeyEntry): string {
+  try {
+    const decipher = createDecipheriv('aes-256-gcm', encryptionKey, Buffer.from(entry.iv, 'base64'));
+    decipher.setAAD(Buffer.from(keyId));
+    decipher.setAuthTag(Buffer.from(entry.tag, 'base64'));
+    const privateKey = Buffer.concat([
+      decipher.update(Buffer.from(entry.ciphertext, 'base64')),
+      decipher.final()
+    ]);
+    return privateKey.toString('hex');
+  } catch (error) {
+    throw new Error(`Unable to decrypt key ${keyId}: wrong passphrase or corrupted keystore`);
+  }
+}
+
+/**
+ * Open (or create) a passphrase-encrypted keystore.
+ * The keystore is loaded from `filePath` if it exists and written back after every change.
+ */
+export function createEncryptedKeystoreSigner(options: EncryptedKeystoreOptions): KeystoreSigner {
+  const { passphrase, filePath } = options;
+  if (!passphrase) {
+    throw new Error('A keystore passphrase is required');
+  }
+
+  const keystore: KeystoreFile = filePath && fs.existsSync(filePath)
+    ? JSON.parse(fs.readFileSync(filePath, 'utf8'))
+    : {
+      version: KEYSTORE_VERSION,
+      kdf: { name: 'scrypt', salt: randomBytes(16).toString('base64'), ...DEFAULT_SCRYPT_PARAMS },
+      keys: {}
+    };
+
+  if (keystore.version !== KEYSTORE_VERSION || keystore.kdf?.name !== 'scrypt') {
+    throw new Error(`Unsupported keystore format: ${filePath}`);
+  }
+
+  const encryptionKey = deriveKeystoreKey(passphrase, keystore.kdf);
+
+  // Check the passphrase up front rather than at the first signature
+  const [firstKeyId] = Object.keys(keystore.keys);
+  if (firstKeyId) {
+    decryptEntry(encryptionKey, firstKeyId, keystore.keys[firstKeyId]);
+  }
+
+  const persist = (): void => {
+    if (!filePath) {
+      return;
+    }
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    const tempPath = `${filePath}.tmp`;
+    fs.writeFileSync(tempPath, JSON.stringify(keystore, null, 2), { mode: 0o600 });
+    fs.renameSync(tempPath, filePath);
+  };
+
+  const getEntry = (keyId: string): EncryptedKeyEntry => {
+    const entry = keystore.keys[keyId];
+    if (!entry) {
+      throw new Error(`Key not found in keystore: ${keyId}`);
+    }
+    return entry;
+  };
+
+  const addKey = (keyId: string, privateKey: string, algorithm: SignatureAlgorithm): SignerPublicKey => {
+    if (keystore.keys[keyId]) {
+      throw new Error(`Key already exists in keystore: ${keyId}`);
+    }
+    const publicKey = derivePublicKey(privateKey, algorithm);
+    keystore.keys[keyId] = encryptEntry(encryptionKey, keyId, privateKey, algorithm, publicKey);
+    persist();
+    return { publicKey, algorithm };
+  };
+
+  return {
+    async sign(keyId, data) {
+      const entry = getEntry(keyId);
+      return signBytes(data, decryptEntry(encryptionKey, keyId, entry), entry.algorithm);
+    },
+
+    async getPublicKey(keyId) {
+      const { publicKey, algorithm } = getEntry(keyId);
+      return { publicKey, algorithm };
+    },
+
+    async generateKey(keyId, algorithm) {
+      const { privateKey } = await generateKeyPair(algorithm);
+      return addKey(keyId, privateKey, algorithm);
+    },
+
+    importKey(keyId, privateKey, algorithm) {
+      return addKey(keyId, privateKey, algorithm);
+    },
+
+    listKeys() {
+      return Object.keys(keystore.keys);
+    }
+  };
+}
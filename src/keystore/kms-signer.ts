@@ -0,0 +1,56 @@
+/**
+ * KMS Signer
+ * Adapts a cloud KMS / HSM client to the Signer interface; key material never leaves the KMS
+ */
+
+import { SignatureAlgorithm } from '../types/credentials';
+import { Signer, SignerPublicKey } from './signer';
+
+/**
+ * Minimal KMS client surface - implement this over the vendor SDK (AWS KMS, GCP KMS, PKCS#11, ...)
+ * Keys are addressed by the KMS's own opaque key reference (ARN, resource name, handle)
+ * and must produce signatures in the raw format of signBytes
+ */
+export interface KmsClient {
+  createKey(algorithm: SignatureAlgorithm, label: string): Promise<string>;
+  getPublicKey(keyRef: string): Promise<SignerPublicKey>;
+  sign(keyRef: string, data: Uint8Array): Promise<Uint8Array>;
+}
+
+export interface KmsSignerOptions {
+  keyRefs?: Record<string, string>; // Verification method URL -> KMS key reference for existing keys
+}
+
+/**
+ * KMS-backed signer; keys generated through it are mapped to their verification method URL
+ */
+export function createKmsSigner(client: KmsClient, options: KmsSignerOptions = {}): Signer {
+  const keyRefs: Map<string, string> = new Map(Object.entries(options.keyRefs || {}));
+
+  const getKeyRef = (keyId: string): string => {
+    const keyRef = keyRefs.get(keyId);
+    if (!keyRef) {
+      throw new Error(`No KMS key mapped for ${keyId}`);
+    }
+    return keyRef;
+  };
+
+  return {
+    async sign(keyId, data) {
+      return client.sign(getKeyRef(keyId), data);
+    },
+
+    async getPublicKey(keyId) {
+      return client.getPublicKey(getKeyRef(keyId));
+    },
+
+    async generateKey(keyId, algorithm) {
+      if (keyRefs.has(keyId)) {
+        throw new Error(`KMS key already mapped for ${keyId}`);
+      }
+      const keyRef = await client.createKey(algorithm, keyId);
+      keyRefs.set(keyId, keyRef);
+      return client.getPublicKey(keyRef);
+    }
+  };
+}
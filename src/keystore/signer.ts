@@ -0,0 +1,63 @@
+/**
+ * Signer
+ * Signs with keys held by a keystore or KMS, so issuance code never handles private key bytes
+ */
+
+import { randomBytes } from 'crypto';
+import { SignatureAlgorithm } from '../types/credentials';
+import { SignFunction } from '../utils/crypto';
+import { DEV_ISSUER_KEYS } from '../mocks/dev-issuer-keys';
+import { createEncryptedKeystoreSigner } from './encrypted-keystore';
+
+export interface SignerPublicKey {
+  publicKey: string; // Hex, compressed for secp256k1 and P-256
+  algorithm: SignatureAlgorithm;
+}
+
+/**
+ * Key custody backend
+ * Keys are addressed by verification method URL (e.g. did:did3:bank:jpmorgan#key-2); signatures
+ * use the same raw format as signBytes
+ */
+export interface Signer {
+  sign(keyId: string, data: Uint8Array): Promise<Uint8Array>;
+  getPublicKey(keyId: string): Promise<SignerPublicKey>;
+  generateKey(keyId: string, algorithm: SignatureAlgorithm): Promise<SignerPublicKey>;
+}
+
+/**
+ * Signing callback bound to one key, as accepted by createDataIntegrityProof and signJwt
+ */
+export function getKeySigner(signer: Signer, keyId: string): SignFunction {
+  return (data) => signer.sign(keyId, data);
+}
+
+/**
+ * In-memory keystore holding the development keys of the mock issuers under a throwaway passphrase
+ */
+function createDevelopmentSigner(): Signer {
+  const keystore = createEncryptedKeystoreSigner({ passphrase: randomBytes(32).toString('hex') });
+  for (const key of DEV_ISSUER_KEYS) {
+    keystore.importKey(key.keyId, key.privateKey, key.algorithm);
+  }
+  return keystore;
+}
+
+let activeSigner: Signer | null = null;
+
+/**
+ * Get the signer issuer keys are held in
+ */
+export function getSigner(): Signer {
+  if (!activeSigner) {
+    activeSigner = createDevelopmentSigner();
+  }
+  return activeSigner;
+}
+
+/**
+ * Replace the signer issuer keys are held in
+ */
+export function setSigner(signer: Signer): void {
+  activeSigner = signer;
+}
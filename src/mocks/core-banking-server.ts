@@ -0,0 +1,108 @@
+/**
+ * Core Banking Stub
+ * Local stand-in for a core-banking customer API, for tests and local development of the HTTP KYC data source.
+ * Serves the sample customers in the core system's own record layout, read with CORE_BANKING_FIELD_MAPPING
+ */
+
+import express, { Express, Request, Response, NextFunction } from 'express';
+import { CustomerKYCData } from '../types/credentials';
+import { KycFieldMapping } from '../storage/kyc-field-mapping';
+import { SAMPLE_CUSTOMERS } from './kyc-database';
+
+/**
+ * Field mapping from the stub's record layout to CustomerKYCData
+ */
+export const CORE_BANKING_FIELD_MAPPING: KycFieldMapping = {
+  kycId: 'customer_id',
+  name: 'full_name',
+  dateOfBirth: 'birth_date',
+  citizenship: 'nationality',
+  address: 'postal_address',
+  kycLevel: 'kyc.level',
+  amlScreening: 'kyc.aml',
+  sanctionsCheck: 'kyc.sanctions',
+  pepScreening: 'kyc.pep',
+  sourceOfFunds: 'kyc.source_of_funds',
+  accreditedInvestor: 'accredited',
+  entityType: 'party_type',
+  verifiedAmount: 'verified_amount',
+  currency: 'currency',
+  tier: 'risk_tier',
+  jurisdictions: 'jurisdictions',
+  userDid: 'wallet_did'
+};
+
+export interface CoreBankingStub {
+  app: Express; // Listen on a local port and pass its URL as baseUrl to createHttpKycDataSource
+  setUnavailable(unavailable: boolean): void; // Answer every request with 503, as during an outage
+}
+
+/**
+ * A customer in the stub's record layout
+ */
+function toCoreBankingRecord(customer: CustomerKYCData): Record<string, unknown> {
+  return {
+    customer_id: customer.kycId,
+    full_name: customer.name,
+    birth_date: customer.dateOfBirth,
+    nationality: customer.citizenship,
+    postal_address: customer.address,
+    kyc: {
+      level: customer.kycLevel,
+      aml: customer.amlScreening,
+      sanctions: customer.sanctionsCheck,
+      pep: customer.pepScreening,
+      source_of_funds: customer.sourceOfFunds
+    },
+    accredited: customer.accreditedInvestor,
+    party_type: customer.entityType,
+    verified_amount: customer.verifiedAmount,
+    currency: customer.currency,
+    risk_tier: customer.tier,
+    jurisdictions: customer.jurisdictions,
+    wallet_did: customer.userDid ?? null
+  };
+}
+
+/**
+ * Create a core-banking stub serving the given customers, optionally requiring `Authorization: Bearer <apiKey>`
+ */
+export function createCoreBankingStub(
+  customers: CustomerKYCData[] = SAMPLE_CUSTOMERS,
+  options: { apiKey?: string } = {}
+): CoreBankingStub {
+  const records: Map<string, Record<string, unknown>> = new Map(
+    customers.map(customer => [customer.kycId, toCoreBankingRecord(customer)])
+  );
+  let unavailable = false;
+  const app = express();
+
+  app.use((req: Request, res: Response, next: NextFunction) => {
+    if (unavailable) {
+      return res.status(503).json({ error: 'Service unavailable' });
+    }
+    if (options.apiKey && req.get('Authorization') !== `Bearer ${options.apiKey}`) {
+      return res.status(401).json({ error: 'Unauthorized' });
+    }
+    next();
+  });
+
+  app.get('/customers', (req: Request, res: Response) => {
+    res.json({ customers: Array.from(records.values()) });
+  });
+
+  app.get('/customers/:customerId', (req: Request, res: Response) => {
+    const record = records.get(req.params.customerId);
+    if (!record) {
+      return res.status(404).json({ error: 'Customer not found' });
+    }
+    res.json(record);
+  });
+
+  return {
+    app,
+    setUnavailable(value) {
+      unavailable = value;
+    }
+  };
+}
@@ -0,0 +1,88 @@
+/**
+ * Development API Clients
+ * One client per mock bank issuer, a relying party, a registry operator, a compliance officer and a support
+ * desk, with well-known API keys
+ * In production, clients are configured through AUTH_CLIENTS_PATH with only the SHA-256 of each key
+ */
+
+import { ApiScope } from '../auth/api-clients';
+
+export interface DevApiClient {
+  clientId: string;
+  name: string;
+  scopes: ApiScope[];
+  issuerDids: string[];
+  apiKeys: string[];
+}
+
+const BANK_SCOPES: ApiScope[] = [
+  'issue',
+  'revoke',
+  'customers:read',
+  'customers:pii',
+  'customers:write',
+  'credentials:read',
+  'verify',
+  'audit:read',
+  'webhooks',
+  'admin'
+];
+
+export const DEV_API_CLIENTS: DevApiClient[] = [
+  {
+    clientId: 'jpmorgan-backoffice',
+    name: 'JPMorgan Chase KYC back office',
+    scopes: BANK_SCOPES,
+    issuerDids: ['did:did3:bank:jpmorgan'],
+    apiKeys: ['dev-jpmorgan-api-key']
+  },
+  {
+    clientId: 'goldmansachs-backoffice',
+    name: 'Goldman Sachs KYC back office',
+    scopes: BANK_SCOPES,
+    issuerDids: ['did:did3:bank:goldmansachs'],
+    apiKeys: ['dev-goldmansachs-api-key']
+  },
+  {
+    clientId: 'hsbc-backoffice',
+    name: 'HSBC KYC back office',
+    scopes: BANK_SCOPES,
+    issuerDids: ['did:did3:bank:hsbc'],
+    apiKeys: ['dev-hsbc-api-key']
+  },
+  {
+    clientId: 'dbs-backoffice',
+    name: 'DBS KYC back office',
+    scopes: BANK_SCOPES,
+    issuerDids: ['did:did3:bank:dbs'],
+    apiKeys: ['dev-dbs-api-key']
+  },
+  {
+    clientId: 'relying-party',
+    name: 'Relying party (verifier)',
+    scopes: ['verify'],
+    issuerDids: [],
+    apiKeys: ['dev-verifier-api-key']
+  },
+  {
+    clientId: 'registry-operator',
+    name: 'Trust registry operator',
+    scopes: BANK_SCOPES,
+    issuerDids: ['*'],
+    apiKeys: ['dev-admin-api-key']
+  },
+  {
+    clientId: 'compliance-officer',
+    name: 'Compliance officer (audit evidence)',
+    scopes: ['audit:read'],
+    issuerDids: ['*'],
+    apiKeys: ['dev-compliance-api-key']
+  },
+  {
+    clientId: 'support-desk',
+    name: 'Customer support desk (masked customer data)',
+    scopes: ['customers:read'],
+    issuerDids: [],
+    apiKeys: ['dev-support-api-key']
+  }
+];
@@ -0,0 +1,36 @@
+/**
+ * Development Issuer Keys
+ * Private keys of the mock bank issuers (#key-1), loaded into the default in-memory keystore
+ * In production, keys live in an encrypted keystore or a KMS and are never part of the source tree
+ */
+
+import { SignatureAlgorithm } from '../types/credentials';
+
+export interface DevIssuerKey {
+  keyId: string;
+  privateKey: string;
+  algorithm: SignatureAlgorithm;
+}
+
+export const DEV_ISSUER_KEYS: DevIssuerKey[] = [
+  {
+    keyId: 'did:did3:bank:jpmorgan#key-1',
+    privateKey: '54186ec52d7261b0f6b484e4692a7de73f5a6332ce1e6b9964e053824a783994',
+    algorithm: 'Ed25519'
+  },
+  {
+    keyId: 'did:did3:bank:goldmansachs#key-1',
+    privateKey: 'b119117b6f51856d51e1bbd6ef2d308f16870d5197124451a20015b6a238921b',
+    algorithm: 'P-256'
+  },
+  {
+    keyId: 'did:did3:bank:hsbc#key-1',
+    privateKey: 'c752847833e258e915fdd8dd0d65983e32ee0549857bdebbccb6c619dc9d8e57',
+    algorithm: 'Ed25519'
+  },
+  {
+    keyId: 'did:did3:bank:dbs#key-1',
+    privateKey: '136c58c5ea2bbb78147a3754ecfe37f02b87edb17238b3a636f8842b1ceab586',
+    algorithm: 'P-256'
+  }
+];
@@ -0,0 +1,56 @@
+/**
+ * Local Authorization Server
+ * In-process stand-in for the bank's OAuth2 authorization server, for tests and local development of
+ * client-credentials authentication - mints access tokens and publishes the JWKS to validate them with
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import { SignatureAlgorithm } from '../types/credentials';
+import { generateKeyPair, privateKeySigner } from '../utils/crypto';
+import { publicKeyToJwk } from '../utils/jwk';
+import { signJwt } from '../utils/jwt';
+import { AccessTokenConfig } from '../auth/access-tokens';
+
+export interface LocalAuthorizationServer {
+  config: AccessTokenConfig; // Pass to setAccessTokenConfig
+  issueToken(clientId: string, scopes: string[], expiresInSeconds?: number): Promise<string>;
+}
+
+/**
+ * Create a local authorization server with a fresh signing key
+ */
+export async function createLocalAuthorizationServer(options: {
+  issuer?: string;
+  audience?: string;
+  algorithm?: SignatureAlgorithm;
+} = {}): Promise<LocalAuthorizationServer> {
+  const issuer = options.issuer || 'https://auth.localhost';
+  const audience = options.audience || 'https://api.localhost';
+  const algorithm = options.algorithm || 'Ed25519';
+
+  const { privateKey, publicKey } = await generateKeyPair(algorithm);
+  const kid = `local-as-${uuidv4()}`;
+  const sign = privateKeySigner(privateKey, algorithm);
+
+  return {
+    config: {
+      jwks: { keys: [{ ...publicKeyToJwk(publicKey, algorithm), kid }] },
+      issuer,
+      audience
+    },
+
+    async issueToken(clientId, scopes, expiresInSeconds = 3600) {
+      const now = Math.floor(Date.now() / 1000);
+      return signJwt({ typ: 'at+jwt', kid }, {
+        iss: issuer,
+        sub: clientId,
+        aud: audience,
+        client_id: clientId,
+        scope: scopes.join(' '),
+        iat: now,
+        exp: now + expiresInSeconds,
+        jti: uuidv4()
+      }, sign, algorithm);
+    }
+  };
+}
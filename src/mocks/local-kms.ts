@@ -0,0 +1,54 @@
+/**
+ * Local KMS
+ * In-process stand-in for a cloud KMS, for tests and local development of the KMS signer
+ * Keys are referenced by opaque handles and their private halves are never returned
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import { SignatureAlgorithm } from '../types/credentials';
+import { derivePublicKey, generateKeyPair, signBytes } from '../utils/crypto';
+import { KmsClient } from '../keystore/kms-signer';
+
+export interface LocalKmsClient extends KmsClient {
+  importKey(privateKey: string, algorithm: SignatureAlgorithm, label: string): string;
+}
+
+/**
+ * Create an empty local KMS
+ */
+export function createLocalKmsClient(): LocalKmsClient {
+  const keys: Map<string, { privateKey: string; algorithm: SignatureAlgorithm; label: string }> = new Map();
+
+  const getKey = (keyRef: string) => {
+    const key = keys.get(keyRef);
+    if (!key) {
+      throw new Error(`KMS key not found: ${keyRef}`);
+    }
+    return key;
+  };
+
+  const importKey = (privateKey: string, algorithm: SignatureAlgorithm, label: string): string => {
+    const keyRef = `local-kms:key/${uuidv4()}`;
+    keys.set(keyRef, { privateKey, algorithm, label });
+    return keyRef;
+  };
+
+  return {
+    async createKey(algorithm, label) {
+      const { privateKey } = await generateKeyPair(algorithm);
+      return importKey(privateKey, algorithm, label);
+    },
+
+    async getPublicKey(keyRef) {
+      const { privateKey, algorithm } = getKey(keyRef);
+      return { publicKey: derivePublicKey(privateKey, algorithm), algorithm };
+    },
+
+    async sign(keyRef, data) {
+      const { privateKey, algorithm } = getKey(keyRef);
+      return signBytes(data, privateKey, algorithm);
+    },
+
+    importKey
+  };
+}
@@ -0,0 +1,60 @@
+/**
+ * Webhook Receiver Stub
+ * Local stand-in for a client's webhook endpoint, for tests and local development of webhook subscriptions.
+ * Checks each delivery's signature and keeps the events it accepted; can be told to fail, to exercise retries
+ * and dead letters
+ */
+
+import express, { Express, Request, Response } from 'express';
+import { WebhookEvent } from '../types/credentials';
+import { WEBHOOK_HEADERS, verifyWebhookSignature } from '../services/webhooks';
+
+export interface WebhookReceiverStub {
+  app: Express; // Listen on a local port and subscribe with its URL
+  received: WebhookEvent[]; // Events accepted, in order of arrival
+  rejected: number; // Deliveries answered with an error, including bad signatures
+  setSecret(secret: string): void; // Check signatures with the secret returned when subscribing
+  setFailures(count: number, status?: number): void; // Answer the next `count` deliveries with `status`
+}
+
+/**
+ * Create a webhook receiver stub. Deliveries are accepted unsigned until a secret is set
+ */
+export function createWebhookReceiver(options: { secret?: string } = {}): WebhookReceiverStub {
+  let secret = options.secret;
+  let failures = 0;
+  let failureStatus = 500;
+  const app = express();
+
+  const stub: WebhookReceiverStub = {
+    app,
+    received: [],
+    rejected: 0,
+    setSecret(value) {
+      secret = value;
+    },
+    setFailures(count, status = 500) {
+      failures = count;
+      failureStatus = status;
+    }
+  };
+
+  // The signature is over the raw body, so it is read as text
+  app.post('/', express.text({ type: '*/*' }), (req: Request, res: Response) => {
+    const body = typeof req.body === 'string' ? req.body : '';
+    if (failures > 0) {
+      failures--;
+      stub.rejected++;
+      return res.status(failureStatus).json({ error: 'Failure requested' });
+    }
+    if (secret && !verifyWebhookSignature(secret, req.get(WEBHOOK_HEADERS.signature) || '', body)) {
+      stub.rejected++;
+      return res.status(401).json({ error: 'Invalid signature' });
+    }
+
+    stub.received.push(JSON.parse(body) as WebhookEvent);
+    res.status(204).end();
+  });
+
+  return stub;
+}
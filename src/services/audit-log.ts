@@ -0,0 +1,244 @@
+/**
+ * Audit Log Service
+ * Append-only record of issuance, verification, revocation and customer changes. Each entry carries the
+ * hash of its predecessor, and the chain head is periodically signed by the audit service key, so edited,
+ * reordered or truncated history is detectable
+ */
+
+import {
+  AuditCheckpoint,
+  AuditEntry,
+  AuditEvent,
+  AuditQuery,
+  AuditVerificationResult,
+  PaginatedResult
+} from '../types/credentials';
+import { canonicalize, sha256Hash } from '../utils/crypto';
+import { createDataIntegrityProof, verifyProof } from '../utils/data-integrity';
+import { publicKeyToDidKey } from '../utils/did-key';
+import { getSigner, getKeySigner, SignerPublicKey } from '../keystore/signer';
+import { AuditLogStore, getAuditLogStore } from '../storage/audit-log-store';
+import { resolveVerificationMethod } from './did-resolver';
+
+/**
+ * Signer key checkpoints are signed with - published as a did:key examiners pin
+ */
+export const AUDIT_LOG_KEY_ID = 'urn:did3:audit-log#key-1';
+
+/**
+ * A checkpoint is signed every this many entries, in addition to the periodic checkpoints
+ */
+export const AUDIT_CHECKPOINT_INTERVAL = 100;
+
+/**
+ * previousHash of the first entry
+ */
+export const AUDIT_GENESIS_HASH = '0'.repeat(64);
+
+/**
+ * Appends run one at a time so each entry links to the one before it
+ */
+let appendQueue: Promise<unknown> = Promise.resolve();
+
+function enqueue<T>(task: () => Promise<T>): Promise<T> {
+  const result = appendQueue.then(task);
+  appendQueue = result.catch(() => undefined);
+  return result;
+}
+
+/**
+ * Hash of an entry - SHA-256 over the JCS canonical form of every field but the hash itself
+ */
+export function computeAuditEntryHash(entry: Omit<AuditEntry, 'hash'>): string {
+  return sha256Hash(canonicalize(entry));
+}
+
+/**
+ * Public key of the audit service key, generated in the signer on first use
+ */
+async function getAuditSigningKey(): Promise<SignerPublicKey> {
+  const signer = getSigner();
+  try {
+    return await signer.getPublicKey(AUDIT_LOG_KEY_ID);
+  } catch (error) {
+    return signer.generateKey(AUDIT_LOG_KEY_ID, 'Ed25519');
+  }
+}
+
+/**
+ * DID examiners pin as the checkpoint signer
+ */
+export async function getAuditLogDid(): Promise<string> {
+  const { publicKey, algorithm } = await getAuditSigningKey();
+  return publicKeyToDidKey(publicKey, algorithm);
+}
+
+/**
+ * Sign the given chain head and store the checkpoint
+ */
+async function signCheckpoint(store: AuditLogStore, head: AuditEntry): Promise<AuditCheckpoint> {
+  const { publicKey, algorithm } = await getAuditSigningKey();
+  const auditLogDid = publicKeyToDidKey(publicKey, algorithm);
+  const unsignedCheckpoint = {
+    sequence: head.sequence,
+    hash: head.hash,
+    createdAt: new Date().toISOString()
+  };
+
+  const proof = await createDataIntegrityProof(
+    unsignedCheckpoint,
+    {
+      created: unsignedCheckpoint.createdAt,
+      verificationMethod: `${auditLogDid}#${auditLogDid.slice('did:key:'.length)}`,
+      proofPurpose: 'assertionMethod'
+    },
+    getKeySigner(getSigner(), AUDIT_LOG_KEY_ID),
+    algorithm
+  );
+
+  const checkpoint = { ...unsignedCheckpoint, proof };
+  await store.appendCheckpoint(checkpoint);
+  return checkpoint;
+}
+
+/**
+ * Append an event to the audit log
+ */
+export function recordAuditEvent(event: AuditEvent): Promise<AuditEntry> {
+  return enqueue(async () => {
+    const store = getAuditLogStore();
+    const last = await store.getLastEntry();
+
+    const unhashedEntry: Omit<AuditEntry, 'hash'> = {
+      sequence: (last?.sequence ?? 0) + 1,
+      timestamp: new Date().toISOString(),
+      action: event.action,
+      actor: event.actor,
+      issuerDid: event.issuerDid ?? null,
+      customerKycId: event.customerKycId ?? null,
+      credentialId: event.credentialId ?? null,
+      outcome: event.outcome,
+      error: event.error ?? null,
+      previousHash: last?.hash ?? AUDIT_GENESIS_HASH
+    };
+    const entry: AuditEntry = { ...unhashedEntry, hash: computeAuditEntryHash(unhashedEntry) };
+    await store.append(entry);
+
+    if (entry.sequence % AUDIT_CHECKPOINT_INTERVAL === 0) {
+      await signCheckpoint(store, entry);
+    }
+    return entry;
+  });
+}
+
+/**
+ * Sign a checkpoint over the current chain head - null if the log is empty or the head is already signed
+ */
+export function createAuditCheckpoint(): Promise<AuditCheckpoint | null> {
+  return enqueue(async () => {
+    const store = getAuditLogStore();
+    const head = await store.getLastEntry();
+    const checkpoints = await store.getCheckpoints();
+    if (!head || checkpoints[checkpoints.length - 1]?.sequence === head.sequence) {
+      return null;
+    }
+    return signCheckpoint(store, head);
+  });
+}
+
+/**
+ * Query audit entries, newest first
+ */
+export function findAuditEntries(query: AuditQuery): Promise<PaginatedResult<AuditEntry>> {
+  return getAuditLogStore().find(query);
+}
+
+/**
+ * Check the integrity of an audit log: the hash chain from the first entry, and every checkpoint's
+ * signature and the entry it covers. Without a pinned `auditLogDid`, the key of the first checkpoint is
+ * trusted and a warning is reported
+ */
+export async function verifyAuditLog(
+  store: AuditLogStore = getAuditLogStore(),
+  auditLogDid?: string
+): Promise<AuditVerificationResult> {
+  const errors: string[] = [];
+  const warnings: string[] = [];
+
+  // 1. Walk the hash chain
+  const entries = await store.getEntries();
+  let previousHash = AUDIT_GENESIS_HASH;
+  let intactThrough = entries.length; // Checkpoints past the first broken entry vouch for nothing
+  entries.forEach((entry, index) => {
+    const { hash, ...unhashedEntry } = entry;
+    const errorCount = errors.length;
+    if (entry.sequence !== index + 1) {
+      errors.push(`Entry ${index + 1}: found sequence ${entry.sequence} - entries are missing or reordered`);
+    }
+    if (entry.previousHash !== previousHash) {
+      errors.push(`Entry ${entry.sequence}: does not link to the previous entry`);
+    }
+    if (computeAuditEntryHash(unhashedEntry) !== hash) {
+      errors.push(`Entry ${entry.sequence}: content does not match its hash`);
+    }
+    if (errors.length > errorCount) {
+      intactThrough = Math.min(intactThrough, index);
+    }
+    previousHash = hash;
+  });
+
+  // 2. Check each checkpoint against the entry it covers and the pinned signer
+  const checkpoints = await store.getCheckpoints();
+  let signerDid = auditLogDid;
+  if (!signerDid && checkpoints.length > 0) {
+    signerDid = checkpoints[0].proof.verificationMethod.split('#')[0];
+    warnings.push(`Audit log DID not pinned - trusting the checkpoint signer ${signerDid}`);
+  }
+
+  let signedThrough = 0;
+  for (const checkpoint of checkpoints) {
+    const label = `Checkpoint at entry ${checkpoint.sequence}`;
+    const entry = entries[checkpoint.sequence - 1];
+    if (!entry) {
+      errors.push(`${label}: entry is missing - the log was truncated`);
+      continue;
+    }
+    if (entry.hash !== checkpoint.hash) {
+      errors.push(`${label}: signed hash does not match the entry`);
+      continue;
+    }
+
+    try {
+      if (checkpoint.proof?.verificationMethod.split('#')[0] !== signerDid) {
+        errors.push(`${label}: not signed by the audit log key`);
+        continue;
+      }
+      const key = await resolveVerificationMethod(checkpoint.proof.verificationMethod);
+      const { valid, format } = await verifyProof(checkpoint, key.publicKey, key.algorithm);
+      if (!valid || format === 'legacy') {
+        errors.push(`${label}: invalid signature`);
+        continue;
+      }
+    } catch (error) {
+      errors.push(`${label}: ${error instanceof Error ? error.message : String(error)}`);
+      continue;
+    }
+    if (checkpoint.sequence <= intactThrough) {
+      signedThrough = Math.max(signedThrough, checkpoint.sequence);
+    }
+  }
+
+  // 3. Report entries no signature covers yet
+  if (entries.length > signedThrough) {
+    warnings.push(`${entries.length - signedThrough} entries after entry ${signedThrough} are not covered by a valid checkpoint`);
+  }
+
+  return {
+    valid: errors.length === 0,
+    entries: entries.length,
+    checkpoints: checkpoints.length,
+    signedThrough,
+    errors,
+    warnings
+  };
+}
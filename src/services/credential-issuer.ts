@@ -8,33 +8,176 @@ import {
   IssueCredentialRequest,
   CustomerKYCData,
   BankIssuer,
-  Proof
+  CredentialRecord,
+  CredentialVerificationResult,
+  CredentialEnvelope,
+  UnsecuredCredential,
+  PiiSalts,
+  DuplicateCredentialPolicy
 } from '../types/credentials';
+import { generateCredentialId } from '../utils/crypto';
 import {
-  signCredential,
-  hashPII,
-  generateCredentialId,
-  generateStatusUrl
-} from '../utils/crypto';
-import { getCustomerKYC } from '../mocks/kyc-database';
+  createDataIntegrityProof,
+  verifyProof,
+  DATA_INTEGRITY_CONTEXT
+} from '../utils/data-integrity';
+import {
+  VCDM_V1_CONTEXT,
+  VCDM_V2_CONTEXT,
+  getDataModelVersion,
+  getValidFrom,
+  getValidUntil
+} from '../utils/data-model';
+import { getCustomerKYC } from './customers';
+import { publishWebhookEvent } from './webhooks';
+import { KycDataSource } from '../storage/kyc-data-source';
 import { getIssuerByDid } from '../config/bank-issuers';
+import {
+  getCredentialRepository,
+  createCredentialRecord,
+  MAX_PAGE_SIZE
+} from '../storage/credential-repository';
+import {
+  allocateStatusListEntry,
+  revokeStatusListEntry,
+  checkCredentialStatus
+} from './status-list';
+import { encodeCredentialAsJwt, decodeJwtCredential } from './jwt-vc';
+import { encodeCredentialAsSdJwt, SdJwtIssueOptions } from './sd-jwt';
+import { assertIssuerAuthorized, checkIssuerTrust, resolveTrustedIssuerKey } from './trust-registry';
+import { verifyJwtSignature, getJwtIssuedAt } from '../utils/jwt';
+import { ResolvedVerificationMethod } from './did-resolver';
+import { SIGNATURE_ALGORITHMS, getActiveIssuerKey, getIssuerKeySigner } from './issuer-keys';
+import { createPiiCommitments } from './pii-commitments';
+import { canActForIssuer } from '../auth/api-clients';
+import { runIdempotent } from './idempotency';
+import { KYC_FIELD_VALUES } from '../storage/kyc-field-mapping';
+import { DID_SCHEMA, JURISDICTIONS_SCHEMA, JsonSchema } from '../utils/json-schema';
+import { ErrorCode, domainError, isDomainError } from '../utils/errors';
+
+export interface IssueCredentialOptions extends SdJwtIssueOptions {
+  envelope?: CredentialEnvelope;
+  holderDid?: string; // Binds credentialSubject.id to this DID (e.g. a wallet key) instead of the customer's DID
+  // Receives the hashedPII salts for delivery to the holder; they are not stored by the issuer
+  deliverPiiSalts?: (salts: PiiSalts, credentialId: string) => void | Promise<void>;
+  // Issuer DIDs the caller may sign for ('*' for any) - issuing as any other issuer is rejected
+  authorizedIssuerDids?: string[];
+  // Receives the records revoked by duplicatePolicy 'supersede'
+  onSuperseded?: (revokedRecords: CredentialRecord[], credentialId: string) => void | Promise<void>;
+  kycDataSource?: KycDataSource; // Source of the customer's KYC data, instead of the configured one
+}
+
+const DUPLICATE_POLICIES: DuplicateCredentialPolicy[] = ['allow', 'reject', 'supersede'];
+const CREDENTIAL_TYPE = 'KYCCredential';
+export const MAX_EXPIRY_DAYS = 3650;
+
+/**
+ * An IssueCredentialRequest
+ */
+export const ISSUE_CREDENTIAL_REQUEST_SCHEMA: JsonSchema = {
+  type: 'object',
+  required: ['customerKycId', 'issuerDid', 'kycLevel', 'accreditedInvestor', 'jurisdiction'],
+  additionalProperties: false,
+  properties: {
+    customerKycId: { type: 'string', minLength: 1 },
+    issuerDid: DID_SCHEMA,
+    kycLevel: { type: 'string', enum: KYC_FIELD_VALUES.kycLevel },
+    accreditedInvestor: { type: 'boolean' },
+    jurisdiction: JURISDICTIONS_SCHEMA,
+    expiryDays: {
+      type: 'integer',
+      minimum: 1,
+      maximum: MAX_EXPIRY_DAYS,
+      description: `a whole number of days from 1 to ${MAX_EXPIRY_DAYS}`
+    },
+    signatureAlgorithm: { type: 'string', enum: SIGNATURE_ALGORITHMS },
+    dataModelVersion: { type: 'string', enum: ['1.1', '2.0'] },
+    duplicatePolicy: { type: 'string', enum: DUPLICATE_POLICIES }
+  }
+};
+
+export interface BatchIssueCredentialRequest extends IssueCredentialRequest {
+  idempotencyKey?: string;
+}
+
+export interface JwtCredentialVerificationResult extends CredentialVerificationResult {
+  credential: UnsecuredCredential | null;
+}
+
+/**
+ * DID a credential for the customer is issued to - the holder DID if given, else the customer's DID
+ */
+function getSubjectDid(customerKycId: string, kycData: CustomerKYCData, holderDid?: string): string {
+  return holderDid || kycData.userDid || `did:did3:user:${customerKycId}`;
+}
+
+/**
+ * Active credentials of this service's type issued by an issuer to a subject DID
+ */
+async function findActiveCredentials(issuerDid: string, subjectDid: string): Promise<CredentialRecord[]> {
+  const { items } = await getCredentialRepository().find({
+    subject: subjectDid,
+    issuer: issuerDid,
+    status: 'active',
+    limit: MAX_PAGE_SIZE
+  });
+  return items.filter(record => record.subjectId === subjectDid && record.credential.type.includes(CREDENTIAL_TYPE));
+}
+
+/**
+ * Active credentials a request would duplicate - those the customer (or the holder DID) already holds from
+ * the issuer. Empty if the customer does not exist
+ */
+export async function findDuplicateCredentials(
+  request: Pick<IssueCredentialRequest, 'customerKycId' | 'issuerDid'>,
+  holderDid?: string
+): Promise<CredentialRecord[]> {
+  const kycData = await getCustomerKYC(request.customerKycId);
+  if (!kycData) {
+    return [];
+  }
+  return findActiveCredentials(request.issuerDid, getSubjectDid(request.customerKycId, kycData, holderDid));
+}
 
 /**
  * Issue a verifiable credential based on KYC data
+ * With `envelope: 'jwt'` the credential is returned as a JWT-VC compact JWS instead, and with
+ * `envelope: 'sd-jwt'` as an SD-JWT VC (see SdJwtIssueOptions)
  */
 export async function issueCredential(
-  request: IssueCredentialRequest
-): Promise<VerifiableCredential> {
-  // 1. Validate the issuer
+  request: IssueCredentialRequest,
+  options?: IssueCredentialOptions & { envelope?: 'none' }
+): Promise<VerifiableCredential>;
+export async function issueCredential(
+  request: IssueCredentialRequest,
+  options: IssueCredentialOptions & { envelope: 'jwt' | 'sd-jwt' }
+): Promise<string>;
+export async function issueCredential(
+  request: IssueCredentialRequest,
+  options?: IssueCredentialOptions
+): Promise<VerifiableCredential | string>;
+export async function issueCredential(
+  request: IssueCredentialRequest,
+  options: IssueCredentialOptions = {}
+): Promise<VerifiableCredential | string> {
+  // 1. Validate the issuer and that the caller may sign for it
+  if (options.authorizedIssuerDids && !canActForIssuer(options.authorizedIssuerDids, request.issuerDid)) {
+    throw domainError('ISSUER_NOT_AUTHORIZED', `Not authorized to issue as ${request.issuerDid}`, {
+      issuerDid: request.issuerDid
+    });
+  }
   const issuer = getIssuerByDid(request.issuerDid);
   if (!issuer) {
-    throw new Error(`Invalid issuer DID: ${request.issuerDid}`);
+    throw domainError('ISSUER_NOT_FOUND', `Invalid issuer DID: ${request.issuerDid}`, { issuerDid: request.issuerDid });
   }
+  assertIssuerAuthorized(issuer.did, 'KYCCredential', request.jurisdiction);
 
   // 2. Retrieve customer KYC data
-  const kycData = getCustomerKYC(request.customerKycId);
+  const kycData = await getCustomerKYC(request.customerKycId, options.kycDataSource);
   if (!kycData) {
-    throw new Error(`Customer not found: ${request.customerKycId}`);
+    throw domainError('CUSTOMER_NOT_FOUND', `Customer not found: ${request.customerKycId}`, {
+      customerKycId: request.customerKycId
+    });
   }
 
   // 3. Validate KYC status - all checks must pass
@@ -43,35 +186,56 @@ export async function issueCredential(
     kycData.sanctionsCheck !== 'passed' ||
     kycData.pepScreening !== 'passed'
   ) {
-    throw new Error('Customer has not passed all required KYC checks');
+    throw domainError('KYC_CHECKS_FAILED', 'Customer has not passed all required KYC checks', {
+      amlScreening: kycData.amlScreening,
+      sanctionsCheck: kycData.sanctionsCheck,
+      pepScreening: kycData.pepScreening
+    });
   }
 
   // 4. Validate request parameters against KYC data
   if (request.kycLevel !== kycData.kycLevel) {
-    throw new Error(`KYC level mismatch: requested ${request.kycLevel}, customer has ${kycData.kycLevel}`);
+    throw domainError(
+      'KYC_LEVEL_MISMATCH',
+      `KYC level mismatch: requested ${request.kycLevel}, customer has ${kycData.kycLevel}`
+    );
   }
 
   if (request.accreditedInvestor !== kycData.accreditedInvestor) {
-    throw new Error('Accredited investor status mismatch');
+    throw domainError('ACCREDITED_INVESTOR_MISMATCH', 'Accredited investor status mismatch');
   }
 
   // 5. Generate credential ID and dates
-  const subjectDid = kycData.userDid || `did:did3:user:${request.customerKycId}`;
+  const subjectDid = getSubjectDid(request.customerKycId, kycData, options.holderDid);
   const credentialId = generateCredentialId(issuer.did, subjectDid);
   const issuanceDate = new Date();
   const expiryDays = request.expiryDays || 365;
   const expirationDate = new Date(issuanceDate);
   expirationDate.setDate(expirationDate.getDate() + expiryDays);
 
-  // 6. Hash PII for privacy
-  const hashedPII = {
-    name: hashPII(kycData.name),
-    dateOfBirth: hashPII(kycData.dateOfBirth),
-    citizenship: hashPII(kycData.citizenship),
-    address: hashPII(kycData.address)
-  };
+  // 6. Apply the duplicate policy to active credentials the subject already holds from the issuer
+  const duplicatePolicy = request.duplicatePolicy || 'allow';
+  if (!DUPLICATE_POLICIES.includes(duplicatePolicy)) {
+    throw domainError('VALIDATION_FAILED', `Invalid duplicate policy: ${duplicatePolicy}`);
+  }
+  const duplicates = duplicatePolicy === 'allow' ? [] : await findActiveCredentials(issuer.did, subjectDid);
+  if (duplicatePolicy === 'reject' && duplicates.length > 0) {
+    throw domainError(
+      'DUPLICATE_CREDENTIAL',
+      `Subject ${subjectDid} already holds an active credential from ${issuer.did}: ${duplicates.map(record => record.id).join(', ')}`,
+      { existingCredentialIds: duplicates.map(record => record.id) }
+    );
+  }
 
-  // 7. Build credential subject
+  // 7. Commit to PII under per-field random salts
+  const { hashedPII, salts: piiSalts } = createPiiCommitments(issuer.did, {
+    name: kycData.name,
+    dateOfBirth: kycData.dateOfBirth,
+    citizenship: kycData.citizenship,
+    address: kycData.address
+  });
+
+  // 8. Build credential subject
   const credentialSubject = {
     id: subjectDid,
     hashedPII,
@@ -92,14 +256,24 @@ export async function issueCredential(
     jurisdictions: request.jurisdiction
   };
 
-  // 8. Build unsigned credential
+  // 9. Build unsigned credential in the requested data model version
+  const dataModelVersion = request.dataModelVersion || '1.1';
+  if (dataModelVersion !== '1.1' && dataModelVersion !== '2.0') {
+    throw domainError('VALIDATION_FAILED', `Unsupported data model version: ${dataModelVersion}`);
+  }
+
+  const context = dataModelVersion === '2.0'
+    ? [VCDM_V2_CONTEXT, 'https://did3.org/contexts/credentials/v1']
+    : [VCDM_V1_CONTEXT, DATA_INTEGRITY_CONTEXT, 'https://did3.org/contexts/credentials/v1'];
+
+  const validityPeriod = dataModelVersion === '2.0'
+    ? { validFrom: issuanceDate.toISOString(), validUntil: expirationDate.toISOString() }
+    : { issuanceDate: issuanceDate.toISOString(), expirationDate: expirationDate.toISOString() };
+
   const unsignedCredential = {
-    '@context': [
-      'https://www.w3.org/2018/credentials/v1',
-      'https://did3.org/contexts/credentials/v1'
-    ],
+    '@context': context,
     id: credentialId,
-    type: ['VerifiableCredential', 'KYCCredential'],
+    type: ['VerifiableCredential', CREDENTIAL_TYPE],
     issuer: {
       id: issuer.did,
       name: issuer.name,
@@ -107,47 +281,110 @@ export async function issueCredential(
       regulators: issuer.regulators,
       tier: issuer.tier
     },
-    issuanceDate: issuanceDate.toISOString(),
-    expirationDate: expirationDate.toISOString(),
+    ...validityPeriod,
     credentialSubject,
     decommissionedAt: null,
-    credentialStatus: {
-      id: generateStatusUrl(credentialId),
-      type: 'DID3RevocationRegistry' as const,
-      registryContract: '0x' + '0'.repeat(40), // Mock contract address
-      tokenId: Math.floor(Math.random() * 100000).toString()
-    }
+    credentialStatus: allocateStatusListEntry(issuer.did)
   };
 
-  // 9. Create canonical representation for signing
-  const canonicalData = JSON.stringify(unsignedCredential, Object.keys(unsignedCredential).sort());
-
-  // 10. Sign the credential
-  const signatureAlgorithm = request.signatureAlgorithm || issuer.signatureAlgorithm;
-  const proofValue = await signCredential(
-    canonicalData,
-    issuer.privateKey,
+  // 10. Sign the credential with a Data Integrity proof over its JCS canonical form, using the active issuer key
+  const signingKey = getActiveIssuerKey(issuer.did);
+  const signatureAlgorithm = signingKey.signatureAlgorithm;
+  if (request.signatureAlgorithm && request.signatureAlgorithm !== signatureAlgorithm) {
+    throw domainError(
+      'SIGNATURE_ALGORITHM_MISMATCH',
+      `Issuer key ${signingKey.id} uses ${signatureAlgorithm}, not ${request.signatureAlgorithm}`
+    );
+  }
+  const proof = await createDataIntegrityProof(
+    unsignedCredential,
+    {
+      created: issuanceDate.toISOString(),
+      verificationMethod: signingKey.id,
+      proofPurpose: 'assertionMethod'
+    },
+    getIssuerKeySigner(signingKey),
     signatureAlgorithm
   );
 
-  // 11. Build proof
-  const proofType = signatureAlgorithm === 'Ed25519'
-    ? 'Ed25519Signature2020'
-    : 'EcdsaSecp256k1Signature2019';
-
-  const proof: Proof = {
-    type: proofType,
-    created: issuanceDate.toISOString(),
-    verificationMethod: `${issuer.did}#key-1`,
-    proofPurpose: 'assertionMethod',
-    proofValue
-  };
-
-  // 12. Return complete verifiable credential
-  return {
+  // 11. Assemble complete verifiable credential
+  const credential: VerifiableCredential = {
     ...unsignedCredential,
     proof
   };
+
+  // 12. Record the issued credential and tell subscribers
+  const record = createCredentialRecord(credential, request.customerKycId);
+  await getCredentialRepository().save(record);
+  if (options.deliverPiiSalts) {
+    await options.deliverPiiSalts(piiSalts, credential.id);
+  }
+  await publishWebhookEvent('credential.issued', {
+    credentialId: record.id,
+    issuerDid: record.issuerDid,
+    customerKycId: record.customerKycId,
+    subjectId: record.subjectId,
+    expiresAt: record.expiresAt
+  }, { issuerDid: record.issuerDid, credentialId: record.id });
+
+  // 13. Revoke the credentials this one supersedes, once it is recorded
+  if (duplicatePolicy === 'supersede' && duplicates.length > 0) {
+    const supersededRecords: CredentialRecord[] = [];
+    for (const duplicate of duplicates) {
+      supersededRecords.push(await revokeCredential(duplicate.id, `Superseded by ${credential.id}`));
+    }
+    if (options.onSuperseded) {
+      await options.onSuperseded(supersededRecords, credential.id);
+    }
+  }
+
+  // 14. Wrap in the requested envelope
+  if (options.envelope === 'jwt') {
+    return encodeCredentialAsJwt(credential);
+  }
+  if (options.envelope === 'sd-jwt') {
+    return encodeCredentialAsSdJwt(credential, options);
+  }
+
+  return credential;
+}
+
+/**
+ * Check a credential's validity period (issuanceDate/expirationDate in VCDM 1.1, validFrom/validUntil in 2.0)
+ */
+function checkValidityPeriod(credential: UnsecuredCredential, errors: string[]): void {
+  const now = new Date();
+  const validFrom = getValidFrom(credential);
+  const validUntil = getValidUntil(credential);
+  if (getDataModelVersion(credential) === '1.1' && !validFrom) {
+    errors.push('Missing issuanceDate');
+  }
+  if (validFrom && now < new Date(validFrom)) {
+    errors.push('Credential is not yet valid');
+  }
+  if (validUntil && now > new Date(validUntil)) {
+    errors.push('Credential has expired');
+  }
+}
+
+/**
+ * Check a credential's revocation status against the issuer's status list
+ */
+async function checkRevocation(
+  credential: UnsecuredCredential,
+  issuerDid: string,
+  errors: string[]
+): Promise<boolean> {
+  if (credential.credentialStatus?.type !== 'StatusList2021') {
+    return false;
+  }
+
+  const status = await checkCredentialStatus(credential.credentialStatus, issuerDid);
+  errors.push(...status.errors);
+  if (status.revoked) {
+    errors.push('Credential has been revoked');
+  }
+  return status.revoked;
 }
 
 /**
@@ -155,94 +392,278 @@ export async function issueCredential(
  */
 export async function verifyCredential(
   credential: VerifiableCredential
-): Promise<{
-  valid: boolean;
-  errors: string[];
-}> {
+): Promise<CredentialVerificationResult> {
   const errors: string[] = [];
+  const warnings: string[] = [];
+  let revoked = false;
+  let weakProof = false;
 
   try {
-    // 1. Verify expiration
-    const now = new Date();
-    const expirationDate = new Date(credential.expirationDate);
-    if (now > expirationDate) {
-      errors.push('Credential has expired');
-    }
+    // 1. Verify validity period
+    checkValidityPeriod(credential, errors);
 
     // 2. Verify not decommissioned
     if (credential.decommissionedAt !== null) {
       errors.push('Credential has been decommissioned');
     }
 
-    // 3. Verify issuer exists
-    const issuer = getIssuerByDid(credential.issuer.id);
-    if (!issuer) {
-      errors.push('Unknown issuer');
-      return { valid: false, errors };
+    // 3. Resolve the key of the trusted issuer named by the proof's verification method (it must have been
+    // active when signed). Only Data Integrity proofs sign their created time - legacy proofs use the
+    // credential's issuance date
+    const signedAt = credential.proof.type === 'DataIntegrityProof'
+      ? credential.proof.created || getValidFrom(credential)
+      : getValidFrom(credential);
+    let issuerKey: ResolvedVerificationMethod;
+    try {
+      issuerKey = await resolveTrustedIssuerKey(
+        credential.issuer.id,
+        credential.proof.verificationMethod,
+        signedAt
+      );
+    } catch (error) {
+      errors.push(`Unknown issuer: ${error instanceof Error ? error.message : String(error)}`);
+      return { valid: false, revoked, weakProof, errors, warnings };
     }
 
-    // 4. Verify signature
-    // Create canonical representation (without proof)
-    const { proof, ...credentialWithoutProof } = credential;
-    const canonicalData = JSON.stringify(credentialWithoutProof, Object.keys(credentialWithoutProof).sort());
-
-    const { verifySignature } = await import('../utils/crypto');
-    const signatureValid = await verifySignature(
-      canonicalData,
-      proof.proofValue,
-      issuer.publicKey,
-      issuer.signatureAlgorithm
+    // 4. Verify signature with the verifier for the proof's format
+    const { valid: signatureValid, format } = await verifyProof(
+      credential,
+      issuerKey.publicKey,
+      issuerKey.algorithm
     );
 
     if (!signatureValid) {
       errors.push('Invalid signature');
     }
 
+    if (format === 'legacy') {
+      weakProof = true;
+      warnings.push('Legacy proof format: nested credential fields are not covered by the signature');
+    }
+
+    // 5. Verify revocation status
+    revoked = await checkRevocation(credential, credential.issuer.id, errors);
+
+    // 6. Verify the issuer was accredited and not suspended when the credential was issued
+    checkIssuerTrustAt(credential, signedAt, errors, warnings);
+
     return {
       valid: errors.length === 0 && signatureValid,
-      errors
+      revoked,
+      weakProof,
+      errors,
+      warnings
     };
   } catch (error) {
     errors.push(`Verification error: ${error instanceof Error ? error.message : String(error)}`);
-    return { valid: false, errors };
+    return { valid: false, revoked, weakProof, errors, warnings };
   }
 }
 
 /**
- * Revoke a credential (set decommissionedAt)
+ * Verify a JWT-VC: JWS signature, claim mapping, validity period and revocation status
  */
-export function revokeCredential(
-  credential: VerifiableCredential
-): VerifiableCredential {
-  return {
-    ...credential,
-    decommissionedAt: new Date().toISOString()
+export async function verifyJwtCredential(token: string): Promise<JwtCredentialVerificationResult> {
+  const errors: string[] = [];
+  const warnings: string[] = [];
+  let revoked = false;
+  let credential: UnsecuredCredential | null = null;
+
+  try {
+    // 1. Decode the JWT and extract the vc claim
+    const { decoded, credential: vc } = decodeJwtCredential(token);
+    credential = vc;
+    const { iss, sub, jti, nbf, exp } = decoded.payload;
+
+    // 2. Resolve the key of the trusted issuer named by the JWS kid
+    let issuerKey: ResolvedVerificationMethod;
+    try {
+      issuerKey = await resolveTrustedIssuerKey(String(iss), decoded.header.kid, getJwtIssuedAt(decoded.payload));
+    } catch (error) {
+      errors.push(`Unknown issuer: ${error instanceof Error ? error.message : String(error)}`);
+      return { valid: false, revoked, weakProof: false, errors, warnings, credential };
+    }
+
+    // 3. Verify JWS signature
+    const signatureValid = await verifyJwtSignature(decoded, issuerKey.publicKey, issuerKey.algorithm);
+    if (!signatureValid) {
+      errors.push('Invalid signature');
+    }
+
+    // 4. Verify registered claims match the credential
+    if (vc.issuer?.id !== iss) {
+      errors.push('JWT iss does not match credential issuer');
+    }
+    if (sub !== undefined && vc.credentialSubject?.id !== sub) {
+      errors.push('JWT sub does not match credential subject');
+    }
+    if (jti !== undefined && vc.id !== jti) {
+      errors.push('JWT jti does not match credential id');
+    }
+
+    // 5. Verify validity period from nbf/exp
+    const now = Math.floor(Date.now() / 1000);
+    if (typeof nbf === 'number' && now < nbf) {
+      errors.push('Credential is not yet valid');
+    }
+    if (typeof exp === 'number' && now > exp) {
+      errors.push('Credential has expired');
+    }
+
+    // 6. Verify not decommissioned
+    if (vc.decommissionedAt !== null && vc.decommissionedAt !== undefined) {
+      errors.push('Credential has been decommissioned');
+    }
+
+    // 7. Verify revocation status
+    revoked = await checkRevocation(vc, String(iss), errors);
+
+    // 8. Verify the issuer was accredited and not suspended when the credential was issued
+    checkIssuerTrustAt(vc, getJwtIssuedAt(decoded.payload), errors, warnings);
+
+    return {
+      valid: errors.length === 0 && signatureValid,
+      revoked,
+      weakProof: false,
+      errors,
+      warnings,
+      credential
+    };
+  } catch (error) {
+    errors.push(`Verification error: ${error instanceof Error ? error.message : String(error)}`);
+    return { valid: false, revoked, weakProof: false, errors, warnings, credential };
+  }
+}
+
+/**
+ * Check the trust registry for the issuer of a credential at its issuance time
+ */
+function checkIssuerTrustAt(
+  credential: UnsecuredCredential,
+  issuedAt: string | undefined,
+  errors: string[],
+  warnings: string[]
+): void {
+  const trust = checkIssuerTrust(credential.issuer?.id, {
+    issuedAt,
+    credentialTypes: (credential.type || []).filter(type => type !== 'VerifiableCredential'),
+    jurisdictions: credential.credentialSubject?.jurisdictions
+  });
+  errors.push(...trust.errors);
+  warnings.push(...trust.warnings);
+}
+
+/**
+ * Revoke an issued credential by flipping its bit in the issuer's status list
+ * `reason` is passed on to webhook subscribers
+ */
+export async function revokeCredential(credentialId: string, reason?: string): Promise<CredentialRecord> {
+  const repository = getCredentialRepository();
+  const record = await repository.findById(credentialId);
+  if (!record) {
+    throw domainError('CREDENTIAL_NOT_FOUND', `Credential not found: ${credentialId}`, { id: credentialId });
+  }
+
+  if (record.revokedAt !== null) {
+    throw domainError('CREDENTIAL_ALREADY_REVOKED', `Credential already revoked: ${credentialId}`, {
+      id: credentialId,
+      revokedAt: record.revokedAt
+    });
+  }
+
+  if (record.credential.credentialStatus.type === 'StatusList2021') {
+    revokeStatusListEntry(record.credential.credentialStatus);
+  }
+
+  const revokedRecord: CredentialRecord = {
+    ...record,
+    revokedAt: new Date().toISOString()
   };
+  await repository.save(revokedRecord);
+  await publishWebhookEvent('credential.revoked', {
+    credentialId: revokedRecord.id,
+    issuerDid: revokedRecord.issuerDid,
+    customerKycId: revokedRecord.customerKycId,
+    revokedAt: revokedRecord.revokedAt,
+    reason: reason ?? null
+  }, { issuerDid: revokedRecord.issuerDid, credentialId: revokedRecord.id });
+
+  return revokedRecord;
 }
 
 /**
  * Batch issue credentials for multiple customers
+ * Requests carrying an idempotencyKey are issued at most once per key for `clientId`: a retried request gets
+ * the stored credential back, without PII salts, and is listed in `replayed`. Failures carry the error code
+ * where the error has one
  */
 export async function batchIssueCredentials(
-  requests: IssueCredentialRequest[]
+  requests: BatchIssueCredentialRequest[],
+  options: Pick<IssueCredentialOptions, 'deliverPiiSalts' | 'authorizedIssuerDids' | 'onSuperseded'> & {
+    clientId?: string; // Idempotency keys are scoped to this client
+  } = {}
 ): Promise<{
   successful: VerifiableCredential[];
-  failed: Array<{ request: IssueCredentialRequest; error: string }>;
+  failed: Array<{ request: BatchIssueCredentialRequest; error: string; code?: ErrorCode }>;
+  replayed: string[];
 }> {
   const successful: VerifiableCredential[] = [];
-  const failed: Array<{ request: IssueCredentialRequest; error: string }> = [];
+  const failed: Array<{ request: BatchIssueCredentialRequest; error: string; code?: ErrorCode }> = [];
+  const replayed: string[] = [];
+  const { clientId = '', ...issueOptions } = options;
 
   for (const request of requests) {
     try {
-      const credential = await issueCredential(request);
+      const { idempotencyKey, ...issueRequest } = request;
+      if (idempotencyKey === undefined) {
+        successful.push(await issueCredential(issueRequest, issueOptions));
+        continue;
+      }
+
+      // The salts are delivered on first issuance only and never stored for the replay
+      const outcome = await runIdempotent(
+        clientId,
+        idempotencyKey,
+        issueRequest,
+        async () => ({ credential: await issueCredential(issueRequest, issueOptions) })
+      );
+      if (outcome.status === 'conflict') {
+        throw domainError(
+          'IDEMPOTENCY_KEY_REUSED',
+          `Idempotency key ${idempotencyKey} was already used for a different request`
+        );
+      }
+      if (outcome.status === 'in-progress') {
+        throw domainError(
+          'IDEMPOTENCY_KEY_IN_PROGRESS',
+          `A request with idempotency key ${idempotencyKey} is still in progress`
+        );
+      }
+
+      const { credential } = outcome.result;
+      if (outcome.status === 'replayed') {
+        replayed.push(credential.id);
+      }
       successful.push(credential);
     } catch (error) {
       failed.push({
         request,
-        error: error instanceof Error ? error.message : String(error)
+        error: error instanceof Error ? error.message : String(error),
+        ...(isDomainError(error) && { code: error.code })
       });
     }
   }
 
-  return { successful, failed };
+  // The batch is only reported to the client that submitted it
+  if (clientId) {
+    await publishWebhookEvent('batch.completed', {
+      source: 'batch-issue',
+      total: requests.length,
+      succeeded: successful.length,
+      failed: failed.length,
+      credentialIds: successful.map(credential => credential.id)
+    }, { clientId });
+  }
+
+  return { successful, failed, replayed };
 }
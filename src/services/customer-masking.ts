@@ -0,0 +1,64 @@
+/**
+ * Customer PII Masking
+ * Field-level masking profiles for customer KYC data, so callers see only as much PII as their role needs
+ */
+
+import { CustomerKYCData } from '../types/credentials';
+
+/**
+ * How a masked field is shown: left out entirely, reduced to the birth year, or an address without its
+ * street line (everything up to the first comma)
+ */
+export type CustomerFieldMask = 'omit' | 'year-only' | 'partial-address';
+
+export type MaskingProfileName = 'full' | 'support';
+
+export type MaskingProfile = Partial<Record<keyof CustomerKYCData, CustomerFieldMask>>;
+
+/**
+ * Customer KYC data with the fields of a masking profile masked or left out
+ */
+export type MaskedCustomerKYCData = Partial<CustomerKYCData>;
+
+export const MASKING_PROFILES: Record<MaskingProfileName, MaskingProfile> = {
+  full: {},
+  // Enough to identify a customer and their KYC status, without date of birth, street address or wealth
+  support: {
+    dateOfBirth: 'year-only',
+    address: 'partial-address',
+    verifiedAmount: 'omit'
+  }
+};
+
+/**
+ * Apply one mask to a string field
+ */
+function maskValue(value: string, mask: Exclude<CustomerFieldMask, 'omit'>): string {
+  if (mask === 'year-only') {
+    return `${value.slice(0, 4)}-**-**`;
+  }
+  const comma = value.indexOf(',');
+  return comma === -1 ? '***' : `***${value.slice(comma)}`;
+}
+
+/**
+ * Mask a customer's KYC data with a profile
+ */
+export function maskCustomer(customer: CustomerKYCData, profileName: MaskingProfileName): MaskedCustomerKYCData {
+  const profile = MASKING_PROFILES[profileName];
+  const masked: Record<string, unknown> = { ...customer };
+
+  for (const [field, mask] of Object.entries(profile)) {
+    const value = masked[field];
+    if (value === undefined) {
+      continue;
+    }
+    if (mask === 'omit' || typeof value !== 'string') {
+      delete masked[field];
+    } else {
+      masked[field] = maskValue(value, mask);
+    }
+  }
+
+  return masked as MaskedCustomerKYCData;
+}
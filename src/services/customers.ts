@@ -0,0 +1,191 @@
+/**
+ * Customer Service
+ * Customer KYC data from the configured KYC data source, with changes recorded in the audit log
+ */
+
+import { AuditAction, CustomerKYCData, KycChangeAction, PaginatedResult } from '../types/credentials';
+import {
+  KycDataSource,
+  WritableKycDataSource,
+  getKycDataSource,
+  isKycSourceUnavailable,
+  isWritableKycDataSource,
+  kycSourceUnavailable
+} from '../storage/kyc-data-source';
+import { KYC_FIELDS, KYC_FIELD_VALUES } from '../storage/kyc-field-mapping';
+import { normalizePagination } from '../storage/credential-repository';
+import { DID_SCHEMA, JURISDICTIONS_SCHEMA, JsonSchema, validateJsonSchema } from '../utils/json-schema';
+import { domainError } from '../utils/errors';
+import { recordAuditEvent } from './audit-log';
+import { KycChangeOptions, applyKycChange } from './kyc-changes';
+
+export interface CustomerSearchCriteria {
+  kycLevel?: string;
+  accreditedInvestor?: boolean;
+  entityType?: string;
+  jurisdiction?: string;
+  limit?: number;
+  offset?: number;
+}
+
+export const KYC_ID_PATTERN = /^[A-Za-z0-9._-]{1,64}$/;
+export const CUSTOMER_TIERS = { min: 1, max: 5 };
+
+const TEXT_SCHEMA: JsonSchema = { type: 'string', pattern: '\\S', description: 'a non-empty string' };
+
+/**
+ * A complete customer record
+ */
+export const CUSTOMER_SCHEMA: JsonSchema = {
+  type: 'object',
+  required: KYC_FIELDS.filter(field => field !== 'userDid'),
+  additionalProperties: false,
+  properties: {
+    kycId: { type: 'string', pattern: KYC_ID_PATTERN.source, description: '1-64 letters, digits, ".", "_" or "-"' },
+    name: TEXT_SCHEMA,
+    dateOfBirth: { type: 'string', format: 'date' },
+    citizenship: { type: 'string', pattern: '^[A-Z]{2}$', description: 'an ISO 3166 alpha-2 country code' },
+    address: TEXT_SCHEMA,
+    ...Object.fromEntries(
+      Object.entries(KYC_FIELD_VALUES).map(([field, allowed]) => [field, { type: 'string', enum: allowed }])
+    ),
+    accreditedInvestor: { type: 'boolean' },
+    verifiedAmount: { type: 'number', minimum: 0, description: 'a non-negative number' },
+    currency: { type: 'string', pattern: '^[A-Z]{3}$', description: 'an ISO 4217 currency code' },
+    tier: {
+      type: 'integer',
+      minimum: CUSTOMER_TIERS.min,
+      maximum: CUSTOMER_TIERS.max,
+      description: `an integer from ${CUSTOMER_TIERS.min} to ${CUSTOMER_TIERS.max}`
+    },
+    jurisdictions: JURISDICTIONS_SCHEMA,
+    userDid: DID_SCHEMA
+  }
+};
+
+/**
+ * Check a customer record is complete and well formed - returns one message per invalid field, empty if valid
+ */
+export function validateCustomerKYC(value: unknown): string[] {
+  const errors = validateJsonSchema(value, CUSTOMER_SCHEMA, 'customer');
+
+  // A date of birth must also be in the past
+  const dateOfBirth = (value as Partial<CustomerKYCData> | null)?.dateOfBirth;
+  if (!errors.some(error => error.includes('dateOfBirth')) && typeof dateOfBirth === 'string' &&
+    Date.parse(`${dateOfBirth}T00:00:00Z`) > Date.now()) {
+    errors.push('Invalid dateOfBirth: expected a past date');
+  }
+
+  return errors;
+}
+
+/**
+ * Run a query against a source, reporting any failure as the source being unavailable
+ */
+async function querySource<T>(source: KycDataSource, query: () => Promise<T>): Promise<T> {
+  try {
+    return await query();
+  } catch (error) {
+    throw isKycSourceUnavailable(error) ? error : kycSourceUnavailable(source.name, error);
+  }
+}
+
+/**
+ * The configured source, if customers can be written to it
+ */
+function getWritableSource(): WritableKycDataSource {
+  const source = getKycDataSource();
+  if (!isWritableKycDataSource(source)) {
+    throw domainError('KYC_SOURCE_READ_ONLY', `KYC data source is read-only: ${source.name}`, { source: source.name });
+  }
+  return source;
+}
+
+/**
+ * Record a customer change in the audit log
+ */
+function auditCustomerChange(action: AuditAction, kycId: string, actor: string, error: string | null = null): void {
+  recordAuditEvent({
+    action,
+    actor,
+    customerKycId: kycId,
+    outcome: error ? 'failure' : 'success',
+    error
+  }).catch(auditError => console.error('Failed to write audit entry:', auditError));
+}
+
+/**
+ * Retrieve customer KYC data by ID - null if the customer does not exist, throws if the source is unavailable
+ */
+export async function getCustomerKYC(
+  kycId: string,
+  source: KycDataSource = getKycDataSource()
+): Promise<CustomerKYCData | null> {
+  return querySource(source, () => source.getCustomer(kycId));
+}
+
+/**
+ * Get all customers (for admin purposes)
+ */
+export async function getAllCustomers(): Promise<CustomerKYCData[]> {
+  const source = getKycDataSource();
+  return querySource(source, () => source.listCustomers());
+}
+
+/**
+ * Add or update customer KYC data
+ * An update that fails a screening or changes what the customer's credentials assert revokes or supersedes
+ * them (see applyKycChange) - returns the actions taken
+ */
+export async function upsertCustomerKYC(
+  customer: CustomerKYCData,
+  actor = 'system',
+  options: KycChangeOptions = {}
+): Promise<KycChangeAction[]> {
+  const source = getWritableSource();
+  const existing = await getCustomerKYC(customer.kycId, source);
+  await querySource(source, () => source.upsertCustomer(customer));
+  auditCustomerChange(existing ? 'customer.update' : 'customer.create', customer.kycId, actor);
+  return existing ? applyKycChange(existing, customer, actor, options) : [];
+}
+
+/**
+ * Delete customer KYC data
+ */
+export async function deleteCustomerKYC(kycId: string, actor = 'system'): Promise<boolean> {
+  const source = getWritableSource();
+  const deleted = await querySource(source, () => source.deleteCustomer(kycId));
+  auditCustomerChange('customer.delete', kycId, actor, deleted ? null : 'Customer not found');
+  return deleted;
+}
+
+/**
+ * Search customers by criteria, a page at a time in KYC ID order
+ */
+export async function searchCustomers(criteria: CustomerSearchCriteria): Promise<PaginatedResult<CustomerKYCData>> {
+  const { limit, offset } = normalizePagination(criteria);
+  const customers = await getAllCustomers();
+
+  const matching = customers.filter(customer => {
+    if (criteria.kycLevel && customer.kycLevel !== criteria.kycLevel) {
+      return false;
+    }
+    if (criteria.accreditedInvestor !== undefined && customer.accreditedInvestor !== criteria.accreditedInvestor) {
+      return false;
+    }
+    if (criteria.entityType && customer.entityType !== criteria.entityType) {
+      return false;
+    }
+    if (criteria.jurisdiction && !customer.jurisdictions.includes(criteria.jurisdiction)) {
+      return false;
+    }
+    return true;
+  });
+
+  return {
+    items: matching.slice(offset, offset + limit),
+    total: matching.length,
+    limit,
+    offset
+  };
+}
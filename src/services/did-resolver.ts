@@ -0,0 +1,219 @@
+/**
+ * DID Resolver
+ * Builds W3C DID documents for bank issuers and resolves did:did3, did:key and did:web identifiers
+ */
+
+import {
+  BankIssuer,
+  SignatureAlgorithm,
+  VerificationMethod,
+  W3CDIDDocument
+} from '../types/credentials';
+import { publicKeyToMultibase, multibaseToPublicKey } from '../utils/did-key';
+import { getIssuerByDid } from '../config/bank-issuers';
+import { getIssuerKeys, checkIssuerKeyUsage } from './issuer-keys';
+
+export const DID_CONTEXT = 'https://www.w3.org/ns/did/v1';
+export const MULTIKEY_CONTEXT = 'https://w3id.org/security/multikey/v1';
+
+export type VerificationRelationship = 'assertionMethod' | 'authentication';
+
+export interface ResolvedVerificationMethod {
+  id: string;
+  controller: string;
+  publicKey: string;
+  algorithm: SignatureAlgorithm;
+}
+
+/**
+ * Fetches a did:web document URL and returns the parsed JSON body
+ */
+export type DidWebFetcher = (url: string) => Promise<unknown>;
+
+const defaultDidWebFetcher: DidWebFetcher = async (url) => {
+  const response = await fetch(url, { headers: { Accept: 'application/did+json, application/json' } });
+  if (!response.ok) {
+    throw new Error(`did:web fetch failed with HTTP ${response.status}`);
+  }
+  return response.json();
+};
+
+let didWebFetcher: DidWebFetcher = defaultDidWebFetcher;
+
+/**
+ * Replace the fetcher used for did:web resolution (e.g. with a local stub in tests)
+ */
+export function setDidWebFetcher(fetcher: DidWebFetcher | null): void {
+  didWebFetcher = fetcher || defaultDidWebFetcher;
+}
+
+/**
+ * Build a W3C DID document for a bank issuer
+ * Lists the active key first, followed by retired keys that still verify earlier credentials;
+ * revoked keys are omitted
+ */
+export function buildIssuerDidDocument(issuer: BankIssuer): W3CDIDDocument {
+  const keys = getIssuerKeys(issuer.did)
+    .filter(key => key.status !== 'revoked')
+    .sort((a, b) => Number(b.status === 'active') - Number(a.status === 'active'));
+  const keyIds = keys.map(key => key.id);
+
+  return {
+    '@context': [DID_CONTEXT, MULTIKEY_CONTEXT],
+    id: issuer.did,
+    verificationMethod: keys.map(key => ({
+      id: key.id,
+      type: 'Multikey' as const,
+      controller: issuer.did,
+      publicKeyMultibase: publicKeyToMultibase(key.publicKey, key.signatureAlgorithm)
+    })),
+    authentication: keyIds,
+    assertionMethod: keyIds
+  };
+}
+
+/**
+ * Resolve a did:did3 identifier from the issuer registry
+ */
+function resolveDid3(did: string): W3CDIDDocument {
+  const issuer = getIssuerByDid(did);
+  if (!issuer) {
+    throw new Error(`DID not found: ${did}`);
+  }
+  return buildIssuerDidDocument(issuer);
+}
+
+/**
+ * Resolve a did:key identifier - the document is derived from the key itself
+ */
+function resolveDidKey(did: string): W3CDIDDocument {
+  const multibase = did.slice('did:key:'.length);
+  multibaseToPublicKey(multibase); // Validates the key encoding
+  const keyId = `${did}#${multibase}`;
+
+  return {
+    '@context': [DID_CONTEXT, MULTIKEY_CONTEXT],
+    id: did,
+    verificationMethod: [
+      {
+        id: keyId,
+        type: 'Multikey',
+        controller: did,
+        publicKeyMultibase: multibase
+      }
+    ],
+    authentication: [keyId],
+    assertionMethod: [keyId]
+  };
+}
+
+/**
+ * Map a did:web identifier to the URL of its DID document
+ * did:web:example.com -> https://example.com/.well-known/did.json
+ * did:web:example.com:issuers:acme -> https://example.com/issuers/acme/did.json
+ */
+export function didWebToUrl(did: string): string {
+  const segments = did.slice('did:web:'.length).split(':').map(decodeURIComponent);
+  if (segments.length === 0 || !segments[0]) {
+    throw new Error(`Invalid did:web identifier: ${did}`);
+  }
+
+  const [host, ...pathSegments] = segments;
+  return pathSegments.length > 0
+    ? `https://${host}/${pathSegments.join('/')}/did.json`
+    : `https://${host}/.well-known/did.json`;
+}
+
+/**
+ * Resolve a did:web identifier through the configured fetcher
+ */
+async function resolveDidWeb(did: string): Promise<W3CDIDDocument> {
+  const document = await didWebFetcher(didWebToUrl(did)) as W3CDIDDocument;
+  if (!document || document.id !== did) {
+    throw new Error(`did:web document id does not match ${did}`);
+  }
+  return document;
+}
+
+/**
+ * Resolve a DID to its DID document
+ */
+export async function resolveDid(did: string): Promise<W3CDIDDocument> {
+  if (did.startsWith('did:did3:')) {
+    return resolveDid3(did);
+  } else if (did.startsWith('did:key:')) {
+    return resolveDidKey(did);
+  } else if (did.startsWith('did:web:')) {
+    return resolveDidWeb(did);
+  }
+
+  throw new Error(`Unsupported DID method: ${did.split(':').slice(0, 2).join(':')}`);
+}
+
+/**
+ * Resolve a verification method URL (did#fragment) to its public key
+ * The method must be authorised for the given verification relationship in the controller's DID document
+ */
+export async function resolveVerificationMethod(
+  verificationMethodUrl: string,
+  relationship: VerificationRelationship = 'assertionMethod'
+): Promise<ResolvedVerificationMethod> {
+  const [did, fragment] = verificationMethodUrl.split('#');
+  if (!fragment) {
+    throw new Error(`Verification method must be a DID URL with a fragment: ${verificationMethodUrl}`);
+  }
+
+  const document = await resolveDid(did);
+  const matches = (id: string) => id === verificationMethodUrl || id === `#${fragment}`;
+
+  const method: VerificationMethod | undefined = document.verificationMethod?.find(vm => matches(vm.id));
+  if (!method) {
+    throw new Error(`Verification method not found: ${verificationMethodUrl}`);
+  }
+
+  if (!(document[relationship] || []).some(matches)) {
+    throw new Error(`Verification method is not authorised for ${relationship}: ${verificationMethodUrl}`);
+  }
+
+  const { publicKey, algorithm } = multibaseToPublicKey(method.publicKeyMultibase);
+  return {
+    id: verificationMethodUrl,
+    controller: method.controller || document.id,
+    publicKey,
+    algorithm
+  };
+}
+
+/**
+ * Resolve the key an issuer signed with
+ * Uses the given verification method (which must be controlled by the issuer), or the issuer's first
+ * assertion method when the proof does not name one. When signedAt is given, the issuer's own
+ * rotated keys are only accepted if they were active at that time
+ */
+export async function resolveIssuerKey(
+  issuerDid: string,
+  verificationMethodUrl?: string,
+  signedAt?: string
+): Promise<ResolvedVerificationMethod> {
+  if (!verificationMethodUrl) {
+    const document = await resolveDid(issuerDid);
+    const [firstAssertionMethod] = document.assertionMethod || [];
+    if (!firstAssertionMethod) {
+      throw new Error(`No assertion method in DID document: ${issuerDid}`);
+    }
+    verificationMethodUrl = firstAssertionMethod.startsWith('#')
+      ? `${issuerDid}${firstAssertionMethod}`
+      : firstAssertionMethod;
+  }
+
+  const keyUsageError = checkIssuerKeyUsage(verificationMethodUrl, signedAt);
+  if (keyUsageError) {
+    throw new Error(keyUsageError);
+  }
+
+  const method = await resolveVerificationMethod(verificationMethodUrl, 'assertionMethod');
+  if (method.controller !== issuerDid) {
+    throw new Error(`Verification method ${verificationMethodUrl} is not controlled by ${issuerDid}`);
+  }
+  return method;
+}
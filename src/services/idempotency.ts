@@ -0,0 +1,81 @@
+/**
+ * Idempotency Keys
+ * Lets clients retry an operation safely: the first result stored under a key is returned again for a
+ * repeat of the same request, and the key cannot be reused for a different request
+ */
+
+import { getIdempotencyStore } from '../storage/idempotency-store';
+import { canonicalize, sha256Hash } from '../utils/crypto';
+
+/**
+ * How long a stored result is replayed for
+ */
+export const IDEMPOTENCY_KEY_TTL_HOURS = 24;
+
+export const IDEMPOTENCY_KEY_MAX_LENGTH = 255;
+
+export type IdempotentOutcome<T> =
+  | { status: 'created'; result: T }
+  | { status: 'replayed'; result: T }
+  | { status: 'conflict' } // The key was used for a different request
+  | { status: 'in-progress' }; // The first request with the key has not finished
+
+/**
+ * Check that an idempotency key is 1-255 printable ASCII characters
+ */
+export function validateIdempotencyKey(key: unknown): string {
+  if (typeof key !== 'string' || key.length === 0 || key.length > IDEMPOTENCY_KEY_MAX_LENGTH) {
+    throw new Error(`Idempotency key must be 1-${IDEMPOTENCY_KEY_MAX_LENGTH} characters`);
+  }
+  if (!/^[\x20-\x7e]+$/.test(key)) {
+    throw new Error('Idempotency key must be printable ASCII');
+  }
+  return key;
+}
+
+/**
+ * Run an operation at most once per client and key
+ * The request payload is hashed over its JCS canonical form, so a retry matches regardless of member order.
+ * What `toReplay` makes of the result is stored and returned to retries - leave secrets such as PII salts
+ * out of it, as the store keeps it for the key's TTL. If the operation throws, the key is released for a retry
+ */
+export async function runIdempotent<T>(
+  clientId: string,
+  key: string,
+  payload: unknown,
+  operation: () => Promise<T>,
+  toReplay: (result: T) => T = result => result
+): Promise<IdempotentOutcome<T>> {
+  const store = getIdempotencyStore();
+  const now = Date.now();
+  await store.pruneExpired(now);
+
+  // 1. Claim the key before running, so a concurrent retry cannot run the operation twice
+  const requestHash = sha256Hash(canonicalize(payload));
+  const existing = await store.claim(clientId, validateIdempotencyKey(key), {
+    requestHash,
+    expiresAt: now + IDEMPOTENCY_KEY_TTL_HOURS * 60 * 60 * 1000
+  });
+
+  // 2. Replay or refuse a key seen before
+  if (existing) {
+    if (existing.requestHash !== requestHash) {
+      return { status: 'conflict' };
+    }
+    if (!('result' in existing)) {
+      return { status: 'in-progress' };
+    }
+    return { status: 'replayed', result: existing.result as T };
+  }
+
+  // 3. Store the replay, or release the key if the operation fails
+  let result: T;
+  try {
+    result = await operation();
+  } catch (error) {
+    await store.release(clientId, key);
+    throw error;
+  }
+  await store.complete(clientId, key, toReplay(result));
+  return { status: 'created', result };
+}
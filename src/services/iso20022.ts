@@ -0,0 +1,361 @@
+/**
+ * ISO 20022 Messages
+ * Reads credential issuance and verification requests from ISO 20022 style XML messages and writes the
+ * matching status and verification reports:
+ * - vcrd.001.001.01 VrfblCdtlIssnc - issuance request
+ * - vcrd.002.001.01 VrfblCdtlIssncStsRpt - issuance status report
+ * - vcrd.003.001.01 VrfblCdtlVrfctnReq - verification request
+ * - vcrd.004.001.01 VrfblCdtlVrfctnRpt - verification report
+ * Requests are validated against the message definitions below, reporting errors the way an XSD validator does
+ */
+
+import { randomBytes } from 'crypto';
+import {
+  IssueCredentialRequest,
+  VerifiableCredential,
+  PiiSalts
+} from '../types/credentials';
+import { XmlElement, XmlNode, parseXml, serializeXml } from '../utils/xml';
+
+export const ISO20022_NAMESPACES = {
+  issuanceRequest: 'urn:iso:std:iso:20022:tech:xsd:vcrd.001.001.01',
+  issuanceStatusReport: 'urn:iso:std:iso:20022:tech:xsd:vcrd.002.001.01',
+  verificationRequest: 'urn:iso:std:iso:20022:tech:xsd:vcrd.003.001.01',
+  verificationReport: 'urn:iso:std:iso:20022:tech:xsd:vcrd.004.001.01'
+};
+
+/**
+ * Status reason codes, from the ISO 20022 ExternalStatusReason1Code list
+ */
+export const ISO20022_REASON_CODES = {
+  invalidMessage: 'FF01', // Invalid file format - the message failed validation
+  forbidden: 'AG01', // Transaction forbidden - authentication or authorization failed
+  duplicate: 'AM05', // Duplication
+  narrative: 'NARR' // Reason given in AddtlInf
+};
+
+/**
+ * Definition of a simple-content child element
+ */
+interface FieldDefinition {
+  name: string;
+  minOccurs?: number; // Default 1
+  maxOccurs?: number; // Default 1
+  maxLength?: number;
+  pattern?: RegExp;
+  enumeration?: string[];
+  type?: 'boolean' | 'positiveInteger';
+}
+
+const ISSUANCE_REQUEST_FIELDS: FieldDefinition[] = [
+  { name: 'MsgId', minOccurs: 0, maxLength: 35 },
+  { name: 'IssrId', maxLength: 2048, pattern: /^did:[a-z0-9]+:\S+$/ },
+  { name: 'CstmrKYCId', maxLength: 35 },
+  { name: 'KYCLvl', enumeration: ['basic', 'enhanced', 'institutional'] },
+  { name: 'AccrdtdInvstr', type: 'boolean' },
+  { name: 'Jursdctn', maxOccurs: Infinity, pattern: /^[A-Z]{2,4}$/ },
+  { name: 'XpryDays', minOccurs: 0, type: 'positiveInteger' },
+  { name: 'SgntrAlgo', minOccurs: 0, enumeration: ['Ed25519', 'P-256'] },
+  { name: 'DataMdlVrsn', minOccurs: 0, enumeration: ['1.1', '2.0'] },
+  { name: 'DplctPlcy', minOccurs: 0, enumeration: ['allow', 'reject', 'supersede'] }
+];
+
+// Exactly one of Cdtl, Jwt and SdJwt is required
+const VERIFICATION_REQUEST_FIELDS: FieldDefinition[] = [
+  { name: 'MsgId', minOccurs: 0, maxLength: 35 },
+  { name: 'Cdtl', minOccurs: 0 }, // JSON-LD credential as JSON text
+  { name: 'Jwt', minOccurs: 0, pattern: /^[\w-]+\.[\w-]+\.[\w-]*$/ },
+  { name: 'SdJwt', minOccurs: 0, pattern: /^[\w-]+\.[\w-]+\.[\w-]*(~[\w-]*)*~[\w.-]*$/ }
+];
+
+/**
+ * A parsed request message - the request, or the validation errors that stopped it
+ */
+export interface Iso20022ParseResult<T> {
+  messageId: string | null;
+  request: T | null;
+  errors: string[];
+}
+
+export interface Iso20022Reason {
+  code: string;
+  message: string;
+}
+
+export interface Iso20022IssuanceStatus {
+  originalMessageId: string | null;
+  accepted: boolean;
+  issuerDid?: string;
+  customerKycId?: string;
+  credentialId?: string;
+  format?: string;
+  credential?: VerifiableCredential | string;
+  piiSalts?: PiiSalts;
+  supersededCredentialIds?: string[];
+  reasons: Iso20022Reason[];
+}
+
+export interface Iso20022VerificationOutcome {
+  originalMessageId: string | null;
+  rejected: boolean; // The request could not be processed, as opposed to a credential found invalid
+  valid?: boolean;
+  format?: string;
+  credentialId?: string | null;
+  issuerDid?: string | null;
+  subjectId?: string | null;
+  dataModelVersion?: string;
+  validFrom?: string | null;
+  validUntil?: string | null;
+  revoked?: boolean;
+  weakProof?: boolean;
+  keyBound?: boolean;
+  errors: string[];
+  warnings: string[];
+  reasons: Iso20022Reason[];
+}
+
+/**
+ * Validate the simple-content children of an element against their definitions
+ */
+function validateFields(element: XmlElement, path: string, fields: FieldDefinition[]): string[] {
+  const errors: string[] = [];
+
+  for (const child of element.children) {
+    if (!fields.some(field => field.name === child.name)) {
+      errors.push(`${path}/${child.name}: element is not allowed here, expected one of ${fields.map(field => field.name).join(', ')}`);
+    }
+  }
+
+  for (const field of fields) {
+    const occurrences = element.children.filter(child => child.name === field.name);
+    const minOccurs = field.minOccurs ?? 1;
+    const maxOccurs = field.maxOccurs ?? 1;
+    if (occurrences.length < minOccurs) {
+      errors.push(`${path}: missing required element ${field.name}`);
+    }
+    if (occurrences.length > maxOccurs) {
+      errors.push(`${path}/${field.name}: occurs ${occurrences.length} times, maxOccurs is ${maxOccurs}`);
+    }
+
+    for (const occurrence of occurrences) {
+      const fieldPath = `${path}/${field.name}`;
+      const value = occurrence.text.trim();
+      if (occurrence.children.length > 0) {
+        errors.push(`${fieldPath}: element must have simple content`);
+      } else if (value === '') {
+        errors.push(`${fieldPath}: value must not be empty`);
+      } else if (field.enumeration && !field.enumeration.includes(value)) {
+        errors.push(`${fieldPath}: value '${value}' is not in the enumeration [${field.enumeration.join(', ')}]`);
+      } else if (field.type === 'boolean' && !['true', 'false'].includes(value)) {
+        errors.push(`${fieldPath}: value '${value}' is not a valid boolean`);
+      } else if (field.type === 'positiveInteger' && !/^[1-9]\d*$/.test(value)) {
+        errors.push(`${fieldPath}: value '${value}' is not a valid positiveInteger`);
+      } else if (field.maxLength !== undefined && value.length > field.maxLength) {
+        errors.push(`${fieldPath}: value has length ${value.length}, maxLength is ${field.maxLength}`);
+      } else if (field.pattern && !field.pattern.test(value)) {
+        errors.push(`${fieldPath}: value '${value}' does not match the pattern ${field.pattern.source}`);
+      }
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Parse a message and find its one body element inside Document, checking the namespace
+ */
+function parseDocument(
+  xml: string,
+  namespace: string,
+  bodyName: string
+): { body: XmlElement | null; errors: string[] } {
+  let document: XmlElement;
+  try {
+    document = parseXml(xml);
+  } catch (error) {
+    return { body: null, errors: [error instanceof Error ? error.message : String(error)] };
+  }
+
+  if (document.name !== 'Document') {
+    return { body: null, errors: [`/${document.name}: root element must be Document`] };
+  }
+  if (document.namespace !== namespace) {
+    return { body: null, errors: [`/Document: namespace must be ${namespace}, found ${document.namespace ?? 'none'}`] };
+  }
+  if (document.children.length !== 1 || document.children[0].name !== bodyName) {
+    return { body: null, errors: [`/Document: expected a single ${bodyName} element`] };
+  }
+  return { body: document.children[0], errors: [] };
+}
+
+/**
+ * Text of the single child element with a name, if present
+ */
+function childText(element: XmlElement, name: string): string | undefined {
+  return element.children.find(child => child.name === name)?.text.trim();
+}
+
+/**
+ * Read an issuance request message (vcrd.001.001.01)
+ */
+export function parseIssuanceRequestMessage(xml: string): Iso20022ParseResult<IssueCredentialRequest> {
+  const bodyName = 'VrfblCdtlIssnc';
+  const { body, errors } = parseDocument(xml, ISO20022_NAMESPACES.issuanceRequest, bodyName);
+  if (!body) {
+    return { messageId: null, request: null, errors };
+  }
+
+  const messageId = childText(body, 'MsgId') ?? null;
+  const fieldErrors = validateFields(body, `/Document/${bodyName}`, ISSUANCE_REQUEST_FIELDS);
+  if (fieldErrors.length > 0) {
+    return { messageId, request: null, errors: fieldErrors };
+  }
+
+  const expiryDays = childText(body, 'XpryDays');
+  const request: IssueCredentialRequest = {
+    issuerDid: childText(body, 'IssrId') as string,
+    customerKycId: childText(body, 'CstmrKYCId') as string,
+    kycLevel: childText(body, 'KYCLvl') as IssueCredentialRequest['kycLevel'],
+    accreditedInvestor: childText(body, 'AccrdtdInvstr') === 'true',
+    jurisdiction: body.children.filter(child => child.name === 'Jursdctn').map(child => child.text.trim()),
+    expiryDays: expiryDays !== undefined ? Number(expiryDays) : undefined,
+    signatureAlgorithm: childText(body, 'SgntrAlgo') as IssueCredentialRequest['signatureAlgorithm'],
+    dataModelVersion: childText(body, 'DataMdlVrsn') as IssueCredentialRequest['dataModelVersion'],
+    duplicatePolicy: childText(body, 'DplctPlcy') as IssueCredentialRequest['duplicatePolicy']
+  };
+  return { messageId, request, errors: [] };
+}
+
+/**
+ * Read a verification request message (vcrd.003.001.01) - the credential as a JSON-LD object, a JWT-VC or an
+ * SD-JWT VC
+ */
+export function parseVerificationRequestMessage(
+  xml: string
+): Iso20022ParseResult<{ credential: VerifiableCredential } | { jwt: string } | { sdJwt: string }> {
+  const bodyName = 'VrfblCdtlVrfctnReq';
+  const path = `/Document/${bodyName}`;
+  const { body, errors } = parseDocument(xml, ISO20022_NAMESPACES.verificationRequest, bodyName);
+  if (!body) {
+    return { messageId: null, request: null, errors };
+  }
+
+  const messageId = childText(body, 'MsgId') ?? null;
+  const fieldErrors = validateFields(body, path, VERIFICATION_REQUEST_FIELDS);
+  const present = ['Cdtl', 'Jwt', 'SdJwt'].filter(name => childText(body, name) !== undefined);
+  if (present.length !== 1) {
+    fieldErrors.push(`${path}: expected exactly one of Cdtl, Jwt, SdJwt`);
+  }
+  if (fieldErrors.length > 0) {
+    return { messageId, request: null, errors: fieldErrors };
+  }
+
+  const value = childText(body, present[0]) as string;
+  if (present[0] === 'Jwt') {
+    return { messageId, request: { jwt: value }, errors: [] };
+  }
+  if (present[0] === 'SdJwt') {
+    return { messageId, request: { sdJwt: value }, errors: [] };
+  }
+  try {
+    return { messageId, request: { credential: JSON.parse(value) }, errors: [] };
+  } catch (error) {
+    return { messageId, request: null, errors: [`${path}/Cdtl: value is not a JSON credential`] };
+  }
+}
+
+/**
+ * Group header of an outgoing message
+ */
+function groupHeader(): XmlNode {
+  return {
+    name: 'GrpHdr',
+    children: [
+      { name: 'MsgId', text: randomBytes(16).toString('hex') },
+      { name: 'CreDtTm', text: new Date().toISOString() }
+    ]
+  };
+}
+
+/**
+ * Optional simple-content element - left out when there is no value
+ */
+function optional(name: string, value: string | number | boolean | null | undefined): XmlNode[] {
+  return value === undefined || value === null ? [] : [{ name, text: String(value) }];
+}
+
+function reasonNodes(reasons: Iso20022Reason[]): XmlNode[] {
+  return reasons.map(reason => ({
+    name: 'RsnInf',
+    children: [
+      { name: 'Rsn', children: [{ name: 'Cd', text: reason.code }] },
+      { name: 'AddtlInf', text: reason.message }
+    ]
+  }));
+}
+
+/**
+ * Write an issuance status report (vcrd.002.001.01) - ACCP with the credential, or RJCT with the reasons
+ */
+export function buildIssuanceStatusReport(status: Iso20022IssuanceStatus): string {
+  const credentialText = typeof status.credential === 'string'
+    ? status.credential
+    : status.credential && JSON.stringify(status.credential);
+
+  return serializeXml({
+    name: 'Document',
+    attributes: { xmlns: ISO20022_NAMESPACES.issuanceStatusReport },
+    children: [{
+      name: 'VrfblCdtlIssncStsRpt',
+      children: [
+        groupHeader(),
+        ...optional('OrgnlMsgId', status.originalMessageId),
+        { name: 'Sts', text: status.accepted ? 'ACCP' : 'RJCT' },
+        ...optional('IssrId', status.issuerDid),
+        ...optional('CstmrKYCId', status.customerKycId),
+        ...optional('CdtlId', status.credentialId),
+        ...(credentialText ? [{ name: 'Cdtl', attributes: { Fmt: status.format || 'ldp_vc' }, text: credentialText }] : []),
+        ...Object.entries(status.piiSalts || {}).map(([field, salt]) => ({
+          name: 'PIISalt',
+          children: [{ name: 'Fld', text: field }, { name: 'Salt', text: String(salt) }]
+        })),
+        ...(status.supersededCredentialIds || []).map(id => ({ name: 'SprsddCdtlId', text: id })),
+        ...reasonNodes(status.reasons)
+      ]
+    }]
+  });
+}
+
+/**
+ * Write a verification report (vcrd.004.001.01) - VALD or INVL with the checks' errors, or RJCT with the
+ * reasons the request could not be processed
+ */
+export function buildVerificationReport(outcome: Iso20022VerificationOutcome): string {
+  const status = outcome.rejected ? 'RJCT' : outcome.valid ? 'VALD' : 'INVL';
+
+  return serializeXml({
+    name: 'Document',
+    attributes: { xmlns: ISO20022_NAMESPACES.verificationReport },
+    children: [{
+      name: 'VrfblCdtlVrfctnRpt',
+      children: [
+        groupHeader(),
+        ...optional('OrgnlMsgId', outcome.originalMessageId),
+        { name: 'Sts', text: status },
+        ...optional('Fmt', outcome.format),
+        ...optional('CdtlId', outcome.credentialId),
+        ...optional('IssrId', outcome.issuerDid),
+        ...optional('SbjtId', outcome.subjectId),
+        ...optional('DataMdlVrsn', outcome.dataModelVersion),
+        ...optional('VldFr', outcome.validFrom),
+        ...optional('VldUntil', outcome.validUntil),
+        ...optional('Rvkd', outcome.revoked),
+        ...optional('WeakPrf', outcome.weakProof),
+        ...optional('KeyBnd', outcome.keyBound),
+        ...outcome.errors.map(error => ({ name: 'Err', text: error })),
+        ...outcome.warnings.map(warning => ({ name: 'Wrng', text: warning })),
+        ...reasonNodes(outcome.reasons)
+      ]
+    }]
+  });
+}
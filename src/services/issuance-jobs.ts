@@ -0,0 +1,414 @@
+/**
+ * Bulk Issuance Jobs
+ * Issues large uploads of credential requests in the background. Jobs run one at a time, each row by a
+ * bounded pool of workers; rows are recorded as they finish, so a job cancelled or interrupted by a restart
+ * resumes with the rows still pending
+ */
+
+import { randomUUID } from 'crypto';
+import {
+  IssueCredentialRequest,
+  IssuanceJob,
+  IssuanceJobRow,
+  AuditEvent,
+  PiiSalts
+} from '../types/credentials';
+import { parseCsv } from '../utils/csv';
+import { getIssuanceJobStore } from '../storage/issuance-job-store';
+import { ISSUE_CREDENTIAL_REQUEST_SCHEMA, issueCredential } from './credential-issuer';
+import { recordAuditEvent } from './audit-log';
+import { publishWebhookEvent } from './webhooks';
+import { validateJsonSchema } from '../utils/json-schema';
+import { domainError } from '../utils/errors';
+
+export type IssuanceUploadFormat = 'json' | 'ndjson' | 'csv';
+
+export const DEFAULT_JOB_CONCURRENCY = 4;
+export const MAX_JOB_ROWS = 100000;
+
+/**
+ * Rows fetched and recorded together - progress is saved after each page
+ */
+const JOB_PAGE_SIZE = 100;
+
+/**
+ * CSV columns; jurisdiction lists are separated by semicolons
+ */
+export const ISSUANCE_CSV_COLUMNS = [
+  'customerKycId',
+  'issuerDid',
+  'kycLevel',
+  'accreditedInvestor',
+  'jurisdiction',
+  'expiryDays',
+  'signatureAlgorithm',
+  'dataModelVersion',
+  'duplicatePolicy'
+];
+
+const REQUIRED_CSV_COLUMNS = ['customerKycId', 'issuerDid', 'kycLevel', 'accreditedInvestor', 'jurisdiction'];
+
+/**
+ * A row of an upload - the request, or why it could not be read
+ */
+export interface ParsedIssuanceRow {
+  request: IssueCredentialRequest | null;
+  error: string | null;
+}
+
+let jobConcurrency = DEFAULT_JOB_CONCURRENCY;
+const cancelledJobs: Set<string> = new Set();
+
+/**
+ * Jobs run one after another
+ */
+let jobQueue: Promise<unknown> = Promise.resolve();
+let updateQueue: Promise<unknown> = Promise.resolve();
+
+/**
+ * Set how many rows of a job are issued concurrently
+ */
+export function setJobConcurrency(concurrency: number): void {
+  if (!Number.isInteger(concurrency) || concurrency < 1) {
+    throw new Error('Job concurrency must be a positive integer');
+  }
+  jobConcurrency = concurrency;
+}
+
+/**
+ * Check that an uploaded value is a well-formed issue request
+ */
+function validateIssueRequest(value: unknown): IssueCredentialRequest {
+  const errors = validateJsonSchema(value, ISSUE_CREDENTIAL_REQUEST_SCHEMA, 'row');
+  if (errors.length > 0) {
+    throw new Error(errors.join('; '));
+  }
+  return value as IssueCredentialRequest;
+}
+
+/**
+ * Read a row, capturing the error instead of throwing
+ */
+function parseRow(read: () => unknown): ParsedIssuanceRow {
+  try {
+    return { request: validateIssueRequest(read()), error: null };
+  } catch (error) {
+    return { request: null, error: error instanceof Error ? error.message : String(error) };
+  }
+}
+
+/**
+ * Convert a CSV record to an issue request, by header column
+ */
+function csvRecordToRequest(header: string[], record: string[]): Record<string, unknown> {
+  if (record.length !== header.length) {
+    throw new Error(`Expected ${header.length} fields, found ${record.length}`);
+  }
+
+  const request: Record<string, unknown> = {};
+  header.forEach((column, i) => {
+    const value = record[i].trim();
+    if (value === '') {
+      return;
+    }
+    if (column === 'accreditedInvestor') {
+      if (!/^(true|false)$/i.test(value)) {
+        throw new Error(`Invalid accreditedInvestor: ${value}`);
+      }
+      request[column] = value.toLowerCase() === 'true';
+    } else if (column === 'jurisdiction') {
+      request[column] = value.split(';').map(code => code.trim()).filter(Boolean);
+    } else if (column === 'expiryDays') {
+      if (!/^\d+$/.test(value)) {
+        throw new Error(`Invalid expiryDays: ${value}`);
+      }
+      request[column] = Number(value);
+    } else {
+      request[column] = value;
+    }
+  });
+  return request;
+}
+
+/**
+ * Read the rows of an upload - a JSON array (or { "requests": [...] }), NDJSON with one request per line, or
+ * CSV with a header row of ISSUANCE_CSV_COLUMNS. Unreadable rows are returned with their error; an upload
+ * that cannot be read at all throws
+ */
+export function parseIssuanceUpload(body: unknown, format: IssuanceUploadFormat): ParsedIssuanceRow[] {
+  if (format === 'json') {
+    const requests = Array.isArray(body) ? body : (body as { requests?: unknown })?.requests;
+    if (!Array.isArray(requests)) {
+      throw new Error('Expected a JSON array of credential requests or { "requests": [...] }');
+    }
+    return requests.map(request => parseRow(() => request));
+  }
+
+  if (typeof body !== 'string') {
+    throw new Error(`Expected a ${format === 'csv' ? 'CSV' : 'NDJSON'} body`);
+  }
+
+  if (format === 'ndjson') {
+    return body
+      .split('\n')
+      .filter(line => line.trim() !== '')
+      .map(line => parseRow(() => JSON.parse(line)));
+  }
+
+  const [header, ...records] = parseCsv(body);
+  if (!header) {
+    throw new Error('CSV upload has no header row');
+  }
+  const columns = header.map(column => column.trim());
+  const unknown = columns.filter(column => !ISSUANCE_CSV_COLUMNS.includes(column));
+  if (unknown.length > 0) {
+    throw new Error(`Unknown CSV columns: ${unknown.join(', ')}`);
+  }
+  const missing = REQUIRED_CSV_COLUMNS.filter(column => !columns.includes(column));
+  if (missing.length > 0) {
+    throw new Error(`Missing CSV columns: ${missing.join(', ')}`);
+  }
+  return records.map(record => parseRow(() => csvRecordToRequest(columns, record)));
+}
+
+/**
+ * Create a job over the rows of an upload and queue it. Rows that could not be read are recorded as failed
+ */
+export async function createIssuanceJob(
+  rows: ParsedIssuanceRow[],
+  caller: { clientId: string; authorizedIssuerDids: string[] }
+): Promise<IssuanceJob> {
+  if (rows.length === 0) {
+    throw new Error('Upload contains no credential requests');
+  }
+  if (rows.length > MAX_JOB_ROWS) {
+    throw new Error(`Upload contains ${rows.length} requests, the limit is ${MAX_JOB_ROWS}`);
+  }
+
+  const now = new Date().toISOString();
+  const job: IssuanceJob = {
+    id: randomUUID(),
+    clientId: caller.clientId,
+    authorizedIssuerDids: caller.authorizedIssuerDids,
+    status: 'queued',
+    total: rows.length,
+    succeeded: 0,
+    failed: rows.filter(row => row.error !== null).length,
+    createdAt: now,
+    startedAt: null,
+    completedAt: null,
+    cancelledAt: null
+  };
+
+  const jobRows: IssuanceJobRow[] = rows.map((row, index) => ({
+    jobId: job.id,
+    index,
+    request: row.request,
+    status: row.error === null ? 'pending' : 'failed',
+    credentialId: null,
+    credential: null,
+    piiSalts: null,
+    error: row.error,
+    completedAt: row.error === null ? null : now
+  }));
+
+  await getIssuanceJobStore().createJob(job, jobRows);
+  scheduleIssuanceJob(job.id);
+  return job;
+}
+
+/**
+ * Get a job by ID
+ */
+export function getIssuanceJob(id: string): Promise<IssuanceJob | null> {
+  return getIssuanceJobStore().getJob(id);
+}
+
+/**
+ * Change a stored job - changes run one at a time against the latest stored job, so a cancellation and the
+ * progress of the running job never overwrite each other
+ */
+function updateIssuanceJob(id: string, change: (job: IssuanceJob) => IssuanceJob): Promise<IssuanceJob> {
+  const result = updateQueue.then(async () => {
+    const store = getIssuanceJobStore();
+    const job = await store.getJob(id);
+    if (!job) {
+      throw domainError('ISSUANCE_JOB_NOT_FOUND', `Issuance job not found: ${id}`, { id });
+    }
+    const updatedJob = change(job);
+    await store.updateJob(updatedJob);
+    return updatedJob;
+  });
+  updateQueue = result.catch(() => undefined);
+  return result;
+}
+
+/**
+ * Stop a queued or running job - rows already issued stay issued, the rest stay pending
+ */
+export async function cancelIssuanceJob(id: string): Promise<IssuanceJob> {
+  const cancelledJob = await updateIssuanceJob(id, job => {
+    if (job.status !== 'queued' && job.status !== 'running') {
+      throw domainError('ISSUANCE_JOB_STATE_CONFLICT', `Issuance job is ${job.status}: ${id}`, { id });
+    }
+    return { ...job, status: 'cancelled', cancelledAt: new Date().toISOString() };
+  });
+  cancelledJobs.add(id);
+  return cancelledJob;
+}
+
+/**
+ * Queue a cancelled job again to issue its pending rows
+ */
+export async function resumeIssuanceJob(id: string): Promise<IssuanceJob> {
+  const resumedJob = await updateIssuanceJob(id, job => {
+    if (job.status !== 'cancelled') {
+      throw domainError(
+        'ISSUANCE_JOB_STATE_CONFLICT',
+        `Only cancelled jobs can be resumed, this one is ${job.status}: ${id}`,
+        { id }
+      );
+    }
+    return { ...job, status: 'queued', cancelledAt: null };
+  });
+  cancelledJobs.delete(id);
+  scheduleIssuanceJob(id);
+  return resumedJob;
+}
+
+/**
+ * Queue every job a previous process left queued or running - call once at startup
+ */
+export async function resumeUnfinishedIssuanceJobs(): Promise<IssuanceJob[]> {
+  const jobs = await getIssuanceJobStore().findUnfinishedJobs();
+  for (const job of jobs) {
+    scheduleIssuanceJob(job.id);
+  }
+  return jobs;
+}
+
+function scheduleIssuanceJob(id: string): void {
+  jobQueue = jobQueue
+    .then(() => runIssuanceJob(id))
+    .catch(error => console.error(`Issuance job ${id} stopped:`, error));
+}
+
+/**
+ * Append to the audit log as the job's client - a failed write is logged rather than failing the row
+ */
+async function auditJobRow(job: IssuanceJob, event: Omit<AuditEvent, 'actor'>): Promise<void> {
+  try {
+    await recordAuditEvent({ actor: job.clientId, ...event });
+  } catch (error) {
+    console.error('Failed to write audit entry:', error);
+  }
+}
+
+/**
+ * Issue the credential of one row
+ */
+async function issueJobRow(job: IssuanceJob, row: IssuanceJobRow): Promise<IssuanceJobRow> {
+  const request = row.request as IssueCredentialRequest;
+  let piiSalts: PiiSalts | null = null;
+  try {
+    const credential = await issueCredential(request, {
+      authorizedIssuerDids: job.authorizedIssuerDids,
+      deliverPiiSalts: salts => { piiSalts = salts; },
+      onSuperseded: async revokedRecords => {
+        for (const record of revokedRecords) {
+          await auditJobRow(job, {
+            action: 'credential.revoke',
+            issuerDid: record.issuerDid,
+            customerKycId: record.customerKycId,
+            credentialId: record.id,
+            outcome: 'success'
+          });
+        }
+      }
+    });
+    await auditJobRow(job, {
+      action: 'credential.batch-issue',
+      issuerDid: request.issuerDid,
+      customerKycId: request.customerKycId,
+      credentialId: credential.id,
+      outcome: 'success'
+    });
+    return {
+      ...row,
+      status: 'succeeded',
+      credentialId: credential.id,
+      credential,
+      piiSalts,
+      completedAt: new Date().toISOString()
+    };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    await auditJobRow(job, {
+      action: 'credential.batch-issue',
+      issuerDid: request.issuerDid,
+      customerKycId: request.customerKycId,
+      outcome: 'failure',
+      error: message
+    });
+    return { ...row, status: 'failed', error: message, completedAt: new Date().toISOString() };
+  }
+}
+
+/**
+ * Issue the pending rows of a job, a page at a time with `jobConcurrency` workers, until none are left or the
+ * job is cancelled
+ */
+async function runIssuanceJob(id: string): Promise<void> {
+  const store = getIssuanceJobStore();
+  const isActive = (job: IssuanceJob) => job.status === 'queued' || job.status === 'running';
+
+  // 1. Mark the job running, unless it was cancelled while queued
+  const job = await updateIssuanceJob(id, current => (
+    isActive(current)
+      ? { ...current, status: 'running', startedAt: current.startedAt ?? new Date().toISOString() }
+      : current
+  ));
+  if (job.status !== 'running') {
+    return;
+  }
+
+  // 2. Issue page by page, recording each page's rows and progress together
+  let rows = await store.getPendingRows(id, JOB_PAGE_SIZE);
+  while (rows.length > 0 && !cancelledJobs.has(id)) {
+    const page = rows;
+    const finished: IssuanceJobRow[] = [];
+    let next = 0;
+    const worker = async () => {
+      while (next < page.length && !cancelledJobs.has(id)) {
+        finished.push(await issueJobRow(job, page[next++]));
+        // Issuance against in-memory stores never waits on I/O - let API requests in between rows
+        await new Promise(resolve => setImmediate(resolve));
+      }
+    };
+    await Promise.all(Array.from({ length: Math.min(jobConcurrency, page.length) }, worker));
+
+    await store.saveRows(finished);
+    const succeeded = finished.filter(row => row.status === 'succeeded').length;
+    await updateIssuanceJob(id, current => ({
+      ...current,
+      succeeded: current.succeeded + succeeded,
+      failed: current.failed + finished.length - succeeded
+    }));
+
+    rows = await store.getPendingRows(id, JOB_PAGE_SIZE);
+  }
+
+  // 3. Complete the job unless it was cancelled, and tell the client that submitted it
+  const completed = await updateIssuanceJob(id, current => (
+    current.status === 'running' ? { ...current, status: 'completed', completedAt: new Date().toISOString() } : current
+  ));
+  if (completed.status === 'completed') {
+    await publishWebhookEvent('batch.completed', {
+      source: 'issuance-job',
+      jobId: completed.id,
+      total: completed.total,
+      succeeded: completed.succeeded,
+      failed: completed.failed
+    }, { clientId: completed.clientId });
+  }
+}
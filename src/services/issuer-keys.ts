@@ -0,0 +1,192 @@
+/**
+ * Issuer Key Service
+ * Manages each issuer's key set: the active signing key, retired keys kept for verifying
+ * credentials they signed, and revoked keys that are no longer trusted
+ */
+
+import { IssuerKey, SignatureAlgorithm } from '../types/credentials';
+import { getIssuerByDid } from '../config/bank-issuers';
+import { SignFunction } from '../utils/crypto';
+import { getSigner, getKeySigner } from '../keystore/signer';
+import { getIssuerKeyStore } from '../storage/issuer-key-store';
+import { JsonSchema } from '../utils/json-schema';
+import { domainError } from '../utils/errors';
+
+// Issuer key algorithms - those with a Data Integrity cryptosuite, so issuers can sign credentials and status lists
+export const SIGNATURE_ALGORITHMS: SignatureAlgorithm[] = ['Ed25519', 'P-256'];
+
+/**
+ * Activation date of the key configured on a BankIssuer - it signed everything before the first rotation
+ */
+const INITIAL_KEY_ACTIVATED_AT = new Date(0).toISOString();
+
+export interface RotateIssuerKeyOptions {
+  signatureAlgorithm?: SignatureAlgorithm; // Defaults to the algorithm of the current active key
+  revokePrevious?: boolean; // Revoke instead of retire the previous key, e.g. after a compromise
+}
+
+/**
+ * Body of a key rotation request
+ */
+export const ROTATE_ISSUER_KEY_SCHEMA: JsonSchema = {
+  type: 'object',
+  additionalProperties: false,
+  properties: {
+    signatureAlgorithm: { type: 'string', enum: SIGNATURE_ALGORITHMS },
+    revokePrevious: { type: 'boolean' }
+  }
+};
+
+/**
+ * Key sets by issuer DID, oldest key first - a cache of the issuer key store, loaded by loadIssuerKeys
+ */
+const issuerKeys: Map<string, IssuerKey[]> = new Map();
+
+/**
+ * Load the key sets from the issuer key store - call once on startup, before issuing or verifying, so rotated
+ * and revoked keys are not replaced by the configured key
+ */
+export async function loadIssuerKeys(): Promise<number> {
+  const keySets = await getIssuerKeyStore().getKeySets();
+  issuerKeys.clear();
+  for (const [issuerDid, keys] of keySets) {
+    issuerKeys.set(issuerDid, keys);
+  }
+  return keySets.size;
+}
+
+/**
+ * Get an issuer's key set, seeding it from the issuer configuration on first use
+ */
+export function getIssuerKeys(issuerDid: string): IssuerKey[] {
+  let keys = issuerKeys.get(issuerDid);
+  if (!keys) {
+    const issuer = getIssuerByDid(issuerDid);
+    if (!issuer) {
+      return [];
+    }
+
+    keys = [{
+      id: `${issuer.did}#key-1`,
+      controller: issuer.did,
+      publicKey: issuer.publicKey,
+      signatureAlgorithm: issuer.signatureAlgorithm,
+      status: 'active',
+      activatedAt: INITIAL_KEY_ACTIVATED_AT
+    }];
+    issuerKeys.set(issuerDid, keys);
+  }
+  return keys;
+}
+
+/**
+ * Get a key by its verification method URL
+ */
+export function getIssuerKey(verificationMethodUrl: string): IssuerKey | null {
+  const issuerDid = verificationMethodUrl.split('#')[0];
+  return getIssuerKeys(issuerDid).find(key => key.id === verificationMethodUrl) || null;
+}
+
+/**
+ * Get the key new credentials are signed with
+ */
+export function getActiveIssuerKey(issuerDid: string): IssuerKey {
+  const key = getIssuerKeys(issuerDid).find(k => k.status === 'active');
+  if (!key) {
+    throw new Error(`No active signing key for issuer: ${issuerDid}`);
+  }
+  return key;
+}
+
+/**
+ * Sign function for an issuer key - signing is delegated to the configured signer
+ */
+export function getIssuerKeySigner(key: IssuerKey): SignFunction {
+  return getKeySigner(getSigner(), key.id);
+}
+
+/**
+ * Generate a new active key in the signer and retire (or revoke) the previous one
+ */
+export async function rotateIssuerKey(
+  issuerDid: string,
+  options: RotateIssuerKeyOptions = {}
+): Promise<IssuerKey> {
+  const previous = getActiveIssuerKey(issuerDid);
+  const keys = getIssuerKeys(issuerDid);
+  const signatureAlgorithm = options.signatureAlgorithm || previous.signatureAlgorithm;
+  const id = `${issuerDid}#key-${keys.length + 1}`;
+  const { publicKey } = await getSigner().generateKey(id, signatureAlgorithm);
+  const now = new Date().toISOString();
+
+  previous.status = options.revokePrevious ? 'revoked' : 'retired';
+  previous.retiredAt = now;
+  if (options.revokePrevious) {
+    previous.revokedAt = now;
+  }
+
+  const key: IssuerKey = {
+    id,
+    controller: issuerDid,
+    publicKey,
+    signatureAlgorithm,
+    status: 'active',
+    activatedAt: now
+  };
+  keys.push(key);
+  await getIssuerKeyStore().saveKeySet(issuerDid, keys);
+
+  return key;
+}
+
+/**
+ * Revoke a retired key - credentials it signed no longer verify
+ */
+export async function revokeIssuerKey(issuerDid: string, verificationMethodUrl: string): Promise<IssuerKey> {
+  const key = getIssuerKeys(issuerDid).find(k => k.id === verificationMethodUrl);
+  if (!key) {
+    throw domainError('ISSUER_KEY_NOT_FOUND', `Issuer key not found: ${verificationMethodUrl}`, {
+      verificationMethod: verificationMethodUrl
+    });
+  }
+  if (key.status === 'revoked') {
+    throw domainError('ISSUER_KEY_NOT_REVOCABLE', `Issuer key already revoked: ${verificationMethodUrl}`, {
+      verificationMethod: verificationMethodUrl
+    });
+  }
+  if (key.status === 'active') {
+    throw domainError('ISSUER_KEY_NOT_REVOCABLE', 'The active key cannot be revoked; rotate with revokePrevious instead', {
+      verificationMethod: verificationMethodUrl
+    });
+  }
+
+  key.status = 'revoked';
+  key.revokedAt = new Date().toISOString();
+  await getIssuerKeyStore().saveKeySet(issuerDid, getIssuerKeys(issuerDid));
+  return key;
+}
+
+/**
+ * Check that a locally managed key was trusted at signing time
+ * Returns an error message, or null when the key may be used (keys of other DID methods are not tracked here)
+ */
+export function checkIssuerKeyUsage(verificationMethodUrl: string, signedAt: string | undefined): string | null {
+  const key = getIssuerKey(verificationMethodUrl);
+  if (!key) {
+    return null;
+  }
+
+  if (key.status === 'revoked') {
+    return `Issuer key has been revoked: ${key.id}`;
+  }
+  if (key.status === 'retired') {
+    const signedAtTime = signedAt ? new Date(signedAt).getTime() : NaN;
+    if (Number.isNaN(signedAtTime)) {
+      return `Retired issuer key requires a signing time: ${key.id}`;
+    }
+    if (signedAtTime < new Date(key.activatedAt).getTime() || signedAtTime >= new Date(key.retiredAt!).getTime()) {
+      return `Issuer key ${key.id} was not active when the credential was issued`;
+    }
+  }
+  return null;
+}
@@ -0,0 +1,70 @@
+/**
+ * JWT-VC Encoding
+ * Envelopes credentials as compact JWS using the VC-JWT claim mapping
+ */
+
+import { UnsecuredCredential, VerifiableCredential } from '../types/credentials';
+import { signJwt, decodeJwt, DecodedJwt } from '../utils/jwt';
+import { getValidFrom, getValidUntil } from '../utils/data-model';
+import { getIssuerByDid } from '../config/bank-issuers';
+import { getActiveIssuerKey, getIssuerKeySigner } from './issuer-keys';
+
+/**
+ * Convert an ISO date to a NumericDate (seconds since the epoch)
+ */
+function toNumericDate(date: string): number {
+  return Math.floor(new Date(date).getTime() / 1000);
+}
+
+/**
+ * Encode a credential as a JWT-VC signed by its issuer
+ *
+ * Claim mapping: iss = issuer.id, sub = credentialSubject.id, jti = id,
+ * nbf = issuanceDate/validFrom, exp = expirationDate/validUntil, vc = the credential without its proof
+ */
+export async function encodeCredentialAsJwt(credential: VerifiableCredential): Promise<string> {
+  const issuer = getIssuerByDid(credential.issuer.id);
+  if (!issuer) {
+    throw new Error(`Invalid issuer DID: ${credential.issuer.id}`);
+  }
+
+  const { proof, ...vc } = credential;
+  const validFrom = getValidFrom(credential);
+  const validUntil = getValidUntil(credential);
+
+  const payload: Record<string, unknown> = {
+    iss: issuer.did,
+    sub: vc.credentialSubject.id,
+    jti: vc.id,
+    iat: Math.floor(Date.now() / 1000),
+    vc
+  };
+  if (validFrom) {
+    payload.nbf = toNumericDate(validFrom);
+  }
+  if (validUntil) {
+    payload.exp = toNumericDate(validUntil);
+  }
+
+  const signingKey = getActiveIssuerKey(issuer.did);
+  return signJwt(
+    { typ: 'JWT', kid: signingKey.id },
+    payload,
+    getIssuerKeySigner(signingKey),
+    signingKey.signatureAlgorithm
+  );
+}
+
+/**
+ * Decode a JWT-VC without verifying it
+ */
+export function decodeJwtCredential(token: string): { decoded: DecodedJwt; credential: UnsecuredCredential } {
+  const decoded = decodeJwt(token);
+  const vc = decoded.payload.vc;
+
+  if (!vc || typeof vc !== 'object' || Array.isArray(vc)) {
+    throw new Error('JWT does not contain a vc claim');
+  }
+
+  return { decoded, credential: vc as UnsecuredCredential };
+}
@@ -0,0 +1,272 @@
+/**
+ * KYC Change Detection
+ * Keeps a customer's outstanding credentials in line with their KYC data: a failed screening revokes them,
+ * and a change to the KYC level, tier or verified amount supersedes each with a fresh credential. Every
+ * action is recorded with its reason in the KYC change store and the audit log
+ */
+
+import { randomUUID } from 'crypto';
+import {
+  AuditEvent,
+  CredentialRecord,
+  CustomerKYCData,
+  KycChangeAction,
+  KycChangeActionQuery,
+  KycFieldChange,
+  MonitoredKycField,
+  PaginatedResult
+} from '../types/credentials';
+import { getCredentialRepository, MAX_PAGE_SIZE } from '../storage/credential-repository';
+import { getKycChangeStore } from '../storage/kyc-change-store';
+import { getDataModelVersion } from '../utils/data-model';
+import { IssueCredentialOptions, issueCredential, revokeCredential } from './credential-issuer';
+import { recordAuditEvent } from './audit-log';
+import { publishWebhookEvent } from './webhooks';
+
+/**
+ * Screenings whose failure revokes the customer's credentials
+ */
+export const SCREENING_FIELDS: MonitoredKycField[] = ['amlScreening', 'sanctionsCheck', 'pepScreening'];
+
+/**
+ * Fields asserted by a credential whose change supersedes it
+ */
+export const SUPERSEDING_FIELDS: MonitoredKycField[] = ['kycLevel', 'tier', 'verifiedAmount'];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Changes to the monitored fields between two versions of a customer record
+ */
+export function detectKycChanges(previous: CustomerKYCData, current: CustomerKYCData): KycFieldChange[] {
+  return [...SCREENING_FIELDS, ...SUPERSEDING_FIELDS]
+    .filter(field => previous[field] !== current[field])
+    .map(field => ({ field, from: previous[field], to: current[field] }));
+}
+
+function describeChanges(changes: KycFieldChange[]): string {
+  return changes.map(change => `${change.field} changed from ${change.from} to ${change.to}`).join(', ');
+}
+
+/**
+ * Active credentials issued to a customer
+ */
+async function findOutstandingCredentials(customerKycId: string): Promise<CredentialRecord[]> {
+  const repository = getCredentialRepository();
+  const records: CredentialRecord[] = [];
+  for (let offset = 0; ; offset += MAX_PAGE_SIZE) {
+    const page = await repository.find({ subject: customerKycId, status: 'active', limit: MAX_PAGE_SIZE, offset });
+    records.push(...page.items.filter(record => record.customerKycId === customerKycId));
+    if (offset + MAX_PAGE_SIZE >= page.total) {
+      return records;
+    }
+  }
+}
+
+/**
+ * Append to the audit log - a failed write is logged rather than failing the action
+ */
+async function auditKycChange(event: AuditEvent): Promise<void> {
+  try {
+    await recordAuditEvent(event);
+  } catch (error) {
+    console.error('Failed to write audit entry:', error);
+  }
+}
+
+/**
+ * Revoke a credential, auditing the revocation - returns the error message if it failed
+ */
+async function revokeOutstandingCredential(
+  record: CredentialRecord,
+  reason: string,
+  actor: string
+): Promise<string | null> {
+  let error: string | null = null;
+  try {
+    await revokeCredential(record.id, reason);
+  } catch (revokeError) {
+    error = revokeError instanceof Error ? revokeError.message : String(revokeError);
+  }
+  await auditKycChange({
+    action: 'credential.revoke',
+    actor,
+    issuerDid: record.issuerDid,
+    customerKycId: record.customerKycId,
+    credentialId: record.id,
+    outcome: error ? 'failure' : 'success',
+    error
+  });
+  return error;
+}
+
+/**
+ * Issue a replacement for a credential from the customer's current KYC data - same issuer, holder,
+ * jurisdictions, data model version and validity period length. Returns the replacement's ID
+ */
+async function issueReplacement(
+  record: CredentialRecord,
+  customer: CustomerKYCData,
+  actor: string,
+  options: KycChangeOptions
+): Promise<string> {
+  try {
+    const credential = await issueCredential({
+      customerKycId: customer.kycId,
+      issuerDid: record.issuerDid,
+      kycLevel: customer.kycLevel,
+      accreditedInvestor: customer.accreditedInvestor,
+      jurisdiction: record.credential.credentialSubject.jurisdictions,
+      expiryDays: Math.max(1, Math.round((Date.parse(record.expiresAt) - Date.parse(record.issuedAt)) / DAY_MS)),
+      dataModelVersion: getDataModelVersion(record.credential)
+    }, {
+      holderDid: record.subjectId,
+      deliverPiiSalts: options.deliverPiiSalts
+    });
+    await auditKycChange({
+      action: 'credential.issue',
+      actor,
+      issuerDid: record.issuerDid,
+      customerKycId: customer.kycId,
+      credentialId: credential.id,
+      outcome: 'success'
+    });
+    return credential.id;
+  } catch (error) {
+    await auditKycChange({
+      action: 'credential.issue',
+      actor,
+      issuerDid: record.issuerDid,
+      customerKycId: customer.kycId,
+      outcome: 'failure',
+      error: error instanceof Error ? error.message : String(error)
+    });
+    throw error;
+  }
+}
+
+/**
+ * Tell the subscribers of each issuer of the customer's outstanding credentials about the change, with the
+ * actions taken on that issuer's credentials. Customer records are not owned by an issuer, so a change for a
+ * customer without credentials goes to every subscriber
+ */
+async function publishKycChanged(
+  customerKycId: string,
+  changes: KycFieldChange[],
+  outstanding: CredentialRecord[],
+  actions: KycChangeAction[]
+): Promise<void> {
+  const data = {
+    customerKycId,
+    changes,
+    actions: actions.map(action => ({
+      action: action.action,
+      credentialId: action.credentialId,
+      replacementCredentialId: action.replacementCredentialId,
+      outcome: action.outcome
+    }))
+  };
+  const issuerDids = Array.from(new Set(outstanding.map(record => record.issuerDid)));
+  if (issuerDids.length === 0) {
+    await publishWebhookEvent('customer.kyc_changed', data);
+  }
+  for (const issuerDid of issuerDids) {
+    await publishWebhookEvent('customer.kyc_changed', {
+      ...data,
+      actions: data.actions.filter((_, index) => actions[index].issuerDid === issuerDid)
+    }, { issuerDid });
+  }
+}
+
+export interface KycChangeOptions {
+  // Receives the PII salts of each replacement credential for delivery to the holder; they are not stored
+  deliverPiiSalts?: IssueCredentialOptions['deliverPiiSalts'];
+}
+
+/**
+ * Act on a change to a customer's KYC data, once the new data is stored
+ * A screening that changed to failed revokes every outstanding credential; otherwise a change to a
+ * superseding field issues a replacement for each and then revokes it. The old credential is revoked even
+ * if its replacement could not be issued - its claims are stale either way - and the action is recorded as
+ * failed. Subscribers are sent customer.kyc_changed for any change to a monitored field. Returns the
+ * actions taken, none if nothing relevant changed
+ */
+export async function applyKycChange(
+  previous: CustomerKYCData,
+  current: CustomerKYCData,
+  actor = 'system',
+  options: KycChangeOptions = {}
+): Promise<KycChangeAction[]> {
+  // 1. Decide what the change calls for
+  const changes = detectKycChanges(previous, current);
+  if (changes.length === 0) {
+    return [];
+  }
+  const outstanding = await findOutstandingCredentials(current.kycId);
+  const failedScreenings = changes.filter(change => SCREENING_FIELDS.includes(change.field) && change.to === 'failed');
+  const supersedingChanges = changes.filter(change => SUPERSEDING_FIELDS.includes(change.field));
+  if (failedScreenings.length === 0 && supersedingChanges.length === 0) {
+    await publishKycChanged(current.kycId, changes, outstanding, []);
+    return [];
+  }
+
+  const revoke = failedScreenings.length > 0;
+  const reason = revoke
+    ? `Screening failed: ${describeChanges(failedScreenings)}`
+    : `KYC data changed: ${describeChanges(supersedingChanges)}`;
+
+  // 2. Act on each outstanding credential
+  const actions: KycChangeAction[] = [];
+  for (const record of outstanding) {
+    let replacementCredentialId: string | null = null;
+    let error: string | null = null;
+
+    if (!revoke) {
+      try {
+        replacementCredentialId = await issueReplacement(record, current, actor, options);
+      } catch (issueError) {
+        error = `Replacement not issued: ${issueError instanceof Error ? issueError.message : String(issueError)}`;
+      }
+    }
+    const revokeError = await revokeOutstandingCredential(record, reason, actor);
+    error = [error, revokeError].filter(Boolean).join('; ') || null;
+
+    // 3. Record the action with its reason
+    const action: KycChangeAction = {
+      id: randomUUID(),
+      customerKycId: current.kycId,
+      action: revoke ? 'revoke' : 'supersede',
+      reason,
+      changes,
+      credentialId: record.id,
+      issuerDid: record.issuerDid,
+      replacementCredentialId,
+      outcome: error ? 'failure' : 'success',
+      error,
+      actor,
+      createdAt: new Date().toISOString()
+    };
+    await getKycChangeStore().save(action);
+    actions.push(action);
+  }
+
+  await publishKycChanged(current.kycId, changes, outstanding, actions);
+  return actions;
+}
+
+/**
+ * Actions taken on a customer's credentials because of KYC changes, newest first
+ */
+export async function getKycChangeActions(
+  customerKycId: string,
+  query: KycChangeActionQuery = {}
+): Promise<PaginatedResult<KycChangeAction>> {
+  return getKycChangeStore().findByCustomer(customerKycId, query);
+}
+
+/**
+ * Actions taken on a credential, or that issued it as a replacement, oldest first
+ */
+export async function getCredentialKycChanges(credentialId: string): Promise<KycChangeAction[]> {
+  return getKycChangeStore().findByCredential(credentialId);
+}
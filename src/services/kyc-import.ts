@@ -0,0 +1,87 @@
+/**
+ * KYC Import
+ * Bulk-loads customer KYC records from a CSV or JSON export into the configured KYC data source,
+ * converting the export's field names and values with a field mapping
+ */
+
+import { parseCsv } from '../utils/csv';
+import { KycFieldMapping, mapKycRecord } from '../storage/kyc-field-mapping';
+import { upsertCustomerKYC } from './customers';
+import { KycChangeOptions } from './kyc-changes';
+
+export type KycImportFormat = 'csv' | 'json';
+
+export interface KycImportResult {
+  total: number;
+  imported: number;
+  credentialActions: number; // Credentials revoked or superseded because an import changed their customer
+  failed: Array<{ index: number; error: string }>; // 0-based record index, excluding the CSV header
+}
+
+/**
+ * Read the records of an export: CSV with a header row of source field names, or JSON as an array
+ * of records or `{ customers: [...] }`. Throws if the export cannot be read at all
+ */
+export function parseKycExport(text: string, format: KycImportFormat): Array<Record<string, unknown>> {
+  if (format === 'json') {
+    let body: unknown;
+    try {
+      body = JSON.parse(text);
+    } catch (error) {
+      throw new Error(`Invalid JSON: ${error instanceof Error ? error.message : error}`);
+    }
+    const records = Array.isArray(body) ? body : (body as { customers?: unknown } | null)?.customers;
+    if (!Array.isArray(records)) {
+      throw new Error('Expected a JSON array of customer records or { "customers": [...] }');
+    }
+    return records;
+  }
+
+  const [header, ...rows] = parseCsv(text);
+  if (!header) {
+    throw new Error('CSV has no header row');
+  }
+  const columns = header.map(column => column.trim());
+  return rows.map(row => {
+    const record: Record<string, unknown> = {};
+    columns.forEach((column, i) => {
+      record[column] = row[i] ?? '';
+    });
+    return record;
+  });
+}
+
+/**
+ * Import an export into the configured KYC data source, which must be writable
+ * Each valid record is created or updated (and audited as such, with its KYC changes applied); invalid records are reported and skipped.
+ * PII salts of credentials re-issued because of a change go to `deliverPiiSalts`, and are lost without it
+ */
+export async function importCustomers(
+  text: string,
+  format: KycImportFormat,
+  options: { fieldMapping?: KycFieldMapping; actor?: string } & KycChangeOptions = {}
+): Promise<KycImportResult> {
+  // 1. Read and convert every record before writing any
+  const records = parseKycExport(text, format);
+  const result: KycImportResult = { total: records.length, imported: 0, credentialActions: 0, failed: [] };
+  const customers = records.map((record, index) => {
+    try {
+      return mapKycRecord(record, options.fieldMapping);
+    } catch (error) {
+      result.failed.push({ index, error: error instanceof Error ? error.message : String(error) });
+      return null;
+    }
+  });
+
+  // 2. Write the valid records
+  for (const customer of customers) {
+    if (customer) {
+      result.credentialActions += (await upsertCustomerKYC(customer, options.actor, {
+        deliverPiiSalts: options.deliverPiiSalts
+      })).length;
+      result.imported++;
+    }
+  }
+
+  return result;
+}
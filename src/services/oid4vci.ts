@@ -0,0 +1,533 @@
+/**
+ * OpenID for Verifiable Credential Issuance (OID4VCI)
+ * Pre-authorized code flow for customer wallets: the bank creates a credential offer for a KYC record,
+ * the wallet redeems the pre-authorized code at the token endpoint and requests the credential with a
+ * proof-of-possession JWT, and the credential is issued to the wallet's key
+ */
+
+import { randomBytes, randomInt } from 'crypto';
+import {
+  BankIssuer,
+  CredentialEnvelope,
+  IssueCredentialRequest,
+  PiiSalts,
+  SignatureAlgorithm,
+  VerifiableCredential
+} from '../types/credentials';
+import { decodeJwt, verifyJwtSignature, getJwsAlgorithm, getSignatureAlgorithm } from '../utils/jwt';
+import { jwkToPublicKey, PublicJwk } from '../utils/jwk';
+import { didKeyToPublicKey, publicKeyToDidKey } from '../utils/did-key';
+import { VCDM_V1_CONTEXT } from '../utils/data-model';
+import { getCryptosuite } from '../utils/data-integrity';
+import { getCustomerKYC } from './customers';
+import { getIssuerByDid } from '../config/bank-issuers';
+import { ISSUE_CREDENTIAL_REQUEST_SCHEMA, issueCredential } from './credential-issuer';
+import { getActiveIssuerKey } from './issuer-keys';
+import { KYC_CREDENTIAL_VCT } from './sd-jwt';
+import { recordAuditEvent } from './audit-log';
+import { JsonSchema } from '../utils/json-schema';
+import { domainError } from '../utils/errors';
+
+export const PRE_AUTHORIZED_CODE_GRANT = 'urn:ietf:params:oauth:grant-type:pre-authorized_code';
+export const PROOF_JWT_TYPE = 'openid4vci-proof+jwt';
+export const OFFER_TTL_SECONDS = 600;
+export const ACCESS_TOKEN_TTL_SECONDS = 300;
+export const C_NONCE_TTL_SECONDS = 300;
+const PROOF_MAX_AGE_SECONDS = 300;
+const CLOCK_SKEW_SECONDS = 60;
+
+/**
+ * Credential configurations offered to wallets, by credential_configuration_id
+ */
+export const CREDENTIAL_CONFIGURATIONS: Record<string, { format: string; envelope: CredentialEnvelope }> = {
+  KYCCredential_ldp_vc: { format: 'ldp_vc', envelope: 'none' },
+  KYCCredential_jwt_vc_json: { format: 'jwt_vc_json', envelope: 'jwt' },
+  KYCCredential_sd_jwt_vc: { format: 'vc+sd-jwt', envelope: 'sd-jwt' }
+};
+
+export type Oid4vciErrorCode =
+  | 'invalid_request'
+  | 'invalid_grant'
+  | 'unsupported_grant_type'
+  | 'invalid_token'
+  | 'invalid_proof'
+  | 'invalid_credential_request'
+  | 'unsupported_credential_format';
+
+/**
+ * OAuth-style error response
+ */
+export interface Oid4vciError {
+  error: Oid4vciErrorCode;
+  error_description: string;
+  c_nonce?: string;
+  c_nonce_expires_in?: number;
+}
+
+export interface CreateCredentialOfferRequest {
+  issuerDid: string;
+  customerKycId: string;
+  jurisdiction: string[];
+  kycLevel?: IssueCredentialRequest['kycLevel']; // Defaults to the KYC record
+  accreditedInvestor?: boolean; // Defaults to the KYC record
+  expiryDays?: number;
+  dataModelVersion?: IssueCredentialRequest['dataModelVersion'];
+  credentialConfigurationIds?: string[]; // Defaults to every configuration
+  txCode?: boolean; // Require a one-time PIN, delivered to the customer through another channel
+}
+
+const ISSUE_PROPERTIES = ISSUE_CREDENTIAL_REQUEST_SCHEMA.properties!;
+
+/**
+ * A CreateCredentialOfferRequest
+ */
+export const CREDENTIAL_OFFER_REQUEST_SCHEMA: JsonSchema = {
+  type: 'object',
+  required: ['issuerDid', 'customerKycId', 'jurisdiction'],
+  additionalProperties: false,
+  properties: {
+    issuerDid: ISSUE_PROPERTIES.issuerDid,
+    customerKycId: ISSUE_PROPERTIES.customerKycId,
+    jurisdiction: ISSUE_PROPERTIES.jurisdiction,
+    kycLevel: ISSUE_PROPERTIES.kycLevel,
+    accreditedInvestor: ISSUE_PROPERTIES.accreditedInvestor,
+    expiryDays: ISSUE_PROPERTIES.expiryDays,
+    dataModelVersion: ISSUE_PROPERTIES.dataModelVersion,
+    credentialConfigurationIds: { type: 'array', minItems: 1, items: { type: 'string' } },
+    txCode: { type: 'boolean' }
+  }
+};
+
+export interface CredentialOffer {
+  credential_issuer: string;
+  credential_configuration_ids: string[];
+  grants: {
+    [PRE_AUTHORIZED_CODE_GRANT]: {
+      'pre-authorized_code': string;
+      tx_code?: { input_mode: 'numeric'; length: number; description: string };
+    };
+  };
+}
+
+export interface CredentialOfferResult {
+  credentialOffer: CredentialOffer;
+  credentialOfferUri: string; // openid-credential-offer:// deep link for the wallet
+  txCode?: string;
+  expiresAt: string;
+}
+
+export interface TokenRequest {
+  grant_type?: string;
+  'pre-authorized_code'?: string;
+  tx_code?: string;
+  user_pin?: string; // Pre-draft-13 name of tx_code
+}
+
+export interface TokenResponse {
+  access_token: string;
+  token_type: 'Bearer';
+  expires_in: number;
+  c_nonce: string;
+  c_nonce_expires_in: number;
+}
+
+export interface CredentialRequest {
+  credential_configuration_id?: string;
+  format?: string;
+  proof?: { proof_type: string; jwt?: string };
+}
+
+export interface CredentialResponse {
+  credential: VerifiableCredential | string;
+  c_nonce: string;
+  c_nonce_expires_in: number;
+  pii_salts?: PiiSalts;
+}
+
+interface PendingOffer {
+  issueRequest: IssueCredentialRequest;
+  credentialConfigurationIds: string[];
+  txCode?: string;
+  expiresAt: string;
+}
+
+interface AccessTokenGrant {
+  issueRequest: IssueCredentialRequest;
+  credentialConfigurationIds: string[];
+  issuedConfigurationIds: string[];
+  expiresAt: string;
+  cNonce: string;
+  cNonceExpiresAt: string;
+}
+
+/**
+ * Outstanding offers by pre-authorized code, and access tokens - removed once used or expired
+ */
+const offers: Map<string, PendingOffer> = new Map();
+const accessTokens: Map<string, AccessTokenGrant> = new Map();
+
+function isExpired(expiresAt: string): boolean {
+  return new Date(expiresAt) <= new Date();
+}
+
+function expiresIn(seconds: number): string {
+  return new Date(Date.now() + seconds * 1000).toISOString();
+}
+
+function oid4vciError(error: Oid4vciErrorCode, description: string): Oid4vciError {
+  return { error, error_description: description };
+}
+
+/**
+ * Check whether a result is an OID4VCI error response
+ */
+export function isOid4vciError(value: unknown): value is Oid4vciError {
+  return typeof value === 'object' && value !== null && 'error' in value && 'error_description' in value;
+}
+
+/**
+ * Drop expired offers and access tokens
+ */
+function pruneExpired(): void {
+  for (const [code, offer] of offers) {
+    if (isExpired(offer.expiresAt)) {
+      offers.delete(code);
+    }
+  }
+  for (const [token, grant] of accessTokens) {
+    if (isExpired(grant.expiresAt)) {
+      accessTokens.delete(token);
+    }
+  }
+}
+
+/**
+ * Credential issuer identifier of a bank issuer on this service
+ */
+export function getCredentialIssuerUrl(baseUrl: string, issuerDid: string): string {
+  return `${baseUrl.replace(/\/$/, '')}/api/oid4vci/${issuerDid}`;
+}
+
+/**
+ * Credential issuer metadata (served at /.well-known/openid-credential-issuer/...)
+ */
+export function getCredentialIssuerMetadata(issuer: BankIssuer, credentialIssuerUrl: string): Record<string, unknown> {
+  const { signatureAlgorithm } = getActiveIssuerKey(issuer.did);
+  const signingAlg = getJwsAlgorithm(signatureAlgorithm);
+  const proofTypes = { jwt: { proof_signing_alg_values_supported: ['EdDSA', 'ES256', 'ES256K'] } };
+  const display = [{ name: 'KYC Credential', locale: 'en-US', description: `KYC attestation by ${issuer.name}` }];
+  const credentialDefinition = { type: ['VerifiableCredential', 'KYCCredential'] };
+
+  const configurations: Record<string, unknown> = {};
+  for (const [id, { format }] of Object.entries(CREDENTIAL_CONFIGURATIONS)) {
+    configurations[id] = {
+      format,
+      scope: 'KYCCredential',
+      cryptographic_binding_methods_supported: ['did:key', 'jwk'],
+      credential_signing_alg_values_supported: format === 'ldp_vc'
+        ? [getCryptosuite(signatureAlgorithm)]
+        : [signingAlg],
+      proof_types_supported: proofTypes,
+      display,
+      ...(format === 'vc+sd-jwt'
+        ? { vct: KYC_CREDENTIAL_VCT }
+        : {
+          credential_definition: format === 'ldp_vc'
+            ? { '@context': [VCDM_V1_CONTEXT], ...credentialDefinition }
+            : credentialDefinition
+        })
+    };
+  }
+
+  return {
+    credential_issuer: credentialIssuerUrl,
+    authorization_servers: [credentialIssuerUrl],
+    token_endpoint: `${credentialIssuerUrl}/token`,
+    credential_endpoint: `${credentialIssuerUrl}/credential`,
+    display: [{ name: issuer.name, locale: 'en-US' }],
+    credential_configurations_supported: configurations
+  };
+}
+
+/**
+ * OAuth authorization server metadata for the token endpoint (served at /.well-known/oauth-authorization-server/...)
+ */
+export function getAuthorizationServerMetadata(credentialIssuerUrl: string): Record<string, unknown> {
+  return {
+    issuer: credentialIssuerUrl,
+    token_endpoint: `${credentialIssuerUrl}/token`,
+    grant_types_supported: [PRE_AUTHORIZED_CODE_GRANT],
+    'pre-authorized_grant_anonymous_access_supported': true
+  };
+}
+
+/**
+ * Bank: create a credential offer for a KYC record
+ * The issuance parameters are fixed here, so the wallet never names a customer
+ */
+export async function createCredentialOffer(
+  request: CreateCredentialOfferRequest,
+  credentialIssuerUrl: string
+): Promise<CredentialOfferResult> {
+  pruneExpired();
+
+  if (!getIssuerByDid(request.issuerDid)) {
+    throw domainError('ISSUER_NOT_FOUND', `Invalid issuer DID: ${request.issuerDid}`, { issuerDid: request.issuerDid });
+  }
+
+  const kycData = await getCustomerKYC(request.customerKycId);
+  if (!kycData) {
+    throw domainError('CUSTOMER_NOT_FOUND', `Customer not found: ${request.customerKycId}`, {
+      customerKycId: request.customerKycId
+    });
+  }
+
+  const credentialConfigurationIds = request.credentialConfigurationIds || Object.keys(CREDENTIAL_CONFIGURATIONS);
+  const unknownIds = credentialConfigurationIds.filter(id => !CREDENTIAL_CONFIGURATIONS[id]);
+  if (credentialConfigurationIds.length === 0 || unknownIds.length > 0) {
+    throw domainError(
+      'UNKNOWN_CREDENTIAL_CONFIGURATION',
+      `Unknown credential configuration: ${unknownIds.join(', ') || '(none)'}`,
+      { supported: Object.keys(CREDENTIAL_CONFIGURATIONS) }
+    );
+  }
+
+  const preAuthorizedCode = randomBytes(24).toString('base64url');
+  const txCode = request.txCode ? String(randomInt(0, 1000000)).padStart(6, '0') : undefined;
+  const expiresAt = expiresIn(OFFER_TTL_SECONDS);
+
+  offers.set(preAuthorizedCode, {
+    issueRequest: {
+      customerKycId: request.customerKycId,
+      issuerDid: request.issuerDid,
+      kycLevel: request.kycLevel || kycData.kycLevel,
+      accreditedInvestor: request.accreditedInvestor ?? kycData.accreditedInvestor,
+      jurisdiction: request.jurisdiction,
+      expiryDays: request.expiryDays,
+      dataModelVersion: request.dataModelVersion
+    },
+    credentialConfigurationIds,
+    txCode,
+    expiresAt
+  });
+
+  const credentialOffer: CredentialOffer = {
+    credential_issuer: credentialIssuerUrl,
+    credential_configuration_ids: credentialConfigurationIds,
+    grants: {
+      [PRE_AUTHORIZED_CODE_GRANT]: {
+        'pre-authorized_code': preAuthorizedCode,
+        ...(txCode && {
+          tx_code: { input_mode: 'numeric' as const, length: txCode.length, description: 'PIN sent to you by your bank' }
+        })
+      }
+    }
+  };
+
+  return {
+    credentialOffer,
+    credentialOfferUri: `openid-credential-offer://?credential_offer=${encodeURIComponent(JSON.stringify(credentialOffer))}`,
+    txCode,
+    expiresAt
+  };
+}
+
+/**
+ * Token endpoint: redeem a pre-authorized code (single use) for an access token and c_nonce
+ */
+export function exchangePreAuthorizedCode(
+  issuerDid: string,
+  request: TokenRequest
+): TokenResponse | Oid4vciError {
+  pruneExpired();
+
+  if (request.grant_type !== PRE_AUTHORIZED_CODE_GRANT) {
+    return oid4vciError('unsupported_grant_type', `grant_type must be ${PRE_AUTHORIZED_CODE_GRANT}`);
+  }
+
+  const code = request['pre-authorized_code'];
+  if (!code) {
+    return oid4vciError('invalid_request', 'Missing pre-authorized_code');
+  }
+
+  const offer = offers.get(code);
+  if (!offer || offer.issueRequest.issuerDid !== issuerDid) {
+    return oid4vciError('invalid_grant', 'Unknown, expired or already used pre-authorized_code');
+  }
+
+  offers.delete(code);
+
+  if (offer.txCode !== undefined && (request.tx_code ?? request.user_pin) !== offer.txCode) {
+    return oid4vciError('invalid_grant', 'Invalid tx_code');
+  }
+
+  const accessToken = randomBytes(32).toString('base64url');
+  const grant: AccessTokenGrant = {
+    issueRequest: offer.issueRequest,
+    credentialConfigurationIds: offer.credentialConfigurationIds,
+    issuedConfigurationIds: [],
+    expiresAt: expiresIn(ACCESS_TOKEN_TTL_SECONDS),
+    cNonce: randomBytes(16).toString('base64url'),
+    cNonceExpiresAt: expiresIn(C_NONCE_TTL_SECONDS)
+  };
+  accessTokens.set(accessToken, grant);
+
+  return {
+    access_token: accessToken,
+    token_type: 'Bearer',
+    expires_in: ACCESS_TOKEN_TTL_SECONDS,
+    c_nonce: grant.cNonce,
+    c_nonce_expires_in: C_NONCE_TTL_SECONDS
+  };
+}
+
+/**
+ * Replace the c_nonce of a grant - every nonce is good for one proof
+ */
+function rotateCNonce(grant: AccessTokenGrant): { c_nonce: string; c_nonce_expires_in: number } {
+  grant.cNonce = randomBytes(16).toString('base64url');
+  grant.cNonceExpiresAt = expiresIn(C_NONCE_TTL_SECONDS);
+  return { c_nonce: grant.cNonce, c_nonce_expires_in: C_NONCE_TTL_SECONDS };
+}
+
+/**
+ * Verify a wallet's proof-of-possession JWT and return the key it proves control of
+ * The key comes from a did:key `kid` or an embedded `jwk`; the JWT must be addressed to this credential
+ * issuer, carry the current c_nonce and be recent
+ */
+async function verifyProofOfPossession(
+  proofJwt: string,
+  credentialIssuerUrl: string,
+  cNonce: string
+): Promise<{ holderDid: string; publicKey: string; algorithm: SignatureAlgorithm } | string> {
+  const decoded = decodeJwt(proofJwt);
+  const { header, payload } = decoded;
+
+  if (header.typ !== PROOF_JWT_TYPE) {
+    return `Proof JWT typ must be ${PROOF_JWT_TYPE}`;
+  }
+
+  let holderKey: { publicKey: string; algorithm: SignatureAlgorithm };
+  let holderDid: string;
+  if (typeof header.kid === 'string' && header.kid.startsWith('did:key:')) {
+    holderKey = didKeyToPublicKey(header.kid);
+    holderDid = header.kid.split('#')[0];
+  } else if (header.jwk) {
+    holderKey = jwkToPublicKey(header.jwk as PublicJwk);
+    holderDid = publicKeyToDidKey(holderKey.publicKey, holderKey.algorithm);
+  } else {
+    return 'Proof JWT must identify the holder key with a did:key kid or a jwk';
+  }
+
+  if (getSignatureAlgorithm(header.alg) !== holderKey.algorithm ||
+    !(await verifyJwtSignature(decoded, holderKey.publicKey, holderKey.algorithm))) {
+    return 'Invalid proof JWT signature';
+  }
+
+  const audience = Array.isArray(payload.aud) ? payload.aud : [payload.aud];
+  if (!audience.includes(credentialIssuerUrl)) {
+    return 'Proof JWT aud does not match the credential issuer';
+  }
+  if (payload.nonce !== cNonce) {
+    return 'Proof JWT nonce does not match the current c_nonce';
+  }
+
+  const now = Math.floor(Date.now() / 1000);
+  if (typeof payload.iat !== 'number' || payload.iat > now + CLOCK_SKEW_SECONDS || payload.iat < now - PROOF_MAX_AGE_SECONDS) {
+    return 'Proof JWT iat is missing or outside the accepted window';
+  }
+
+  return { holderDid, ...holderKey };
+}
+
+/**
+ * Credential endpoint: check the access token and proof of possession, then issue the offered
+ * credential bound to the wallet key
+ */
+export async function issueCredentialToWallet(
+  issuerDid: string,
+  accessToken: string | undefined,
+  request: CredentialRequest,
+  credentialIssuerUrl: string
+): Promise<CredentialResponse | Oid4vciError> {
+  pruneExpired();
+
+  // 1. Validate the access token
+  const grant = accessToken ? accessTokens.get(accessToken) : undefined;
+  if (!grant || grant.issueRequest.issuerDid !== issuerDid) {
+    return oid4vciError('invalid_token', 'Unknown or expired access token');
+  }
+
+  // 2. Resolve the requested credential configuration
+  const configurationId = request.credential_configuration_id ||
+    grant.credentialConfigurationIds.find(id => CREDENTIAL_CONFIGURATIONS[id].format === request.format);
+  if (!configurationId || !grant.credentialConfigurationIds.includes(configurationId)) {
+    return oid4vciError('unsupported_credential_format', 'Credential configuration was not offered');
+  }
+  if (grant.issuedConfigurationIds.includes(configurationId)) {
+    return oid4vciError('invalid_credential_request', `Credential ${configurationId} has already been issued`);
+  }
+
+  // 3. Verify proof of possession of the wallet key against the current c_nonce
+  if (request.proof?.proof_type !== 'jwt' || !request.proof.jwt) {
+    return { ...oid4vciError('invalid_proof', 'A jwt proof is required'), ...rotateCNonce(grant) };
+  }
+
+  // Claim the configuration and spend the c_nonce before anything is awaited, so a concurrent request with
+  // the same token and proof cannot get a second credential; the claim is released if issuance fails
+  grant.issuedConfigurationIds.push(configurationId);
+  const releaseConfiguration = () => {
+    grant.issuedConfigurationIds.splice(grant.issuedConfigurationIds.indexOf(configurationId), 1);
+  };
+  const cNonce = grant.cNonce;
+  const cNonceExpired = isExpired(grant.cNonceExpiresAt);
+  const nextCNonce = rotateCNonce(grant);
+
+  let holder: Awaited<ReturnType<typeof verifyProofOfPossession>>;
+  try {
+    holder = cNonceExpired
+      ? 'c_nonce has expired'
+      : await verifyProofOfPossession(request.proof.jwt, credentialIssuerUrl, cNonce);
+  } catch (error) {
+    holder = `Malformed proof JWT: ${error instanceof Error ? error.message : String(error)}`;
+  }
+  if (typeof holder === 'string') {
+    releaseConfiguration();
+    return { ...oid4vciError('invalid_proof', holder), ...nextCNonce };
+  }
+
+  // 4. Issue the credential to the wallet's DID, recording the outcome in the audit log
+  const { envelope } = CREDENTIAL_CONFIGURATIONS[configurationId];
+  let piiSalts: PiiSalts | undefined;
+  let credentialId: string | null = null;
+  const auditIssuance = (error: string | null) => recordAuditEvent({
+    action: 'credential.issue',
+    actor: holder.holderDid,
+    issuerDid,
+    customerKycId: grant.issueRequest.customerKycId,
+    credentialId,
+    outcome: error ? 'failure' : 'success',
+    error
+  });
+
+  let credential: VerifiableCredential | string;
+  try {
+    credential = await issueCredential(grant.issueRequest, {
+      envelope,
+      holderDid: holder.holderDid,
+      holderPublicKey: envelope === 'sd-jwt' ? { publicKey: holder.publicKey, algorithm: holder.algorithm } : undefined,
+      deliverPiiSalts: (salts, id) => { piiSalts = salts; credentialId = id; }
+    });
+  } catch (error) {
+    releaseConfiguration();
+    await auditIssuance(error instanceof Error ? error.message : String(error));
+    throw error;
+  }
+  await auditIssuance(null);
+
+  return {
+    credential,
+    ...nextCNonce,
+    pii_salts: piiSalts
+  };
+}
@@ -0,0 +1,331 @@
+/**
+ * OpenID for Verifiable Presentations (OID4VP)
+ * Verifier side of the cross-device flow: the relying party creates an authorization request carrying
+ * a presentation definition, the wallet posts its vp_token and presentation_submission to the
+ * response_uri (direct_post), and each submitted credential is verified and evaluated against the
+ * definition's input descriptors
+ */
+
+import { randomBytes } from 'crypto';
+import { VerifiableCredential, VerifiablePresentation, PresentationVerificationResult } from '../types/credentials';
+import { decodeJwt } from '../utils/jwt';
+import { queryJsonPath } from '../utils/json-path';
+import { createChallenge, consumeChallenge, verifyPresentation } from './presentation';
+import { verifySdJwtCredential, SD_JWT_VC_MEDIA_TYPE } from './sd-jwt';
+import {
+  DescriptorMapEntry,
+  PresentationDefinition,
+  PresentationEvaluation,
+  PresentationSubmission,
+  SubmittedCredential,
+  evaluatePresentationDefinition,
+  validatePresentationDefinition
+} from './presentation-exchange';
+
+export const AUTHORIZATION_REQUEST_TTL_SECONDS = 600;
+export const RESULT_RETENTION_SECONDS = 3600;
+
+/**
+ * Presentation formats accepted from wallets
+ */
+export const VP_FORMATS_SUPPORTED = {
+  ldp_vp: { proof_type: ['DataIntegrityProof'] },
+  'vc+sd-jwt': { 'sd-jwt_alg_values': ['EdDSA', 'ES256'], 'kb-jwt_alg_values': ['EdDSA', 'ES256', 'ES256K'] }
+};
+
+export type Oid4vpErrorCode = 'invalid_request' | 'vp_formats_not_supported';
+
+/**
+ * OAuth-style error response
+ */
+export interface Oid4vpError {
+  error: Oid4vpErrorCode;
+  error_description: string;
+}
+
+export interface CreateAuthorizationRequestOptions {
+  presentationDefinition: PresentationDefinition;
+  responseUri: string; // Where the wallet posts its response - also the client_id
+  apiClientId?: string; // API client creating the request - only it can read the request's state
+}
+
+export interface AuthorizationRequest {
+  response_type: 'vp_token';
+  response_mode: 'direct_post';
+  client_id: string;
+  client_id_scheme: 'redirect_uri';
+  response_uri: string;
+  nonce: string;
+  state: string;
+  presentation_definition: PresentationDefinition;
+  client_metadata: { vp_formats: typeof VP_FORMATS_SUPPORTED };
+}
+
+export interface AuthorizationRequestResult {
+  authorizationRequest: AuthorizationRequest;
+  authorizationRequestUri: string; // openid4vp:// deep link for the wallet
+  expiresAt: string;
+}
+
+export interface AuthorizationResponse {
+  vp_token?: unknown;
+  presentation_submission?: PresentationSubmission | string;
+  state?: string;
+}
+
+export type AuthorizationRequestStatus = 'pending' | 'completed' | 'expired';
+
+export interface PresentationResult extends PresentationEvaluation {
+  holder: string | null;
+  receivedAt: string;
+}
+
+export interface AuthorizationRequestState {
+  state: string;
+  status: AuthorizationRequestStatus;
+  expiresAt: string;
+  presentationDefinition: PresentationDefinition;
+  result?: PresentationResult;
+}
+
+interface VerifierSession {
+  request: AuthorizationRequest;
+  apiClientId?: string;
+  expiresAt: string;
+  result?: PresentationResult;
+}
+
+/**
+ * Authorization requests by state - kept past expiry for RESULT_RETENTION_SECONDS so the relying party
+ * can fetch the result
+ */
+const sessions: Map<string, VerifierSession> = new Map();
+
+function oid4vpError(error: Oid4vpErrorCode, description: string): Oid4vpError {
+  return { error, error_description: description };
+}
+
+/**
+ * Drop requests whose results are past retention
+ */
+function pruneSessions(): void {
+  const cutoff = Date.now() - RESULT_RETENTION_SECONDS * 1000;
+  for (const [state, session] of sessions) {
+    if (new Date(session.expiresAt).getTime() <= cutoff) {
+      sessions.delete(state);
+    }
+  }
+}
+
+/**
+ * Check whether a result is an OID4VP error response
+ */
+export function isOid4vpError(value: unknown): value is Oid4vpError {
+  return typeof value === 'object' && value !== null && 'error' in value && 'error_description' in value;
+}
+
+/**
+ * Parse a form-encoded JSON parameter (vp_token and presentation_submission arrive as strings in direct_post)
+ */
+function parseJsonParameter<T>(value: unknown): T {
+  if (typeof value === 'string' && /^\s*[[{]/.test(value)) {
+    return JSON.parse(value) as T;
+  }
+  return value as T;
+}
+
+/**
+ * Relying party: create an authorization request for a presentation definition
+ */
+export function createAuthorizationRequest(options: CreateAuthorizationRequestOptions): AuthorizationRequestResult {
+  pruneSessions();
+  validatePresentationDefinition(options.presentationDefinition);
+  if (!options.responseUri) {
+    throw new Error('responseUri is required');
+  }
+
+  const clientId = options.responseUri;
+  const { challenge, expiresAt } = createChallenge(clientId, AUTHORIZATION_REQUEST_TTL_SECONDS);
+  const state = randomBytes(24).toString('base64url');
+
+  const authorizationRequest: AuthorizationRequest = {
+    response_type: 'vp_token',
+    response_mode: 'direct_post',
+    client_id: clientId,
+    client_id_scheme: 'redirect_uri',
+    response_uri: options.responseUri,
+    nonce: challenge,
+    state,
+    presentation_definition: options.presentationDefinition,
+    client_metadata: { vp_formats: VP_FORMATS_SUPPORTED }
+  };
+  sessions.set(state, { request: authorizationRequest, apiClientId: options.apiClientId, expiresAt });
+
+  const query = new URLSearchParams(Object.fromEntries(
+    Object.entries(authorizationRequest).map(([name, value]) => [name, typeof value === 'string' ? value : JSON.stringify(value)])
+  ));
+
+  return {
+    authorizationRequest,
+    authorizationRequestUri: `openid4vp://?${query.toString()}`,
+    expiresAt
+  };
+}
+
+/**
+ * Relying party: get the status of an authorization request and, once the wallet responded, its evaluation.
+ * Requests created for another API client are not found
+ */
+export function getAuthorizationRequestState(state: string, apiClientId?: string): AuthorizationRequestState | null {
+  const session = sessions.get(state);
+  if (!session || session.apiClientId !== apiClientId) {
+    return null;
+  }
+
+  const expired = !session.result && new Date(session.expiresAt) <= new Date();
+  return {
+    state,
+    status: session.result ? 'completed' : expired ? 'expired' : 'pending',
+    expiresAt: session.expiresAt,
+    presentationDefinition: session.request.presentation_definition,
+    result: session.result
+  };
+}
+
+/**
+ * Verify a Data Integrity presentation once per response and read the credential a descriptor points to
+ */
+async function resolveLdpCredential(
+  presentation: VerifiablePresentation,
+  entry: DescriptorMapEntry,
+  request: AuthorizationRequest,
+  verified: Map<unknown, PresentationVerificationResult>
+): Promise<SubmittedCredential | string> {
+  const nested = entry.path_nested;
+  if (!nested || nested.format !== 'ldp_vc') {
+    return 'ldp_vp descriptors must point to an ldp_vc with path_nested';
+  }
+
+  const credential = queryJsonPath(presentation, nested.path)[0] as VerifiableCredential | undefined;
+  if (!credential || typeof credential !== 'object') {
+    return `No credential found at ${nested.path}`;
+  }
+
+  let verification = verified.get(presentation);
+  if (!verification) {
+    if (presentation.proof?.challenge !== request.nonce || presentation.proof?.domain !== request.client_id) {
+      verification = {
+        valid: false,
+        holder: presentation.holder || null,
+        errors: ['Presentation is not bound to the nonce and client_id of this request'],
+        credentials: []
+      };
+    } else {
+      verification = await verifyPresentation(presentation);
+    }
+    verified.set(presentation, verification);
+  }
+
+  const credentialResult = verification.credentials.find(result => result.id === credential.id);
+  const presentationErrors = verification.errors.filter(error => !error.startsWith('Credential '));
+  return {
+    format: nested.format,
+    credentialId: credential.id,
+    claims: credential,
+    selectivelyDisclosed: false,
+    errors: [...presentationErrors, ...(credentialResult?.errors || [])]
+  };
+}
+
+/**
+ * Verify an SD-JWT VC presentation, which must carry a key binding JWT for this request
+ */
+async function resolveSdJwtCredential(sdJwt: string, request: AuthorizationRequest): Promise<SubmittedCredential> {
+  const result = await verifySdJwtCredential(sdJwt, {
+    audience: request.client_id,
+    nonce: request.nonce,
+    requireKeyBinding: true
+  });
+  const { payload } = decodeJwt(sdJwt.split('~')[0]);
+
+  return {
+    format: SD_JWT_VC_MEDIA_TYPE,
+    credentialId: typeof payload.jti === 'string' ? payload.jti : undefined,
+    claims: { iss: payload.iss, vct: payload.vct, ...result.disclosedClaims },
+    selectivelyDisclosed: true,
+    errors: result.errors
+  };
+}
+
+/**
+ * Response endpoint (direct_post): verify the wallet's vp_token, evaluate it against the presentation
+ * definition and store the result for the relying party
+ */
+export async function handleAuthorizationResponse(
+  response: AuthorizationResponse
+): Promise<PresentationResult | Oid4vpError> {
+  // 1. Match the response to a pending request (state is single use)
+  const session = response.state ? sessions.get(response.state) : undefined;
+  if (!session || session.result) {
+    return oid4vpError('invalid_request', 'Unknown or already answered state');
+  }
+  if (new Date(session.expiresAt) <= new Date()) {
+    return oid4vpError('invalid_request', 'Authorization request has expired');
+  }
+  const { request } = session;
+
+  // 2. Parse the vp_token and presentation_submission
+  let vpToken: unknown;
+  let submission: PresentationSubmission;
+  try {
+    vpToken = parseJsonParameter<unknown>(response.vp_token);
+    submission = parseJsonParameter<PresentationSubmission>(response.presentation_submission);
+  } catch (error) {
+    return oid4vpError('invalid_request', 'vp_token or presentation_submission is not valid JSON');
+  }
+  if (vpToken === undefined || vpToken === null || vpToken === '') {
+    return oid4vpError('invalid_request', 'Missing vp_token');
+  }
+  if (!submission || !Array.isArray(submission.descriptor_map)) {
+    return oid4vpError('invalid_request', 'Missing presentation_submission');
+  }
+  if (submission.definition_id !== request.presentation_definition.id) {
+    return oid4vpError('invalid_request', 'presentation_submission does not reference the requested definition');
+  }
+
+  // 3. Verify the presentation each descriptor map entry points to
+  const submissions: Map<string, SubmittedCredential | string> = new Map();
+  const verified: Map<unknown, PresentationVerificationResult> = new Map();
+  let holder: string | null = null;
+
+  for (const entry of submission.descriptor_map) {
+    let submitted: SubmittedCredential | string;
+    try {
+      const presentation = queryJsonPath(vpToken, entry.path)[0];
+      if (presentation === undefined) {
+        submitted = `No presentation found at ${entry.path}`;
+      } else if (entry.format === 'ldp_vp' && typeof presentation === 'object') {
+        submitted = await resolveLdpCredential(presentation as VerifiablePresentation, entry, request, verified);
+        holder = holder || (presentation as VerifiablePresentation).holder || null;
+      } else if (entry.format === SD_JWT_VC_MEDIA_TYPE && typeof presentation === 'string') {
+        submitted = await resolveSdJwtCredential(presentation, request);
+        holder = holder || (submitted.claims as { id?: string }).id || null;
+      } else {
+        submitted = `Unsupported presentation format: ${entry.format}`;
+      }
+    } catch (error) {
+      submitted = `Presentation could not be read: ${error instanceof Error ? error.message : String(error)}`;
+    }
+    submissions.set(entry.id, submitted);
+  }
+
+  // 4. Evaluate the definition and record the result - the nonce is spent either way
+  consumeChallenge(request.nonce, request.client_id);
+  session.result = {
+    ...evaluatePresentationDefinition(request.presentation_definition, submissions),
+    holder,
+    receivedAt: new Date().toISOString()
+  };
+
+  return session.result;
+}
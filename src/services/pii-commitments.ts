@@ -0,0 +1,89 @@
+/**
+ * PII Commitment Service
+ * Commits to customer PII with per-credential, per-field random salts (optionally HMAC-keyed with
+ * an issuer pepper) so the hashedPII values cannot be brute-forced, and checks disclosed values
+ * against those commitments
+ */
+
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+import { HashedPII, PiiField, PiiSalts, VerifiableCredential } from '../types/credentials';
+import { hashPII } from '../utils/crypto';
+
+export const PII_FIELDS: PiiField[] = ['name', 'dateOfBirth', 'citizenship', 'address'];
+
+const DEFAULT_PEPPER_KEY = '*';
+
+/**
+ * Issuer peppers by issuer DID ('*' applies to issuers without their own)
+ */
+const peppers: Map<string, string> = new Map();
+
+/**
+ * Set the HMAC pepper used for an issuer's commitments, or the default for all issuers when no DID
+ * is given. Pass null to remove it. Commitments made under a pepper only match while it is configured.
+ */
+export function setPiiPepper(pepper: string | null, issuerDid: string = DEFAULT_PEPPER_KEY): void {
+  if (pepper) {
+    peppers.set(issuerDid, pepper);
+  } else {
+    peppers.delete(issuerDid);
+  }
+}
+
+/**
+ * Normalize a PII value so formatting differences between issuer and verifier do not break a match
+ */
+function normalizePiiValue(value: string): string {
+  return value.normalize('NFC').trim();
+}
+
+/**
+ * Compute the commitment to a PII value: HMAC-SHA-256 under the issuer pepper if one is set,
+ * SHA-256 otherwise, over `value:salt`
+ */
+export function computePiiCommitment(issuerDid: string, value: string, salt: string): string {
+  const pepper = peppers.get(issuerDid) ?? peppers.get(DEFAULT_PEPPER_KEY);
+  const normalized = normalizePiiValue(value);
+
+  if (pepper) {
+    return '0x' + createHmac('sha256', pepper).update(`${normalized}:${salt}`).digest('hex');
+  }
+  return hashPII(normalized, salt);
+}
+
+/**
+ * Commit to each PII field under a fresh random salt
+ */
+export function createPiiCommitments(
+  issuerDid: string,
+  pii: Record<PiiField, string>
+): { hashedPII: HashedPII; salts: PiiSalts } {
+  const hashedPII = {} as HashedPII;
+  const salts = {} as PiiSalts;
+
+  for (const field of PII_FIELDS) {
+    salts[field] = randomBytes(16).toString('base64url');
+    hashedPII[field] = computePiiCommitment(issuerDid, pii[field], salts[field]);
+  }
+
+  return { hashedPII, salts };
+}
+
+/**
+ * Check a disclosed PII value and salt against the commitment in a credential
+ */
+export function matchPiiCommitment(
+  credential: Pick<VerifiableCredential, 'issuer' | 'credentialSubject'>,
+  field: PiiField,
+  value: string,
+  salt: string
+): boolean {
+  const commitment = credential.credentialSubject?.hashedPII?.[field];
+  if (typeof commitment !== 'string') {
+    return false;
+  }
+
+  const expected = Buffer.from(commitment);
+  const actual = Buffer.from(computePiiCommitment(credential.issuer.id, value, salt));
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
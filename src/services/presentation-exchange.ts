@@ -0,0 +1,532 @@
+/**
+ * Presentation Exchange (DIF PE v2)
+ * Authors presentation definitions for KYC requirements and evaluates submitted credentials against
+ * their input descriptors - JSONPath field constraints with JSON Schema filters
+ */
+
+import { randomUUID } from 'crypto';
+import { KYCClaims } from '../types/credentials';
+import { parseJsonPath, queryJsonPath } from '../utils/json-path';
+import { KYC_CREDENTIAL_VCT } from './sd-jwt';
+import { DID_SCHEMA, JURISDICTIONS_SCHEMA, JsonSchema } from '../utils/json-schema';
+import { domainError } from '../utils/errors';
+
+/**
+ * KYC levels from weakest to strongest
+ */
+export const KYC_LEVELS: KYCClaims['kycLevel'][] = ['basic', 'enhanced', 'institutional'];
+
+/**
+ * Longest regular expression accepted as a field filter `pattern`
+ */
+export const MAX_FILTER_PATTERN_LENGTH = 256;
+
+/**
+ * JSON Schema subset supported in field filters
+ */
+export interface FieldFilter {
+  type?: 'string' | 'number' | 'integer' | 'boolean' | 'array' | 'object';
+  const?: unknown;
+  enum?: unknown[];
+  pattern?: string;
+  minimum?: number;
+  maximum?: number;
+  exclusiveMinimum?: number;
+  exclusiveMaximum?: number;
+  minLength?: number;
+  maxLength?: number;
+  minItems?: number;
+  maxItems?: number;
+  contains?: FieldFilter;
+  allOf?: FieldFilter[];
+  anyOf?: FieldFilter[];
+  not?: FieldFilter;
+}
+
+export interface FieldConstraint {
+  id?: string;
+  path: string[]; // Alternative JSONPaths - the first that yields a value matching the filter wins
+  name?: string;
+  purpose?: string;
+  filter?: FieldFilter;
+  optional?: boolean;
+}
+
+export interface InputDescriptor {
+  id: string;
+  name?: string;
+  purpose?: string;
+  format?: Record<string, unknown>; // Accepted formats, by format name
+  constraints: {
+    limit_disclosure?: 'required' | 'preferred';
+    fields?: FieldConstraint[];
+  };
+}
+
+export interface PresentationDefinition {
+  id: string;
+  name?: string;
+  purpose?: string;
+  format?: Record<string, unknown>;
+  input_descriptors: InputDescriptor[];
+}
+
+export interface DescriptorMapEntry {
+  id: string;
+  format: string;
+  path: string;
+  path_nested?: Omit<DescriptorMapEntry, 'id'> & { id?: string };
+}
+
+export interface PresentationSubmission {
+  id: string;
+  definition_id: string;
+  descriptor_map: DescriptorMapEntry[];
+}
+
+/**
+ * A verified credential submitted for an input descriptor
+ */
+export interface SubmittedCredential {
+  format: string;
+  credentialId?: string;
+  claims: unknown; // The document field paths are evaluated against
+  selectivelyDisclosed: boolean; // Whether the format lets the holder withhold claims
+  errors: string[]; // Verification errors - an invalid credential satisfies nothing
+}
+
+export interface InputDescriptorEvaluation {
+  id: string;
+  satisfied: boolean;
+  format?: string;
+  credentialId?: string;
+  errors: string[];
+}
+
+export interface PresentationEvaluation {
+  definitionId: string;
+  satisfied: boolean;
+  descriptors: InputDescriptorEvaluation[];
+}
+
+/**
+ * KYC requirements a relying party expresses instead of hand-writing a definition
+ */
+export interface KycPresentationRequirements {
+  name?: string;
+  purpose?: string;
+  minKycLevel?: KYCClaims['kycLevel'];
+  accreditedInvestor?: boolean;
+  jurisdictions?: string[]; // Every jurisdiction must be listed in the credential
+  minTier?: number;
+  screeningsPassed?: boolean; // AML, sanctions and PEP screening all passed
+  trustedIssuers?: string[];
+  limitDisclosure?: boolean; // Only accept selectively disclosed credentials (SD-JWT VC)
+}
+
+/**
+ * A KycPresentationRequirements
+ */
+export const KYC_PRESENTATION_REQUIREMENTS_SCHEMA: JsonSchema = {
+  type: 'object',
+  additionalProperties: false,
+  properties: {
+    name: { type: 'string' },
+    purpose: { type: 'string' },
+    minKycLevel: { type: 'string', enum: KYC_LEVELS },
+    accreditedInvestor: { type: 'boolean' },
+    jurisdictions: JURISDICTIONS_SCHEMA,
+    minTier: { type: 'integer', minimum: 1, maximum: 5, description: 'an integer from 1 to 5' },
+    screeningsPassed: { type: 'boolean' },
+    trustedIssuers: { type: 'array', items: DID_SCHEMA },
+    limitDisclosure: { type: 'boolean' }
+  }
+};
+
+/**
+ * JSONPaths of a credential subject claim in the JSON-LD credential and the SD-JWT VC claims
+ */
+function subjectPaths(claim: string): string[] {
+  return [`$.credentialSubject.${claim}`, `$.${claim}`];
+}
+
+/**
+ * Build a presentation definition with one KYC credential input descriptor for a set of requirements
+ */
+export function buildKycPresentationDefinition(requirements: KycPresentationRequirements = {}): PresentationDefinition {
+  const fields: FieldConstraint[] = [{
+    id: 'type',
+    path: ['$.type', '$.vct'],
+    filter: {
+      anyOf: [
+        { type: 'array', contains: { const: 'KYCCredential' } },
+        { type: 'string', const: KYC_CREDENTIAL_VCT }
+      ]
+    }
+  }];
+
+  if (requirements.trustedIssuers) {
+    fields.push({
+      id: 'issuer',
+      path: ['$.issuer.id', '$.iss'],
+      purpose: 'The credential must be issued by a trusted bank',
+      filter: { type: 'string', enum: requirements.trustedIssuers }
+    });
+  }
+
+  if (requirements.minKycLevel) {
+    const minIndex = KYC_LEVELS.indexOf(requirements.minKycLevel);
+    if (minIndex === -1) {
+      throw domainError('VALIDATION_FAILED', `Invalid KYC level: ${requirements.minKycLevel}`);
+    }
+    fields.push({
+      id: 'kycLevel',
+      path: subjectPaths('claims.kycLevel'),
+      purpose: `KYC level ${requirements.minKycLevel} or higher`,
+      filter: { type: 'string', enum: KYC_LEVELS.slice(minIndex) }
+    });
+  }
+
+  if (requirements.accreditedInvestor !== undefined) {
+    fields.push({
+      id: 'accreditedInvestor',
+      path: subjectPaths('claims.accreditedInvestor'),
+      filter: { type: 'boolean', const: requirements.accreditedInvestor }
+    });
+  }
+
+  if (requirements.screeningsPassed) {
+    for (const claim of ['amlScreening', 'sanctionsCheck', 'pepScreening']) {
+      fields.push({
+        id: claim,
+        path: subjectPaths(`claims.${claim}`),
+        filter: { type: 'string', const: 'passed' }
+      });
+    }
+  }
+
+  if (requirements.jurisdictions && requirements.jurisdictions.length > 0) {
+    fields.push({
+      id: 'jurisdictions',
+      path: subjectPaths('jurisdictions'),
+      purpose: `Verified for ${requirements.jurisdictions.join(', ')}`,
+      filter: {
+        type: 'array',
+        allOf: requirements.jurisdictions.map(jurisdiction => ({ contains: { const: jurisdiction } }))
+      }
+    });
+  }
+
+  if (requirements.minTier !== undefined) {
+    fields.push({
+      id: 'tier',
+      path: subjectPaths('tier'),
+      purpose: `Tier ${requirements.minTier} or higher`,
+      filter: { type: 'integer', minimum: requirements.minTier }
+    });
+  }
+
+  const definition: PresentationDefinition = {
+    id: randomUUID(),
+    name: requirements.name,
+    purpose: requirements.purpose,
+    input_descriptors: [{
+      id: 'kyc_credential',
+      name: 'KYC Credential',
+      purpose: requirements.purpose,
+      format: requirements.limitDisclosure
+        ? { 'vc+sd-jwt': {} }
+        : { ldp_vc: { proof_type: ['DataIntegrityProof'] }, 'vc+sd-jwt': {} },
+      constraints: {
+        ...(requirements.limitDisclosure && { limit_disclosure: 'required' as const }),
+        fields
+      }
+    }]
+  };
+
+  validatePresentationDefinition(definition);
+  return definition;
+}
+
+/**
+ * Whether a pattern repeats a group that itself holds a quantifier or an alternation, e.g. `(a+)+` or
+ * `(a|ab)*` - the shapes whose backtracking grows exponentially with the input. An optional group is fine
+ */
+function hasNestedQuantifier(pattern: string): boolean {
+  const groups: boolean[] = []; // For each open group, whether it holds a quantifier or an alternation
+  let inClass = false;
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    if (char === '\\') {
+      i++;
+    } else if (inClass) {
+      inClass = char !== ']';
+    } else if (char === '[') {
+      inClass = true;
+    } else if (char === '(') {
+      groups.push(false);
+    } else if (char === ')') {
+      const repeating = groups.pop();
+      if (repeating && /[*+{]/.test(pattern[i + 1] || '')) {
+        return true;
+      }
+      if (repeating && groups.length > 0) {
+        groups[groups.length - 1] = true;
+      }
+    } else if ('*+?{|'.includes(char) && pattern[i - 1] !== '(' && groups.length > 0) {
+      groups[groups.length - 1] = true;
+    }
+  }
+  return false;
+}
+
+/**
+ * Compile a field filter pattern, refusing ones that are too long, invalid, or can backtrack exponentially
+ */
+function compileFilterPattern(pattern: unknown): RegExp {
+  if (typeof pattern !== 'string' || pattern.length > MAX_FILTER_PATTERN_LENGTH) {
+    throw domainError(
+      'VALIDATION_FAILED',
+      `Filter pattern must be a string of at most ${MAX_FILTER_PATTERN_LENGTH} characters`
+    );
+  }
+  if (hasNestedQuantifier(pattern)) {
+    throw domainError(
+      'VALIDATION_FAILED',
+      `Filter pattern ${pattern} repeats a group containing a quantifier or alternation`
+    );
+  }
+  try {
+    return new RegExp(pattern);
+  } catch (error) {
+    throw domainError('VALIDATION_FAILED', `Invalid filter pattern ${pattern}`);
+  }
+}
+
+/**
+ * Check the patterns of a field filter and of the filters nested in it
+ */
+function validateFieldFilter(filter: FieldFilter): void {
+  if (filter.pattern !== undefined) {
+    compileFilterPattern(filter.pattern);
+  }
+  const subfilters = [filter.contains, filter.not, ...(filter.allOf || []), ...(filter.anyOf || [])];
+  subfilters.filter((subfilter): subfilter is FieldFilter => typeof subfilter === 'object' && subfilter !== null)
+    .forEach(validateFieldFilter);
+}
+
+/**
+ * Check that a presentation definition is well formed and only uses supported JSONPath and safe filter patterns
+ */
+export function validatePresentationDefinition(definition: PresentationDefinition): void {
+  if (!definition || typeof definition.id !== 'string' || !definition.id) {
+    throw domainError('VALIDATION_FAILED', 'Presentation definition requires an id');
+  }
+  if (!Array.isArray(definition.input_descriptors) || definition.input_descriptors.length === 0) {
+    throw domainError('VALIDATION_FAILED', 'Presentation definition requires at least one input descriptor');
+  }
+
+  const descriptorIds = new Set<string>();
+  for (const descriptor of definition.input_descriptors) {
+    if (typeof descriptor?.id !== 'string' || !descriptor.id) {
+      throw domainError('VALIDATION_FAILED', 'Input descriptor requires an id');
+    }
+    if (descriptorIds.has(descriptor.id)) {
+      throw domainError('VALIDATION_FAILED', `Duplicate input descriptor id: ${descriptor.id}`);
+    }
+    descriptorIds.add(descriptor.id);
+
+    for (const field of descriptor.constraints?.fields || []) {
+      if (!Array.isArray(field.path) || field.path.length === 0) {
+        throw domainError('VALIDATION_FAILED', `Field of input descriptor ${descriptor.id} requires a path`);
+      }
+      field.path.forEach(parseJsonPath);
+      if (field.filter) {
+        validateFieldFilter(field.filter);
+      }
+    }
+  }
+}
+
+function describeValue(value: unknown): string {
+  return JSON.stringify(value) ?? String(value);
+}
+
+function matchesType(value: unknown, type: NonNullable<FieldFilter['type']>): boolean {
+  switch (type) {
+    case 'array':
+      return Array.isArray(value);
+    case 'object':
+      return typeof value === 'object' && value !== null && !Array.isArray(value);
+    case 'integer':
+      return Number.isInteger(value);
+    default:
+      return typeof value === type;
+  }
+}
+
+function deepEqual(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+/**
+ * Apply a field filter to a value
+ * Returns why the value does not match, or null when it does; throws on a pattern validation would refuse
+ */
+export function applyFieldFilter(value: unknown, filter: FieldFilter): string | null {
+  if (filter.type && !matchesType(value, filter.type)) {
+    return `expected ${filter.type}, got ${describeValue(value)}`;
+  }
+  if ('const' in filter && !deepEqual(value, filter.const)) {
+    return `expected ${describeValue(filter.const)}, got ${describeValue(value)}`;
+  }
+  if (filter.enum && !filter.enum.some(option => deepEqual(value, option))) {
+    return `expected one of ${describeValue(filter.enum)}, got ${describeValue(value)}`;
+  }
+
+  if (typeof value === 'string') {
+    if (filter.pattern !== undefined && !compileFilterPattern(filter.pattern).test(value)) {
+      return `${describeValue(value)} does not match pattern ${filter.pattern}`;
+    }
+    if (filter.minLength !== undefined && value.length < filter.minLength) {
+      return `expected at least ${filter.minLength} characters`;
+    }
+    if (filter.maxLength !== undefined && value.length > filter.maxLength) {
+      return `expected at most ${filter.maxLength} characters`;
+    }
+  }
+
+  if (typeof value === 'number') {
+    if (filter.minimum !== undefined && value < filter.minimum) {
+      return `expected >= ${filter.minimum}, got ${value}`;
+    }
+    if (filter.maximum !== undefined && value > filter.maximum) {
+      return `expected <= ${filter.maximum}, got ${value}`;
+    }
+    if (filter.exclusiveMinimum !== undefined && value <= filter.exclusiveMinimum) {
+      return `expected > ${filter.exclusiveMinimum}, got ${value}`;
+    }
+    if (filter.exclusiveMaximum !== undefined && value >= filter.exclusiveMaximum) {
+      return `expected < ${filter.exclusiveMaximum}, got ${value}`;
+    }
+  }
+
+  if (Array.isArray(value)) {
+    if (filter.minItems !== undefined && value.length < filter.minItems) {
+      return `expected at least ${filter.minItems} items`;
+    }
+    if (filter.maxItems !== undefined && value.length > filter.maxItems) {
+      return `expected at most ${filter.maxItems} items`;
+    }
+    if (filter.contains && !value.some(item => applyFieldFilter(item, filter.contains!) === null)) {
+      return `no item of ${describeValue(value)} matches ${describeValue(filter.contains)}`;
+    }
+  }
+
+  for (const subfilter of filter.allOf || []) {
+    const error = applyFieldFilter(value, subfilter);
+    if (error) {
+      return error;
+    }
+  }
+  if (filter.anyOf) {
+    const errors = filter.anyOf.map(subfilter => applyFieldFilter(value, subfilter));
+    if (!errors.includes(null)) {
+      return errors.join('; or ');
+    }
+  }
+  if (filter.not && applyFieldFilter(value, filter.not) === null) {
+    return `${describeValue(value)} matches excluded ${describeValue(filter.not)}`;
+  }
+
+  return null;
+}
+
+/**
+ * Evaluate one field constraint against a credential
+ * Returns why the field is not satisfied, or null when it is
+ */
+function evaluateField(field: FieldConstraint, claims: unknown): string | null {
+  const label = field.id || field.path[0];
+  const values = field.path.flatMap(path => queryJsonPath(claims, path));
+
+  if (values.length === 0) {
+    return field.optional ? null : `Field ${label} is missing or not disclosed`;
+  }
+  if (!field.filter) {
+    return null;
+  }
+
+  let firstError: string | null = null;
+  for (const value of values) {
+    const error = applyFieldFilter(value, field.filter);
+    if (!error) {
+      return null;
+    }
+    firstError = firstError || error;
+  }
+  return `Field ${label} does not match: ${firstError}`;
+}
+
+/**
+ * Evaluate a submitted credential against an input descriptor
+ * Returns the reasons the descriptor is not satisfied (empty when it is)
+ */
+export function evaluateInputDescriptor(
+  descriptor: InputDescriptor,
+  submitted: SubmittedCredential,
+  definitionFormat?: Record<string, unknown>
+): string[] {
+  const errors = [...submitted.errors];
+
+  const accepted = descriptor.format || definitionFormat;
+  if (accepted && !Object.prototype.hasOwnProperty.call(accepted, submitted.format)) {
+    errors.push(`Format ${submitted.format} is not accepted; expected ${Object.keys(accepted).join(', ')}`);
+  }
+  if (descriptor.constraints?.limit_disclosure === 'required' && !submitted.selectivelyDisclosed) {
+    errors.push(`Selective disclosure is required but ${submitted.format} does not support it`);
+  }
+
+  for (const field of descriptor.constraints?.fields || []) {
+    const error = evaluateField(field, submitted.claims);
+    if (error) {
+      errors.push(error);
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Evaluate the credentials submitted for each input descriptor of a definition
+ * `submissions` maps input descriptor ids to the verified credential, or to why none could be read
+ */
+export function evaluatePresentationDefinition(
+  definition: PresentationDefinition,
+  submissions: Map<string, SubmittedCredential | string>
+): PresentationEvaluation {
+  const descriptors: InputDescriptorEvaluation[] = definition.input_descriptors.map(descriptor => {
+    const submitted = submissions.get(descriptor.id);
+    if (submitted === undefined) {
+      return { id: descriptor.id, satisfied: false, errors: ['No credential submitted for this input descriptor'] };
+    }
+    if (typeof submitted === 'string') {
+      return { id: descriptor.id, satisfied: false, errors: [submitted] };
+    }
+
+    const errors = evaluateInputDescriptor(descriptor, submitted, definition.format);
+    return {
+      id: descriptor.id,
+      satisfied: errors.length === 0,
+      format: submitted.format,
+      credentialId: submitted.credentialId,
+      errors
+    };
+  });
+
+  return {
+    definitionId: definition.id,
+    satisfied: descriptors.every(descriptor => descriptor.satisfied),
+    descriptors
+  };
+}
@@ -0,0 +1,253 @@
+/**
+ * Verifiable Presentation Service
+ * Holder-signed presentations bound to a verifier-issued challenge (nonce) and domain
+ */
+
+import { randomBytes } from 'crypto';
+import {
+  VerifiableCredential,
+  VerifiablePresentation,
+  PresentationChallenge,
+  PresentationVerificationResult,
+  SignatureAlgorithm
+} from '../types/credentials';
+import { createDataIntegrityProof, verifyProof, DATA_INTEGRITY_CONTEXT } from '../utils/data-integrity';
+import { VCDM_V1_CONTEXT } from '../utils/data-model';
+import { privateKeySigner } from '../utils/crypto';
+import { verifyCredential } from './credential-issuer';
+import { resolveVerificationMethod } from './did-resolver';
+
+/**
+ * Default lifetime of a presentation challenge
+ */
+export const CHALLENGE_TTL_SECONDS = 300;
+
+export interface CreatePresentationOptions {
+  holder: string;
+  privateKey: string;
+  algorithm: SignatureAlgorithm;
+  challenge: string;
+  domain: string;
+  verificationMethod?: string; // Defaults to the holder's did:key verification method
+}
+
+export interface VerifyPresentationOptions {
+  clientId?: string; // API client verifying - must be the one the challenge was issued to
+}
+
+interface IssuedChallenge extends PresentationChallenge {
+  clientId?: string;
+}
+
+/**
+ * Outstanding challenges, keyed by nonce - removed once used or expired
+ */
+const challenges: Map<string, IssuedChallenge> = new Map();
+
+/**
+ * Drop expired challenges
+ */
+function pruneChallenges(now: Date = new Date()): void {
+  for (const [nonce, challenge] of challenges) {
+    if (new Date(challenge.expiresAt) <= now) {
+      challenges.delete(nonce);
+    }
+  }
+}
+
+/**
+ * Issue a single-use challenge for a verifier domain - only the API client it is issued to (if any) can
+ * verify presentations made for it
+ */
+export function createChallenge(
+  domain: string,
+  ttlSeconds: number = CHALLENGE_TTL_SECONDS,
+  clientId?: string
+): PresentationChallenge {
+  pruneChallenges();
+
+  const challenge: PresentationChallenge = {
+    challenge: randomBytes(24).toString('base64url'),
+    domain,
+    expiresAt: new Date(Date.now() + ttlSeconds * 1000).toISOString()
+  };
+  challenges.set(challenge.challenge, { ...challenge, clientId });
+
+  return challenge;
+}
+
+/**
+ * Check a challenge without using it - fails if unknown, already used, expired, issued for another domain
+ * or to another API client
+ */
+function checkChallenge(nonce: string, domain: string, clientId?: string): string | null {
+  const challenge = challenges.get(nonce);
+  if (!challenge || challenge.clientId !== clientId) {
+    return 'Unknown or already used challenge';
+  }
+  if (new Date(challenge.expiresAt) <= new Date()) {
+    return 'Challenge has expired';
+  }
+  if (challenge.domain !== domain) {
+    return 'Challenge was issued for a different domain';
+  }
+  return null;
+}
+
+/**
+ * Consume a challenge - fails if unknown, already used, expired, issued for another domain or to another
+ * API client. Only the client it was issued to can use it up
+ */
+export function consumeChallenge(nonce: string, domain: string, clientId?: string): string | null {
+  const error = checkChallenge(nonce, domain, clientId);
+  if (challenges.get(nonce)?.clientId === clientId) {
+    challenges.delete(nonce);
+  }
+  return error;
+}
+
+/**
+ * Holder: sign one or more credentials into a presentation bound to a challenge and domain
+ */
+export async function createPresentation(
+  credentials: VerifiableCredential[],
+  options: CreatePresentationOptions
+): Promise<VerifiablePresentation> {
+  if (credentials.length === 0) {
+    throw new Error('A presentation must contain at least one credential');
+  }
+
+  const unsignedPresentation = {
+    '@context': [VCDM_V1_CONTEXT, DATA_INTEGRITY_CONTEXT],
+    type: ['VerifiablePresentation'],
+    holder: options.holder,
+    verifiableCredential: credentials
+  };
+
+  let verificationMethod = options.verificationMethod;
+  if (!verificationMethod) {
+    if (!options.holder.startsWith('did:key:')) {
+      throw new Error('verificationMethod is required for holders that are not did:key');
+    }
+    verificationMethod = `${options.holder}#${options.holder.slice('did:key:'.length)}`;
+  }
+
+  const proof = await createDataIntegrityProof(
+    unsignedPresentation,
+    {
+      created: new Date().toISOString(),
+      verificationMethod,
+      proofPurpose: 'authentication',
+      challenge: options.challenge,
+      domain: options.domain
+    },
+    privateKeySigner(options.privateKey, options.algorithm),
+    options.algorithm
+  );
+
+  return {
+    ...unsignedPresentation,
+    proof
+  };
+}
+
+/**
+ * Verifier: verify a presentation
+ * Checks the challenge (single use, unexpired, same domain, issued to the verifying client), the holder
+ * signature, that the holder is the subject of every credential, and each embedded credential via
+ * verifyCredential. The challenge is only used up by a presentation that verifies
+ */
+export async function verifyPresentation(
+  presentation: VerifiablePresentation,
+  options: VerifyPresentationOptions = {}
+): Promise<PresentationVerificationResult> {
+  const errors: string[] = [];
+  const credentials: PresentationVerificationResult['credentials'] = [];
+  const holder = presentation?.holder || null;
+
+  try {
+    const { proof } = presentation;
+
+    // 1. Verify presentation structure
+    if (!presentation.type?.includes('VerifiablePresentation')) {
+      errors.push('Not a VerifiablePresentation');
+    }
+    if (!holder) {
+      errors.push('Missing holder');
+    }
+    if (!Array.isArray(presentation.verifiableCredential) || presentation.verifiableCredential.length === 0) {
+      errors.push('Presentation contains no credentials');
+    }
+    if (!proof) {
+      errors.push('Missing proof');
+      return { valid: false, holder, errors, credentials };
+    }
+
+    // 2. Verify challenge freshness and domain binding
+    if (proof.proofPurpose !== 'authentication') {
+      errors.push('Presentation proof purpose must be authentication');
+    }
+    if (!proof.challenge || !proof.domain) {
+      errors.push('Presentation proof must include challenge and domain');
+    } else {
+      const challengeError = checkChallenge(proof.challenge, proof.domain, options.clientId);
+      if (challengeError) {
+        errors.push(challengeError);
+      }
+    }
+
+    // 3. Verify holder signature
+    if (proof.verificationMethod.split('#')[0] !== holder) {
+      errors.push('Verification method does not belong to the holder');
+    } else {
+      try {
+        const holderKey = await resolveVerificationMethod(proof.verificationMethod, 'authentication');
+        const { valid, format } = await verifyProof(presentation, holderKey.publicKey, holderKey.algorithm);
+        if (!valid || format === 'legacy') {
+          errors.push('Invalid holder signature');
+        }
+      } catch (error) {
+        errors.push(`Holder key could not be resolved: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    }
+
+    // 4. Verify each credential and that the holder is its subject
+    for (const credential of presentation.verifiableCredential || []) {
+      const result = await verifyCredential(credential);
+      const credentialErrors = [...result.errors];
+      if (credential.credentialSubject?.id !== holder) {
+        credentialErrors.push('Credential subject does not match presentation holder');
+      }
+
+      credentials.push({
+        id: credential.id,
+        valid: result.valid && credentialErrors.length === 0,
+        revoked: result.revoked,
+        errors: credentialErrors
+      });
+      if (credentialErrors.length > 0) {
+        errors.push(`Credential ${credential.id} failed verification`);
+      }
+    }
+
+    // 5. Use up the challenge - unless a concurrent verification got there first
+    if (errors.length === 0) {
+      const challengeError = consumeChallenge(proof.challenge as string, proof.domain as string, options.clientId);
+      if (challengeError) {
+        errors.push(challengeError);
+      }
+    }
+
+    return {
+      valid: errors.length === 0,
+      holder,
+      domain: proof.domain,
+      challenge: proof.challenge,
+      errors,
+      credentials
+    };
+  } catch (error) {
+    errors.push(`Verification error: ${error instanceof Error ? error.message : String(error)}`);
+    return { valid: false, holder, errors, credentials };
+  }
+}
@@ -0,0 +1,557 @@
+/**
+ * SD-JWT VC Selective Disclosure
+ * Issues KYC credentials as SD-JWT VCs, builds holder presentations that reveal chosen claims,
+ * and verifies presentations by recomputing disclosure digests
+ */
+
+import { createHash, randomBytes } from 'crypto';
+import {
+  VerifiableCredential,
+  CredentialStatus,
+  CredentialVerificationResult,
+  SdClaimPath,
+  SignatureAlgorithm
+} from '../types/credentials';
+import {
+  signJwt,
+  decodeJwt,
+  verifyJwtSignature,
+  isCompactJws,
+  getJwtIssuedAt,
+  DecodedJwt,
+  JwtPayload
+} from '../utils/jwt';
+import { publicKeyToJwk, jwkToPublicKey, PublicJwk } from '../utils/jwk';
+import { getValidFrom, getValidUntil } from '../utils/data-model';
+import { getIssuerByDid } from '../config/bank-issuers';
+import { checkCredentialStatus } from './status-list';
+import { ResolvedVerificationMethod } from './did-resolver';
+import { getActiveIssuerKey, getIssuerKeySigner } from './issuer-keys';
+import { checkIssuerTrust, resolveTrustedIssuerKey } from './trust-registry';
+import { privateKeySigner } from '../utils/crypto';
+
+export const SD_JWT_VC_MEDIA_TYPE = 'vc+sd-jwt';
+export const KB_JWT_MEDIA_TYPE = 'kb+jwt';
+export const KYC_CREDENTIAL_VCT = 'https://did3.org/credentials/KYCCredential';
+
+/**
+ * Every claim of a KYC credential subject, each issued as its own disclosure unless always disclosed
+ */
+export const SD_CLAIM_PATHS: SdClaimPath[] = [
+  'id',
+  'hashedPII.name',
+  'hashedPII.dateOfBirth',
+  'hashedPII.citizenship',
+  'hashedPII.address',
+  'claims.kycLevel',
+  'claims.amlScreening',
+  'claims.sanctionsCheck',
+  'claims.pepScreening',
+  'claims.sourceOfFunds',
+  'claims.accreditedInvestor',
+  'claims.entityType',
+  'amountVerifiedFor',
+  'tier',
+  'jurisdictions'
+];
+
+export const DEFAULT_ALWAYS_DISCLOSED: SdClaimPath[] = ['id'];
+
+/**
+ * How old a key binding JWT may be, by its iat
+ */
+export const KEY_BINDING_MAX_AGE_SECONDS = 300;
+const CLOCK_SKEW_SECONDS = 60;
+
+export interface SdJwtIssueOptions {
+  alwaysDisclosed?: SdClaimPath[];
+  holderPublicKey?: { publicKey: string; algorithm: SignatureAlgorithm }; // Bound as cnf.jwk
+}
+
+export interface SdJwtKeyBindingOptions {
+  privateKey: string;
+  algorithm: SignatureAlgorithm;
+  audience: string;
+  nonce: string;
+}
+
+export interface SdJwtVerifyOptions {
+  audience?: string; // Required to accept a key binding JWT
+  nonce?: string; // Required to accept a key binding JWT
+  requireKeyBinding?: boolean; // Also require key binding of credentials without a cnf key
+}
+
+export interface SdJwtVerificationResult extends CredentialVerificationResult {
+  disclosedClaims: Record<string, unknown>;
+  keyBound: boolean;
+}
+
+interface ParsedSdJwt {
+  issuerJwt: string;
+  disclosures: string[];
+  keyBindingJwt: string | null;
+}
+
+interface ResolvedDisclosure {
+  path: SdClaimPath;
+  value: unknown;
+  disclosure: string;
+}
+
+/**
+ * Hash a disclosure or SD-JWT with the sha-256 _sd_alg
+ */
+function sdHash(value: string): string {
+  return createHash('sha256').update(value, 'ascii').digest('base64url');
+}
+
+/**
+ * Create a salted disclosure [salt, name, value] and its digest
+ */
+function createDisclosure(name: string, value: unknown): { disclosure: string; digest: string } {
+  const salt = randomBytes(16).toString('base64url');
+  const disclosure = Buffer.from(JSON.stringify([salt, name, value])).toString('base64url');
+  return { disclosure, digest: sdHash(disclosure) };
+}
+
+/**
+ * Split an SD-JWT (`<issuer-jwt>~<disclosure>~...~[<kb-jwt>]`) into its parts
+ */
+function parseSdJwt(sdJwt: string): ParsedSdJwt {
+  const parts = sdJwt.trim().split('~');
+  if (parts.length < 2 || !isCompactJws(parts[0])) {
+    throw new Error('Malformed SD-JWT');
+  }
+
+  const last = parts[parts.length - 1];
+  return {
+    issuerJwt: parts[0],
+    disclosures: parts.slice(1, -1).filter(part => part.length > 0),
+    keyBindingJwt: last.length > 0 ? last : null
+  };
+}
+
+/**
+ * Serialize an SD-JWT without a key binding JWT
+ */
+function serializeSdJwt(issuerJwt: string, disclosures: string[]): string {
+  return [issuerJwt, ...disclosures].join('~') + '~';
+}
+
+/**
+ * Check whether a value looks like an SD-JWT
+ */
+export function isSdJwt(value: unknown): value is string {
+  if (typeof value !== 'string' || !value.includes('~')) {
+    return false;
+  }
+  return isCompactJws(value.split('~')[0]);
+}
+
+/**
+ * Locate each disclosure's digest in the issuer payload and map it to its claim path
+ */
+function resolveDisclosures(payload: JwtPayload, disclosures: string[]): ResolvedDisclosure[] {
+  const digestLocations: Map<string, string | null> = new Map();
+  const collect = (container: unknown, parent: string | null) => {
+    const digests = (container as { _sd?: unknown } | undefined)?._sd;
+    if (Array.isArray(digests)) {
+      digests.forEach(digest => digestLocations.set(String(digest), parent));
+    }
+  };
+  collect(payload, null);
+  collect(payload.hashedPII, 'hashedPII');
+  collect(payload.claims, 'claims');
+
+  const seen: Set<string> = new Set();
+  return disclosures.map(disclosure => {
+    const digest = sdHash(disclosure);
+    if (seen.has(digest)) {
+      throw new Error('Duplicate disclosure');
+    }
+    seen.add(digest);
+
+    if (!digestLocations.has(digest)) {
+      throw new Error('Disclosure digest not found in SD-JWT');
+    }
+
+    let decoded: unknown;
+    try {
+      decoded = JSON.parse(Buffer.from(disclosure, 'base64url').toString('utf8'));
+    } catch (error) {
+      throw new Error('Malformed disclosure');
+    }
+    if (!Array.isArray(decoded) || decoded.length !== 3 || typeof decoded[1] !== 'string') {
+      throw new Error('Malformed disclosure');
+    }
+
+    const [, name, value] = decoded;
+    const parent = digestLocations.get(digest);
+    const path = (parent ? `${parent}.${name}` : name === 'sub' ? 'id' : name) as SdClaimPath;
+    if (!SD_CLAIM_PATHS.includes(path)) {
+      throw new Error(`Unexpected disclosed claim: ${path}`);
+    }
+
+    return { path, value, disclosure };
+  });
+}
+
+/**
+ * Read the value of a credential subject claim path
+ */
+function getClaimValue(credential: VerifiableCredential, path: SdClaimPath): unknown {
+  const subject = credential.credentialSubject as unknown as Record<string, Record<string, unknown>>;
+  const [head, tail] = path.split('.');
+  return tail ? subject[head][tail] : subject[head];
+}
+
+/**
+ * Check whether a claim is carried in plain text in the issuer payload
+ */
+function isAlwaysDisclosed(payload: JwtPayload, path: SdClaimPath): boolean {
+  const [head, tail] = path.split('.');
+  if (tail) {
+    return (payload[head] as JwtPayload | undefined)?.[tail] !== undefined;
+  }
+  return payload[head === 'id' ? 'sub' : head] !== undefined;
+}
+
+/**
+ * Encode a credential as an SD-JWT VC signed by its issuer
+ * Claims not listed in `alwaysDisclosed` become salted disclosures
+ */
+export async function encodeCredentialAsSdJwt(
+  credential: VerifiableCredential,
+  options: SdJwtIssueOptions = {}
+): Promise<string> {
+  const issuer = getIssuerByDid(credential.issuer.id);
+  if (!issuer) {
+    throw new Error(`Invalid issuer DID: ${credential.issuer.id}`);
+  }
+
+  const alwaysDisclosed = options.alwaysDisclosed || DEFAULT_ALWAYS_DISCLOSED;
+  for (const path of alwaysDisclosed) {
+    if (!SD_CLAIM_PATHS.includes(path)) {
+      throw new Error(`Unknown credential subject claim: ${path}`);
+    }
+  }
+
+  const payload: JwtPayload = {
+    iss: issuer.did,
+    iat: Math.floor(Date.now() / 1000),
+    vct: KYC_CREDENTIAL_VCT,
+    jti: credential.id,
+    _sd_alg: 'sha-256'
+  };
+
+  const validFrom = getValidFrom(credential);
+  const validUntil = getValidUntil(credential);
+  if (validFrom) {
+    payload.nbf = Math.floor(new Date(validFrom).getTime() / 1000);
+  }
+  if (validUntil) {
+    payload.exp = Math.floor(new Date(validUntil).getTime() / 1000);
+  }
+
+  const status = credential.credentialStatus;
+  if (status?.type === 'StatusList2021' && status.statusListCredential && status.statusListIndex !== undefined) {
+    payload.status = {
+      status_list: {
+        idx: Number(status.statusListIndex),
+        uri: status.statusListCredential
+      }
+    };
+  }
+
+  if (options.holderPublicKey) {
+    payload.cnf = {
+      jwk: publicKeyToJwk(options.holderPublicKey.publicKey, options.holderPublicKey.algorithm)
+    };
+  }
+
+  const disclosures: string[] = [];
+  const containers: Record<string, JwtPayload> = {
+    '': payload,
+    hashedPII: {},
+    claims: {}
+  };
+
+  for (const path of SD_CLAIM_PATHS) {
+    const [head, tail] = path.split('.');
+    const container = tail ? containers[head] : containers[''];
+    const name = tail || (head === 'id' ? 'sub' : head);
+    const value = getClaimValue(credential, path);
+
+    if (alwaysDisclosed.includes(path)) {
+      container[name] = value;
+    } else {
+      const { disclosure, digest } = createDisclosure(name, value);
+      disclosures.push(disclosure);
+      container._sd = [...((container._sd as string[]) || []), digest];
+    }
+  }
+
+  for (const name of ['hashedPII', 'claims']) {
+    const container = containers[name];
+    if (Array.isArray(container._sd)) {
+      container._sd = (container._sd as string[]).sort();
+    }
+    payload[name] = container;
+  }
+  if (Array.isArray(payload._sd)) {
+    payload._sd = (payload._sd as string[]).sort();
+  }
+
+  const signingKey = getActiveIssuerKey(issuer.did);
+  const issuerJwt = await signJwt(
+    { typ: SD_JWT_VC_MEDIA_TYPE, kid: signingKey.id },
+    payload,
+    getIssuerKeySigner(signingKey),
+    signingKey.signatureAlgorithm
+  );
+
+  return serializeSdJwt(issuerJwt, disclosures);
+}
+
+/**
+ * Holder: build a presentation that reveals only the chosen claims
+ * When `keyBinding` is given, a key binding JWT over the presentation is appended
+ */
+export async function createSdJwtPresentation(
+  sdJwt: string,
+  disclose: SdClaimPath[],
+  keyBinding?: SdJwtKeyBindingOptions
+): Promise<string> {
+  const { issuerJwt, disclosures } = parseSdJwt(sdJwt);
+  const { payload } = decodeJwt(issuerJwt);
+
+  const resolved = resolveDisclosures(payload, disclosures);
+  for (const path of disclose) {
+    if (!resolved.some(item => item.path === path) && !isAlwaysDisclosed(payload, path)) {
+      throw new Error(`Claim not available in SD-JWT: ${path}`);
+    }
+  }
+
+  const selected = resolved
+    .filter(item => disclose.includes(item.path))
+    .map(item => item.disclosure);
+  const presentation = serializeSdJwt(issuerJwt, selected);
+
+  if (!keyBinding) {
+    return presentation;
+  }
+
+  const keyBindingJwt = await signJwt(
+    { typ: KB_JWT_MEDIA_TYPE },
+    {
+      iat: Math.floor(Date.now() / 1000),
+      aud: keyBinding.audience,
+      nonce: keyBinding.nonce,
+      sd_hash: sdHash(presentation)
+    },
+    privateKeySigner(keyBinding.privateKey, keyBinding.algorithm),
+    keyBinding.algorithm
+  );
+
+  return presentation + keyBindingJwt;
+}
+
+/**
+ * Rebuild the credential subject from always-disclosed claims and verified disclosures
+ */
+function reconstructClaims(payload: JwtPayload, resolved: ResolvedDisclosure[]): Record<string, unknown> {
+  const subject: Record<string, unknown> = {};
+  const nested: Record<string, Record<string, unknown>> = {};
+
+  if (payload.sub !== undefined) {
+    subject.id = payload.sub;
+  }
+  for (const name of ['amountVerifiedFor', 'tier', 'jurisdictions']) {
+    if (payload[name] !== undefined) {
+      subject[name] = payload[name];
+    }
+  }
+  for (const name of ['hashedPII', 'claims']) {
+    const { _sd, ...plain } = (payload[name] as JwtPayload | undefined) || {};
+    nested[name] = { ...plain };
+  }
+
+  for (const { path, value } of resolved) {
+    const [head, tail] = path.split('.');
+    if (tail) {
+      nested[head][tail] = value;
+    } else {
+      subject[head] = value;
+    }
+  }
+
+  for (const name of ['hashedPII', 'claims']) {
+    if (Object.keys(nested[name]).length > 0) {
+      subject[name] = nested[name];
+    }
+  }
+
+  return subject;
+}
+
+/**
+ * Verify the key binding JWT of a presentation against the cnf key
+ * The JWT must be for the verifier's audience and nonce and issued within KEY_BINDING_MAX_AGE_SECONDS,
+ * so a presentation captured elsewhere cannot be replayed
+ */
+async function verifyKeyBinding(
+  presentation: string,
+  keyBindingJwt: string,
+  issuerPayload: JwtPayload,
+  options: SdJwtVerifyOptions,
+  errors: string[]
+): Promise<boolean> {
+  const errorCount = errors.length;
+  const cnf = issuerPayload.cnf as { jwk?: PublicJwk } | undefined;
+  if (!cnf?.jwk) {
+    errors.push('Key binding JWT present but SD-JWT has no cnf key');
+    return false;
+  }
+
+  let decoded: DecodedJwt;
+  try {
+    decoded = decodeJwt(keyBindingJwt);
+  } catch (error) {
+    errors.push('Malformed key binding JWT');
+    return false;
+  }
+
+  const holderKey = jwkToPublicKey(cnf.jwk);
+  if (decoded.header.typ !== KB_JWT_MEDIA_TYPE) {
+    errors.push('Invalid key binding JWT type');
+  }
+  if (!(await verifyJwtSignature(decoded, holderKey.publicKey, holderKey.algorithm))) {
+    errors.push('Invalid key binding signature');
+  }
+  if (decoded.payload.sd_hash !== sdHash(presentation)) {
+    errors.push('Key binding sd_hash does not match presentation');
+  }
+  if (options.audience === undefined) {
+    errors.push('Key binding audience not given by the verifier');
+  } else if (decoded.payload.aud !== options.audience) {
+    errors.push('Key binding audience mismatch');
+  }
+  if (options.nonce === undefined) {
+    errors.push('Key binding nonce not given by the verifier');
+  } else if (decoded.payload.nonce !== options.nonce) {
+    errors.push('Key binding nonce mismatch');
+  }
+  const now = Math.floor(Date.now() / 1000);
+  const { iat } = decoded.payload;
+  if (typeof iat !== 'number' || iat > now + CLOCK_SKEW_SECONDS || iat < now - KEY_BINDING_MAX_AGE_SECONDS) {
+    errors.push('Key binding iat is missing or outside the accepted window');
+  }
+
+  return errors.length === errorCount;
+}
+
+/**
+ * Verifier: verify an SD-JWT VC presentation
+ * Checks the issuer signature, recomputes every disclosure digest, and verifies validity period,
+ * revocation status and key binding - required whenever the credential carries a cnf key
+ */
+export async function verifySdJwtCredential(
+  sdJwt: string,
+  options: SdJwtVerifyOptions = {}
+): Promise<SdJwtVerificationResult> {
+  const errors: string[] = [];
+  const warnings: string[] = [];
+  let revoked = false;
+  let keyBound = false;
+  let disclosedClaims: Record<string, unknown> = {};
+
+  try {
+    // 1. Parse and decode the issuer-signed JWT
+    const { issuerJwt, disclosures, keyBindingJwt } = parseSdJwt(sdJwt);
+    const decoded = decodeJwt(issuerJwt);
+    const { payload } = decoded;
+
+    if (decoded.header.typ !== SD_JWT_VC_MEDIA_TYPE) {
+      errors.push('Invalid SD-JWT VC type');
+    }
+    if (payload._sd_alg !== 'sha-256') {
+      errors.push(`Unsupported _sd_alg: ${payload._sd_alg}`);
+    }
+
+    // 2. Verify issuer signature with the trusted issuer's key named by the JWS kid
+    const issuerDid = String(payload.iss);
+    let issuerKey: ResolvedVerificationMethod;
+    try {
+      issuerKey = await resolveTrustedIssuerKey(issuerDid, decoded.header.kid, getJwtIssuedAt(payload));
+    } catch (error) {
+      errors.push(`Unknown issuer: ${error instanceof Error ? error.message : String(error)}`);
+      return { valid: false, revoked, weakProof: false, errors, warnings, disclosedClaims, keyBound };
+    }
+
+    const signatureValid = await verifyJwtSignature(decoded, issuerKey.publicKey, issuerKey.algorithm);
+    if (!signatureValid) {
+      errors.push('Invalid signature');
+    }
+
+    // 3. Recompute disclosure digests and rebuild the disclosed claims
+    const resolved = resolveDisclosures(payload, disclosures);
+    disclosedClaims = reconstructClaims(payload, resolved);
+
+    // 4. Verify validity period
+    const now = Math.floor(Date.now() / 1000);
+    if (typeof payload.nbf === 'number' && now < payload.nbf) {
+      errors.push('Credential is not yet valid');
+    }
+    if (typeof payload.exp === 'number' && now > payload.exp) {
+      errors.push('Credential has expired');
+    }
+
+    // 5. Verify revocation status
+    const statusList = (payload.status as { status_list?: { idx: number; uri: string } } | undefined)?.status_list;
+    if (statusList) {
+      const credentialStatus: CredentialStatus = {
+        id: `${statusList.uri}#${statusList.idx}`,
+        type: 'StatusList2021',
+        statusPurpose: 'revocation',
+        statusListIndex: String(statusList.idx),
+        statusListCredential: statusList.uri
+      };
+      const status = await checkCredentialStatus(credentialStatus, issuerDid);
+      errors.push(...status.errors);
+      revoked = status.revoked;
+      if (revoked) {
+        errors.push('Credential has been revoked');
+      }
+    }
+
+    // 6. Verify the issuer was accredited and not suspended when the credential was issued
+    const trust = checkIssuerTrust(issuerDid, {
+      issuedAt: getJwtIssuedAt(payload),
+      credentialTypes: payload.vct === KYC_CREDENTIAL_VCT ? ['KYCCredential'] : [String(payload.vct)],
+      jurisdictions: Array.isArray(disclosedClaims.jurisdictions) ? disclosedClaims.jurisdictions : undefined
+    });
+    errors.push(...trust.errors);
+    warnings.push(...trust.warnings);
+
+    // 7. Verify key binding - a holder-bound credential is only accepted from its holder
+    if (keyBindingJwt) {
+      const presentation = serializeSdJwt(issuerJwt, disclosures);
+      keyBound = await verifyKeyBinding(presentation, keyBindingJwt, payload, options, errors);
+    } else if (payload.cnf !== undefined || options.requireKeyBinding) {
+      errors.push('Key binding JWT required');
+    }
+
+    return {
+      valid: errors.length === 0 && signatureValid,
+      revoked,
+      weakProof: false,
+      errors,
+      warnings,
+      disclosedClaims,
+      keyBound
+    };
+  } catch (error) {
+    errors.push(`Verification error: ${error instanceof Error ? error.message : String(error)}`);
+    return { valid: false, revoked, weakProof: false, errors, warnings, disclosedClaims, keyBound };
+  }
+}
@@ -0,0 +1,315 @@
+/**
+ * StatusList2021 Revocation Service
+ * Allocates status list entries at issuance and publishes signed status list credentials
+ */
+
+import { gzipSync, gunzipSync } from 'zlib';
+import { CredentialStatus, StatusListCredential } from '../types/credentials';
+import { sha256Hash, generateStatusUrl } from '../utils/crypto';
+import {
+  createDataIntegrityProof,
+  verifyProof,
+  DATA_INTEGRITY_CONTEXT
+} from '../utils/data-integrity';
+import { getIssuerByDid } from '../config/bank-issuers';
+import { CredentialRepository } from '../storage/credential-repository';
+import { resolveIssuerKey, ResolvedVerificationMethod } from './did-resolver';
+import { getActiveIssuerKey, getIssuerKeySigner } from './issuer-keys';
+
+/**
+ * Number of entries in each status list (16KB bitstring, the StatusList2021 minimum)
+ */
+export const STATUS_LIST_SIZE = 131072;
+
+interface StatusList {
+  id: string;
+  url: string;
+  issuerDid: string;
+  bits: Uint8Array;
+  nextIndex: number;
+  version: number; // Bumped whenever a bit changes
+  signed?: { version: number; credential: StatusListCredential }; // Re-signed only once stale
+}
+
+/**
+ * In-memory status lists, keyed by list ID
+ * Rebuilt from the credential repository on startup via rebuildStatusLists()
+ */
+const statusLists: Map<string, StatusList> = new Map();
+
+/**
+ * Current (not yet full) list per issuer DID
+ */
+const currentListByIssuer: Map<string, string> = new Map();
+
+/**
+ * Derive the ID of an issuer's Nth status list
+ */
+function getStatusListId(issuerDid: string, sequence: number): string {
+  return `${sha256Hash(issuerDid).substring(0, 12)}-${sequence}`;
+}
+
+/**
+ * Extract the list ID from a status list URL
+ */
+function getStatusListIdFromUrl(url: string): string {
+  return url.split('/').pop() || '';
+}
+
+/**
+ * Get an issuer's status list, creating it if it does not exist
+ */
+function getOrCreateStatusList(issuerDid: string, listId: string): StatusList {
+  let list = statusLists.get(listId);
+  if (!list) {
+    list = {
+      id: listId,
+      url: generateStatusUrl(`did:did3:status-list:${listId}`),
+      issuerDid,
+      bits: new Uint8Array(STATUS_LIST_SIZE / 8),
+      nextIndex: 0,
+      version: 0
+    };
+    statusLists.set(listId, list);
+  }
+  return list;
+}
+
+/**
+ * Read a bit - index 0 is the most significant bit of the first byte
+ */
+function getBit(bits: Uint8Array, index: number): boolean {
+  return (bits[Math.floor(index / 8)] & (0x80 >> (index % 8))) !== 0;
+}
+
+/**
+ * Set a bit of a list, invalidating its signed credential if the bit was clear
+ */
+function setBit(list: StatusList, index: number): void {
+  if (!getBit(list.bits, index)) {
+    list.bits[Math.floor(index / 8)] |= 0x80 >> (index % 8);
+    list.version++;
+  }
+}
+
+/**
+ * Encode a bitstring as base64url(GZIP(bits))
+ */
+export function encodeStatusList(bits: Uint8Array): string {
+  return gzipSync(bits).toString('base64url');
+}
+
+/**
+ * Decode an encoded status list back to its bitstring
+ */
+export function decodeStatusList(encodedList: string): Uint8Array {
+  return Uint8Array.from(gunzipSync(Buffer.from(encodedList, 'base64url')));
+}
+
+/**
+ * Allocate the next free status list entry for a credential from this issuer
+ */
+export function allocateStatusListEntry(issuerDid: string): CredentialStatus {
+  let sequence = 0;
+  const currentId = currentListByIssuer.get(issuerDid);
+  if (currentId) {
+    sequence = Number(currentId.split('-').pop());
+  }
+
+  let list = getOrCreateStatusList(issuerDid, getStatusListId(issuerDid, sequence));
+  while (list.nextIndex >= STATUS_LIST_SIZE) {
+    sequence++;
+    list = getOrCreateStatusList(issuerDid, getStatusListId(issuerDid, sequence));
+  }
+  currentListByIssuer.set(issuerDid, list.id);
+
+  const index = list.nextIndex++;
+  return {
+    id: `${list.url}#${index}`,
+    type: 'StatusList2021',
+    statusPurpose: 'revocation',
+    statusListIndex: index.toString(),
+    statusListCredential: list.url
+  };
+}
+
+/**
+ * Set the revocation bit for a credential's status list entry
+ */
+export function revokeStatusListEntry(status: CredentialStatus): void {
+  if (status.type !== 'StatusList2021' || !status.statusListCredential || status.statusListIndex === undefined) {
+    throw new Error('Credential does not have a StatusList2021 entry');
+  }
+
+  const list = statusLists.get(getStatusListIdFromUrl(status.statusListCredential));
+  if (!list) {
+    throw new Error(`Status list not found: ${status.statusListCredential}`);
+  }
+
+  setBit(list, Number(status.statusListIndex));
+}
+
+/**
+ * Get the signed status list credential for a list
+ * The credential is signed once and reused until a bit changes or the issuer's active key does
+ */
+export async function getStatusListCredential(listId: string): Promise<StatusListCredential | null> {
+  const list = statusLists.get(listId);
+  if (!list) {
+    return null;
+  }
+
+  const issuer = getIssuerByDid(list.issuerDid);
+  if (!issuer) {
+    throw new Error(`Invalid issuer DID: ${list.issuerDid}`);
+  }
+
+  const signingKey = getActiveIssuerKey(issuer.did);
+  if (list.signed?.version === list.version && list.signed.credential.proof.verificationMethod === signingKey.id) {
+    return list.signed.credential;
+  }
+
+  const version = list.version;
+
+  const issuanceDate = new Date().toISOString();
+  const unsignedCredential = {
+    '@context': [
+      'https://www.w3.org/2018/credentials/v1',
+      'https://w3id.org/vc/status-list/2021/v1',
+      DATA_INTEGRITY_CONTEXT
+    ],
+    id: list.url,
+    type: ['VerifiableCredential', 'StatusList2021Credential'],
+    issuer: {
+      id: issuer.did,
+      name: issuer.name
+    },
+    issuanceDate,
+    credentialSubject: {
+      id: `${list.url}#list`,
+      type: 'StatusList2021' as const,
+      statusPurpose: 'revocation' as const,
+      encodedList: encodeStatusList(list.bits)
+    }
+  };
+
+  const proof = await createDataIntegrityProof(
+    unsignedCredential,
+    {
+      created: issuanceDate,
+      verificationMethod: signingKey.id,
+      proofPurpose: 'assertionMethod'
+    },
+    getIssuerKeySigner(signingKey),
+    signingKey.signatureAlgorithm
+  );
+
+  const credential: StatusListCredential = {
+    ...unsignedCredential,
+    proof
+  };
+
+  // A bit set while signing leaves this credential stale - the next request signs again
+  if (list.version === version) {
+    list.signed = { version, credential };
+  }
+  return credential;
+}
+
+/**
+ * Resolve a status list credential by URL
+ * Lists are resolved from this service's own registry; no network fetch is made
+ */
+export async function resolveStatusListCredential(url: string): Promise<StatusListCredential | null> {
+  const list = statusLists.get(getStatusListIdFromUrl(url));
+  if (!list || list.url !== url) {
+    return null;
+  }
+  return getStatusListCredential(list.id);
+}
+
+/**
+ * Check a credential's status list entry
+ */
+export async function checkCredentialStatus(
+  status: CredentialStatus,
+  issuerDid: string
+): Promise<{ revoked: boolean; errors: string[] }> {
+  if (!status.statusListCredential || status.statusListIndex === undefined) {
+    return { revoked: false, errors: ['Malformed StatusList2021 entry'] };
+  }
+
+  const statusListCredential = await resolveStatusListCredential(status.statusListCredential);
+  if (!statusListCredential) {
+    return { revoked: false, errors: [`Status list could not be resolved: ${status.statusListCredential}`] };
+  }
+
+  if (statusListCredential.issuer.id !== issuerDid) {
+    return { revoked: false, errors: ['Status list was not issued by the credential issuer'] };
+  }
+
+  let issuerKey: ResolvedVerificationMethod;
+  try {
+    issuerKey = await resolveIssuerKey(
+      issuerDid,
+      statusListCredential.proof.verificationMethod,
+      statusListCredential.proof.created
+    );
+  } catch (error) {
+    return { revoked: false, errors: ['Unknown status list issuer'] };
+  }
+
+  const { valid: signatureValid, format } = await verifyProof(
+    statusListCredential,
+    issuerKey.publicKey,
+    issuerKey.algorithm
+  );
+  if (!signatureValid || format === 'legacy') {
+    return { revoked: false, errors: ['Invalid status list signature'] };
+  }
+
+  const index = Number(status.statusListIndex);
+  const bits = decodeStatusList(statusListCredential.credentialSubject.encodedList);
+  if (!Number.isInteger(index) || index < 0 || index >= bits.length * 8) {
+    return { revoked: false, errors: ['Status list index out of range'] };
+  }
+
+  return { revoked: getBit(bits, index), errors: [] };
+}
+
+/**
+ * Rebuild status lists (allocations and revocation bits) from stored credentials
+ */
+export async function rebuildStatusLists(repository: CredentialRepository): Promise<void> {
+  const pageSize = 500;
+  let offset = 0;
+
+  while (true) {
+    const page = await repository.find({ limit: pageSize, offset });
+
+    for (const record of page.items) {
+      const status = record.credential.credentialStatus;
+      if (status.type !== 'StatusList2021' || !status.statusListCredential || status.statusListIndex === undefined) {
+        continue;
+      }
+
+      const listId = getStatusListIdFromUrl(status.statusListCredential);
+      const list = getOrCreateStatusList(record.issuerDid, listId);
+      const index = Number(status.statusListIndex);
+      list.nextIndex = Math.max(list.nextIndex, index + 1);
+      if (record.revokedAt !== null) {
+        setBit(list, index);
+      }
+
+      const currentId = currentListByIssuer.get(record.issuerDid);
+      if (!currentId || Number(currentId.split('-').pop()) < Number(listId.split('-').pop())) {
+        currentListByIssuer.set(record.issuerDid, listId);
+      }
+    }
+
+    offset += page.items.length;
+    if (page.items.length === 0 || offset >= page.total) {
+      break;
+    }
+  }
+}
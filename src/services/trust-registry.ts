@@ -0,0 +1,483 @@
+/**
+ * Trust Registry Service
+ * Records which regulators accredit each issuer, for which jurisdictions and credential types and for
+ * which period, and whether the issuer is suspended. Issuance is limited to accredited jurisdictions,
+ * verification checks the issuer was trusted when the credential was issued, and the registry can be
+ * exported as a signed trust list for offline verifiers
+ */
+
+import { randomUUID } from 'crypto';
+import {
+  BankIssuer,
+  IssuerAccreditation,
+  TrustListCredential,
+  TrustRegistryEntry
+} from '../types/credentials';
+import { createDataIntegrityProof, verifyProof, DATA_INTEGRITY_CONTEXT } from '../utils/data-integrity';
+import { VCDM_V1_CONTEXT } from '../utils/data-model';
+import { publicKeyToDidKey } from '../utils/did-key';
+import { getAllIssuers, getIssuerByDid, registerIssuer } from '../config/bank-issuers';
+import { getTrustRegistryStore } from '../storage/trust-registry-store';
+import { ISSUER_ACCREDITATIONS, AccreditationConfig } from '../config/issuer-accreditations';
+import { getSigner, getKeySigner, SignerPublicKey } from '../keystore/signer';
+import { SIGNATURE_ALGORITHMS, getIssuerKeys } from './issuer-keys';
+import { resolveVerificationMethod, resolveIssuerKey, ResolvedVerificationMethod } from './did-resolver';
+import { DID_SCHEMA, JURISDICTIONS_SCHEMA, JsonSchema } from '../utils/json-schema';
+import { domainError } from '../utils/errors';
+
+/**
+ * Signer key the trust list is signed with - published as a did:key offline verifiers pin
+ */
+export const TRUST_LIST_KEY_ID = 'urn:did3:trust-registry#key-1';
+export const TRUST_LIST_TTL_DAYS = 7;
+
+/**
+ * Start of the accreditations configured for the mock issuers
+ */
+const CONFIGURED_ACCREDITATION_VALID_FROM = new Date(0).toISOString();
+
+export interface AddAccreditationRequest extends AccreditationConfig {
+  validFrom?: string; // Defaults to now
+  validUntil?: string;
+}
+
+export interface RegisterIssuerRequest extends Omit<BankIssuer, 'publicKey'> {
+  accreditations: AddAccreditationRequest[];
+}
+
+const NAMES_SCHEMA: JsonSchema = { type: 'array', minItems: 1, items: { type: 'string', minLength: 1 } };
+
+/**
+ * An AddAccreditationRequest
+ */
+export const ACCREDITATION_REQUEST_SCHEMA: JsonSchema = {
+  type: 'object',
+  required: ['regulator', 'jurisdictions', 'credentialTypes'],
+  additionalProperties: false,
+  properties: {
+    regulator: { type: 'string', minLength: 1 },
+    jurisdictions: JURISDICTIONS_SCHEMA,
+    credentialTypes: NAMES_SCHEMA,
+    validFrom: { type: 'string', format: 'date-time' },
+    validUntil: { type: 'string', format: 'date-time' }
+  }
+};
+
+/**
+ * A RegisterIssuerRequest
+ */
+export const REGISTER_ISSUER_REQUEST_SCHEMA: JsonSchema = {
+  type: 'object',
+  required: ['did', 'name', 'jurisdiction', 'regulators', 'tier', 'signatureAlgorithm', 'accreditations'],
+  additionalProperties: false,
+  properties: {
+    did: DID_SCHEMA,
+    name: { type: 'string', minLength: 1 },
+    jurisdiction: JURISDICTIONS_SCHEMA,
+    regulators: NAMES_SCHEMA,
+    tier: { type: 'integer', minimum: 1, maximum: 5, description: 'an integer from 1 to 5' },
+    signatureAlgorithm: { type: 'string', enum: SIGNATURE_ALGORITHMS },
+    accreditations: { type: 'array', minItems: 1, items: ACCREDITATION_REQUEST_SCHEMA }
+  }
+};
+
+export interface IssuerTrustCheck {
+  issuedAt?: string;
+  credentialTypes: string[];
+  jurisdictions?: string[]; // Omitted when not disclosed
+}
+
+/**
+ * Registry entries by issuer DID - a cache of the trust registry store, loaded by loadTrustRegistry
+ */
+const registry: Map<string, TrustRegistryEntry> = new Map();
+
+/**
+ * Load the issuers registered at runtime and the registry entries from the trust registry store - call once
+ * on startup, before issuing or verifying, so suspensions and withdrawals are not reset to the configuration
+ */
+export async function loadTrustRegistry(): Promise<{ issuers: number; entries: number }> {
+  const store = getTrustRegistryStore();
+  const issuers = await store.getIssuers();
+  for (const issuer of issuers) {
+    if (!getIssuerByDid(issuer.did)) {
+      registerIssuer(issuer);
+    }
+  }
+
+  const entries = await store.getEntries();
+  registry.clear();
+  for (const entry of entries) {
+    registry.set(entry.issuerDid, entry);
+  }
+  return { issuers: issuers.length, entries: entries.length };
+}
+
+function createAccreditation(request: AddAccreditationRequest, validFrom: string): IssuerAccreditation {
+  if (!request.regulator) {
+    throw domainError('VALIDATION_FAILED', 'Accreditation requires a regulator');
+  }
+  for (const name of ['jurisdictions', 'credentialTypes'] as const) {
+    if (!Array.isArray(request[name]) || request[name].length === 0) {
+      throw domainError('VALIDATION_FAILED', `Accreditation requires ${name}`);
+    }
+  }
+  if (Number.isNaN(new Date(validFrom).getTime()) ||
+    (request.validUntil !== undefined && !(new Date(request.validUntil) > new Date(validFrom)))) {
+    throw domainError('VALIDATION_FAILED', 'Accreditation validity period is invalid');
+  }
+
+  return {
+    id: randomUUID(),
+    regulator: request.regulator,
+    jurisdictions: request.jurisdictions,
+    credentialTypes: request.credentialTypes,
+    validFrom,
+    ...(request.validUntil && { validUntil: request.validUntil })
+  };
+}
+
+/**
+ * Get an issuer's registry entry, seeding it from the issuer and accreditation configuration on first use
+ */
+export function getTrustRegistryEntry(issuerDid: string): TrustRegistryEntry | null {
+  let entry = registry.get(issuerDid);
+  if (!entry) {
+    const issuer = getIssuerByDid(issuerDid);
+    if (!issuer) {
+      return null;
+    }
+
+    entry = {
+      issuerDid,
+      name: issuer.name,
+      status: 'active',
+      accreditations: (ISSUER_ACCREDITATIONS[issuerDid] || []).map(config =>
+        createAccreditation(config, CONFIGURED_ACCREDITATION_VALID_FROM)
+      ),
+      suspensions: [],
+      updatedAt: new Date().toISOString()
+    };
+    registry.set(issuerDid, entry);
+  }
+  return entry;
+}
+
+/**
+ * Get the registry entries of every registered issuer
+ */
+export function getTrustRegistry(): TrustRegistryEntry[] {
+  return getAllIssuers()
+    .map(issuer => getTrustRegistryEntry(issuer.did))
+    .filter((entry): entry is TrustRegistryEntry => entry !== null);
+}
+
+function requireEntry(issuerDid: string): TrustRegistryEntry {
+  const entry = getTrustRegistryEntry(issuerDid);
+  if (!entry) {
+    throw domainError('ISSUER_NOT_FOUND', `Issuer not found: ${issuerDid}`, { did: issuerDid });
+  }
+  return entry;
+}
+
+/**
+ * Register a new issuer with its accreditations, generating its first signing key in the signer
+ */
+export async function registerTrustedIssuer(request: RegisterIssuerRequest): Promise<TrustRegistryEntry> {
+  if (getIssuerByDid(request.did)) {
+    throw domainError('ISSUER_ALREADY_REGISTERED', `Issuer already registered: ${request.did}`, { did: request.did });
+  }
+  if (!Array.isArray(request.accreditations) || request.accreditations.length === 0) {
+    throw domainError('VALIDATION_FAILED', 'An issuer must be registered with at least one accreditation');
+  }
+
+  const now = new Date().toISOString();
+  const accreditations = request.accreditations.map(accreditation =>
+    createAccreditation(accreditation, accreditation.validFrom || now)
+  );
+
+  const { publicKey } = await getSigner().generateKey(`${request.did}#key-1`, request.signatureAlgorithm);
+  const issuer: BankIssuer = {
+    did: request.did,
+    name: request.name,
+    jurisdiction: request.jurisdiction,
+    regulators: request.regulators,
+    tier: request.tier,
+    publicKey,
+    signatureAlgorithm: request.signatureAlgorithm
+  };
+  await getTrustRegistryStore().saveIssuer(issuer);
+  registerIssuer(issuer);
+
+  const entry: TrustRegistryEntry = {
+    issuerDid: request.did,
+    name: request.name,
+    status: 'active',
+    accreditations,
+    suspensions: [],
+    updatedAt: now
+  };
+  await getTrustRegistryStore().saveEntry(entry);
+  registry.set(request.did, entry);
+  return entry;
+}
+
+/**
+ * Record a new accreditation of an issuer
+ */
+export async function addAccreditation(
+  issuerDid: string,
+  request: AddAccreditationRequest
+): Promise<IssuerAccreditation> {
+  const entry = requireEntry(issuerDid);
+  const now = new Date().toISOString();
+  const accreditation = createAccreditation(request, request.validFrom || now);
+
+  entry.accreditations.push(accreditation);
+  entry.updatedAt = now;
+  await getTrustRegistryStore().saveEntry(entry);
+  return accreditation;
+}
+
+/**
+ * End an accreditation now - credentials issued while it was valid keep verifying
+ */
+export async function withdrawAccreditation(issuerDid: string, accreditationId: string): Promise<IssuerAccreditation> {
+  const entry = requireEntry(issuerDid);
+  const accreditation = entry.accreditations.find(a => a.id === accreditationId);
+  if (!accreditation) {
+    throw domainError('ACCREDITATION_NOT_FOUND', `Accreditation not found: ${accreditationId}`, {
+      did: issuerDid,
+      accreditationId
+    });
+  }
+
+  const now = new Date().toISOString();
+  if (accreditation.validUntil && new Date(accreditation.validUntil) <= new Date(now)) {
+    throw domainError('ACCREDITATION_ENDED', `Accreditation already ended: ${accreditationId}`, { accreditation });
+  }
+
+  accreditation.validUntil = now;
+  entry.updatedAt = now;
+  await getTrustRegistryStore().saveEntry(entry);
+  return accreditation;
+}
+
+/**
+ * Suspend an issuer - it cannot issue, and none of its credentials verify while suspended
+ */
+export async function suspendIssuer(issuerDid: string, reason?: string): Promise<TrustRegistryEntry> {
+  const entry = requireEntry(issuerDid);
+  if (entry.status === 'suspended') {
+    throw domainError('ISSUER_ALREADY_SUSPENDED', `Issuer already suspended: ${issuerDid}`, { did: issuerDid });
+  }
+
+  const now = new Date().toISOString();
+  entry.status = 'suspended';
+  entry.suspensions.push({ suspendedAt: now, ...(reason && { reason }) });
+  entry.updatedAt = now;
+  await getTrustRegistryStore().saveEntry(entry);
+  return entry;
+}
+
+/**
+ * Lift an issuer's suspension - credentials issued during the suspension stay untrusted
+ */
+export async function reinstateIssuer(issuerDid: string): Promise<TrustRegistryEntry> {
+  const entry = requireEntry(issuerDid);
+  if (entry.status !== 'suspended') {
+    throw domainError('ISSUER_NOT_SUSPENDED', `Issuer is not suspended: ${issuerDid}`, { did: issuerDid });
+  }
+
+  const now = new Date().toISOString();
+  entry.status = 'active';
+  entry.suspensions[entry.suspensions.length - 1].reinstatedAt = now;
+  entry.updatedAt = now;
+  await getTrustRegistryStore().saveEntry(entry);
+  return entry;
+}
+
+function isWithin(time: number, from: string, until?: string): boolean {
+  return time >= new Date(from).getTime() && (until === undefined || time < new Date(until).getTime());
+}
+
+/**
+ * Check an issuer was accredited and not suspended at a point in time
+ * Returns an error message per problem (empty when the issuer was trusted); `when` qualifies the messages
+ */
+function checkEntryAt(entry: TrustRegistryEntry, time: number, check: IssuerTrustCheck, when = ''): string[] {
+  const errors: string[] = [];
+
+  if (entry.suspensions.some(s => isWithin(time, s.suspendedAt, s.reinstatedAt))) {
+    errors.push(`Issuer ${entry.issuerDid} was suspended${when}`);
+  }
+
+  const accreditations = entry.accreditations.filter(a =>
+    isWithin(time, a.validFrom, a.validUntil) && a.credentialTypes.some(type => check.credentialTypes.includes(type))
+  );
+  if (accreditations.length === 0) {
+    errors.push(`Issuer ${entry.issuerDid} has no accreditation for ${check.credentialTypes.join(', ')}${when}`);
+    return errors;
+  }
+
+  const uncovered = (check.jurisdictions || []).filter(j => !accreditations.some(a => a.jurisdictions.includes(j)));
+  if (uncovered.length > 0) {
+    errors.push(`Issuer ${entry.issuerDid} has no accreditation for jurisdictions ${uncovered.join(', ')}${when}`);
+  }
+
+  return errors;
+}
+
+/**
+ * Issuance: throw unless the issuer is currently accredited for the credential type and every jurisdiction
+ */
+export function assertIssuerAuthorized(issuerDid: string, credentialType: string, jurisdictions: string[]): void {
+  const entry = requireEntry(issuerDid);
+  if (entry.status === 'suspended') {
+    throw domainError('ISSUER_SUSPENDED', `Issuer is suspended: ${issuerDid}`, { issuerDid });
+  }
+
+  const [error] = checkEntryAt(entry, Date.now(), { credentialTypes: [credentialType], jurisdictions });
+  if (error) {
+    throw domainError('ISSUER_NOT_ACCREDITED', error, { issuerDid });
+  }
+}
+
+/**
+ * Verification: check the issuer is in the registry, is not suspended now and was trusted when the
+ * credential was issued
+ */
+export function checkIssuerTrust(
+  issuerDid: string,
+  check: IssuerTrustCheck
+): { errors: string[]; warnings: string[] } {
+  const entry = getTrustRegistryEntry(issuerDid);
+  if (!entry) {
+    return { errors: [`Issuer ${issuerDid} is not in the trust registry`], warnings: [] };
+  }
+
+  const errors: string[] = [];
+  if (entry.status === 'suspended') {
+    errors.push(`Issuer ${issuerDid} is suspended`);
+  }
+
+  const issuedAt = check.issuedAt ? new Date(check.issuedAt).getTime() : NaN;
+  if (Number.isNaN(issuedAt)) {
+    errors.push('Credential has no issuance time to check the issuer accreditation against');
+  } else {
+    errors.push(...checkEntryAt(entry, issuedAt, check, ' at issuance time'));
+  }
+
+  return { errors, warnings: [] };
+}
+
+/**
+ * Verification: resolve the key an issuer signed with, for issuers in the trust registry only -
+ * any did:key or did:web resolves, but that alone does not make its holder a trusted issuer
+ */
+export async function resolveTrustedIssuerKey(
+  issuerDid: string,
+  verificationMethodUrl?: string,
+  signedAt?: string
+): Promise<ResolvedVerificationMethod> {
+  if (!getTrustRegistryEntry(issuerDid)) {
+    throw new Error(`Issuer ${issuerDid} is not in the trust registry`);
+  }
+  return resolveIssuerKey(issuerDid, verificationMethodUrl, signedAt);
+}
+
+/**
+ * Public key of the trust list signing key, generated in the signer on first use
+ */
+async function getTrustListSigningKey(): Promise<SignerPublicKey> {
+  const signer = getSigner();
+  try {
+    return await signer.getPublicKey(TRUST_LIST_KEY_ID);
+  } catch (error) {
+    return signer.generateKey(TRUST_LIST_KEY_ID, 'Ed25519');
+  }
+}
+
+/**
+ * DID offline verifiers pin as the trust list issuer
+ */
+export async function getTrustRegistryDid(): Promise<string> {
+  const { publicKey, algorithm } = await getTrustListSigningKey();
+  return publicKeyToDidKey(publicKey, algorithm);
+}
+
+/**
+ * Export the registry, with each issuer's keys, as a trust list signed by the registry's did:key
+ */
+export async function exportTrustList(trustListUrl: string): Promise<TrustListCredential> {
+  const { publicKey, algorithm } = await getTrustListSigningKey();
+  const registryDid = publicKeyToDidKey(publicKey, algorithm);
+  const issuanceDate = new Date();
+  const expirationDate = new Date(issuanceDate);
+  expirationDate.setDate(expirationDate.getDate() + TRUST_LIST_TTL_DAYS);
+
+  const unsignedTrustList = {
+    '@context': [VCDM_V1_CONTEXT, DATA_INTEGRITY_CONTEXT],
+    id: `urn:uuid:${randomUUID()}`,
+    type: ['VerifiableCredential', 'TrustListCredential'],
+    issuer: registryDid,
+    issuanceDate: issuanceDate.toISOString(),
+    expirationDate: expirationDate.toISOString(),
+    credentialSubject: {
+      id: trustListUrl,
+      type: 'TrustList' as const,
+      entries: getTrustRegistry().map(entry => ({
+        ...entry,
+        verificationMethods: getIssuerKeys(entry.issuerDid)
+      }))
+    }
+  };
+
+  const proof = await createDataIntegrityProof(
+    unsignedTrustList,
+    {
+      created: issuanceDate.toISOString(),
+      verificationMethod: `${registryDid}#${registryDid.slice('did:key:'.length)}`,
+      proofPurpose: 'assertionMethod'
+    },
+    getKeySigner(getSigner(), TRUST_LIST_KEY_ID),
+    algorithm
+  );
+
+  return {
+    ...unsignedTrustList,
+    proof
+  };
+}
+
+/**
+ * Offline verifier: check a trust list's signature, that it comes from the pinned registry DID and is current
+ */
+export async function verifyTrustList(
+  trustList: TrustListCredential,
+  registryDid: string
+): Promise<{ valid: boolean; errors: string[] }> {
+  const errors: string[] = [];
+
+  try {
+    if (!trustList.type?.includes('TrustListCredential')) {
+      errors.push('Not a TrustListCredential');
+    }
+    if (trustList.issuer !== registryDid || trustList.proof?.verificationMethod.split('#')[0] !== registryDid) {
+      errors.push('Trust list was not issued by the trust registry');
+    } else {
+      const key = await resolveVerificationMethod(trustList.proof.verificationMethod);
+      const { valid, format } = await verifyProof(trustList, key.publicKey, key.algorithm);
+      if (!valid || format === 'legacy') {
+        errors.push('Invalid trust list signature');
+      }
+    }
+    if (new Date(trustList.expirationDate) < new Date()) {
+      errors.push('Trust list has expired');
+    }
+  } catch (error) {
+    errors.push(`Verification error: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  return { valid: errors.length === 0, errors };
+}
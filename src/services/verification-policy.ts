@@ -0,0 +1,224 @@
+/**
+ * Verification Policy Service
+ * Declarative relying-party checks on top of credential verification - KYC level, investor status,
+ * entity type, verified amount, jurisdictions, issuer and credential age - reported rule by rule
+ */
+
+import {
+  CredentialSubject,
+  CredentialVerificationResult,
+  PolicyEvaluationResult,
+  PolicyRuleName,
+  PolicyRuleResult,
+  UnsecuredCredential,
+  VerifiableCredential,
+  VerificationPolicy
+} from '../types/credentials';
+import { getValidFrom } from '../utils/data-model';
+import { decodeJwt, getJwtIssuedAt } from '../utils/jwt';
+import { getIssuerByDid } from '../config/bank-issuers';
+import { verifyCredential } from './credential-issuer';
+import { KYC_LEVELS } from './presentation-exchange';
+import { JsonSchema, validateJsonSchema } from '../utils/json-schema';
+import { domainError } from '../utils/errors';
+
+const ENTITY_TYPES = ['individual', 'corporate', 'institutional'];
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * The parts of a credential a policy is evaluated against
+ * Claims of a selectively disclosed credential may be missing
+ */
+export interface PolicySubject {
+  issuer: string;
+  issuedAt?: string;
+  credentialSubject: Partial<CredentialSubject>;
+}
+
+const STRINGS_SCHEMA: JsonSchema = { type: 'array', items: { type: 'string' } };
+const NON_NEGATIVE_SCHEMA: JsonSchema = { type: 'number', minimum: 0, description: 'a non-negative number' };
+
+/**
+ * A VerificationPolicy
+ */
+export const VERIFICATION_POLICY_SCHEMA: JsonSchema = {
+  type: 'object',
+  additionalProperties: false,
+  properties: {
+    minKycLevel: { type: 'string', enum: KYC_LEVELS },
+    requireAccreditedInvestor: { type: 'boolean' },
+    allowedEntityTypes: { type: 'array', items: { type: 'string', enum: ENTITY_TYPES } },
+    minAmountVerified: {
+      type: 'object',
+      required: ['value', 'currency'],
+      properties: {
+        value: NON_NEGATIVE_SCHEMA,
+        currency: { type: 'string', pattern: '^[A-Z]{3}$', description: 'an ISO 4217 currency code' }
+      }
+    },
+    requiredJurisdictions: STRINGS_SCHEMA,
+    allowedIssuers: STRINGS_SCHEMA,
+    minIssuerTier: NON_NEGATIVE_SCHEMA,
+    maxCredentialAgeDays: NON_NEGATIVE_SCHEMA
+  }
+};
+
+/**
+ * Check that a policy is well formed - throws listing every invalid rule
+ */
+export function validateVerificationPolicy(policy: VerificationPolicy): void {
+  const errors = validateJsonSchema(policy, VERIFICATION_POLICY_SCHEMA, 'policy');
+  if (errors.length > 0) {
+    throw domainError('VALIDATION_FAILED', errors.join('; '), { validationErrors: errors });
+  }
+}
+
+function ruleResult(rule: PolicyRuleName, expected: unknown, actual: unknown, failure: string | null): PolicyRuleResult {
+  return failure
+    ? { rule, passed: false, expected, actual, message: failure }
+    : { rule, passed: true, expected, actual };
+}
+
+/**
+ * Evaluate a policy - every configured rule is reported, passed or not
+ */
+export function evaluateVerificationPolicy(
+  policy: VerificationPolicy,
+  subject: PolicySubject
+): PolicyEvaluationResult {
+  validateVerificationPolicy(policy);
+
+  const rules: PolicyRuleResult[] = [];
+  const { claims, amountVerifiedFor, jurisdictions } = subject.credentialSubject;
+  let failure: string | null;
+
+  if (policy.minKycLevel !== undefined) {
+    const actual = claims?.kycLevel;
+    failure = null;
+    if (actual === undefined) {
+      failure = 'KYC level is missing or not disclosed';
+    } else if (KYC_LEVELS.indexOf(actual) < KYC_LEVELS.indexOf(policy.minKycLevel)) {
+      failure = `KYC level ${actual} is below ${policy.minKycLevel}`;
+    }
+    rules.push(ruleResult('kycLevel', policy.minKycLevel, actual, failure));
+  }
+
+  if (policy.requireAccreditedInvestor) {
+    const actual = claims?.accreditedInvestor;
+    failure = null;
+    if (actual === undefined) {
+      failure = 'Accredited investor status is missing or not disclosed';
+    } else if (actual !== true) {
+      failure = 'Subject is not an accredited investor';
+    }
+    rules.push(ruleResult('accreditedInvestor', true, actual, failure));
+  }
+
+  if (policy.allowedEntityTypes !== undefined) {
+    const actual = claims?.entityType;
+    failure = null;
+    if (actual === undefined) {
+      failure = 'Entity type is missing or not disclosed';
+    } else if (!policy.allowedEntityTypes.includes(actual)) {
+      failure = `Entity type ${actual} is not allowed`;
+    }
+    rules.push(ruleResult('entityType', policy.allowedEntityTypes, actual, failure));
+  }
+
+  if (policy.minAmountVerified !== undefined) {
+    const expected = policy.minAmountVerified;
+    failure = null;
+    if (amountVerifiedFor === undefined) {
+      failure = 'Verified amount is missing or not disclosed';
+    } else if (amountVerifiedFor.currency !== expected.currency) {
+      failure = `Verified amount is in ${amountVerifiedFor.currency}, policy requires ${expected.currency}`;
+    } else if (amountVerifiedFor.value < expected.value) {
+      failure = `Verified amount ${amountVerifiedFor.value} is below ${expected.value} ${expected.currency}`;
+    }
+    rules.push(ruleResult('amountVerifiedFor', expected, amountVerifiedFor, failure));
+  }
+
+  if (policy.requiredJurisdictions !== undefined) {
+    const missing = policy.requiredJurisdictions.filter(jurisdiction => !jurisdictions?.includes(jurisdiction));
+    failure = null;
+    if (jurisdictions === undefined) {
+      failure = 'Jurisdictions are missing or not disclosed';
+    } else if (missing.length > 0) {
+      failure = `Not verified for: ${missing.join(', ')}`;
+    }
+    rules.push(ruleResult('jurisdictions', policy.requiredJurisdictions, jurisdictions, failure));
+  }
+
+  if (policy.allowedIssuers !== undefined) {
+    failure = policy.allowedIssuers.includes(subject.issuer) ? null : `Issuer ${subject.issuer} is not allowed`;
+    rules.push(ruleResult('issuer', policy.allowedIssuers, subject.issuer, failure));
+  }
+
+  if (policy.minIssuerTier !== undefined) {
+    const actual = getIssuerByDid(subject.issuer)?.tier;
+    failure = null;
+    if (actual === undefined) {
+      failure = `Issuer ${subject.issuer} is not a known bank issuer`;
+    } else if (actual < policy.minIssuerTier) {
+      failure = `Issuer tier ${actual} is below ${policy.minIssuerTier}`;
+    }
+    rules.push(ruleResult('issuerTier', policy.minIssuerTier, actual, failure));
+  }
+
+  if (policy.maxCredentialAgeDays !== undefined) {
+    const issuedAt = subject.issuedAt ? new Date(subject.issuedAt).getTime() : NaN;
+    const ageDays = Number.isNaN(issuedAt) ? undefined : Number(((Date.now() - issuedAt) / DAY_MS).toFixed(2));
+    failure = null;
+    if (ageDays === undefined) {
+      failure = 'Issuance date is missing';
+    } else if (ageDays > policy.maxCredentialAgeDays) {
+      failure = `Credential is ${ageDays} days old, policy allows ${policy.maxCredentialAgeDays}`;
+    }
+    rules.push(ruleResult('credentialAge', policy.maxCredentialAgeDays, ageDays, failure));
+  }
+
+  return {
+    passed: rules.every(rule => rule.passed),
+    rules
+  };
+}
+
+/**
+ * Policy subject of a JSON-LD credential or the vc claim of a JWT-VC
+ */
+export function getCredentialPolicySubject(credential: UnsecuredCredential): PolicySubject {
+  return {
+    issuer: credential.issuer?.id,
+    issuedAt: getValidFrom(credential),
+    credentialSubject: credential.credentialSubject || {}
+  };
+}
+
+/**
+ * Policy subject of an SD-JWT VC - only the claims the holder disclosed
+ */
+export function getSdJwtPolicySubject(sdJwt: string, disclosedClaims: Record<string, unknown>): PolicySubject {
+  const { payload } = decodeJwt(sdJwt.split('~')[0]);
+  return {
+    issuer: String(payload.iss),
+    issuedAt: getJwtIssuedAt(payload),
+    credentialSubject: disclosedClaims as Partial<CredentialSubject>
+  };
+}
+
+/**
+ * Verify a credential and evaluate a policy against it
+ * The policy result is independent of `valid` - a relying party should require both
+ */
+export async function verifyCredentialWithPolicy(
+  credential: VerifiableCredential,
+  policy: VerificationPolicy
+): Promise<CredentialVerificationResult & { policy: PolicyEvaluationResult }> {
+  validateVerificationPolicy(policy);
+
+  const result = await verifyCredential(credential);
+  return {
+    ...result,
+    policy: evaluateVerificationPolicy(policy, getCredentialPolicySubject(credential))
+  };
+}
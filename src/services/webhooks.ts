@@ -0,0 +1,482 @@
+/**
+ * Webhooks
+ * Tells subscribed clients about credential lifecycle events instead of making them poll. Each delivery is an
+ * HMAC-signed POST of the event; failed deliveries are retried with exponential backoff and become dead letters
+ * after the last attempt, and any delivery can be replayed
+ */
+
+import { createHmac, randomBytes, randomUUID, timingSafeEqual } from 'crypto';
+import { lookup } from 'dns/promises';
+import { BlockList } from 'net';
+import {
+  CredentialRecord,
+  PaginatedResult,
+  WebhookDelivery,
+  WebhookDeliveryQuery,
+  WebhookDeliveryStatus,
+  WebhookEvent,
+  WebhookEventType,
+  WebhookSubscription
+} from '../types/credentials';
+import { canActForIssuer } from '../auth/api-clients';
+import { getWebhookStore } from '../storage/webhook-store';
+import { getCredentialRepository, MAX_PAGE_SIZE } from '../storage/credential-repository';
+import { JsonSchema } from '../utils/json-schema';
+import { domainError, isDomainError } from '../utils/errors';
+
+export const WEBHOOK_EVENT_TYPES: WebhookEventType[] = [
+  'credential.issued',
+  'credential.revoked',
+  'credential.expiring',
+  'batch.completed',
+  'customer.kyc_changed'
+];
+
+export const WEBHOOK_DELIVERY_STATUSES: WebhookDeliveryStatus[] = ['pending', 'succeeded', 'dead_letter'];
+
+export const DEFAULT_EXPIRING_DAYS = 30;
+export const WEBHOOK_TIMEOUT_MS = 10000;
+export const WEBHOOK_SIGNATURE_TOLERANCE_SECONDS = 300;
+
+/**
+ * Headers of a delivery - the signature is `t=<unix seconds>,v1=<hex HMAC-SHA256 of "<t>.<body>">`
+ */
+export const WEBHOOK_HEADERS = {
+  id: 'Webhook-Id',
+  event: 'Webhook-Event',
+  signature: 'Webhook-Signature'
+};
+
+export interface WebhookRetryPolicy {
+  maxAttempts: number; // The delivery is a dead letter after this many failed attempts
+  baseDelayMs: number; // Wait after the first failure, doubled after each further one
+  maxDelayMs: number;
+}
+
+export const DEFAULT_WEBHOOK_RETRY_POLICY: WebhookRetryPolicy = {
+  maxAttempts: 8,
+  baseDelayMs: 30 * 1000,
+  maxDelayMs: 6 * 60 * 60 * 1000
+};
+
+export interface CreateWebhookSubscriptionRequest {
+  url: string;
+  eventTypes: WebhookEventType[];
+  expiringDays?: number;
+}
+
+/**
+ * A CreateWebhookSubscriptionRequest
+ */
+export const WEBHOOK_SUBSCRIPTION_SCHEMA: JsonSchema = {
+  type: 'object',
+  required: ['url', 'eventTypes'],
+  additionalProperties: false,
+  properties: {
+    url: { type: 'string', pattern: '^https?://[^\\s/?#]+\\S*$', description: 'an https URL' },
+    eventTypes: { type: 'array', minItems: 1, items: { type: 'string', enum: WEBHOOK_EVENT_TYPES } },
+    expiringDays: { type: 'integer', minimum: 1, maximum: 365, description: 'an integer from 1 to 365' }
+  }
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Addresses webhooks are never sent to - loopback, private, link-local and other non-public ranges - so a
+ * subscription cannot make the server call services inside its network
+ */
+const BLOCKED_ADDRESSES = new BlockList();
+for (const [network, prefix] of [
+  ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16],
+  ['172.16.0.0', 12], ['192.0.0.0', 24], ['192.168.0.0', 16], ['198.18.0.0', 15], ['224.0.0.0', 3]
+] as const) {
+  BLOCKED_ADDRESSES.addSubnet(network, prefix, 'ipv4');
+}
+for (const [network, prefix] of [
+  ['::', 127], ['fc00::', 7], ['fe80::', 10], ['ff00::', 8]
+] as const) {
+  BLOCKED_ADDRESSES.addSubnet(network, prefix, 'ipv6');
+}
+
+let retryPolicy: WebhookRetryPolicy = { ...DEFAULT_WEBHOOK_RETRY_POLICY };
+let localUrlsAllowed = false;
+const scheduledDeliveries: Map<string, NodeJS.Timeout> = new Map();
+
+/**
+ * Change the retry policy, e.g. to retry within milliseconds in tests
+ */
+export function setWebhookRetryPolicy(policy: Partial<WebhookRetryPolicy>): void {
+  retryPolicy = { ...retryPolicy, ...policy };
+}
+
+/**
+ * Allow http URLs and local addresses, for receivers in development and tests - never in production
+ */
+export function allowLocalWebhookUrls(allowed: boolean): void {
+  localUrlsAllowed = allowed;
+}
+
+/**
+ * Check that a webhook URL is https and that its host resolves only to public addresses. Checked when
+ * subscribing and again before every attempt, as the host's DNS records can change in between
+ */
+export async function checkWebhookUrl(url: string): Promise<void> {
+  if (localUrlsAllowed) {
+    return;
+  }
+
+  const { protocol, hostname } = new URL(url);
+  if (protocol !== 'https:') {
+    throw domainError('WEBHOOK_URL_NOT_ALLOWED', 'Webhook URLs must use https', { url });
+  }
+
+  const host = hostname.replace(/^\[|\]$/g, '');
+  let addresses: Array<{ address: string; family: number }>;
+  try {
+    addresses = await lookup(host, { all: true, verbatim: true });
+  } catch (error) {
+    throw domainError('WEBHOOK_URL_NOT_ALLOWED', `Webhook host ${host} cannot be resolved`, { url });
+  }
+  const blocked = addresses.find(({ address, family }) => BLOCKED_ADDRESSES.check(address, family === 6 ? 'ipv6' : 'ipv4'));
+  if (blocked) {
+    throw domainError(
+      'WEBHOOK_URL_NOT_ALLOWED',
+      `Webhook host ${host} resolves to ${blocked.address}, which is not a public address`,
+      { url }
+    );
+  }
+}
+
+/**
+ * Wait before the next attempt after `attempts` failed ones
+ */
+export function getWebhookRetryDelay(attempts: number): number {
+  return Math.min(retryPolicy.baseDelayMs * 2 ** (attempts - 1), retryPolicy.maxDelayMs);
+}
+
+/**
+ * Hex HMAC-SHA256 of a delivery body under a subscription secret
+ */
+export function computeWebhookSignature(secret: string, timestamp: number, body: string): string {
+  return createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+}
+
+/**
+ * Check the Webhook-Signature header of a received delivery - for receivers. Rejects signatures older than
+ * `toleranceSeconds`, so a captured delivery cannot be replayed later
+ */
+export function verifyWebhookSignature(
+  secret: string,
+  header: string,
+  body: string,
+  toleranceSeconds = WEBHOOK_SIGNATURE_TOLERANCE_SECONDS,
+  now: Date = new Date()
+): boolean {
+  const parts = new Map(header.split(',').map(part => part.trim().split('=', 2) as [string, string]));
+  const timestamp = Number(parts.get('t'));
+  const signature = parts.get('v1');
+  if (!Number.isInteger(timestamp) || !signature || Math.abs(now.getTime() / 1000 - timestamp) > toleranceSeconds) {
+    return false;
+  }
+
+  const expected = Buffer.from(computeWebhookSignature(secret, timestamp, body), 'hex');
+  const actual = Buffer.from(signature, 'hex');
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
+
+/**
+ * Subscribe a client to events - credential events are limited to the issuers in `owner.issuerDids`. The
+ * URL must pass checkWebhookUrl; the returned subscription holds the signing secret
+ */
+export async function createWebhookSubscription(
+  request: CreateWebhookSubscriptionRequest,
+  owner: { clientId: string; issuerDids: string[] }
+): Promise<WebhookSubscription> {
+  await checkWebhookUrl(request.url);
+
+  const subscription: WebhookSubscription = {
+    id: randomUUID(),
+    clientId: owner.clientId,
+    issuerDids: owner.issuerDids,
+    url: request.url,
+    eventTypes: Array.from(new Set(request.eventTypes)),
+    expiringDays: request.expiringDays ?? DEFAULT_EXPIRING_DAYS,
+    secret: `whsec_${randomBytes(32).toString('base64url')}`,
+    createdAt: new Date().toISOString()
+  };
+  await getWebhookStore().saveSubscription(subscription);
+  return subscription;
+}
+
+/**
+ * Get a webhook subscription by ID - null if it does not exist
+ */
+export async function getWebhookSubscription(id: string): Promise<WebhookSubscription | null> {
+  return getWebhookStore().getSubscription(id);
+}
+
+/**
+ * A client's webhook subscriptions, oldest first
+ */
+export async function listWebhookSubscriptions(clientId: string): Promise<WebhookSubscription[]> {
+  return getWebhookStore().findSubscriptions({ clientId });
+}
+
+/**
+ * Delete a webhook subscription - its pending deliveries become dead letters when next attempted
+ */
+export async function deleteWebhookSubscription(id: string): Promise<boolean> {
+  return getWebhookStore().deleteSubscription(id);
+}
+
+/**
+ * Attempt a delivery in `delayMs`
+ */
+function scheduleDelivery(id: string, delayMs: number): void {
+  clearTimeout(scheduledDeliveries.get(id));
+  const timer = setTimeout(() => {
+    scheduledDeliveries.delete(id);
+    attemptDelivery(id).catch(error => console.error(`Webhook delivery ${id} failed:`, error));
+  }, Math.max(delayMs, 0));
+  timer.unref();
+  scheduledDeliveries.set(id, timer);
+}
+
+/**
+ * POST a pending delivery to its subscriber, then record it as delivered, due for a retry or a dead letter
+ */
+async function attemptDelivery(id: string): Promise<void> {
+  const store = getWebhookStore();
+  const delivery = await store.getDelivery(id);
+  if (!delivery || delivery.status !== 'pending') {
+    return;
+  }
+
+  // 1. Sign and send the event
+  const subscription = await store.getSubscription(delivery.subscriptionId);
+  let responseStatus: number | null = null;
+  let error: string | null = null;
+  if (!subscription) {
+    error = 'Subscription deleted';
+  } else {
+    const body = JSON.stringify(delivery.event);
+    const timestamp = Math.floor(Date.now() / 1000);
+    try {
+      await checkWebhookUrl(delivery.url);
+      const response = await fetch(delivery.url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          [WEBHOOK_HEADERS.id]: delivery.id,
+          [WEBHOOK_HEADERS.event]: delivery.event.type,
+          [WEBHOOK_HEADERS.signature]: `t=${timestamp},v1=${computeWebhookSignature(subscription.secret, timestamp, body)}`
+        },
+        body,
+        redirect: 'manual', // A redirect could point anywhere, so it counts as a failed attempt
+        signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS)
+      });
+      responseStatus = response.status;
+      if (!response.ok) {
+        error = `HTTP ${response.status}`;
+      }
+    } catch (fetchError) {
+      const timedOut = fetchError instanceof Error && fetchError.name === 'TimeoutError';
+      error = timedOut
+        ? `No response within ${WEBHOOK_TIMEOUT_MS}ms`
+        : isDomainError(fetchError) ? fetchError.message : String(fetchError);
+    }
+  }
+
+  // 2. Record the attempt and schedule the next one, if any
+  const now = new Date();
+  const attempts = delivery.attempts + 1;
+  const retry = error !== null && subscription !== null && attempts < retryPolicy.maxAttempts;
+  const updated: WebhookDelivery = {
+    ...delivery,
+    status: error === null ? 'succeeded' : retry ? 'pending' : 'dead_letter',
+    attempts,
+    nextAttemptAt: retry ? new Date(now.getTime() + getWebhookRetryDelay(attempts)).toISOString() : null,
+    lastAttemptAt: now.toISOString(),
+    responseStatus,
+    error
+  };
+  await store.saveDelivery(updated);
+  if (retry) {
+    scheduleDelivery(id, getWebhookRetryDelay(attempts));
+  }
+}
+
+/**
+ * Queue a delivery of an event to a subscriber and attempt it right away
+ */
+async function enqueueDelivery(
+  subscription: WebhookSubscription,
+  event: WebhookEvent,
+  replayOf: string | null = null
+): Promise<WebhookDelivery> {
+  const now = new Date().toISOString();
+  const delivery: WebhookDelivery = {
+    id: randomUUID(),
+    subscriptionId: subscription.id,
+    clientId: subscription.clientId,
+    event,
+    url: subscription.url,
+    status: 'pending',
+    attempts: 0,
+    nextAttemptAt: now,
+    lastAttemptAt: null,
+    responseStatus: null,
+    error: null,
+    replayOf,
+    createdAt: now
+  };
+  await getWebhookStore().saveDelivery(delivery);
+  scheduleDelivery(delivery.id, 0);
+  return delivery;
+}
+
+function createEvent(
+  type: WebhookEventType,
+  data: Record<string, unknown>,
+  scope: { issuerDid?: string; clientId?: string; credentialId?: string }
+): WebhookEvent {
+  return {
+    id: randomUUID(),
+    type,
+    createdAt: new Date().toISOString(),
+    issuerDid: scope.issuerDid ?? null,
+    clientId: scope.clientId ?? null,
+    credentialId: scope.credentialId ?? null,
+    data
+  };
+}
+
+/**
+ * Whether a subscriber may be told about an event - its own batches, and credentials of its issuers
+ */
+function mayReceive(subscription: WebhookSubscription, event: WebhookEvent): boolean {
+  if (event.clientId !== null && subscription.clientId !== event.clientId) {
+    return false;
+  }
+  return event.issuerDid === null || canActForIssuer(subscription.issuerDids, event.issuerDid);
+}
+
+/**
+ * Publish an event to every subscriber that may receive it. Never throws - a failure to queue deliveries is
+ * logged rather than failing the operation the event is about
+ */
+export async function publishWebhookEvent(
+  type: WebhookEventType,
+  data: Record<string, unknown>,
+  scope: { issuerDid?: string; clientId?: string; credentialId?: string } = {}
+): Promise<void> {
+  try {
+    const event = createEvent(type, data, scope);
+    const subscriptions = await getWebhookStore().findSubscriptions({ eventType: type });
+    for (const subscription of subscriptions.filter(candidate => mayReceive(candidate, event))) {
+      await enqueueDelivery(subscription, event);
+    }
+  } catch (error) {
+    console.error(`Failed to publish webhook event ${type}:`, error);
+  }
+}
+
+/**
+ * Send credential.expiring for active credentials within each subscriber's `expiringDays` of expiry, once
+ * per credential and subscription. Returns the number of deliveries queued
+ */
+export async function checkExpiringCredentials(now: Date = new Date()): Promise<number> {
+  // 1. Active credentials within the widest window
+  const store = getWebhookStore();
+  const subscriptions = await store.findSubscriptions({ eventType: 'credential.expiring' });
+  if (subscriptions.length === 0) {
+    return 0;
+  }
+  const horizon = now.getTime() + Math.max(...subscriptions.map(subscription => subscription.expiringDays)) * DAY_MS;
+  const repository = getCredentialRepository();
+  const expiring: CredentialRecord[] = [];
+  for (let offset = 0; ; offset += MAX_PAGE_SIZE) {
+    const page = await repository.find({ status: 'active', limit: MAX_PAGE_SIZE, offset });
+    expiring.push(...page.items.filter(record => Date.parse(record.expiresAt) <= horizon));
+    if (offset + MAX_PAGE_SIZE >= page.total) {
+      break;
+    }
+  }
+
+  // 2. Notify each subscriber of those within its window it has not been told about
+  let queued = 0;
+  for (const record of expiring) {
+    const msUntilExpiry = Date.parse(record.expiresAt) - now.getTime();
+    const event = createEvent('credential.expiring', {
+      credentialId: record.id,
+      issuerDid: record.issuerDid,
+      customerKycId: record.customerKycId,
+      subjectId: record.subjectId,
+      expiresAt: record.expiresAt,
+      daysUntilExpiry: Math.max(0, Math.ceil(msUntilExpiry / DAY_MS))
+    }, { issuerDid: record.issuerDid, credentialId: record.id });
+
+    for (const subscription of subscriptions) {
+      if (msUntilExpiry > subscription.expiringDays * DAY_MS || !mayReceive(subscription, event)) {
+        continue;
+      }
+      const { total } = await store.findDeliveries({
+        subscriptionId: subscription.id,
+        eventType: 'credential.expiring',
+        credentialId: record.id,
+        limit: 1
+      });
+      if (total === 0) {
+        await enqueueDelivery(subscription, event);
+        queued++;
+      }
+    }
+  }
+  return queued;
+}
+
+/**
+ * Deliveries in the log, newest first
+ */
+export async function getWebhookDeliveries(query: WebhookDeliveryQuery): Promise<PaginatedResult<WebhookDelivery>> {
+  return getWebhookStore().findDeliveries(query);
+}
+
+/**
+ * Get a delivery by ID - null if it does not exist
+ */
+export async function getWebhookDelivery(id: string): Promise<WebhookDelivery | null> {
+  return getWebhookStore().getDelivery(id);
+}
+
+/**
+ * Deliver a delivery's event again, as a new delivery to the subscription's current URL - e.g. a dead letter
+ * once the receiver is fixed
+ */
+export async function replayWebhookDelivery(id: string): Promise<WebhookDelivery> {
+  const store = getWebhookStore();
+  const delivery = await store.getDelivery(id);
+  if (!delivery) {
+    throw domainError('WEBHOOK_DELIVERY_NOT_FOUND', `Webhook delivery not found: ${id}`, { id });
+  }
+  const subscription = await store.getSubscription(delivery.subscriptionId);
+  if (!subscription) {
+    throw domainError(
+      'WEBHOOK_SUBSCRIPTION_NOT_FOUND',
+      `Webhook subscription not found: ${delivery.subscriptionId}`,
+      { subscriptionId: delivery.subscriptionId }
+    );
+  }
+  return enqueueDelivery(subscription, delivery.event, delivery.id);
+}
+
+/**
+ * Schedule the deliveries a previous process left pending - call once on startup. Returns their IDs
+ */
+export async function resumeWebhookDeliveries(): Promise<string[]> {
+  const pending = await getWebhookStore().findPendingDeliveries();
+  for (const delivery of pending) {
+    scheduleDelivery(delivery.id, Date.parse(delivery.nextAttemptAt as string) - Date.now());
+  }
+  return pending.map(delivery => delivery.id);
+}
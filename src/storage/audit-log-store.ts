@@ -0,0 +1,119 @@
+/**
+ * Audit Log Store
+ * Pluggable append-only storage for audit entries and the signed checkpoints over them
+ */
+
+import { AuditCheckpoint, AuditEntry, AuditQuery, PaginatedResult } from '../types/credentials';
+import { normalizePagination } from './credential-repository';
+
+/**
+ * Storage backend for the audit log - entries and checkpoints can only be appended
+ */
+export interface AuditLogStore {
+  append(entry: AuditEntry): Promise<void>;
+  getLastEntry(): Promise<AuditEntry | null>;
+  getEntries(): Promise<AuditEntry[]>; // Oldest first, for chain verification
+  find(query: AuditQuery): Promise<PaginatedResult<AuditEntry>>;
+  appendCheckpoint(checkpoint: AuditCheckpoint): Promise<void>;
+  getCheckpoints(): Promise<AuditCheckpoint[]>; // Oldest first
+}
+
+/**
+ * Check whether an entry satisfies the filters of a query (ignores pagination)
+ */
+export function matchesAuditQuery(entry: AuditEntry, query: AuditQuery): boolean {
+  if (query.action && entry.action !== query.action) {
+    return false;
+  }
+  if (query.actor && entry.actor !== query.actor) {
+    return false;
+  }
+  if (query.issuer && entry.issuerDid !== query.issuer) {
+    return false;
+  }
+  if (query.customerKycId && entry.customerKycId !== query.customerKycId) {
+    return false;
+  }
+  if (query.credentialId && entry.credentialId !== query.credentialId) {
+    return false;
+  }
+  if (query.outcome && entry.outcome !== query.outcome) {
+    return false;
+  }
+  if (query.from && new Date(entry.timestamp) < new Date(query.from)) {
+    return false;
+  }
+  if (query.to && new Date(entry.timestamp) > new Date(query.to)) {
+    return false;
+  }
+  return true;
+}
+
+/**
+ * Reject an entry that does not extend the chain by exactly one
+ */
+export function assertNextSequence(entry: AuditEntry, last: AuditEntry | null): void {
+  const expected = (last?.sequence ?? 0) + 1;
+  if (entry.sequence !== expected) {
+    throw new Error(`Audit entry ${entry.sequence} out of sequence, expected ${expected}`);
+  }
+}
+
+/**
+ * In-memory store - the default, suitable for development and tests
+ */
+export function createInMemoryAuditLogStore(): AuditLogStore {
+  const entries: AuditEntry[] = [];
+  const checkpoints: AuditCheckpoint[] = [];
+
+  return {
+    async append(entry) {
+      assertNextSequence(entry, entries[entries.length - 1] || null);
+      entries.push({ ...entry });
+    },
+
+    async getLastEntry() {
+      return entries[entries.length - 1] || null;
+    },
+
+    async getEntries() {
+      return entries.map(entry => ({ ...entry }));
+    },
+
+    async find(query) {
+      const { limit, offset } = normalizePagination(query);
+      const matching = entries.filter(entry => matchesAuditQuery(entry, query)).reverse();
+
+      return {
+        items: matching.slice(offset, offset + limit).map(entry => ({ ...entry })),
+        total: matching.length,
+        limit,
+        offset
+      };
+    },
+
+    async appendCheckpoint(checkpoint) {
+      checkpoints.push(checkpoint);
+    },
+
+    async getCheckpoints() {
+      return [...checkpoints];
+    }
+  };
+}
+
+let activeStore: AuditLogStore = createInMemoryAuditLogStore();
+
+/**
+ * Get the store audit entries are appended to
+ */
+export function getAuditLogStore(): AuditLogStore {
+  return activeStore;
+}
+
+/**
+ * Replace the store audit entries are appended to
+ */
+export function setAuditLogStore(store: AuditLogStore): void {
+  activeStore = store;
+}
@@ -0,0 +1,137 @@
+/**
+ * Credential Repository
+ * Pluggable storage for every credential issued by this service
+ */
+
+import {
+  CredentialRecord,
+  CredentialRecordStatus,
+  CredentialQuery,
+  PaginatedResult
+} from '../types/credentials';
+import { getValidFrom, getValidUntil } from '../utils/data-model';
+
+export const DEFAULT_PAGE_SIZE = 50;
+export const MAX_PAGE_SIZE = 500;
+
+/**
+ * Storage backend for issued credentials
+ */
+export interface CredentialRepository {
+  save(record: CredentialRecord): Promise<void>;
+  findById(id: string): Promise<CredentialRecord | null>;
+  find(query: CredentialQuery): Promise<PaginatedResult<CredentialRecord>>;
+}
+
+/**
+ * Derive the lifecycle status of a stored credential
+ */
+export function getRecordStatus(
+  record: CredentialRecord,
+  now: Date = new Date()
+): CredentialRecordStatus {
+  if (record.revokedAt !== null) {
+    return 'revoked';
+  }
+  if (new Date(record.expiresAt) < now) {
+    return 'expired';
+  }
+  return 'active';
+}
+
+/**
+ * Check whether a record satisfies the filters of a query (ignores pagination)
+ */
+export function matchesQuery(record: CredentialRecord, query: CredentialQuery): boolean {
+  if (query.subject && record.subjectId !== query.subject && record.customerKycId !== query.subject) {
+    return false;
+  }
+  if (query.issuer && record.issuerDid !== query.issuer) {
+    return false;
+  }
+  if (query.status && getRecordStatus(record) !== query.status) {
+    return false;
+  }
+  if (query.issuedAfter && new Date(record.issuedAt) < new Date(query.issuedAfter)) {
+    return false;
+  }
+  if (query.issuedBefore && new Date(record.issuedAt) > new Date(query.issuedBefore)) {
+    return false;
+  }
+  return true;
+}
+
+/**
+ * Clamp the pagination parameters of a query to sane values
+ */
+export function normalizePagination(query: Pick<CredentialQuery, 'limit' | 'offset'>): { limit: number; offset: number } {
+  const limit = Math.min(Math.max(query.limit ?? DEFAULT_PAGE_SIZE, 1), MAX_PAGE_SIZE);
+  const offset = Math.max(query.offset ?? 0, 0);
+  return { limit, offset };
+}
+
+/**
+ * Build a record for a freshly issued credential
+ */
+export function createCredentialRecord(
+  credential: CredentialRecord['credential'],
+  customerKycId: string
+): CredentialRecord {
+  return {
+    id: credential.id,
+    customerKycId,
+    subjectId: credential.credentialSubject.id,
+    issuerDid: credential.issuer.id,
+    issuedAt: getValidFrom(credential) as string,
+    expiresAt: getValidUntil(credential) as string,
+    revokedAt: null,
+    credential
+  };
+}
+
+/**
+ * In-memory repository - the default, suitable for development and tests
+ */
+export function createInMemoryCredentialRepository(): CredentialRepository {
+  const records: Map<string, CredentialRecord> = new Map();
+
+  return {
+    async save(record) {
+      records.set(record.id, record);
+    },
+
+    async findById(id) {
+      return records.get(id) || null;
+    },
+
+    async find(query) {
+      const { limit, offset } = normalizePagination(query);
+      const matching = Array.from(records.values())
+        .filter(record => matchesQuery(record, query))
+        .sort((a, b) => b.issuedAt.localeCompare(a.issuedAt));
+
+      return {
+        items: matching.slice(offset, offset + limit),
+        total: matching.length,
+        limit,
+        offset
+      };
+    }
+  };
+}
+
+let activeRepository: CredentialRepository = createInMemoryCredentialRepository();
+
+/**
+ * Get the repository that issued credentials are recorded in
+ */
+export function getCredentialRepository(): CredentialRepository {
+  return activeRepository;
+}
+
+/**
+ * Replace the repository that issued credentials are recorded in
+ */
+export function setCredentialRepository(repository: CredentialRepository): void {
+  activeRepository = repository;
+}
@@ -0,0 +1,82 @@
+/**
+ * HTTP KYC Data Source
+ * Reads customer KYC records from a core-banking REST API:
+ * `GET {baseUrl}/customers/{kycId}` returns one customer (404 if there is none) and `GET {baseUrl}/customers`
+ * all of them, as an array or `{ customers: [...] }`. Records are converted with a field mapping
+ */
+
+import { CustomerKYCData } from '../types/credentials';
+import { KycDataSource, kycSourceUnavailable } from './kyc-data-source';
+import { KycFieldMapping, mapKycRecord } from './kyc-field-mapping';
+
+const DEFAULT_TIMEOUT_MS = 5000;
+
+export interface HttpKycDataSourceOptions {
+  baseUrl: string; // e.g. https://core-banking.internal/api/v1
+  headers?: Record<string, string>; // e.g. Authorization
+  timeoutMs?: number; // Per request, default 5000
+  fieldMapping?: KycFieldMapping;
+}
+
+/**
+ * Create a read-only KYC data source over a core-banking API
+ * Network failures, timeouts, non-404 error statuses and unreadable records are all reported as the source
+ * being unavailable; only a 404 means the customer does not exist
+ */
+export function createHttpKycDataSource(options: HttpKycDataSourceOptions): KycDataSource {
+  const baseUrl = options.baseUrl.replace(/\/+$/, '');
+  const timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+  const name = new URL(baseUrl).host;
+
+  // GET a path and return the JSON body, or null for a 404
+  const getJson = async (path: string): Promise<unknown> => {
+    let response: Response;
+    try {
+      response = await fetch(`${baseUrl}${path}`, {
+        headers: { Accept: 'application/json', ...options.headers },
+        signal: AbortSignal.timeout(timeoutMs)
+      });
+    } catch (error) {
+      const timedOut = error instanceof Error && error.name === 'TimeoutError';
+      throw kycSourceUnavailable(name, timedOut ? `no response within ${timeoutMs}ms` : error);
+    }
+
+    if (response.status === 404) {
+      return null;
+    }
+    if (!response.ok) {
+      throw kycSourceUnavailable(name, `HTTP ${response.status} from GET ${path}`);
+    }
+    try {
+      return await response.json();
+    } catch {
+      throw kycSourceUnavailable(name, `invalid JSON from GET ${path}`);
+    }
+  };
+
+  const toCustomer = (record: unknown): CustomerKYCData => {
+    try {
+      return mapKycRecord(record as Record<string, unknown>, options.fieldMapping);
+    } catch (error) {
+      throw kycSourceUnavailable(name, `unreadable customer record: ${error instanceof Error ? error.message : error}`);
+    }
+  };
+
+  return {
+    name,
+
+    async getCustomer(kycId) {
+      const record = await getJson(`/customers/${encodeURIComponent(kycId)}`);
+      return record === null ? null : toCustomer(record);
+    },
+
+    async listCustomers() {
+      const body = await getJson('/customers');
+      const records = Array.isArray(body) ? body : (body as { customers?: unknown } | null)?.customers;
+      if (!Array.isArray(records)) {
+        throw kycSourceUnavailable(name, 'expected an array of customers from GET /customers');
+      }
+      return records.map(toCustomer).sort((a, b) => a.kycId.localeCompare(b.kycId));
+    }
+  };
+}
@@ -0,0 +1,79 @@
+/**
+ * Idempotency Store
+ * Pluggable storage for idempotency keys and the results stored under them, so a retry after a restart
+ * still gets the first result back
+ */
+
+/**
+ * A key claimed by a client, and the result of the operation run under it
+ */
+export interface IdempotencyRecord {
+  requestHash: string;
+  expiresAt: number;
+  result?: unknown; // Unset while the operation runs
+}
+
+/**
+ * Storage backend for idempotency keys
+ */
+export interface IdempotencyStore {
+  claim(clientId: string, key: string, record: IdempotencyRecord): Promise<IdempotencyRecord | null>; // The existing record if the key is taken, else null once saved
+  complete(clientId: string, key: string, result: unknown): Promise<void>;
+  release(clientId: string, key: string): Promise<void>;
+  pruneExpired(now: number): Promise<void>;
+}
+
+/**
+ * In-memory store - the default, suitable for development and tests
+ */
+export function createInMemoryIdempotencyStore(): IdempotencyStore {
+  // Keyed by client and idempotency key
+  const records: Map<string, IdempotencyRecord> = new Map();
+  const recordKey = (clientId: string, key: string): string => `${clientId}\n${key}`;
+
+  return {
+    async claim(clientId, key, record) {
+      const existing = records.get(recordKey(clientId, key));
+      if (existing) {
+        return { ...existing };
+      }
+      records.set(recordKey(clientId, key), { ...record });
+      return null;
+    },
+
+    async complete(clientId, key, result) {
+      const record = records.get(recordKey(clientId, key));
+      if (record) {
+        record.result = result;
+      }
+    },
+
+    async release(clientId, key) {
+      records.delete(recordKey(clientId, key));
+    },
+
+    async pruneExpired(now) {
+      for (const [key, record] of records) {
+        if (record.expiresAt <= now) {
+          records.delete(key);
+        }
+      }
+    }
+  };
+}
+
+let activeStore: IdempotencyStore = createInMemoryIdempotencyStore();
+
+/**
+ * Get the store idempotency keys are kept in
+ */
+export function getIdempotencyStore(): IdempotencyStore {
+  return activeStore;
+}
+
+/**
+ * Replace the store idempotency keys are kept in
+ */
+export function setIdempotencyStore(store: IdempotencyStore): void {
+  activeStore = store;
+}
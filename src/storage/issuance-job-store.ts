@@ -0,0 +1,104 @@
+/**
+ * Issuance Job Store
+ * Pluggable storage for bulk issuance jobs and their rows, so unfinished jobs survive a restart
+ */
+
+import {
+  IssuanceJob,
+  IssuanceJobRow,
+  IssuanceJobRowQuery,
+  PaginatedResult
+} from '../types/credentials';
+import { normalizePagination } from './credential-repository';
+
+/**
+ * Storage backend for issuance jobs
+ */
+export interface IssuanceJobStore {
+  createJob(job: IssuanceJob, rows: IssuanceJobRow[]): Promise<void>;
+  updateJob(job: IssuanceJob): Promise<void>;
+  getJob(id: string): Promise<IssuanceJob | null>;
+  findUnfinishedJobs(): Promise<IssuanceJob[]>; // Queued or running, oldest first
+  getPendingRows(jobId: string, limit: number): Promise<IssuanceJobRow[]>; // In upload order
+  saveRows(rows: IssuanceJobRow[]): Promise<void>;
+  getRows(jobId: string, query: IssuanceJobRowQuery): Promise<PaginatedResult<IssuanceJobRow>>; // In upload order
+}
+
+/**
+ * In-memory store - the default, suitable for development and tests
+ */
+export function createInMemoryIssuanceJobStore(): IssuanceJobStore {
+  const jobs: Map<string, IssuanceJob> = new Map();
+  const jobRows: Map<string, IssuanceJobRow[]> = new Map();
+
+  return {
+    async createJob(job, rows) {
+      jobs.set(job.id, { ...job });
+      jobRows.set(job.id, rows.map(row => ({ ...row })));
+    },
+
+    async updateJob(job) {
+      if (!jobs.has(job.id)) {
+        throw new Error(`Issuance job not found: ${job.id}`);
+      }
+      jobs.set(job.id, { ...job });
+    },
+
+    async getJob(id) {
+      const job = jobs.get(id);
+      return job ? { ...job } : null;
+    },
+
+    async findUnfinishedJobs() {
+      return Array.from(jobs.values())
+        .filter(job => job.status === 'queued' || job.status === 'running')
+        .sort((a, b) => a.createdAt.localeCompare(b.createdAt))
+        .map(job => ({ ...job }));
+    },
+
+    async getPendingRows(jobId, limit) {
+      return (jobRows.get(jobId) || [])
+        .filter(row => row.status === 'pending')
+        .slice(0, limit)
+        .map(row => ({ ...row }));
+    },
+
+    async saveRows(rows) {
+      for (const row of rows) {
+        const stored = jobRows.get(row.jobId);
+        if (!stored || !stored[row.index]) {
+          throw new Error(`Issuance job row not found: ${row.jobId} #${row.index}`);
+        }
+        stored[row.index] = { ...row };
+      }
+    },
+
+    async getRows(jobId, query) {
+      const { limit, offset } = normalizePagination(query);
+      const matching = (jobRows.get(jobId) || []).filter(row => !query.status || row.status === query.status);
+
+      return {
+        items: matching.slice(offset, offset + limit).map(row => ({ ...row })),
+        total: matching.length,
+        limit,
+        offset
+      };
+    }
+  };
+}
+
+let activeStore: IssuanceJobStore = createInMemoryIssuanceJobStore();
+
+/**
+ * Get the store issuance jobs are kept in
+ */
+export function getIssuanceJobStore(): IssuanceJobStore {
+  return activeStore;
+}
+
+/**
+ * Replace the store issuance jobs are kept in
+ */
+export function setIssuanceJobStore(store: IssuanceJobStore): void {
+  activeStore = store;
+}
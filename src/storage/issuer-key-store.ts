@@ -0,0 +1,47 @@
+/**
+ * Issuer Key Store
+ * Pluggable storage for issuer key sets, so rotations, retirements and revocations survive a restart
+ */
+
+import { IssuerKey } from '../types/credentials';
+
+/**
+ * Storage backend for issuer key sets
+ */
+export interface IssuerKeyStore {
+  saveKeySet(issuerDid: string, keys: IssuerKey[]): Promise<void>; // Replaces the issuer's key set
+  getKeySets(): Promise<Map<string, IssuerKey[]>>; // By issuer DID, oldest key first
+}
+
+/**
+ * In-memory store - the default, suitable for development and tests
+ */
+export function createInMemoryIssuerKeyStore(): IssuerKeyStore {
+  const keySets: Map<string, IssuerKey[]> = new Map();
+
+  return {
+    async saveKeySet(issuerDid, keys) {
+      keySets.set(issuerDid, keys.map(key => ({ ...key })));
+    },
+
+    async getKeySets() {
+      return new Map(Array.from(keySets, ([issuerDid, keys]) => [issuerDid, keys.map(key => ({ ...key }))]));
+    }
+  };
+}
+
+let activeStore: IssuerKeyStore = createInMemoryIssuerKeyStore();
+
+/**
+ * Get the store issuer key sets are kept in
+ */
+export function getIssuerKeyStore(): IssuerKeyStore {
+  return activeStore;
+}
+
+/**
+ * Replace the store issuer key sets are kept in
+ */
+export function setIssuerKeyStore(store: IssuerKeyStore): void {
+  activeStore = store;
+}
@@ -0,0 +1,78 @@
+/**
+ * KYC Change Store
+ * Pluggable storage for the actions taken on outstanding credentials when a customer's KYC data changes
+ */
+
+import { KycChangeAction, KycChangeActionQuery, PaginatedResult } from '../types/credentials';
+import { normalizePagination } from './credential-repository';
+
+/**
+ * Storage backend for KYC change actions
+ */
+export interface KycChangeStore {
+  save(action: KycChangeAction): Promise<void>;
+  findByCustomer(customerKycId: string, query: KycChangeActionQuery): Promise<PaginatedResult<KycChangeAction>>; // Newest first
+  findByCredential(credentialId: string): Promise<KycChangeAction[]>; // Taken on or replacing it, oldest first
+}
+
+/**
+ * Check whether an action satisfies the filters of a query (ignores pagination)
+ */
+export function matchesKycChangeQuery(action: KycChangeAction, query: KycChangeActionQuery): boolean {
+  if (query.action && action.action !== query.action) {
+    return false;
+  }
+  if (query.issuer && action.issuerDid !== query.issuer) {
+    return false;
+  }
+  return true;
+}
+
+/**
+ * In-memory store - the default, suitable for development and tests
+ */
+export function createInMemoryKycChangeStore(): KycChangeStore {
+  const actions: KycChangeAction[] = [];
+
+  return {
+    async save(action) {
+      actions.push({ ...action });
+    },
+
+    async findByCustomer(customerKycId, query) {
+      const { limit, offset } = normalizePagination(query);
+      const matching = actions
+        .filter(action => action.customerKycId === customerKycId && matchesKycChangeQuery(action, query))
+        .reverse();
+
+      return {
+        items: matching.slice(offset, offset + limit).map(action => ({ ...action })),
+        total: matching.length,
+        limit,
+        offset
+      };
+    },
+
+    async findByCredential(credentialId) {
+      return actions
+        .filter(action => action.credentialId === credentialId || action.replacementCredentialId === credentialId)
+        .map(action => ({ ...action }));
+    }
+  };
+}
+
+let activeStore: KycChangeStore = createInMemoryKycChangeStore();
+
+/**
+ * Get the store KYC change actions are kept in
+ */
+export function getKycChangeStore(): KycChangeStore {
+  return activeStore;
+}
+
+/**
+ * Replace the store KYC change actions are kept in
+ */
+export function setKycChangeStore(store: KycChangeStore): void {
+  activeStore = store;
+}
@@ -0,0 +1,105 @@
+/**
+ * KYC Data Source
+ * Pluggable source of customer KYC records - the bank's own KYC system, a local database or the mock customers
+ */
+
+import { CustomerKYCData } from '../types/credentials';
+import { DomainError, domainError, isDomainError } from '../utils/errors';
+import { createMockKycDataSource } from '../mocks/kyc-database';
+
+export const KYC_SOURCE_UNAVAILABLE = 'KYC data source unavailable';
+
+/**
+ * Read access to customer KYC records
+ * A customer that does not exist is `null`; a source that cannot be reached throws (see kycSourceUnavailable)
+ */
+export interface KycDataSource {
+  name: string; // Shown in logs and errors, e.g. 'sqlite' or the core-banking host
+  getCustomer(kycId: string): Promise<CustomerKYCData | null>;
+  listCustomers(): Promise<CustomerKYCData[]>; // Ordered by KYC ID
+}
+
+/**
+ * A KYC data source this service may also write to
+ */
+export interface WritableKycDataSource extends KycDataSource {
+  upsertCustomer(customer: CustomerKYCData): Promise<void>;
+  deleteCustomer(kycId: string): Promise<boolean>;
+}
+
+/**
+ * Error for a source that could not be queried - distinct from a customer that was not found
+ */
+export function kycSourceUnavailable(source: string, cause: unknown): DomainError {
+  const message = cause instanceof Error ? cause.message : String(cause);
+  return domainError('KYC_SOURCE_UNAVAILABLE', `${KYC_SOURCE_UNAVAILABLE} (${source}): ${message}`, { source });
+}
+
+/**
+ * Whether an error means the KYC data source could not be queried
+ */
+export function isKycSourceUnavailable(error: unknown): boolean {
+  return isDomainError(error, 'KYC_SOURCE_UNAVAILABLE');
+}
+
+/**
+ * Whether customers can be written to a source
+ */
+export function isWritableKycDataSource(source: KycDataSource): source is WritableKycDataSource {
+  const writable = source as Partial<WritableKycDataSource>;
+  return typeof writable.upsertCustomer === 'function' && typeof writable.deleteCustomer === 'function';
+}
+
+/**
+ * In-memory source, optionally seeded with customers
+ */
+export function createInMemoryKycDataSource(
+  customers: CustomerKYCData[] = [],
+  name = 'in-memory'
+): WritableKycDataSource {
+  const records: Map<string, CustomerKYCData> = new Map(
+    customers.map(customer => [customer.kycId, { ...customer }])
+  );
+
+  return {
+    name,
+
+    async getCustomer(kycId) {
+      const customer = records.get(kycId);
+      return customer ? { ...customer } : null;
+    },
+
+    async listCustomers() {
+      return Array.from(records.values())
+        .sort((a, b) => a.kycId.localeCompare(b.kycId))
+        .map(customer => ({ ...customer }));
+    },
+
+    async upsertCustomer(customer) {
+      records.set(customer.kycId, { ...customer });
+    },
+
+    async deleteCustomer(kycId) {
+      return records.delete(kycId);
+    }
+  };
+}
+
+let activeSource: KycDataSource | null = null;
+
+/**
+ * Get the source customer KYC data is read from - the mock customers unless another is configured
+ */
+export function getKycDataSource(): KycDataSource {
+  if (!activeSource) {
+    activeSource = createMockKycDataSource();
+  }
+  return activeSource;
+}
+
+/**
+ * Replace the source customer KYC data is read from
+ */
+export function setKycDataSource(source: KycDataSource): void {
+  activeSource = source;
+}
@@ -0,0 +1,156 @@
+/**
+ * KYC Field Mapping
+ * Converts records from external KYC systems and import files - with their own field names and with values as
+ * strings or JSON - to CustomerKYCData
+ */
+
+import { readFileSync } from 'fs';
+import { CustomerKYCData } from '../types/credentials';
+
+/**
+ * Source field for each CustomerKYCData field, as a name or a dotted path into nested JSON
+ * (e.g. `{ kycId: 'customer_id', kycLevel: 'kyc.level' }`). Unmapped fields are read from their own name
+ */
+export type KycFieldMapping = Partial<Record<keyof CustomerKYCData, string>>;
+
+type KycField = keyof CustomerKYCData;
+
+/**
+ * Allowed values of the enumerated CustomerKYCData fields
+ */
+export const KYC_FIELD_VALUES: Partial<Record<KycField, string[]>> = {
+  kycLevel: ['basic', 'enhanced', 'institutional'],
+  amlScreening: ['passed', 'failed', 'pending'],
+  sanctionsCheck: ['passed', 'failed', 'pending'],
+  pepScreening: ['passed', 'failed', 'pending'],
+  sourceOfFunds: ['verified', 'unverified', 'pending'],
+  entityType: ['individual', 'corporate', 'institutional']
+};
+
+export const KYC_FIELDS: KycField[] = [
+  'kycId',
+  'name',
+  'dateOfBirth',
+  'citizenship',
+  'address',
+  'kycLevel',
+  'amlScreening',
+  'sanctionsCheck',
+  'pepScreening',
+  'sourceOfFunds',
+  'accreditedInvestor',
+  'entityType',
+  'verifiedAmount',
+  'currency',
+  'tier',
+  'jurisdictions',
+  'userDid'
+];
+
+/**
+ * Check a mapping names only CustomerKYCData fields and non-empty source fields
+ */
+export function validateKycFieldMapping(mapping: unknown): KycFieldMapping {
+  if (!mapping || typeof mapping !== 'object' || Array.isArray(mapping)) {
+    throw new Error('KYC field mapping must be an object of field name to source field');
+  }
+  for (const [field, source] of Object.entries(mapping)) {
+    if (!KYC_FIELDS.includes(field as KycField)) {
+      throw new Error(`Unknown KYC field in mapping: ${field}`);
+    }
+    if (typeof source !== 'string' || source === '') {
+      throw new Error(`Invalid source field for ${field} in KYC field mapping`);
+    }
+  }
+  return mapping as KycFieldMapping;
+}
+
+/**
+ * Load a field mapping from a JSON file
+ */
+export function loadKycFieldMapping(filePath: string): KycFieldMapping {
+  return validateKycFieldMapping(JSON.parse(readFileSync(filePath, 'utf8')));
+}
+
+/**
+ * Read a source field by name, falling back to a dotted path into nested objects
+ */
+function readField(record: Record<string, unknown>, path: string): unknown {
+  if (path in record) {
+    return record[path];
+  }
+  return path.split('.').reduce<unknown>(
+    (value, key) => (value && typeof value === 'object' ? (value as Record<string, unknown>)[key] : undefined),
+    record
+  );
+}
+
+/**
+ * Convert one source value to the type of its CustomerKYCData field
+ */
+function convertField(field: KycField, value: unknown): unknown {
+  if (field === 'accreditedInvestor') {
+    if (typeof value === 'boolean') {
+      return value;
+    }
+    if (typeof value === 'string' && ['true', 'false'].includes(value.trim().toLowerCase())) {
+      return value.trim().toLowerCase() === 'true';
+    }
+    throw new Error(`Invalid accreditedInvestor: expected true or false, got ${JSON.stringify(value)}`);
+  }
+
+  if (field === 'verifiedAmount' || field === 'tier') {
+    const number = typeof value === 'string' && value.trim() !== '' ? Number(value) : value;
+    const valid = typeof number === 'number' && isFinite(number) && number >= 0 &&
+      (field !== 'tier' || Number.isInteger(number));
+    if (!valid) {
+      throw new Error(`Invalid ${field}: ${JSON.stringify(value)}`);
+    }
+    return number;
+  }
+
+  if (field === 'jurisdictions') {
+    // Arrays in JSON; codes separated by ';' in CSV and other flat sources
+    const codes = Array.isArray(value) ? value : typeof value === 'string' ? value.split(';') : null;
+    if (!codes || codes.some(code => typeof code !== 'string')) {
+      throw new Error(`Invalid jurisdictions: ${JSON.stringify(value)}`);
+    }
+    return codes.map(code => code.trim()).filter(Boolean);
+  }
+
+  if (typeof value !== 'string' || value.trim() === '') {
+    throw new Error(`Invalid ${field}: expected a non-empty string`);
+  }
+  const allowed = KYC_FIELD_VALUES[field];
+  if (allowed && !allowed.includes(value.trim())) {
+    throw new Error(`Invalid ${field}: expected one of ${allowed.join(', ')}, got ${value}`);
+  }
+  return value.trim();
+}
+
+/**
+ * Map a source record to CustomerKYCData - throws naming the first missing or invalid field
+ */
+export function mapKycRecord(record: Record<string, unknown>, mapping: KycFieldMapping = {}): CustomerKYCData {
+  if (!record || typeof record !== 'object' || Array.isArray(record)) {
+    throw new Error('KYC record must be an object');
+  }
+
+  const customer: Record<string, unknown> = {};
+  for (const field of KYC_FIELDS) {
+    const source = mapping[field] || field;
+    const value = readField(record, source);
+    if (value === undefined || value === null || value === '') {
+      if (field === 'userDid') {
+        continue;
+      }
+      throw new Error(`Missing KYC field: ${source}`);
+    }
+    customer[field] = convertField(field, value);
+  }
+
+  if ((customer.jurisdictions as string[]).length === 0) {
+    throw new Error('Missing KYC field: at least one jurisdiction is required');
+  }
+  return customer as unknown as CustomerKYCData;
+}
@@ -0,0 +1,214 @@
+/**
+ * SQLite Audit Log Store
+ * File-backed audit log using an embedded SQLite database (sql.js); triggers refuse updates and deletes
+ */
+
+import fs from 'fs';
+import path from 'path';
+import initSqlJs, { Database, SqlValue } from 'sql.js';
+import { AuditAction, AuditCheckpoint, AuditEntry, AuditOutcome, Proof } from '../types/credentials';
+import { normalizePagination } from './credential-repository';
+import { AuditLogStore, assertNextSequence } from './audit-log-store';
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS audit_entries (
+    sequence INTEGER PRIMARY KEY,
+    timestamp TEXT NOT NULL,
+    action TEXT NOT NULL,
+    actor TEXT NOT NULL,
+    issuer_did TEXT,
+    customer_kyc_id TEXT,
+    credential_id TEXT,
+    outcome TEXT NOT NULL,
+    error TEXT,
+    previous_hash TEXT NOT NULL,
+    hash TEXT NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS idx_audit_issuer ON audit_entries (issuer_did);
+  CREATE INDEX IF NOT EXISTS idx_audit_kyc ON audit_entries (customer_kyc_id);
+  CREATE INDEX IF NOT EXISTS idx_audit_credential ON audit_entries (credential_id);
+  CREATE TABLE IF NOT EXISTS audit_checkpoints (
+    sequence INTEGER NOT NULL,
+    hash TEXT NOT NULL,
+    created_at TEXT NOT NULL,
+    proof TEXT NOT NULL
+  );
+  CREATE TRIGGER IF NOT EXISTS audit_entries_no_update BEFORE UPDATE ON audit_entries
+    BEGIN SELECT RAISE(ABORT, 'audit log is append-only'); END;
+  CREATE TRIGGER IF NOT EXISTS audit_entries_no_delete BEFORE DELETE ON audit_entries
+    BEGIN SELECT RAISE(ABORT, 'audit log is append-only'); END;
+  CREATE TRIGGER IF NOT EXISTS audit_checkpoints_no_update BEFORE UPDATE ON audit_checkpoints
+    BEGIN SELECT RAISE(ABORT, 'audit log is append-only'); END;
+  CREATE TRIGGER IF NOT EXISTS audit_checkpoints_no_delete BEFORE DELETE ON audit_checkpoints
+    BEGIN SELECT RAISE(ABORT, 'audit log is append-only'); END;
+`;
+
+/**
+ * Convert a result row to an audit entry
+ */
+function rowToEntry(row: Record<string, SqlValue>): AuditEntry {
+  return {
+    sequence: row.sequence as number,
+    timestamp: row.timestamp as string,
+    action: row.action as AuditAction,
+    actor: row.actor as string,
+    issuerDid: (row.issuer_did as string | null) ?? null,
+    customerKycId: (row.customer_kyc_id as string | null) ?? null,
+    credentialId: (row.credential_id as string | null) ?? null,
+    outcome: row.outcome as AuditOutcome,
+    error: (row.error as string | null) ?? null,
+    previousHash: row.previous_hash as string,
+    hash: row.hash as string
+  };
+}
+
+/**
+ * Run a SELECT and return all rows as objects
+ */
+function selectAll(db: Database, sql: string, params: SqlValue[] = []): Array<Record<string, SqlValue>> {
+  const statement = db.prepare(sql);
+  try {
+    statement.bind(params);
+    const rows: Array<Record<string, SqlValue>> = [];
+    while (statement.step()) {
+      rows.push(statement.getAsObject());
+    }
+    return rows;
+  } finally {
+    statement.free();
+  }
+}
+
+/**
+ * Create an audit log store persisted to a SQLite database file.
+ * The database is loaded from `filePath` if it exists and written back after every append;
+ * omit `filePath` for a purely in-process SQLite database. With `readOnly` the file is never written
+ * and appends are refused (for verifying a copy handed to examiners).
+ */
+export async function createSqliteAuditLogStore(
+  filePath?: string,
+  options: { readOnly?: boolean } = {}
+): Promise<AuditLogStore> {
+  const SQL = await initSqlJs();
+  const db = filePath && fs.existsSync(filePath)
+    ? new SQL.Database(fs.readFileSync(filePath))
+    : new SQL.Database();
+  db.run(SCHEMA);
+
+  const persist = (): void => {
+    if (!filePath) {
+      return;
+    }
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(filePath, Buffer.from(db.export()));
+  };
+  if (!options.readOnly) {
+    persist();
+  }
+
+  const getLastEntry = (): AuditEntry | null => {
+    const rows = selectAll(db, 'SELECT * FROM audit_entries ORDER BY sequence DESC LIMIT 1');
+    return rows.length > 0 ? rowToEntry(rows[0]) : null;
+  };
+
+  return {
+    async append(entry) {
+      if (options.readOnly) {
+        throw new Error('Audit log store is read-only');
+      }
+      assertNextSequence(entry, getLastEntry());
+      db.run(
+        `INSERT INTO audit_entries
+           (sequence, timestamp, action, actor, issuer_did, customer_kyc_id, credential_id, outcome, error,
+            previous_hash, hash)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+        [
+          entry.sequence,
+          entry.timestamp,
+          entry.action,
+          entry.actor,
+          entry.issuerDid,
+          entry.customerKycId,
+          entry.credentialId,
+          entry.outcome,
+          entry.error,
+          entry.previousHash,
+          entry.hash
+        ]
+      );
+      persist();
+    },
+
+    async getLastEntry() {
+      return getLastEntry();
+    },
+
+    async getEntries() {
+      return selectAll(db, 'SELECT * FROM audit_entries ORDER BY sequence ASC').map(rowToEntry);
+    },
+
+    async find(query) {
+      const { limit, offset } = normalizePagination(query);
+      const conditions: string[] = [];
+      const params: SqlValue[] = [];
+
+      const columns: Array<[keyof typeof query, string]> = [
+        ['action', 'action'],
+        ['actor', 'actor'],
+        ['issuer', 'issuer_did'],
+        ['customerKycId', 'customer_kyc_id'],
+        ['credentialId', 'credential_id'],
+        ['outcome', 'outcome']
+      ];
+      for (const [field, column] of columns) {
+        if (query[field]) {
+          conditions.push(`${column} = ?`);
+          params.push(query[field] as string);
+        }
+      }
+      if (query.from) {
+        conditions.push('timestamp >= ?');
+        params.push(new Date(query.from).toISOString());
+      }
+      if (query.to) {
+        conditions.push('timestamp <= ?');
+        params.push(new Date(query.to).toISOString());
+      }
+
+      const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+      const [{ total }] = selectAll(db, `SELECT COUNT(*) AS total FROM audit_entries ${where}`, params);
+      const rows = selectAll(
+        db,
+        `SELECT * FROM audit_entries ${where} ORDER BY sequence DESC LIMIT ? OFFSET ?`,
+        [...params, limit, offset]
+      );
+
+      return {
+        items: rows.map(rowToEntry),
+        total: total as number,
+        limit,
+        offset
+      };
+    },
+
+    async appendCheckpoint(checkpoint) {
+      if (options.readOnly) {
+        throw new Error('Audit log store is read-only');
+      }
+      db.run(
+        'INSERT INTO audit_checkpoints (sequence, hash, created_at, proof) VALUES (?, ?, ?, ?)',
+        [checkpoint.sequence, checkpoint.hash, checkpoint.createdAt, JSON.stringify(checkpoint.proof)]
+      );
+      persist();
+    },
+
+    async getCheckpoints() {
+      return selectAll(db, 'SELECT * FROM audit_checkpoints ORDER BY rowid ASC').map(row => ({
+        sequence: row.sequence as number,
+        hash: row.hash as string,
+        createdAt: row.created_at as string,
+        proof: JSON.parse(row.proof as string) as Proof
+      }));
+    }
+  };
+}
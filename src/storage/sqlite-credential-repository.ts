@@ -0,0 +1,159 @@
+/**
+ * SQLite Credential Repository
+ * File-backed credential storage using an embedded SQLite database (sql.js)
+ */
+
+import fs from 'fs';
+import path from 'path';
+import initSqlJs, { Database, SqlValue } from 'sql.js';
+import { CredentialRecord, VerifiableCredential } from '../types/credentials';
+import { CredentialRepository, normalizePagination } from './credential-repository';
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS credentials (
+    id TEXT PRIMARY KEY,
+    customer_kyc_id TEXT NOT NULL,
+    subject_id TEXT NOT NULL,
+    issuer_did TEXT NOT NULL,
+    issued_at TEXT NOT NULL,
+    expires_at TEXT NOT NULL,
+    revoked_at TEXT,
+    credential TEXT NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS idx_credentials_subject ON credentials (subject_id);
+  CREATE INDEX IF NOT EXISTS idx_credentials_kyc ON credentials (customer_kyc_id);
+  CREATE INDEX IF NOT EXISTS idx_credentials_issuer ON credentials (issuer_did);
+`;
+
+/**
+ * Convert a result row to a credential record
+ */
+function rowToRecord(row: Record<string, SqlValue>): CredentialRecord {
+  return {
+    id: row.id as string,
+    customerKycId: row.customer_kyc_id as string,
+    subjectId: row.subject_id as string,
+    issuerDid: row.issuer_did as string,
+    issuedAt: row.issued_at as string,
+    expiresAt: row.expires_at as string,
+    revokedAt: (row.revoked_at as string | null) ?? null,
+    credential: JSON.parse(row.credential as string) as VerifiableCredential
+  };
+}
+
+/**
+ * Run a SELECT and return all rows as objects
+ */
+function selectAll(db: Database, sql: string, params: SqlValue[]): Array<Record<string, SqlValue>> {
+  const statement = db.prepare(sql);
+  try {
+    statement.bind(params);
+    const rows: Array<Record<string, SqlValue>> = [];
+    while (statement.step()) {
+      rows.push(statement.getAsObject());
+    }
+    return rows;
+  } finally {
+    statement.free();
+  }
+}
+
+/**
+ * Create a repository persisted to a SQLite database file.
+ * The database is loaded from `filePath` if it exists and written back after every change;
+ * omit `filePath` for a purely in-process SQLite database.
+ */
+export async function createSqliteCredentialRepository(
+  filePath?: string
+): Promise<CredentialRepository> {
+  const SQL = await initSqlJs();
+  const db = filePath && fs.existsSync(filePath)
+    ? new SQL.Database(fs.readFileSync(filePath))
+    : new SQL.Database();
+  db.run(SCHEMA);
+
+  const persist = (): void => {
+    if (!filePath) {
+      return;
+    }
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(filePath, Buffer.from(db.export()));
+  };
+  persist();
+
+  return {
+    async save(record) {
+      db.run(
+        `INSERT OR REPLACE INTO credentials
+           (id, customer_kyc_id, subject_id, issuer_did, issued_at, expires_at, revoked_at, credential)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+        [
+          record.id,
+          record.customerKycId,
+          record.subjectId,
+          record.issuerDid,
+          record.issuedAt,
+          record.expiresAt,
+          record.revokedAt,
+          JSON.stringify(record.credential)
+        ]
+      );
+      persist();
+    },
+
+    async findById(id) {
+      const rows = selectAll(db, 'SELECT * FROM credentials WHERE id = ?', [id]);
+      return rows.length > 0 ? rowToRecord(rows[0]) : null;
+    },
+
+    async find(query) {
+      const { limit, offset } = normalizePagination(query);
+      const conditions: string[] = [];
+      const params: SqlValue[] = [];
+
+      if (query.subject) {
+        conditions.push('(subject_id = ? OR customer_kyc_id = ?)');
+        params.push(query.subject, query.subject);
+      }
+      if (query.issuer) {
+        conditions.push('issuer_did = ?');
+        params.push(query.issuer);
+      }
+      if (query.status) {
+        const now = new Date().toISOString();
+        if (query.status === 'revoked') {
+          conditions.push('revoked_at IS NOT NULL');
+        } else if (query.status === 'expired') {
+          conditions.push('revoked_at IS NULL AND expires_at < ?');
+          params.push(now);
+        } else {
+          conditions.push('revoked_at IS NULL AND expires_at >= ?');
+          params.push(now);
+        }
+      }
+      if (query.issuedAfter) {
+        conditions.push('issued_at >= ?');
+        params.push(new Date(query.issuedAfter).toISOString());
+      }
+      if (query.issuedBefore) {
+        conditions.push('issued_at <= ?');
+        params.push(new Date(query.issuedBefore).toISOString());
+      }
+
+      const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+      const [{ total }] = selectAll(db, `SELECT COUNT(*) AS total FROM credentials ${where}`, params);
+      const rows = selectAll(
+        db,
+        `SELECT * FROM credentials ${where} ORDER BY issued_at DESC LIMIT ? OFFSET ?`,
+        [...params, limit, offset]
+      );
+
+      return {
+        items: rows.map(rowToRecord),
+        total: total as number,
+        limit,
+        offset
+      };
+    }
+  };
+}
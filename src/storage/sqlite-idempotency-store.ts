@@ -0,0 +1,113 @@
+/**
+ * SQLite Idempotency Store
+ * File-backed idempotency keys using an embedded SQLite database (sql.js)
+ */
+
+import fs from 'fs';
+import path from 'path';
+import initSqlJs, { Database, SqlValue } from 'sql.js';
+import { IdempotencyRecord, IdempotencyStore } from './idempotency-store';
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS idempotency_keys (
+    client_id TEXT NOT NULL,
+    idempotency_key TEXT NOT NULL,
+    request_hash TEXT NOT NULL,
+    expires_at INTEGER NOT NULL,
+    result TEXT,
+    PRIMARY KEY (client_id, idempotency_key)
+  );
+  CREATE INDEX IF NOT EXISTS idx_idempotency_keys_expires_at ON idempotency_keys (expires_at);
+`;
+
+/**
+ * Convert a result row to an idempotency record
+ */
+function rowToRecord(row: Record<string, SqlValue>): IdempotencyRecord {
+  return {
+    requestHash: row.request_hash as string,
+    expiresAt: row.expires_at as number,
+    ...(row.result !== null && { result: JSON.parse(row.result as string) })
+  };
+}
+
+/**
+ * Run a SELECT and return all rows as objects
+ */
+function selectAll(db: Database, sql: string, params: SqlValue[] = []): Array<Record<string, SqlValue>> {
+  const statement = db.prepare(sql);
+  try {
+    statement.bind(params);
+    const rows: Array<Record<string, SqlValue>> = [];
+    while (statement.step()) {
+      rows.push(statement.getAsObject());
+    }
+    return rows;
+  } finally {
+    statement.free();
+  }
+}
+
+/**
+ * Create an idempotency store persisted to a SQLite database file.
+ * The database is loaded from `filePath` if it exists and written back after every change;
+ * omit `filePath` for a purely in-process SQLite database.
+ * Keys still without a result on load belong to requests cut off by a restart and are released for a retry.
+ */
+export async function createSqliteIdempotencyStore(filePath?: string): Promise<IdempotencyStore> {
+  const SQL = await initSqlJs();
+  const db = filePath && fs.existsSync(filePath)
+    ? new SQL.Database(fs.readFileSync(filePath))
+    : new SQL.Database();
+  db.run(SCHEMA);
+  db.run('DELETE FROM idempotency_keys WHERE result IS NULL');
+
+  const persist = (): void => {
+    if (!filePath) {
+      return;
+    }
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(filePath, Buffer.from(db.export()));
+  };
+  persist();
+
+  return {
+    async claim(clientId, key, record) {
+      const [row] = selectAll(
+        db,
+        'SELECT * FROM idempotency_keys WHERE client_id = ? AND idempotency_key = ?',
+        [clientId, key]
+      );
+      if (row) {
+        return rowToRecord(row);
+      }
+      db.run(
+        `INSERT INTO idempotency_keys (client_id, idempotency_key, request_hash, expires_at, result)
+         VALUES (?, ?, ?, ?, NULL)`,
+        [clientId, key, record.requestHash, record.expiresAt]
+      );
+      persist();
+      return null;
+    },
+
+    async complete(clientId, key, result) {
+      db.run(
+        'UPDATE idempotency_keys SET result = ? WHERE client_id = ? AND idempotency_key = ?',
+        [JSON.stringify(result ?? null), clientId, key]
+      );
+      persist();
+    },
+
+    async release(clientId, key) {
+      db.run('DELETE FROM idempotency_keys WHERE client_id = ? AND idempotency_key = ?', [clientId, key]);
+      persist();
+    },
+
+    async pruneExpired(now) {
+      db.run('DELETE FROM idempotency_keys WHERE expires_at <= ?', [now]);
+      if (db.getRowsModified() > 0) {
+        persist();
+      }
+    }
+  };
+}
@@ -0,0 +1,243 @@
+/**
+ * SQLite Issuance Job Store
+ * File-backed issuance jobs using an embedded SQLite database (sql.js)
+ */
+
+import fs from 'fs';
+import path from 'path';
+import initSqlJs, { Database, SqlValue } from 'sql.js';
+import { IssuanceJob, IssuanceJobRow, IssuanceJobRowStatus, IssuanceJobStatus } from '../types/credentials';
+import { normalizePagination } from './credential-repository';
+import { IssuanceJobStore } from './issuance-job-store';
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS issuance_jobs (
+    id TEXT PRIMARY KEY,
+    client_id TEXT NOT NULL,
+    authorized_issuer_dids TEXT NOT NULL,
+    status TEXT NOT NULL,
+    total INTEGER NOT NULL,
+    succeeded INTEGER NOT NULL,
+    failed INTEGER NOT NULL,
+    created_at TEXT NOT NULL,
+    started_at TEXT,
+    completed_at TEXT,
+    cancelled_at TEXT
+  );
+  CREATE TABLE IF NOT EXISTS issuance_job_rows (
+    job_id TEXT NOT NULL,
+    row_index INTEGER NOT NULL,
+    request TEXT,
+    status TEXT NOT NULL,
+    credential_id TEXT,
+    credential TEXT,
+    pii_salts TEXT,
+    error TEXT,
+    completed_at TEXT,
+    PRIMARY KEY (job_id, row_index)
+  );
+  CREATE INDEX IF NOT EXISTS idx_issuance_job_rows_status ON issuance_job_rows (job_id, status);
+`;
+
+/**
+ * Convert a result row to an issuance job
+ */
+function rowToJob(row: Record<string, SqlValue>): IssuanceJob {
+  return {
+    id: row.id as string,
+    clientId: row.client_id as string,
+    authorizedIssuerDids: JSON.parse(row.authorized_issuer_dids as string) as string[],
+    status: row.status as IssuanceJobStatus,
+    total: row.total as number,
+    succeeded: row.succeeded as number,
+    failed: row.failed as number,
+    createdAt: row.created_at as string,
+    startedAt: (row.started_at as string | null) ?? null,
+    completedAt: (row.completed_at as string | null) ?? null,
+    cancelledAt: (row.cancelled_at as string | null) ?? null
+  };
+}
+
+/**
+ * Convert a result row to an issuance job row
+ */
+function rowToJobRow(row: Record<string, SqlValue>): IssuanceJobRow {
+  const parse = (value: SqlValue) => (value === null ? null : JSON.parse(value as string));
+  return {
+    jobId: row.job_id as string,
+    index: row.row_index as number,
+    request: parse(row.request),
+    status: row.status as IssuanceJobRowStatus,
+    credentialId: (row.credential_id as string | null) ?? null,
+    credential: parse(row.credential),
+    piiSalts: parse(row.pii_salts),
+    error: (row.error as string | null) ?? null,
+    completedAt: (row.completed_at as string | null) ?? null
+  };
+}
+
+/**
+ * Column values of an issuance job row, in INSERT order
+ */
+function jobRowValues(row: IssuanceJobRow): SqlValue[] {
+  const stringify = (value: unknown) => (value === null ? null : JSON.stringify(value));
+  return [
+    row.jobId,
+    row.index,
+    stringify(row.request),
+    row.status,
+    row.credentialId,
+    stringify(row.credential),
+    stringify(row.piiSalts),
+    row.error,
+    row.completedAt
+  ];
+}
+
+/**
+ * Run a SELECT and return all rows as objects
+ */
+function selectAll(db: Database, sql: string, params: SqlValue[] = []): Array<Record<string, SqlValue>> {
+  const statement = db.prepare(sql);
+  try {
+    statement.bind(params);
+    const rows: Array<Record<string, SqlValue>> = [];
+    while (statement.step()) {
+      rows.push(statement.getAsObject());
+    }
+    return rows;
+  } finally {
+    statement.free();
+  }
+}
+
+/**
+ * Create an issuance job store persisted to a SQLite database file.
+ * The database is loaded from `filePath` if it exists and written back after every change;
+ * omit `filePath` for a purely in-process SQLite database.
+ */
+export async function createSqliteIssuanceJobStore(filePath?: string): Promise<IssuanceJobStore> {
+  const SQL = await initSqlJs();
+  const db = filePath && fs.existsSync(filePath)
+    ? new SQL.Database(fs.readFileSync(filePath))
+    : new SQL.Database();
+  db.run(SCHEMA);
+
+  const persist = (): void => {
+    if (!filePath) {
+      return;
+    }
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(filePath, Buffer.from(db.export()));
+  };
+  persist();
+
+  const writeJob = (job: IssuanceJob): void => {
+    db.run(
+      `INSERT OR REPLACE INTO issuance_jobs
+         (id, client_id, authorized_issuer_dids, status, total, succeeded, failed, created_at, started_at,
+          completed_at, cancelled_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      [
+        job.id,
+        job.clientId,
+        JSON.stringify(job.authorizedIssuerDids),
+        job.status,
+        job.total,
+        job.succeeded,
+        job.failed,
+        job.createdAt,
+        job.startedAt,
+        job.completedAt,
+        job.cancelledAt
+      ]
+    );
+  };
+
+  // Rows are written in one transaction, so an upload or a page of results lands in a single file write
+  const writeRows = (rows: IssuanceJobRow[]): void => {
+    const statement = db.prepare(
+      `INSERT OR REPLACE INTO issuance_job_rows
+         (job_id, row_index, request, status, credential_id, credential, pii_salts, error, completed_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`
+    );
+    db.run('BEGIN');
+    try {
+      for (const row of rows) {
+        statement.run(jobRowValues(row));
+      }
+      db.run('COMMIT');
+    } catch (error) {
+      db.run('ROLLBACK');
+      throw error;
+    } finally {
+      statement.free();
+    }
+  };
+
+  return {
+    async createJob(job, rows) {
+      writeJob(job);
+      writeRows(rows);
+      persist();
+    },
+
+    async updateJob(job) {
+      if (selectAll(db, 'SELECT id FROM issuance_jobs WHERE id = ?', [job.id]).length === 0) {
+        throw new Error(`Issuance job not found: ${job.id}`);
+      }
+      writeJob(job);
+      persist();
+    },
+
+    async getJob(id) {
+      const rows = selectAll(db, 'SELECT * FROM issuance_jobs WHERE id = ?', [id]);
+      return rows.length > 0 ? rowToJob(rows[0]) : null;
+    },
+
+    async findUnfinishedJobs() {
+      return selectAll(
+        db,
+        `SELECT * FROM issuance_jobs WHERE status IN ('queued', 'running') ORDER BY created_at ASC`
+      ).map(rowToJob);
+    },
+
+    async getPendingRows(jobId, limit) {
+      return selectAll(
+        db,
+        `SELECT * FROM issuance_job_rows WHERE job_id = ? AND status = 'pending' ORDER BY row_index ASC LIMIT ?`,
+        [jobId, limit]
+      ).map(rowToJobRow);
+    },
+
+    async saveRows(rows) {
+      writeRows(rows);
+      persist();
+    },
+
+    async getRows(jobId, query) {
+      const { limit, offset } = normalizePagination(query);
+      const conditions = ['job_id = ?'];
+      const params: SqlValue[] = [jobId];
+      if (query.status) {
+        conditions.push('status = ?');
+        params.push(query.status);
+      }
+
+      const where = `WHERE ${conditions.join(' AND ')}`;
+      const [{ total }] = selectAll(db, `SELECT COUNT(*) AS total FROM issuance_job_rows ${where}`, params);
+      const rows = selectAll(
+        db,
+        `SELECT * FROM issuance_job_rows ${where} ORDER BY row_index ASC LIMIT ? OFFSET ?`,
+        [...params, limit, offset]
+      );
+
+      return {
+        items: rows.map(rowToJobRow),
+        total: total as number,
+        limit,
+        offset
+      };
+    }
+  };
+}
@@ -0,0 +1,121 @@
+/**
+ * SQLite Issuer Key Store
+ * File-backed issuer key sets using an embedded SQLite database (sql.js)
+ */
+
+import fs from 'fs';
+import path from 'path';
+import initSqlJs, { Database, SqlValue } from 'sql.js';
+import { IssuerKey, IssuerKeyStatus, SignatureAlgorithm } from '../types/credentials';
+import { IssuerKeyStore } from './issuer-key-store';
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS issuer_keys (
+    id TEXT PRIMARY KEY,
+    controller TEXT NOT NULL,
+    position INTEGER NOT NULL,
+    public_key TEXT NOT NULL,
+    signature_algorithm TEXT NOT NULL,
+    status TEXT NOT NULL,
+    activated_at TEXT NOT NULL,
+    retired_at TEXT,
+    revoked_at TEXT
+  );
+  CREATE INDEX IF NOT EXISTS idx_issuer_keys_controller ON issuer_keys (controller, position);
+`;
+
+/**
+ * Convert a result row to an issuer key
+ */
+function rowToKey(row: Record<string, SqlValue>): IssuerKey {
+  return {
+    id: row.id as string,
+    controller: row.controller as string,
+    publicKey: row.public_key as string,
+    signatureAlgorithm: row.signature_algorithm as SignatureAlgorithm,
+    status: row.status as IssuerKeyStatus,
+    activatedAt: row.activated_at as string,
+    ...(row.retired_at !== null && { retiredAt: row.retired_at as string }),
+    ...(row.revoked_at !== null && { revokedAt: row.revoked_at as string })
+  };
+}
+
+/**
+ * Run a SELECT and return all rows as objects
+ */
+function selectAll(db: Database, sql: string, params: SqlValue[] = []): Array<Record<string, SqlValue>> {
+  const statement = db.prepare(sql);
+  try {
+    statement.bind(params);
+    const rows: Array<Record<string, SqlValue>> = [];
+    while (statement.step()) {
+      rows.push(statement.getAsObject());
+    }
+    return rows;
+  } finally {
+    statement.free();
+  }
+}
+
+/**
+ * Create an issuer key store persisted to a SQLite database file.
+ * The database is loaded from `filePath` if it exists and written back after every change;
+ * omit `filePath` for a purely in-process SQLite database.
+ */
+export async function createSqliteIssuerKeyStore(filePath?: string): Promise<IssuerKeyStore> {
+  const SQL = await initSqlJs();
+  const db = filePath && fs.existsSync(filePath)
+    ? new SQL.Database(fs.readFileSync(filePath))
+    : new SQL.Database();
+  db.run(SCHEMA);
+
+  const persist = (): void => {
+    if (!filePath) {
+      return;
+    }
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(filePath, Buffer.from(db.export()));
+  };
+  persist();
+
+  return {
+    async saveKeySet(issuerDid, keys) {
+      db.run('BEGIN');
+      try {
+        db.run('DELETE FROM issuer_keys WHERE controller = ?', [issuerDid]);
+        keys.forEach((key, position) => {
+          db.run(
+            `INSERT INTO issuer_keys
+               (id, controller, position, public_key, signature_algorithm, status, activated_at, retired_at, revoked_at)
+             VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+            [
+              key.id,
+              issuerDid,
+              position,
+              key.publicKey,
+              key.signatureAlgorithm,
+              key.status,
+              key.activatedAt,
+              key.retiredAt ?? null,
+              key.revokedAt ?? null
+            ]
+          );
+        });
+        db.run('COMMIT');
+      } catch (error) {
+        db.run('ROLLBACK');
+        throw error;
+      }
+      persist();
+    },
+
+    async getKeySets() {
+      const keySets: Map<string, IssuerKey[]> = new Map();
+      for (const row of selectAll(db, 'SELECT * FROM issuer_keys ORDER BY controller ASC, position ASC')) {
+        const key = rowToKey(row);
+        keySets.set(key.controller, [...(keySets.get(key.controller) || []), key]);
+      }
+      return keySets;
+    }
+  };
+}
@@ -0,0 +1,159 @@
+/**
+ * SQLite KYC Change Store
+ * File-backed KYC change actions using an embedded SQLite database (sql.js)
+ */
+
+import fs from 'fs';
+import path from 'path';
+import initSqlJs, { Database, SqlValue } from 'sql.js';
+import { AuditOutcome, KycChangeAction, KycChangeActionType } from '../types/credentials';
+import { normalizePagination } from './credential-repository';
+import { KycChangeStore } from './kyc-change-store';
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS kyc_change_actions (
+    sequence INTEGER PRIMARY KEY AUTOINCREMENT,
+    id TEXT NOT NULL UNIQUE,
+    customer_kyc_id TEXT NOT NULL,
+    action TEXT NOT NULL,
+    reason TEXT NOT NULL,
+    changes TEXT NOT NULL,
+    credential_id TEXT NOT NULL,
+    issuer_did TEXT NOT NULL,
+    replacement_credential_id TEXT,
+    outcome TEXT NOT NULL,
+    error TEXT,
+    actor TEXT NOT NULL,
+    created_at TEXT NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS idx_kyc_change_actions_customer ON kyc_change_actions (customer_kyc_id);
+  CREATE INDEX IF NOT EXISTS idx_kyc_change_actions_credential ON kyc_change_actions (credential_id);
+  CREATE INDEX IF NOT EXISTS idx_kyc_change_actions_replacement ON kyc_change_actions (replacement_credential_id);
+`;
+
+/**
+ * Convert a result row to a KYC change action
+ */
+function rowToAction(row: Record<string, SqlValue>): KycChangeAction {
+  return {
+    id: row.id as string,
+    customerKycId: row.customer_kyc_id as string,
+    action: row.action as KycChangeActionType,
+    reason: row.reason as string,
+    changes: JSON.parse(row.changes as string),
+    credentialId: row.credential_id as string,
+    issuerDid: row.issuer_did as string,
+    replacementCredentialId: (row.replacement_credential_id as string | null) ?? null,
+    outcome: row.outcome as AuditOutcome,
+    error: (row.error as string | null) ?? null,
+    actor: row.actor as string,
+    createdAt: row.created_at as string
+  };
+}
+
+/**
+ * Run a SELECT and return all rows as objects
+ */
+function selectAll(db: Database, sql: string, params: SqlValue[] = []): Array<Record<string, SqlValue>> {
+  const statement = db.prepare(sql);
+  try {
+    statement.bind(params);
+    const rows: Array<Record<string, SqlValue>> = [];
+    while (statement.step()) {
+      rows.push(statement.getAsObject());
+    }
+    return rows;
+  } finally {
+    statement.free();
+  }
+}
+
+/**
+ * Create a KYC change store persisted to a SQLite database file.
+ * The database is loaded from `filePath` if it exists and written back after every change;
+ * omit `filePath` for a purely in-process SQLite database.
+ */
+export async function createSqliteKycChangeStore(filePath?: string): Promise<KycChangeStore> {
+  const SQL = await initSqlJs();
+  const db = filePath && fs.existsSync(filePath)
+    ? new SQL.Database(fs.readFileSync(filePath))
+    : new SQL.Database();
+  db.run(SCHEMA);
+  // Files written before PII salts were taken out of KYC change actions still hold them - erase them
+  if (selectAll(db, 'PRAGMA table_info(kyc_change_actions)').some(column => column.name === 'pii_salts')) {
+    db.run('UPDATE kyc_change_actions SET pii_salts = NULL');
+  }
+
+  const persist = (): void => {
+    if (!filePath) {
+      return;
+    }
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(filePath, Buffer.from(db.export()));
+  };
+  persist();
+
+  return {
+    async save(action) {
+      db.run(
+        `INSERT INTO kyc_change_actions
+           (id, customer_kyc_id, action, reason, changes, credential_id, issuer_did, replacement_credential_id,
+            outcome, error, actor, created_at)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+        [
+          action.id,
+          action.customerKycId,
+          action.action,
+          action.reason,
+          JSON.stringify(action.changes),
+          action.credentialId,
+          action.issuerDid,
+          action.replacementCredentialId,
+          action.outcome,
+          action.error,
+          action.actor,
+          action.createdAt
+        ]
+      );
+      persist();
+    },
+
+    async findByCustomer(customerKycId, query) {
+      const { limit, offset } = normalizePagination(query);
+      const conditions = ['customer_kyc_id = ?'];
+      const params: SqlValue[] = [customerKycId];
+      if (query.action) {
+        conditions.push('action = ?');
+        params.push(query.action);
+      }
+      if (query.issuer) {
+        conditions.push('issuer_did = ?');
+        params.push(query.issuer);
+      }
+
+      const where = `WHERE ${conditions.join(' AND ')}`;
+      const [{ total }] = selectAll(db, `SELECT COUNT(*) AS total FROM kyc_change_actions ${where}`, params);
+      const rows = selectAll(
+        db,
+        `SELECT * FROM kyc_change_actions ${where} ORDER BY sequence DESC LIMIT ? OFFSET ?`,
+        [...params, limit, offset]
+      );
+
+      return {
+        items: rows.map(rowToAction),
+        total: total as number,
+        limit,
+        offset
+      };
+    },
+
+    async findByCredential(credentialId) {
+      return selectAll(
+        db,
+        `SELECT * FROM kyc_change_actions WHERE credential_id = ? OR replacement_credential_id = ?
+         ORDER BY sequence ASC`,
+        [credentialId, credentialId]
+      ).map(rowToAction);
+    }
+  };
+}
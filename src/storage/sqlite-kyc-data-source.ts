@@ -0,0 +1,151 @@
+/**
+ * SQLite KYC Data Source
+ * File-backed customer KYC records using an embedded SQLite database (sql.js)
+ */
+
+import fs from 'fs';
+import path from 'path';
+import initSqlJs, { Database, SqlValue } from 'sql.js';
+import { CustomerKYCData } from '../types/credentials';
+import { WritableKycDataSource } from './kyc-data-source';
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS customers (
+    kyc_id TEXT PRIMARY KEY,
+    name TEXT NOT NULL,
+    date_of_birth TEXT NOT NULL,
+    citizenship TEXT NOT NULL,
+    address TEXT NOT NULL,
+    kyc_level TEXT NOT NULL,
+    aml_screening TEXT NOT NULL,
+    sanctions_check TEXT NOT NULL,
+    pep_screening TEXT NOT NULL,
+    source_of_funds TEXT NOT NULL,
+    accredited_investor INTEGER NOT NULL,
+    entity_type TEXT NOT NULL,
+    verified_amount REAL NOT NULL,
+    currency TEXT NOT NULL,
+    tier INTEGER NOT NULL,
+    jurisdictions TEXT NOT NULL,
+    user_did TEXT
+  );
+`;
+
+/**
+ * Convert a result row to customer KYC data
+ */
+function rowToCustomer(row: Record<string, SqlValue>): CustomerKYCData {
+  const customer: CustomerKYCData = {
+    kycId: row.kyc_id as string,
+    name: row.name as string,
+    dateOfBirth: row.date_of_birth as string,
+    citizenship: row.citizenship as string,
+    address: row.address as string,
+    kycLevel: row.kyc_level as CustomerKYCData['kycLevel'],
+    amlScreening: row.aml_screening as CustomerKYCData['amlScreening'],
+    sanctionsCheck: row.sanctions_check as CustomerKYCData['sanctionsCheck'],
+    pepScreening: row.pep_screening as CustomerKYCData['pepScreening'],
+    sourceOfFunds: row.source_of_funds as CustomerKYCData['sourceOfFunds'],
+    accreditedInvestor: row.accredited_investor === 1,
+    entityType: row.entity_type as CustomerKYCData['entityType'],
+    verifiedAmount: row.verified_amount as number,
+    currency: row.currency as string,
+    tier: row.tier as number,
+    jurisdictions: JSON.parse(row.jurisdictions as string) as string[]
+  };
+  if (row.user_did !== null) {
+    customer.userDid = row.user_did as string;
+  }
+  return customer;
+}
+
+/**
+ * Run a SELECT and return all rows as objects
+ */
+function selectAll(db: Database, sql: string, params: SqlValue[] = []): Array<Record<string, SqlValue>> {
+  const statement = db.prepare(sql);
+  try {
+    statement.bind(params);
+    const rows: Array<Record<string, SqlValue>> = [];
+    while (statement.step()) {
+      rows.push(statement.getAsObject());
+    }
+    return rows;
+  } finally {
+    statement.free();
+  }
+}
+
+/**
+ * Create a KYC data source persisted to a SQLite database file.
+ * The database is loaded from `filePath` if it exists and written back after every change;
+ * omit `filePath` for a purely in-process SQLite database.
+ */
+export async function createSqliteKycDataSource(filePath?: string): Promise<WritableKycDataSource> {
+  const SQL = await initSqlJs();
+  const db = filePath && fs.existsSync(filePath)
+    ? new SQL.Database(fs.readFileSync(filePath))
+    : new SQL.Database();
+  db.run(SCHEMA);
+
+  const persist = (): void => {
+    if (!filePath) {
+      return;
+    }
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(filePath, Buffer.from(db.export()));
+  };
+  persist();
+
+  return {
+    name: 'sqlite',
+
+    async getCustomer(kycId) {
+      const rows = selectAll(db, 'SELECT * FROM customers WHERE kyc_id = ?', [kycId]);
+      return rows.length > 0 ? rowToCustomer(rows[0]) : null;
+    },
+
+    async listCustomers() {
+      return selectAll(db, 'SELECT * FROM customers ORDER BY kyc_id ASC').map(rowToCustomer);
+    },
+
+    async upsertCustomer(customer) {
+      db.run(
+        `INSERT OR REPLACE INTO customers
+           (kyc_id, name, date_of_birth, citizenship, address, kyc_level, aml_screening, sanctions_check,
+            pep_screening, source_of_funds, accredited_investor, entity_type, verified_amount, currency, tier,
+            jurisdictions, user_did)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+        [
+          customer.kycId,
+          customer.name,
+          customer.dateOfBirth,
+          customer.citizenship,
+          customer.address,
+          customer.kycLevel,
+          customer.amlScreening,
+          customer.sanctionsCheck,
+          customer.pepScreening,
+          customer.sourceOfFunds,
+          customer.accreditedInvestor ? 1 : 0,
+          customer.entityType,
+          customer.verifiedAmount,
+          customer.currency,
+          customer.tier,
+          JSON.stringify(customer.jurisdictions),
+          customer.userDid ?? null
+        ]
+      );
+      persist();
+    },
+
+    async deleteCustomer(kycId) {
+      db.run('DELETE FROM customers WHERE kyc_id = ?', [kycId]);
+      const deleted = db.getRowsModified() > 0;
+      if (deleted) {
+        persist();
+      }
+      return deleted;
+    }
+  };
+}
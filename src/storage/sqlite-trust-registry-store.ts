@@ -0,0 +1,154 @@
+/**
+ * SQLite Trust Registry Store
+ * File-backed trust registry entries and registered issuers using an embedded SQLite database (sql.js)
+ */
+
+import fs from 'fs';
+import path from 'path';
+import initSqlJs, { Database, SqlValue } from 'sql.js';
+import {
+  BankIssuer,
+  IssuerAccreditation,
+  IssuerSuspension,
+  IssuerTrustStatus,
+  SignatureAlgorithm,
+  TrustRegistryEntry
+} from '../types/credentials';
+import { TrustRegistryStore } from './trust-registry-store';
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS registered_issuers (
+    sequence INTEGER PRIMARY KEY AUTOINCREMENT,
+    did TEXT NOT NULL UNIQUE,
+    name TEXT NOT NULL,
+    jurisdiction TEXT NOT NULL,
+    regulators TEXT NOT NULL,
+    tier INTEGER NOT NULL,
+    public_key TEXT NOT NULL,
+    signature_algorithm TEXT NOT NULL
+  );
+  CREATE TABLE IF NOT EXISTS trust_registry_entries (
+    issuer_did TEXT PRIMARY KEY,
+    name TEXT NOT NULL,
+    status TEXT NOT NULL,
+    accreditations TEXT NOT NULL,
+    suspensions TEXT NOT NULL,
+    updated_at TEXT NOT NULL
+  );
+`;
+
+/**
+ * Convert a result row to a registered issuer
+ */
+function rowToIssuer(row: Record<string, SqlValue>): BankIssuer {
+  return {
+    did: row.did as string,
+    name: row.name as string,
+    jurisdiction: JSON.parse(row.jurisdiction as string) as string[],
+    regulators: JSON.parse(row.regulators as string) as string[],
+    tier: row.tier as number,
+    publicKey: row.public_key as string,
+    signatureAlgorithm: row.signature_algorithm as SignatureAlgorithm
+  };
+}
+
+/**
+ * Convert a result row to a trust registry entry
+ */
+function rowToEntry(row: Record<string, SqlValue>): TrustRegistryEntry {
+  return {
+    issuerDid: row.issuer_did as string,
+    name: row.name as string,
+    status: row.status as IssuerTrustStatus,
+    accreditations: JSON.parse(row.accreditations as string) as IssuerAccreditation[],
+    suspensions: JSON.parse(row.suspensions as string) as IssuerSuspension[],
+    updatedAt: row.updated_at as string
+  };
+}
+
+/**
+ * Run a SELECT and return all rows as objects
+ */
+function selectAll(db: Database, sql: string, params: SqlValue[] = []): Array<Record<string, SqlValue>> {
+  const statement = db.prepare(sql);
+  try {
+    statement.bind(params);
+    const rows: Array<Record<string, SqlValue>> = [];
+    while (statement.step()) {
+      rows.push(statement.getAsObject());
+    }
+    return rows;
+  } finally {
+    statement.free();
+  }
+}
+
+/**
+ * Create a trust registry store persisted to a SQLite database file.
+ * The database is loaded from `filePath` if it exists and written back after every change;
+ * omit `filePath` for a purely in-process SQLite database.
+ */
+export async function createSqliteTrustRegistryStore(filePath?: string): Promise<TrustRegistryStore> {
+  const SQL = await initSqlJs();
+  const db = filePath && fs.existsSync(filePath)
+    ? new SQL.Database(fs.readFileSync(filePath))
+    : new SQL.Database();
+  db.run(SCHEMA);
+
+  const persist = (): void => {
+    if (!filePath) {
+      return;
+    }
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(filePath, Buffer.from(db.export()));
+  };
+  persist();
+
+  return {
+    async saveIssuer(issuer) {
+      db.run(
+        `INSERT INTO registered_issuers
+           (did, name, jurisdiction, regulators, tier, public_key, signature_algorithm)
+         VALUES (?, ?, ?, ?, ?, ?, ?)
+         ON CONFLICT (did) DO UPDATE SET
+           name = excluded.name, jurisdiction = excluded.jurisdiction, regulators = excluded.regulators,
+           tier = excluded.tier, public_key = excluded.public_key, signature_algorithm = excluded.signature_algorithm`,
+        [
+          issuer.did,
+          issuer.name,
+          JSON.stringify(issuer.jurisdiction),
+          JSON.stringify(issuer.regulators),
+          issuer.tier,
+          issuer.publicKey,
+          issuer.signatureAlgorithm
+        ]
+      );
+      persist();
+    },
+
+    async getIssuers() {
+      return selectAll(db, 'SELECT * FROM registered_issuers ORDER BY sequence ASC').map(rowToIssuer);
+    },
+
+    async saveEntry(entry) {
+      db.run(
+        `INSERT OR REPLACE INTO trust_registry_entries
+           (issuer_did, name, status, accreditations, suspensions, updated_at)
+         VALUES (?, ?, ?, ?, ?, ?)`,
+        [
+          entry.issuerDid,
+          entry.name,
+          entry.status,
+          JSON.stringify(entry.accreditations),
+          JSON.stringify(entry.suspensions),
+          entry.updatedAt
+        ]
+      );
+      persist();
+    },
+
+    async getEntries() {
+      return selectAll(db, 'SELECT * FROM trust_registry_entries').map(rowToEntry);
+    }
+  };
+}
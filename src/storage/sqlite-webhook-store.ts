@@ -0,0 +1,262 @@
+/**
+ * SQLite Webhook Store
+ * File-backed webhook subscriptions and delivery log using an embedded SQLite database (sql.js)
+ */
+
+import fs from 'fs';
+import path from 'path';
+import initSqlJs, { Database, SqlValue } from 'sql.js';
+import {
+  WebhookDelivery,
+  WebhookDeliveryStatus,
+  WebhookEvent,
+  WebhookEventType,
+  WebhookSubscription
+} from '../types/credentials';
+import { normalizePagination } from './credential-repository';
+import { WebhookStore } from './webhook-store';
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS webhook_subscriptions (
+    id TEXT PRIMARY KEY,
+    client_id TEXT NOT NULL,
+    issuer_dids TEXT NOT NULL,
+    url TEXT NOT NULL,
+    event_types TEXT NOT NULL,
+    expiring_days INTEGER NOT NULL,
+    secret TEXT NOT NULL,
+    created_at TEXT NOT NULL
+  );
+  CREATE TABLE IF NOT EXISTS webhook_deliveries (
+    sequence INTEGER PRIMARY KEY AUTOINCREMENT,
+    id TEXT NOT NULL UNIQUE,
+    subscription_id TEXT NOT NULL,
+    client_id TEXT NOT NULL,
+    event_type TEXT NOT NULL,
+    credential_id TEXT,
+    event TEXT NOT NULL,
+    url TEXT NOT NULL,
+    status TEXT NOT NULL,
+    attempts INTEGER NOT NULL,
+    next_attempt_at TEXT,
+    last_attempt_at TEXT,
+    response_status INTEGER,
+    error TEXT,
+    replay_of TEXT,
+    created_at TEXT NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS idx_webhook_subscriptions_client ON webhook_subscriptions (client_id);
+  CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_client ON webhook_deliveries (client_id);
+  CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_status ON webhook_deliveries (status);
+  CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_credential ON webhook_deliveries (subscription_id, credential_id);
+`;
+
+/**
+ * Convert a result row to a webhook subscription
+ */
+function rowToSubscription(row: Record<string, SqlValue>): WebhookSubscription {
+  return {
+    id: row.id as string,
+    clientId: row.client_id as string,
+    issuerDids: JSON.parse(row.issuer_dids as string) as string[],
+    url: row.url as string,
+    eventTypes: JSON.parse(row.event_types as string) as WebhookEventType[],
+    expiringDays: row.expiring_days as number,
+    secret: row.secret as string,
+    createdAt: row.created_at as string
+  };
+}
+
+/**
+ * Convert a result row to a webhook delivery
+ */
+function rowToDelivery(row: Record<string, SqlValue>): WebhookDelivery {
+  return {
+    id: row.id as string,
+    subscriptionId: row.subscription_id as string,
+    clientId: row.client_id as string,
+    event: JSON.parse(row.event as string) as WebhookEvent,
+    url: row.url as string,
+    status: row.status as WebhookDeliveryStatus,
+    attempts: row.attempts as number,
+    nextAttemptAt: (row.next_attempt_at as string | null) ?? null,
+    lastAttemptAt: (row.last_attempt_at as string | null) ?? null,
+    responseStatus: (row.response_status as number | null) ?? null,
+    error: (row.error as string | null) ?? null,
+    replayOf: (row.replay_of as string | null) ?? null,
+    createdAt: row.created_at as string
+  };
+}
+
+/**
+ * Run a SELECT and return all rows as objects
+ */
+function selectAll(db: Database, sql: string, params: SqlValue[] = []): Array<Record<string, SqlValue>> {
+  const statement = db.prepare(sql);
+  try {
+    statement.bind(params);
+    const rows: Array<Record<string, SqlValue>> = [];
+    while (statement.step()) {
+      rows.push(statement.getAsObject());
+    }
+    return rows;
+  } finally {
+    statement.free();
+  }
+}
+
+/**
+ * Create a webhook store persisted to a SQLite database file.
+ * The database is loaded from `filePath` if it exists and written back after every change;
+ * omit `filePath` for a purely in-process SQLite database.
+ */
+export async function createSqliteWebhookStore(filePath?: string): Promise<WebhookStore> {
+  const SQL = await initSqlJs();
+  const db = filePath && fs.existsSync(filePath)
+    ? new SQL.Database(fs.readFileSync(filePath))
+    : new SQL.Database();
+  db.run(SCHEMA);
+
+  const persist = (): void => {
+    if (!filePath) {
+      return;
+    }
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(filePath, Buffer.from(db.export()));
+  };
+  persist();
+
+  return {
+    async saveSubscription(subscription) {
+      db.run(
+        `INSERT OR REPLACE INTO webhook_subscriptions
+           (id, client_id, issuer_dids, url, event_types, expiring_days, secret, created_at)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+        [
+          subscription.id,
+          subscription.clientId,
+          JSON.stringify(subscription.issuerDids),
+          subscription.url,
+          JSON.stringify(subscription.eventTypes),
+          subscription.expiringDays,
+          subscription.secret,
+          subscription.createdAt
+        ]
+      );
+      persist();
+    },
+
+    async getSubscription(id) {
+      const rows = selectAll(db, 'SELECT * FROM webhook_subscriptions WHERE id = ?', [id]);
+      return rows.length > 0 ? rowToSubscription(rows[0]) : null;
+    },
+
+    async deleteSubscription(id) {
+      if (selectAll(db, 'SELECT id FROM webhook_subscriptions WHERE id = ?', [id]).length === 0) {
+        return false;
+      }
+      db.run('DELETE FROM webhook_subscriptions WHERE id = ?', [id]);
+      persist();
+      return true;
+    },
+
+    async findSubscriptions(query) {
+      const conditions: string[] = [];
+      const params: SqlValue[] = [];
+      if (query.clientId) {
+        conditions.push('client_id = ?');
+        params.push(query.clientId);
+      }
+
+      const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+      return selectAll(db, `SELECT * FROM webhook_subscriptions ${where} ORDER BY created_at ASC`, params)
+        .map(rowToSubscription)
+        .filter(subscription => !query.eventType || subscription.eventTypes.includes(query.eventType));
+    },
+
+    async saveDelivery(delivery) {
+      const values: SqlValue[] = [
+        delivery.subscriptionId,
+        delivery.clientId,
+        delivery.event.type,
+        delivery.event.credentialId,
+        JSON.stringify(delivery.event),
+        delivery.url,
+        delivery.status,
+        delivery.attempts,
+        delivery.nextAttemptAt,
+        delivery.lastAttemptAt,
+        delivery.responseStatus,
+        delivery.error,
+        delivery.replayOf,
+        delivery.createdAt
+      ];
+      // Updates keep the delivery's place in the log
+      if (selectAll(db, 'SELECT id FROM webhook_deliveries WHERE id = ?', [delivery.id]).length > 0) {
+        db.run(
+          `UPDATE webhook_deliveries SET
+             subscription_id = ?, client_id = ?, event_type = ?, credential_id = ?, event = ?, url = ?, status = ?,
+             attempts = ?, next_attempt_at = ?, last_attempt_at = ?, response_status = ?, error = ?, replay_of = ?,
+             created_at = ?
+           WHERE id = ?`,
+          [...values, delivery.id]
+        );
+      } else {
+        db.run(
+          `INSERT INTO webhook_deliveries
+             (subscription_id, client_id, event_type, credential_id, event, url, status, attempts, next_attempt_at,
+              last_attempt_at, response_status, error, replay_of, created_at, id)
+           VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+          [...values, delivery.id]
+        );
+      }
+      persist();
+    },
+
+    async getDelivery(id) {
+      const rows = selectAll(db, 'SELECT * FROM webhook_deliveries WHERE id = ?', [id]);
+      return rows.length > 0 ? rowToDelivery(rows[0]) : null;
+    },
+
+    async findDeliveries(query) {
+      const { limit, offset } = normalizePagination(query);
+      const conditions: string[] = [];
+      const params: SqlValue[] = [];
+      const filters: Array<[string, string | undefined]> = [
+        ['client_id', query.clientId],
+        ['subscription_id', query.subscriptionId],
+        ['event_type', query.eventType],
+        ['credential_id', query.credentialId],
+        ['status', query.status]
+      ];
+      for (const [column, value] of filters) {
+        if (value) {
+          conditions.push(`${column} = ?`);
+          params.push(value);
+        }
+      }
+
+      const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+      const [{ total }] = selectAll(db, `SELECT COUNT(*) AS total FROM webhook_deliveries ${where}`, params);
+      const rows = selectAll(
+        db,
+        `SELECT * FROM webhook_deliveries ${where} ORDER BY sequence DESC LIMIT ? OFFSET ?`,
+        [...params, limit, offset]
+      );
+
+      return {
+        items: rows.map(rowToDelivery),
+        total: total as number,
+        limit,
+        offset
+      };
+    },
+
+    async findPendingDeliveries() {
+      return selectAll(
+        db,
+        `SELECT * FROM webhook_deliveries WHERE status = 'pending' ORDER BY next_attempt_at ASC`
+      ).map(rowToDelivery);
+    }
+  };
+}
@@ -0,0 +1,67 @@
+/**
+ * Trust Registry Store
+ * Pluggable storage for trust registry entries and the issuers registered at runtime, so suspensions,
+ * accreditation changes and registrations survive a restart
+ */
+
+import { BankIssuer, TrustRegistryEntry } from '../types/credentials';
+
+/**
+ * Storage backend for the trust registry
+ */
+export interface TrustRegistryStore {
+  saveIssuer(issuer: BankIssuer): Promise<void>; // An issuer registered at runtime
+  getIssuers(): Promise<BankIssuer[]>; // Oldest registration first
+  saveEntry(entry: TrustRegistryEntry): Promise<void>;
+  getEntries(): Promise<TrustRegistryEntry[]>;
+}
+
+function copyEntry(entry: TrustRegistryEntry): TrustRegistryEntry {
+  return {
+    ...entry,
+    accreditations: entry.accreditations.map(accreditation => ({ ...accreditation })),
+    suspensions: entry.suspensions.map(suspension => ({ ...suspension }))
+  };
+}
+
+/**
+ * In-memory store - the default, suitable for development and tests
+ */
+export function createInMemoryTrustRegistryStore(): TrustRegistryStore {
+  const issuers: Map<string, BankIssuer> = new Map();
+  const entries: Map<string, TrustRegistryEntry> = new Map();
+
+  return {
+    async saveIssuer(issuer) {
+      issuers.set(issuer.did, { ...issuer });
+    },
+
+    async getIssuers() {
+      return Array.from(issuers.values()).map(issuer => ({ ...issuer }));
+    },
+
+    async saveEntry(entry) {
+      entries.set(entry.issuerDid, copyEntry(entry));
+    },
+
+    async getEntries() {
+      return Array.from(entries.values()).map(copyEntry);
+    }
+  };
+}
+
+let activeStore: TrustRegistryStore = createInMemoryTrustRegistryStore();
+
+/**
+ * Get the store the trust registry is kept in
+ */
+export function getTrustRegistryStore(): TrustRegistryStore {
+  return activeStore;
+}
+
+/**
+ * Replace the store the trust registry is kept in
+ */
+export function setTrustRegistryStore(store: TrustRegistryStore): void {
+  activeStore = store;
+}
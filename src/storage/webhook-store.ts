@@ -0,0 +1,126 @@
+/**
+ * Webhook Store
+ * Pluggable storage for webhook subscriptions and the delivery log, including dead letters, so pending
+ * retries survive a restart
+ */
+
+import {
+  PaginatedResult,
+  WebhookDelivery,
+  WebhookDeliveryQuery,
+  WebhookEventType,
+  WebhookSubscription
+} from '../types/credentials';
+import { normalizePagination } from './credential-repository';
+
+/**
+ * Storage backend for webhooks
+ */
+export interface WebhookStore {
+  saveSubscription(subscription: WebhookSubscription): Promise<void>;
+  getSubscription(id: string): Promise<WebhookSubscription | null>;
+  deleteSubscription(id: string): Promise<boolean>;
+  findSubscriptions(query: { clientId?: string; eventType?: WebhookEventType }): Promise<WebhookSubscription[]>; // Oldest first
+  saveDelivery(delivery: WebhookDelivery): Promise<void>;
+  getDelivery(id: string): Promise<WebhookDelivery | null>;
+  findDeliveries(query: WebhookDeliveryQuery): Promise<PaginatedResult<WebhookDelivery>>; // Newest first
+  findPendingDeliveries(): Promise<WebhookDelivery[]>; // Next attempt first
+}
+
+/**
+ * Check whether a delivery satisfies the filters of a query (ignores pagination)
+ */
+export function matchesDeliveryQuery(delivery: WebhookDelivery, query: WebhookDeliveryQuery): boolean {
+  if (query.clientId && delivery.clientId !== query.clientId) {
+    return false;
+  }
+  if (query.subscriptionId && delivery.subscriptionId !== query.subscriptionId) {
+    return false;
+  }
+  if (query.eventType && delivery.event.type !== query.eventType) {
+    return false;
+  }
+  if (query.credentialId && delivery.event.credentialId !== query.credentialId) {
+    return false;
+  }
+  if (query.status && delivery.status !== query.status) {
+    return false;
+  }
+  return true;
+}
+
+/**
+ * In-memory store - the default, suitable for development and tests
+ */
+export function createInMemoryWebhookStore(): WebhookStore {
+  const subscriptions: Map<string, WebhookSubscription> = new Map();
+  const deliveries: Map<string, WebhookDelivery> = new Map();
+
+  return {
+    async saveSubscription(subscription) {
+      subscriptions.set(subscription.id, { ...subscription });
+    },
+
+    async getSubscription(id) {
+      const subscription = subscriptions.get(id);
+      return subscription ? { ...subscription } : null;
+    },
+
+    async deleteSubscription(id) {
+      return subscriptions.delete(id);
+    },
+
+    async findSubscriptions(query) {
+      return Array.from(subscriptions.values())
+        .filter(subscription => !query.clientId || subscription.clientId === query.clientId)
+        .filter(subscription => !query.eventType || subscription.eventTypes.includes(query.eventType))
+        .map(subscription => ({ ...subscription }));
+    },
+
+    async saveDelivery(delivery) {
+      deliveries.set(delivery.id, { ...delivery });
+    },
+
+    async getDelivery(id) {
+      const delivery = deliveries.get(id);
+      return delivery ? { ...delivery } : null;
+    },
+
+    async findDeliveries(query) {
+      const { limit, offset } = normalizePagination(query);
+      const matching = Array.from(deliveries.values())
+        .filter(delivery => matchesDeliveryQuery(delivery, query))
+        .reverse();
+
+      return {
+        items: matching.slice(offset, offset + limit).map(delivery => ({ ...delivery })),
+        total: matching.length,
+        limit,
+        offset
+      };
+    },
+
+    async findPendingDeliveries() {
+      return Array.from(deliveries.values())
+        .filter(delivery => delivery.status === 'pending')
+        .sort((a, b) => (a.nextAttemptAt as string).localeCompare(b.nextAttemptAt as string))
+        .map(delivery => ({ ...delivery }));
+    }
+  };
+}
+
+let activeStore: WebhookStore = createInMemoryWebhookStore();
+
+/**
+ * Get the store webhook subscriptions and deliveries are kept in
+ */
+export function getWebhookStore(): WebhookStore {
+  return activeStore;
+}
+
+/**
+ * Replace the store webhook subscriptions and deliveries are kept in
+ */
+export function setWebhookStore(store: WebhookStore): void {
+  activeStore = store;
+}
@@ -1,9 +1,11 @@
 /**
  * Verifiable Credential Types for Financial Institution Integration
- * Based on W3C Verifiable Credentials Data Model v1.1
+ * Based on W3C Verifiable Credentials Data Model v1.1 and v2.0
  */
 
-export type SignatureAlgorithm = 'Ed25519' | 'secp256k1';
+export type SignatureAlgorithm = 'Ed25519' | 'secp256k1' | 'P-256';
+
+export type DataModelVersion = '1.1' | '2.0';
 
 export interface DIDDocument {
   id: string;
@@ -13,6 +15,23 @@ export interface DIDDocument {
   tier?: number;
 }
 
+// W3C DID Core documents (DIDDocument above is the issuer summary embedded in credentials)
+export interface VerificationMethod {
+  id: string;
+  type: 'Multikey';
+  controller: string;
+  publicKeyMultibase: string;
+}
+
+export interface W3CDIDDocument {
+  '@context': string[];
+  id: string;
+  alsoKnownAs?: string[];
+  verificationMethod: VerificationMethod[];
+  authentication: string[];
+  assertionMethod: string[];
+}
+
 export interface HashedPII {
   name: string;
   dateOfBirth: string;
@@ -20,6 +39,11 @@ export interface HashedPII {
   address: string;
 }
 
+export type PiiField = keyof HashedPII;
+
+// Per-field random salts of the hashedPII commitments, delivered to the holder out-of-band
+export type PiiSalts = Record<PiiField, string>;
+
 export interface KYCClaims {
   kycLevel: 'basic' | 'enhanced' | 'institutional';
   amlScreening: 'passed' | 'failed' | 'pending';
@@ -49,13 +73,21 @@ export interface CredentialStatus {
   type: 'DID3RevocationRegistry' | 'StatusList2021';
   registryContract?: string;
   tokenId?: string;
+  statusPurpose?: 'revocation';
+  statusListIndex?: string;
+  statusListCredential?: string;
 }
 
+export type Cryptosuite = 'eddsa-jcs-2022' | 'ecdsa-jcs-2019';
+
 export interface Proof {
-  type: 'Ed25519Signature2020' | 'EcdsaSecp256k1Signature2019';
+  type: 'DataIntegrityProof' | 'Ed25519Signature2020' | 'EcdsaSecp256k1Signature2019';
+  cryptosuite?: Cryptosuite; // Present on DataIntegrityProof only
   created: string;
   verificationMethod: string;
   proofPurpose: 'assertionMethod' | 'authentication';
+  challenge?: string; // Presentation proofs only
+  domain?: string; // Presentation proofs only
   proofValue: string;
 }
 
@@ -64,14 +96,92 @@ export interface VerifiableCredential {
   id: string;
   type: string[];
   issuer: DIDDocument;
-  issuanceDate: string;
-  expirationDate: string;
+  issuanceDate?: string; // VCDM 1.1
+  expirationDate?: string; // VCDM 1.1
+  validFrom?: string; // VCDM 2.0
+  validUntil?: string; // VCDM 2.0
   credentialSubject: CredentialSubject;
   decommissionedAt: string | null;
   credentialStatus: CredentialStatus;
   proof: Proof;
 }
 
+export interface VerifiablePresentation {
+  '@context': string[];
+  id?: string;
+  type: string[];
+  holder: string; // DID of the holder, must match each credentialSubject.id
+  verifiableCredential: VerifiableCredential[];
+  proof: Proof;
+}
+
+export interface PresentationChallenge {
+  challenge: string;
+  domain: string;
+  expiresAt: string;
+}
+
+export interface PresentationVerificationResult {
+  valid: boolean;
+  holder: string | null;
+  domain?: string; // Of the proof - the verifier checks it names itself
+  challenge?: string;
+  errors: string[];
+  credentials: Array<{
+    id: string;
+    valid: boolean;
+    revoked: boolean;
+    errors: string[];
+  }>;
+}
+
+/**
+ * A credential without its embedded proof, e.g. the "vc" claim of a JWT-VC
+ */
+export type UnsecuredCredential = Omit<VerifiableCredential, 'proof'>;
+
+/**
+ * How an issued credential is delivered:
+ * - none: JSON-LD credential secured with an embedded Data Integrity proof
+ * - jwt: compact JWS (JWT-VC) signed with the issuer key
+ * - sd-jwt: SD-JWT VC with each credential subject claim as a salted disclosure
+ */
+export type CredentialEnvelope = 'none' | 'jwt' | 'sd-jwt';
+
+/**
+ * Credential subject claims that can be selectively disclosed in an SD-JWT VC
+ */
+export type SdClaimPath =
+  | 'id'
+  | `hashedPII.${keyof HashedPII}`
+  | `claims.${keyof KYCClaims}`
+  | 'amountVerifiedFor'
+  | 'tier'
+  | 'jurisdictions';
+
+export interface StatusListCredential {
+  '@context': string[];
+  id: string;
+  type: string[];
+  issuer: DIDDocument;
+  issuanceDate: string;
+  credentialSubject: {
+    id: string;
+    type: 'StatusList2021';
+    statusPurpose: 'revocation';
+    encodedList: string; // base64url-encoded, GZIP-compressed bitstring
+  };
+  proof: Proof;
+}
+
+export interface CredentialVerificationResult {
+  valid: boolean;
+  revoked: boolean;
+  weakProof: boolean; // Legacy proof whose signature does not cover nested fields
+  errors: string[];
+  warnings: string[];
+}
+
 // Request types for API
 export interface IssueCredentialRequest {
   customerKycId: string;
@@ -81,8 +191,13 @@ export interface IssueCredentialRequest {
   jurisdiction: string[];
   expiryDays?: number;
   signatureAlgorithm?: SignatureAlgorithm;
+  dataModelVersion?: DataModelVersion; // Defaults to '1.1'
+  duplicatePolicy?: DuplicateCredentialPolicy; // Defaults to 'allow'
 }
 
+// What to do when the subject already holds an active credential of the same type from the issuer
+export type DuplicateCredentialPolicy = 'allow' | 'reject' | 'supersede';
+
 export interface CustomerKYCData {
   kycId: string;
   name: string;
@@ -109,7 +224,326 @@ export interface BankIssuer {
   jurisdiction: string[];
   regulators: string[];
   tier: number;
-  privateKey: string;
+  publicKey: string; // Initial key (#key-1); private keys are held by the Signer, see IssuerKey for rotation
+  signatureAlgorithm: SignatureAlgorithm;
+}
+
+// Issuer key rotation types
+export type IssuerKeyStatus = 'active' | 'retired' | 'revoked';
+
+export interface IssuerKey {
+  id: string; // Verification method URL, e.g. did:did3:bank:jpmorgan#key-2
+  controller: string;
   publicKey: string;
   signatureAlgorithm: SignatureAlgorithm;
+  status: IssuerKeyStatus;
+  activatedAt: string;
+  retiredAt?: string;
+  revokedAt?: string;
+}
+
+// Credential repository types
+export type CredentialRecordStatus = 'active' | 'revoked' | 'expired';
+
+export interface CredentialRecord {
+  id: string;
+  customerKycId: string;
+  subjectId: string;
+  issuerDid: string;
+  issuedAt: string;
+  expiresAt: string;
+  revokedAt: string | null;
+  credential: VerifiableCredential;
+}
+
+export interface CredentialQuery {
+  subject?: string; // Matches the subject DID or the customer KYC ID
+  issuer?: string;
+  status?: CredentialRecordStatus;
+  issuedAfter?: string;
+  issuedBefore?: string;
+  limit?: number;
+  offset?: number;
+}
+
+export interface PaginatedResult<T> {
+  items: T[];
+  total: number;
+  limit: number;
+  offset: number;
+}
+
+// Relying-party verification policy types
+export interface VerificationPolicy {
+  minKycLevel?: KYCClaims['kycLevel'];
+  requireAccreditedInvestor?: boolean;
+  allowedEntityTypes?: KYCClaims['entityType'][];
+  minAmountVerified?: AmountVerification; // Compared in the same currency only
+  requiredJurisdictions?: string[];
+  allowedIssuers?: string[];
+  minIssuerTier?: number;
+  maxCredentialAgeDays?: number;
+}
+
+export type PolicyRuleName =
+  | 'kycLevel'
+  | 'accreditedInvestor'
+  | 'entityType'
+  | 'amountVerifiedFor'
+  | 'jurisdictions'
+  | 'issuer'
+  | 'issuerTier'
+  | 'credentialAge';
+
+export interface PolicyRuleResult {
+  rule: PolicyRuleName;
+  passed: boolean;
+  expected: unknown;
+  actual: unknown; // undefined when the claim is missing or not disclosed
+  message?: string; // Why the rule failed
+}
+
+export interface PolicyEvaluationResult {
+  passed: boolean;
+  rules: PolicyRuleResult[];
+}
+
+// Trust registry types
+export type IssuerTrustStatus = 'active' | 'suspended';
+
+export interface IssuerAccreditation {
+  id: string;
+  regulator: string;
+  jurisdictions: string[];
+  credentialTypes: string[]; // VC types, e.g. KYCCredential
+  validFrom: string;
+  validUntil?: string; // Set when the accreditation expires or is withdrawn
+}
+
+export interface IssuerSuspension {
+  suspendedAt: string;
+  reinstatedAt?: string;
+  reason?: string;
+}
+
+export interface TrustRegistryEntry {
+  issuerDid: string;
+  name: string;
+  status: IssuerTrustStatus;
+  accreditations: IssuerAccreditation[];
+  suspensions: IssuerSuspension[]; // Full history, so credentials can be checked against their issuance time
+  updatedAt: string;
+}
+
+export interface TrustListEntry extends TrustRegistryEntry {
+  verificationMethods: IssuerKey[];
+}
+
+export interface TrustListCredential {
+  '@context': string[];
+  id: string;
+  type: string[];
+  issuer: string; // did:key of the trust registry
+  issuanceDate: string;
+  expirationDate: string;
+  credentialSubject: {
+    id: string;
+    type: 'TrustList';
+    entries: TrustListEntry[];
+  };
+  proof: Proof;
+}
+
+// Audit log types
+export type AuditAction =
+  | 'credential.issue'
+  | 'credential.batch-issue'
+  | 'credential.verify'
+  | 'credential.revoke'
+  | 'presentation.verify'
+  | 'customer.create'
+  | 'customer.update'
+  | 'customer.delete';
+
+export type AuditOutcome = 'success' | 'failure';
+
+export interface AuditEvent {
+  action: AuditAction;
+  actor: string; // API client ID, wallet holder DID, or 'system'
+  issuerDid?: string | null;
+  customerKycId?: string | null;
+  credentialId?: string | null;
+  outcome: AuditOutcome;
+  error?: string | null;
+}
+
+export interface AuditEntry extends Required<AuditEvent> {
+  sequence: number; // 1-based, contiguous
+  timestamp: string;
+  previousHash: string; // Hash of the previous entry, or the genesis hash for the first
+  hash: string; // SHA-256 over the JCS canonical form of every other field
+}
+
+/**
+ * Signed statement of the chain head - entries up to `sequence` cannot change without breaking it
+ */
+export interface AuditCheckpoint {
+  sequence: number;
+  hash: string; // Hash of the entry at `sequence`
+  createdAt: string;
+  proof: Proof;
+}
+
+export interface AuditQuery {
+  action?: AuditAction;
+  actor?: string;
+  issuer?: string;
+  customerKycId?: string;
+  credentialId?: string;
+  outcome?: AuditOutcome;
+  from?: string;
+  to?: string;
+  limit?: number;
+  offset?: number;
+}
+
+export interface AuditVerificationResult {
+  valid: boolean;
+  entries: number;
+  checkpoints: number;
+  signedThrough: number; // Sequence of the last valid checkpoint, 0 if none
+  errors: string[];
+  warnings: string[];
+}
+
+// Issuance job types
+export type IssuanceJobStatus = 'queued' | 'running' | 'completed' | 'cancelled';
+
+export interface IssuanceJob {
+  id: string;
+  clientId: string;
+  authorizedIssuerDids: string[]; // Issuer bindings of the client when the job was submitted
+  status: IssuanceJobStatus;
+  total: number;
+  succeeded: number;
+  failed: number;
+  createdAt: string;
+  startedAt: string | null;
+  completedAt: string | null;
+  cancelledAt: string | null;
+}
+
+export type IssuanceJobRowStatus = 'pending' | 'succeeded' | 'failed';
+
+export interface IssuanceJobRow {
+  jobId: string;
+  index: number; // Position in the upload, from 0 (CSV header excluded)
+  request: IssueCredentialRequest | null; // null if the row could not be parsed
+  status: IssuanceJobRowStatus;
+  credentialId: string | null;
+  credential: VerifiableCredential | null;
+  piiSalts: PiiSalts | null;
+  error: string | null;
+  completedAt: string | null;
+}
+
+export interface IssuanceJobRowQuery {
+  status?: IssuanceJobRowStatus;
+  limit?: number;
+  offset?: number;
+}
+
+// KYC change types
+export type KycChangeActionType = 'revoke' | 'supersede';
+
+// A customer field whose change affects the customer's outstanding credentials
+export type MonitoredKycField = 'amlScreening' | 'sanctionsCheck' | 'pepScreening' | 'kycLevel' | 'tier' | 'verifiedAmount';
+
+export interface KycFieldChange {
+  field: MonitoredKycField;
+  from: string | number;
+  to: string | number;
+}
+
+/**
+ * What was done to an outstanding credential because its customer's KYC data changed
+ */
+export interface KycChangeAction {
+  id: string;
+  customerKycId: string;
+  action: KycChangeActionType;
+  reason: string; // e.g. 'sanctionsCheck changed from passed to failed'
+  changes: KycFieldChange[];
+  credentialId: string;
+  issuerDid: string;
+  replacementCredentialId: string | null; // The credential issued in its place, when superseded
+  outcome: AuditOutcome;
+  error: string | null;
+  actor: string;
+  createdAt: string;
+}
+
+export interface KycChangeActionQuery {
+  action?: KycChangeActionType;
+  issuer?: string;
+  limit?: number;
+  offset?: number;
+}
+
+// Webhook types
+export type WebhookEventType =
+  | 'credential.issued'
+  | 'credential.revoked'
+  | 'credential.expiring'
+  | 'batch.completed'
+  | 'customer.kyc_changed';
+
+export interface WebhookSubscription {
+  id: string;
+  clientId: string; // Client that owns the subscription
+  issuerDids: string[]; // Issuers the client could act for when it subscribed - credential events are limited to them
+  url: string;
+  eventTypes: WebhookEventType[];
+  expiringDays: number; // credential.expiring is sent this many days before a credential expires
+  secret: string; // HMAC-SHA256 key deliveries are signed with
+  createdAt: string;
+}
+
+export interface WebhookEvent {
+  id: string;
+  type: WebhookEventType;
+  createdAt: string;
+  issuerDid: string | null; // Issuer of the credential(s) the event is about
+  clientId: string | null; // Client the event belongs to (batch.completed), null if any subscriber may receive it
+  credentialId: string | null;
+  data: Record<string, unknown>;
+}
+
+// Delivered, waiting to be (re)tried, or given up on after the last attempt (dead letter)
+export type WebhookDeliveryStatus = 'pending' | 'succeeded' | 'dead_letter';
+
+export interface WebhookDelivery {
+  id: string;
+  subscriptionId: string;
+  clientId: string;
+  event: WebhookEvent;
+  url: string;
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  nextAttemptAt: string | null; // While pending
+  lastAttemptAt: string | null;
+  responseStatus: number | null; // HTTP status of the last attempt, null if it got no response
+  error: string | null; // Why the last attempt failed
+  replayOf: string | null; // Delivery this one replays
+  createdAt: string;
+}
+
+export interface WebhookDeliveryQuery {
+  clientId?: string;
+  subscriptionId?: string;
+  eventType?: WebhookEventType;
+  credentialId?: string;
+  status?: WebhookDeliveryStatus;
+  limit?: number;
+  offset?: number;
 }
@@ -1,11 +1,11 @@
 /**
  * Cryptographic utilities for signing verifiable credentials
- * Supports Ed25519 and secp256k1 signature algorithms
+ * Supports Ed25519, secp256k1 and P-256 signature algorithms
  */
 
 import * as ed25519 from '@noble/ed25519';
 import * as secp256k1 from '@noble/secp256k1';
-import { createHash } from 'crypto';
+import { createHash, createECDH, createPrivateKey, createPublicKey, randomUUID, sign, verify, ECDH, KeyObject } from 'crypto';
 import { SignatureAlgorithm } from '../types/credentials';
 
 // Initialize noble-ed25519 with SHA-512 hash function
@@ -27,6 +27,51 @@ secp256k1.etc.hmacSha256Sync = (key: Uint8Array, ...messages: Uint8Array[]) => {
   return Uint8Array.from(hash.digest());
 };
 
+/**
+ * Every supported key algorithm - holders may use any, issuers only SIGNATURE_ALGORITHMS (see issuer-keys.ts)
+ */
+export const KEY_ALGORITHMS: SignatureAlgorithm[] = ['Ed25519', 'secp256k1', 'P-256'];
+
+/**
+ * Node's name for the P-256 curve
+ */
+const P256_CURVE = 'prime256v1';
+
+/**
+ * JWK coordinates of a compressed P-256 public key
+ */
+function p256Coordinates(publicKeyHex: string): { x: string; y: string } {
+  const uncompressed = Buffer.from(ECDH.convertKey(publicKeyHex, P256_CURVE, 'hex', 'hex', 'uncompressed') as string, 'hex');
+  return {
+    x: uncompressed.subarray(1, 33).toString('base64url'),
+    y: uncompressed.subarray(33, 65).toString('base64url')
+  };
+}
+
+/**
+ * Node key object of a P-256 private key
+ */
+function p256PrivateKey(privateKeyHex: string): KeyObject {
+  const ecdh = createECDH(P256_CURVE);
+  ecdh.setPrivateKey(privateKeyHex, 'hex');
+  return createPrivateKey({
+    key: {
+      kty: 'EC',
+      crv: 'P-256',
+      ...p256Coordinates(ecdh.getPublicKey('hex', 'compressed')),
+      d: Buffer.from(privateKeyHex, 'hex').toString('base64url')
+    },
+    format: 'jwk'
+  });
+}
+
+/**
+ * Node key object of a compressed P-256 public key
+ */
+function p256PublicKey(publicKeyHex: string): KeyObject {
+  return createPublicKey({ key: { kty: 'EC', crv: 'P-256', ...p256Coordinates(publicKeyHex) }, format: 'jwk' });
+}
+
 /**
  * Generate a key pair for the specified algorithm
  */
@@ -50,6 +95,33 @@ export async function generateKeyPair(algorithm: SignatureAlgorithm): Promise<{
       privateKey: Buffer.from(privateKey).toString('hex'),
       publicKey: Buffer.from(publicKey).toString('hex')
     };
+  } else if (algorithm === 'P-256') {
+    const ecdh = createECDH(P256_CURVE);
+    ecdh.generateKeys();
+
+    return {
+      privateKey: ecdh.getPrivateKey('hex').padStart(64, '0'),
+      publicKey: ecdh.getPublicKey('hex', 'compressed')
+    };
+  }
+
+  throw new Error(`Unsupported algorithm: ${algorithm}`);
+}
+
+/**
+ * Derive the public key (compressed for secp256k1 and P-256) of a private key
+ */
+export function derivePublicKey(privateKeyHex: string, algorithm: SignatureAlgorithm): string {
+  const privateKey = Buffer.from(privateKeyHex, 'hex');
+
+  if (algorithm === 'Ed25519') {
+    return Buffer.from(ed25519.getPublicKey(privateKey)).toString('hex');
+  } else if (algorithm === 'secp256k1') {
+    return Buffer.from(secp256k1.getPublicKey(privateKey, true)).toString('hex');
+  } else if (algorithm === 'P-256') {
+    const ecdh = createECDH(P256_CURVE);
+    ecdh.setPrivateKey(privateKey);
+    return ecdh.getPublicKey('hex', 'compressed');
   }
 
   throw new Error(`Unsupported algorithm: ${algorithm}`);
@@ -169,10 +241,161 @@ export async function verifySignature(
 }
 
 /**
- * Generate a deterministic credential ID
+ * Produces a raw signature over bytes with a key the caller does not need to hold
+ */
+export type SignFunction = (data: Uint8Array) => Promise<Uint8Array>;
+
+/**
+ * Sign function over a private key held in memory (e.g. a holder's own key)
+ */
+export function privateKeySigner(privateKeyHex: string, algorithm: SignatureAlgorithm): SignFunction {
+  return (data) => signBytes(data, privateKeyHex, algorithm);
+}
+
+/**
+ * Sign raw bytes, returning the raw signature
+ * Ed25519 signs the bytes directly; secp256k1 and P-256 sign their SHA-256 digest (64-byte r || s signature)
+ */
+export async function signBytes(
+  data: Uint8Array,
+  privateKeyHex: string,
+  algorithm: SignatureAlgorithm
+): Promise<Uint8Array> {
+  const privateKey = Buffer.from(privateKeyHex, 'hex');
+
+  if (algorithm === 'Ed25519') {
+    return ed25519.sign(data, privateKey);
+  } else if (algorithm === 'secp256k1') {
+    const digest = createHash('sha256').update(data).digest();
+    const signature = await secp256k1.sign(digest, privateKey);
+    return signature.toCompactRawBytes();
+  } else if (algorithm === 'P-256') {
+    return sign('sha256', data, { key: p256PrivateKey(privateKeyHex), dsaEncoding: 'ieee-p1363' });
+  }
+
+  throw new Error(`Unsupported signature algorithm: ${algorithm}`);
+}
+
+/**
+ * Verify a raw signature produced by signBytes
+ */
+export async function verifyBytes(
+  data: Uint8Array,
+  signature: Uint8Array,
+  publicKeyHex: string,
+  algorithm: SignatureAlgorithm
+): Promise<boolean> {
+  const publicKey = Buffer.from(publicKeyHex, 'hex');
+
+  try {
+    if (algorithm === 'Ed25519') {
+      return await ed25519.verify(signature, data, publicKey);
+    } else if (algorithm === 'secp256k1') {
+      const digest = createHash('sha256').update(data).digest();
+      return secp256k1.verify(secp256k1.Signature.fromCompact(signature), digest, publicKey);
+    } else if (algorithm === 'P-256') {
+      return verify('sha256', data, { key: p256PublicKey(publicKeyHex), dsaEncoding: 'ieee-p1363' }, signature);
+    }
+  } catch (error) {
+    return false;
+  }
+
+  throw new Error(`Unsupported signature algorithm: ${algorithm}`);
+}
+
+const BASE58_ALPHABET = '123456789ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnopqrstuvwxyz';
+
+/**
+ * Encode bytes as base58btc (Bitcoin alphabet)
+ */
+export function base58btcEncode(bytes: Uint8Array): string {
+  let leadingZeros = 0;
+  while (leadingZeros < bytes.length && bytes[leadingZeros] === 0) {
+    leadingZeros++;
+  }
+
+  let value = BigInt('0x' + (Buffer.from(bytes).toString('hex') || '0'));
+  let encoded = '';
+  while (value > 0n) {
+    encoded = BASE58_ALPHABET[Number(value % 58n)] + encoded;
+    value /= 58n;
+  }
+
+  return '1'.repeat(leadingZeros) + encoded;
+}
+
+/**
+ * Decode a base58btc string
+ */
+export function base58btcDecode(encoded: string): Uint8Array {
+  let leadingZeros = 0;
+  while (leadingZeros < encoded.length && encoded[leadingZeros] === '1') {
+    leadingZeros++;
+  }
+
+  let value = 0n;
+  for (const char of encoded) {
+    const digit = BASE58_ALPHABET.indexOf(char);
+    if (digit < 0) {
+      throw new Error(`Invalid base58 character: ${char}`);
+    }
+    value = value * 58n + BigInt(digit);
+  }
+
+  let hex = value > 0n ? value.toString(16) : '';
+  if (hex.length % 2) {
+    hex = '0' + hex;
+  }
+
+  return Uint8Array.from([...new Array(leadingZeros).fill(0), ...Buffer.from(hex, 'hex')]);
+}
+
+/**
+ * Canonicalize a JSON value per RFC 8785 (JSON Canonicalization Scheme)
+ * Object members are sorted by UTF-16 code units at every level; numbers and strings use
+ * ECMAScript serialization, which JCS adopts
+ */
+export function canonicalize(value: unknown): string {
+  if (value !== null && typeof value === 'object' && typeof (value as { toJSON?: unknown }).toJSON === 'function') {
+    return canonicalize((value as { toJSON: () => unknown }).toJSON());
+  }
+
+  if (value === null || typeof value === 'boolean' || typeof value === 'string') {
+    return JSON.stringify(value);
+  }
+
+  if (typeof value === 'number') {
+    if (!Number.isFinite(value)) {
+      throw new Error(`Cannot canonicalize non-finite number: ${value}`);
+    }
+    return JSON.stringify(value);
+  }
+
+  if (Array.isArray(value)) {
+    return '[' + value.map(item => (
+      item === undefined || typeof item === 'function' ? 'null' : canonicalize(item)
+    )).join(',') + ']';
+  }
+
+  if (typeof value === 'object') {
+    const members = Object.keys(value)
+      .sort()
+      .filter(key => {
+        const member = (value as Record<string, unknown>)[key];
+        return member !== undefined && typeof member !== 'function';
+      })
+      .map(key => JSON.stringify(key) + ':' + canonicalize((value as Record<string, unknown>)[key]));
+    return '{' + members.join(',') + '}';
+  }
+
+  throw new Error(`Cannot canonicalize value of type ${typeof value}`);
+}
+
+/**
+ * Generate a credential ID - random, so credentials issued within the same millisecond do not collide
  */
 export function generateCredentialId(issuerDid: string, subjectId: string): string {
-  const combined = `${issuerDid}:${subjectId}:${Date.now()}`;
+  const combined = `${issuerDid}:${subjectId}:${Date.now()}:${randomUUID()}`;
   const hash = sha256Hash(combined);
   return `did:did3:credential:${hash.substring(0, 16)}`;
 }
@@ -0,0 +1,57 @@
+/**
+ * CSV parsing
+ * RFC 4180: comma-separated fields, optionally double-quoted, with `""` for a quote inside a quoted field.
+ * Quoted fields may span lines; CRLF and LF line endings are both accepted
+ */
+
+/**
+ * Parse CSV text into records of fields. Blank lines are skipped
+ */
+export function parseCsv(text: string): string[][] {
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = '';
+  let quoted = false;
+  let fieldStarted = false;
+
+  const endRecord = () => {
+    if (fieldStarted || field !== '' || record.length > 0) {
+      record.push(field);
+      records.push(record);
+    }
+    record = [];
+    field = '';
+    fieldStarted = false;
+  };
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === '') {
+      quoted = true;
+      fieldStarted = true;
+    } else if (char === ',') {
+      record.push(field);
+      field = '';
+      fieldStarted = true;
+    } else if (char === '\n') {
+      endRecord();
+    } else if (char !== '\r' || text[i + 1] !== '\n') {
+      field += char;
+    }
+  }
+  if (quoted) {
+    throw new Error('Unterminated quoted field in CSV');
+  }
+  endRecord();
+
+  return records;
+}
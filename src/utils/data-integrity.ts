@@ -0,0 +1,168 @@
+/**
+ * Data Integrity proofs
+ * Implements the JCS-based cryptosuites (eddsa-jcs-2022 for Ed25519, ecdsa-jcs-2019 for P-256) and
+ * recognises the legacy proof format issued by earlier versions of this service
+ */
+
+import { createHash } from 'crypto';
+import { Cryptosuite, Proof, SignatureAlgorithm } from '../types/credentials';
+import {
+  canonicalize,
+  verifyBytes,
+  base58btcEncode,
+  base58btcDecode,
+  verifySignature,
+  SignFunction
+} from './crypto';
+
+export const DATA_INTEGRITY_CONTEXT = 'https://w3id.org/security/data-integrity/v2';
+
+/**
+ * Proof format versions understood by the verifier
+ * - legacy: top-level-key JSON signature (Ed25519Signature2020 / EcdsaSecp256k1Signature2019);
+ *   its signing input omits nested fields, so it is accepted but flagged as weak
+ * - eddsa-jcs-2022 / ecdsa-jcs-2019: DataIntegrityProof over the RFC 8785 canonical form
+ */
+export type ProofFormat = 'legacy' | Cryptosuite;
+
+export interface ProofOptions {
+  verificationMethod: string;
+  proofPurpose: Proof['proofPurpose'];
+  created: string;
+  challenge?: string;
+  domain?: string;
+}
+
+/**
+ * Cryptosuite used for a signature algorithm
+ * secp256k1 has no standard Data Integrity cryptosuite (ecdsa-jcs-2019 covers P-256 and P-384 only), so
+ * secp256k1 keys cannot sign Data Integrity proofs
+ */
+export function getCryptosuite(algorithm: SignatureAlgorithm): Cryptosuite {
+  if (algorithm === 'Ed25519') {
+    return 'eddsa-jcs-2022';
+  } else if (algorithm === 'P-256') {
+    return 'ecdsa-jcs-2019';
+  }
+
+  throw new Error(`No Data Integrity cryptosuite for ${algorithm} keys - use Ed25519 or P-256`);
+}
+
+/**
+ * Signature algorithm a cryptosuite expects
+ */
+export function getCryptosuiteAlgorithm(cryptosuite: Cryptosuite): SignatureAlgorithm {
+  return cryptosuite === 'eddsa-jcs-2022' ? 'Ed25519' : 'P-256';
+}
+
+/**
+ * Detect the proof format of a proof
+ */
+export function getProofFormat(proof: Proof): ProofFormat {
+  if (proof.type === 'DataIntegrityProof') {
+    if (proof.cryptosuite === 'eddsa-jcs-2022' || proof.cryptosuite === 'ecdsa-jcs-2019') {
+      return proof.cryptosuite;
+    }
+    throw new Error(`Unsupported cryptosuite: ${proof.cryptosuite}`);
+  }
+  if (proof.type === 'Ed25519Signature2020' || proof.type === 'EcdsaSecp256k1Signature2019') {
+    return 'legacy';
+  }
+  throw new Error(`Unsupported proof type: ${proof.type}`);
+}
+
+/**
+ * Signing input of the legacy proof format
+ * Kept for verifying credentials issued before Data Integrity proofs were introduced
+ */
+export function canonicalizeLegacy(document: object): string {
+  return JSON.stringify(document, Object.keys(document).sort());
+}
+
+/**
+ * Compute hashData = SHA-256(JCS(proofConfig)) || SHA-256(JCS(document))
+ */
+function hashDataIntegrityInput(
+  unsecuredDocument: Record<string, unknown>,
+  proofConfig: Omit<Proof, 'proofValue'>
+): Uint8Array {
+  const config: Record<string, unknown> = { ...proofConfig };
+  if (unsecuredDocument['@context'] !== undefined) {
+    config['@context'] = unsecuredDocument['@context'];
+  }
+
+  const proofConfigHash = createHash('sha256').update(canonicalize(config)).digest();
+  const documentHash = createHash('sha256').update(canonicalize(unsecuredDocument)).digest();
+  return Uint8Array.from(Buffer.concat([proofConfigHash, documentHash]));
+}
+
+/**
+ * Create a DataIntegrityProof over an unsecured document
+ */
+export async function createDataIntegrityProof(
+  unsecuredDocument: object,
+  options: ProofOptions,
+  sign: SignFunction,
+  algorithm: SignatureAlgorithm
+): Promise<Proof> {
+  const proofConfig: Omit<Proof, 'proofValue'> = {
+    type: 'DataIntegrityProof',
+    cryptosuite: getCryptosuite(algorithm),
+    created: options.created,
+    verificationMethod: options.verificationMethod,
+    proofPurpose: options.proofPurpose
+  };
+  if (options.challenge !== undefined) {
+    proofConfig.challenge = options.challenge;
+  }
+  if (options.domain !== undefined) {
+    proofConfig.domain = options.domain;
+  }
+
+  const hashData = hashDataIntegrityInput(unsecuredDocument as Record<string, unknown>, proofConfig);
+  const signature = await sign(hashData);
+
+  return {
+    ...proofConfig,
+    proofValue: 'z' + base58btcEncode(signature)
+  };
+}
+
+/**
+ * Verify the proof on a secured document, selecting the verifier by proof format
+ */
+export async function verifyProof(
+  securedDocument: { proof: Proof },
+  publicKey: string,
+  algorithm: SignatureAlgorithm
+): Promise<{ valid: boolean; format: ProofFormat }> {
+  const { proof, ...unsecuredDocument } = securedDocument;
+  const format = getProofFormat(proof);
+
+  if (format === 'legacy') {
+    const valid = await verifySignature(
+      canonicalizeLegacy(unsecuredDocument),
+      proof.proofValue,
+      publicKey,
+      algorithm
+    );
+    return { valid, format };
+  }
+
+  if (getCryptosuiteAlgorithm(format) !== algorithm || !proof.proofValue.startsWith('z')) {
+    return { valid: false, format };
+  }
+
+  const { proofValue, ...proofConfig } = proof;
+  const hashData = hashDataIntegrityInput(unsecuredDocument as Record<string, unknown>, proofConfig);
+
+  let signature: Uint8Array;
+  try {
+    signature = base58btcDecode(proofValue.slice(1));
+  } catch (error) {
+    return { valid: false, format };
+  }
+
+  const valid = await verifyBytes(hashData, signature, publicKey, algorithm);
+  return { valid, format };
+}
@@ -0,0 +1,37 @@
+/**
+ * W3C Verifiable Credentials Data Model helpers
+ * Reads credentials in either VCDM 1.1 or VCDM 2.0 form
+ */
+
+import { DataModelVersion, UnsecuredCredential } from '../types/credentials';
+
+export const VCDM_V1_CONTEXT = 'https://www.w3.org/2018/credentials/v1';
+export const VCDM_V2_CONTEXT = 'https://www.w3.org/ns/credentials/v2';
+
+/**
+ * Detect the data model version from the credential's first @context entry
+ */
+export function getDataModelVersion(credential: Pick<UnsecuredCredential, '@context'>): DataModelVersion {
+  const baseContext = credential['@context']?.[0];
+  if (baseContext === VCDM_V2_CONTEXT) {
+    return '2.0';
+  }
+  if (baseContext === VCDM_V1_CONTEXT) {
+    return '1.1';
+  }
+  throw new Error(`Unsupported credential context: ${baseContext}`);
+}
+
+/**
+ * Start of the credential's validity period (issuanceDate in 1.1, validFrom in 2.0)
+ */
+export function getValidFrom(credential: UnsecuredCredential): string | undefined {
+  return getDataModelVersion(credential) === '2.0' ? credential.validFrom : credential.issuanceDate;
+}
+
+/**
+ * End of the credential's validity period (expirationDate in 1.1, validUntil in 2.0)
+ */
+export function getValidUntil(credential: UnsecuredCredential): string | undefined {
+  return getDataModelVersion(credential) === '2.0' ? credential.validUntil : credential.expirationDate;
+}
@@ -0,0 +1,66 @@
+/**
+ * did:key utilities
+ * Encodes Ed25519, secp256k1 and P-256 public keys as did:key identifiers and decodes them back
+ */
+
+import { SignatureAlgorithm } from '../types/credentials';
+import { base58btcEncode, base58btcDecode } from './crypto';
+
+// Multicodec prefixes (unsigned varint) for public key types
+const ED25519_PUB_PREFIX = [0xed, 0x01];
+const SECP256K1_PUB_PREFIX = [0xe7, 0x01];
+const P256_PUB_PREFIX = [0x80, 0x24];
+
+const PUB_PREFIXES: Record<SignatureAlgorithm, number[]> = {
+  'Ed25519': ED25519_PUB_PREFIX,
+  'secp256k1': SECP256K1_PUB_PREFIX,
+  'P-256': P256_PUB_PREFIX
+};
+
+/**
+ * Encode a hex public key (compressed for secp256k1 and P-256) as a base58btc multibase multikey
+ */
+export function publicKeyToMultibase(publicKeyHex: string, algorithm: SignatureAlgorithm): string {
+  const prefix = PUB_PREFIXES[algorithm];
+  return 'z' + base58btcEncode(Uint8Array.from([...prefix, ...Buffer.from(publicKeyHex, 'hex')]));
+}
+
+/**
+ * Decode a base58btc multibase multikey to a hex public key and its algorithm
+ */
+export function multibaseToPublicKey(multibase: string): { publicKey: string; algorithm: SignatureAlgorithm } {
+  if (!multibase.startsWith('z')) {
+    throw new Error('Unsupported multibase encoding');
+  }
+
+  const bytes = base58btcDecode(multibase.slice(1));
+  if (bytes[0] === ED25519_PUB_PREFIX[0] && bytes[1] === ED25519_PUB_PREFIX[1] && bytes.length === 34) {
+    return { publicKey: Buffer.from(bytes.slice(2)).toString('hex'), algorithm: 'Ed25519' };
+  }
+  if (bytes[0] === SECP256K1_PUB_PREFIX[0] && bytes[1] === SECP256K1_PUB_PREFIX[1] && bytes.length === 35) {
+    return { publicKey: Buffer.from(bytes.slice(2)).toString('hex'), algorithm: 'secp256k1' };
+  }
+  if (bytes[0] === P256_PUB_PREFIX[0] && bytes[1] === P256_PUB_PREFIX[1] && bytes.length === 35) {
+    return { publicKey: Buffer.from(bytes.slice(2)).toString('hex'), algorithm: 'P-256' };
+  }
+
+  throw new Error('Unsupported multikey type');
+}
+
+/**
+ * Create a did:key identifier for a public key
+ */
+export function publicKeyToDidKey(publicKeyHex: string, algorithm: SignatureAlgorithm): string {
+  return `did:key:${publicKeyToMultibase(publicKeyHex, algorithm)}`;
+}
+
+/**
+ * Extract the public key from a did:key identifier (or a did:key verification method URL)
+ */
+export function didKeyToPublicKey(didOrUrl: string): { publicKey: string; algorithm: SignatureAlgorithm } {
+  const did = didOrUrl.split('#')[0];
+  if (!did.startsWith('did:key:')) {
+    throw new Error(`Not a did:key identifier: ${did}`);
+  }
+  return multibaseToPublicKey(did.slice('did:key:'.length));
+}
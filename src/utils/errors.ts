@@ -0,0 +1,127 @@
+/**
+ * Domain Errors
+ * Errors with a stable machine-readable code and the HTTP status it is reported with, so callers can tell a
+ * missing customer from a failed sanctions check without parsing the message
+ */
+
+export interface ErrorCodeDefinition {
+  status: number;
+  title: string; // Same for every occurrence - the specifics go in the error message
+}
+
+/**
+ * Every code, with the status and problem title it is reported with
+ */
+export const ERROR_CODES = {
+  // Generic codes, for responses without a more specific one
+  INVALID_REQUEST: { status: 400, title: 'Invalid request' },
+  UNAUTHENTICATED: { status: 401, title: 'Authentication required' },
+  FORBIDDEN: { status: 403, title: 'Forbidden' },
+  NOT_FOUND: { status: 404, title: 'Not found' },
+  CONFLICT: { status: 409, title: 'Conflict' },
+  PAYLOAD_TOO_LARGE: { status: 413, title: 'Request body too large' },
+  UNSUPPORTED_MEDIA_TYPE: { status: 415, title: 'Unsupported media type' },
+  UNPROCESSABLE: { status: 422, title: 'Request cannot be processed' },
+  INTERNAL_ERROR: { status: 500, title: 'Internal server error' },
+  SERVICE_UNAVAILABLE: { status: 503, title: 'Service unavailable' },
+
+  // Requests
+  VALIDATION_FAILED: { status: 400, title: 'Request validation failed' },
+  INSUFFICIENT_SCOPE: { status: 403, title: 'Insufficient scope' },
+  IDEMPOTENCY_KEY_REUSED: { status: 409, title: 'Idempotency key already used for a different request' },
+  IDEMPOTENCY_KEY_IN_PROGRESS: { status: 409, title: 'Idempotency key in use by a request still in progress' },
+
+  // Issuers and the trust registry
+  ISSUER_NOT_FOUND: { status: 404, title: 'Issuer not found' },
+  ISSUER_NOT_AUTHORIZED: { status: 403, title: 'Not authorized for this issuer' },
+  ISSUER_SUSPENDED: { status: 403, title: 'Issuer is suspended' },
+  ISSUER_NOT_ACCREDITED: { status: 403, title: 'Issuer is not accredited' },
+  ISSUER_ALREADY_REGISTERED: { status: 409, title: 'Issuer already registered' },
+  ISSUER_ALREADY_SUSPENDED: { status: 409, title: 'Issuer already suspended' },
+  ISSUER_NOT_SUSPENDED: { status: 409, title: 'Issuer is not suspended' },
+  ISSUER_KEY_NOT_FOUND: { status: 404, title: 'Issuer key not found' },
+  ISSUER_KEY_NOT_REVOCABLE: { status: 409, title: 'Issuer key cannot be revoked' },
+  SIGNATURE_ALGORITHM_MISMATCH: { status: 422, title: 'Signature algorithm does not match the issuer key' },
+  ACCREDITATION_NOT_FOUND: { status: 404, title: 'Accreditation not found' },
+  ACCREDITATION_ENDED: { status: 409, title: 'Accreditation already ended' },
+
+  // Customers and their KYC data
+  CUSTOMER_NOT_FOUND: { status: 404, title: 'Customer not found' },
+  CUSTOMER_ALREADY_EXISTS: { status: 409, title: 'Customer already exists' },
+  KYC_CHECKS_FAILED: { status: 422, title: 'Customer has not passed all required KYC checks' },
+  KYC_LEVEL_MISMATCH: { status: 422, title: 'KYC level mismatch' },
+  ACCREDITED_INVESTOR_MISMATCH: { status: 422, title: 'Accredited investor status mismatch' },
+  KYC_SOURCE_READ_ONLY: { status: 405, title: 'KYC data source is read-only' },
+  KYC_SOURCE_UNAVAILABLE: { status: 503, title: 'KYC data source unavailable' },
+
+  // Credentials
+  CREDENTIAL_NOT_FOUND: { status: 404, title: 'Credential not found' },
+  CREDENTIAL_ALREADY_REVOKED: { status: 409, title: 'Credential already revoked' },
+  DUPLICATE_CREDENTIAL: { status: 409, title: 'Subject already holds an active credential from this issuer' },
+  STATUS_LIST_NOT_FOUND: { status: 404, title: 'Status list not found' },
+  UNKNOWN_CREDENTIAL_CONFIGURATION: { status: 422, title: 'Unknown credential configuration' },
+
+  // Verification and bulk issuance
+  AUTHORIZATION_REQUEST_NOT_FOUND: { status: 404, title: 'Authorization request not found' },
+  ISSUANCE_JOB_NOT_FOUND: { status: 404, title: 'Issuance job not found' },
+  ISSUANCE_JOB_NOT_AUTHORIZED: { status: 403, title: 'Not authorized for this issuance job' },
+  ISSUANCE_JOB_STATE_CONFLICT: { status: 409, title: 'Issuance job is not in a state that allows this' },
+
+  // Webhooks
+  WEBHOOK_SUBSCRIPTION_NOT_FOUND: { status: 404, title: 'Webhook subscription not found' },
+  WEBHOOK_DELIVERY_NOT_FOUND: { status: 404, title: 'Webhook delivery not found' },
+  WEBHOOK_URL_NOT_ALLOWED: { status: 422, title: 'Webhook URL not allowed' }
+} as const satisfies Record<string, ErrorCodeDefinition>;
+
+export type ErrorCode = keyof typeof ERROR_CODES;
+
+/**
+ * An Error carrying its code and status - `details` are reported with it, e.g. the ID that was not found
+ */
+export interface DomainError extends Error {
+  code: ErrorCode;
+  status: number;
+  details?: Record<string, unknown>;
+}
+
+/**
+ * Create a domain error
+ */
+export function domainError(code: ErrorCode, message: string, details?: Record<string, unknown>): DomainError {
+  const error = new Error(message) as DomainError;
+  error.name = 'DomainError';
+  error.code = code;
+  error.status = ERROR_CODES[code].status;
+  if (details) {
+    error.details = details;
+  }
+  return error;
+}
+
+/**
+ * Whether an error is a domain error - of the given code, if one is named
+ */
+export function isDomainError(error: unknown, code?: ErrorCode): error is DomainError {
+  const errorCode = error instanceof Error ? (error as Partial<DomainError>).code : undefined;
+  return errorCode !== undefined && errorCode in ERROR_CODES && (code === undefined || errorCode === code);
+}
+
+const STATUS_ERROR_CODES: Record<number, ErrorCode> = {
+  400: 'INVALID_REQUEST',
+  401: 'UNAUTHENTICATED',
+  403: 'FORBIDDEN',
+  404: 'NOT_FOUND',
+  409: 'CONFLICT',
+  413: 'PAYLOAD_TOO_LARGE',
+  415: 'UNSUPPORTED_MEDIA_TYPE',
+  422: 'UNPROCESSABLE',
+  500: 'INTERNAL_ERROR',
+  503: 'SERVICE_UNAVAILABLE'
+};
+
+/**
+ * Generic code of an HTTP error status
+ */
+export function getStatusErrorCode(status: number): ErrorCode {
+  return STATUS_ERROR_CODES[status] || (status >= 500 ? 'INTERNAL_ERROR' : 'INVALID_REQUEST');
+}
@@ -0,0 +1,69 @@
+/**
+ * JSONPath evaluation
+ * Supports the subset used by Presentation Exchange: the root `$`, dot and bracket member access
+ * (`$.a.b`, `$['a']`), array indexes (`$.a[0]`) and wildcards (`$.a[*]`, `$.a.*`)
+ */
+
+type PathSegment = string | number | '*';
+
+const SEGMENT_PATTERN = /^(?:\.([A-Za-z_$@][\w$@-]*)|\.\*|\[\*\]|\[(\d+)\]|\['((?:[^'\\]|\\.)*)'\]|\["((?:[^"\\]|\\.)*)"\])/;
+
+/**
+ * Parse a JSONPath expression into member/index segments
+ */
+export function parseJsonPath(path: string): PathSegment[] {
+  if (!path.startsWith('$')) {
+    throw new Error(`JSONPath must start with $: ${path}`);
+  }
+
+  const segments: PathSegment[] = [];
+  let rest = path.slice(1);
+  while (rest.length > 0) {
+    const match = SEGMENT_PATTERN.exec(rest);
+    if (!match) {
+      throw new Error(`Unsupported JSONPath expression: ${path}`);
+    }
+
+    const [token, member, index, singleQuoted, doubleQuoted] = match;
+    if (member !== undefined) {
+      segments.push(member);
+    } else if (index !== undefined) {
+      segments.push(Number(index));
+    } else if (singleQuoted !== undefined || doubleQuoted !== undefined) {
+      segments.push((singleQuoted ?? doubleQuoted).replace(/\\(.)/g, '$1'));
+    } else {
+      segments.push('*');
+    }
+    rest = rest.slice(token.length);
+  }
+
+  return segments;
+}
+
+/**
+ * Evaluate a JSONPath expression, returning every matching value
+ */
+export function queryJsonPath(document: unknown, path: string): unknown[] {
+  let current: unknown[] = [document];
+
+  for (const segment of parseJsonPath(path)) {
+    const next: unknown[] = [];
+    for (const value of current) {
+      if (value === null || typeof value !== 'object') {
+        continue;
+      }
+      if (segment === '*') {
+        next.push(...(Array.isArray(value) ? value : Object.values(value)));
+      } else if (typeof segment === 'number') {
+        if (Array.isArray(value) && segment < value.length) {
+          next.push(value[segment]);
+        }
+      } else if (!Array.isArray(value) && Object.prototype.hasOwnProperty.call(value, segment)) {
+        next.push((value as Record<string, unknown>)[segment]);
+      }
+    }
+    current = next;
+  }
+
+  return current;
+}
@@ -0,0 +1,183 @@
+/**
+ * JSON Schema Validation
+ * The subset of JSON Schema the API's request schemas use - types, enums, string patterns and formats,
+ * number ranges, arrays and objects with required and unknown properties, and alternatives
+ */
+
+export type JsonSchemaType = 'string' | 'number' | 'integer' | 'boolean' | 'array' | 'object' | 'null';
+
+export interface JsonSchema {
+  type?: JsonSchemaType | JsonSchemaType[];
+  description?: string; // What a valid value looks like, used in place of the generic message
+  enum?: readonly unknown[];
+  pattern?: string;
+  format?: 'date' | 'date-time';
+  minLength?: number;
+  maxLength?: number;
+  minimum?: number;
+  maximum?: number;
+  items?: JsonSchema;
+  minItems?: number;
+  maxItems?: number;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean | JsonSchema; // Defaults to true
+  anyOf?: JsonSchema[];
+}
+
+const TYPE_NAMES: Record<JsonSchemaType, string> = {
+  string: 'a string',
+  number: 'a number',
+  integer: 'an integer',
+  boolean: 'a boolean',
+  array: 'an array',
+  object: 'an object',
+  null: 'null'
+};
+
+function matchesType(value: unknown, type: JsonSchemaType): boolean {
+  switch (type) {
+    case 'array':
+      return Array.isArray(value);
+    case 'object':
+      return typeof value === 'object' && value !== null && !Array.isArray(value);
+    case 'null':
+      return value === null;
+    case 'integer':
+      return Number.isInteger(value);
+    case 'number':
+      return typeof value === 'number' && Number.isFinite(value);
+    default:
+      return typeof value === type;
+  }
+}
+
+function matchesFormat(value: string, format: NonNullable<JsonSchema['format']>): boolean {
+  if (format === 'date') {
+    const time = Date.parse(`${value}T00:00:00Z`);
+    return /^\d{4}-\d{2}-\d{2}$/.test(value) && !isNaN(time) && new Date(time).toISOString().startsWith(value);
+  }
+  return /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:\d{2})$/.test(value) && !isNaN(Date.parse(value));
+}
+
+/**
+ * Why a value fails the keywords of a schema that apply to the value itself, or null if it passes them
+ */
+function checkValue(value: unknown, schema: JsonSchema): string | null {
+  const types = schema.type === undefined ? [] : ([] as JsonSchemaType[]).concat(schema.type);
+  if (types.length > 0 && !types.some(type => matchesType(value, type))) {
+    return types.map(type => TYPE_NAMES[type]).join(' or ');
+  }
+  if (schema.enum && !schema.enum.includes(value)) {
+    return `one of ${schema.enum.join(', ')}`;
+  }
+
+  if (typeof value === 'string') {
+    if (schema.minLength !== undefined && value.length < schema.minLength) {
+      return schema.minLength === 1 ? 'a non-empty string' : `at least ${schema.minLength} characters`;
+    }
+    if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+      return `at most ${schema.maxLength} characters`;
+    }
+    if (schema.pattern !== undefined && !new RegExp(schema.pattern).test(value)) {
+      return `a string matching ${schema.pattern}`;
+    }
+    if (schema.format !== undefined && !matchesFormat(value, schema.format)) {
+      return schema.format === 'date' ? 'a date as YYYY-MM-DD' : 'an ISO 8601 date-time';
+    }
+  }
+
+  if (typeof value === 'number') {
+    if (schema.minimum !== undefined && value < schema.minimum) {
+      return `at least ${schema.minimum}`;
+    }
+    if (schema.maximum !== undefined && value > schema.maximum) {
+      return `at most ${schema.maximum}`;
+    }
+  }
+
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) {
+      return schema.minItems === 1 ? 'a non-empty array' : `at least ${schema.minItems} items`;
+    }
+    if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+      return `at most ${schema.maxItems} items`;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Validate a value, or the field at `path` within the validated value (the root when empty)
+ */
+function validateAt(value: unknown, schema: JsonSchema, path: string, rootName: string): string[] {
+  const label = path || rootName;
+
+  // 1. The value itself
+  const expected = checkValue(value, schema);
+  if (expected) {
+    return [`Invalid ${label}: expected ${schema.description || expected}`];
+  }
+
+  // 2. Alternatives - the value must match at least one
+  if (schema.anyOf) {
+    const results = schema.anyOf.map(alternative => validateAt(value, alternative, path, rootName));
+    if (!results.some(errors => errors.length === 0)) {
+      return [results.map(errors => errors.join('; ')).join('; or ')];
+    }
+  }
+
+  const errors: string[] = [];
+
+  // 3. Array items
+  if (Array.isArray(value) && schema.items) {
+    value.forEach((item, index) => errors.push(...validateAt(item, schema.items!, `${label}[${index}]`, rootName)));
+  }
+
+  // 4. Object properties
+  if (matchesType(value, 'object')) {
+    const object = value as Record<string, unknown>;
+    const propertyPath = (property: string) => path ? `${path}.${property}` : property;
+
+    const missing = (schema.required || []).filter(property => object[property] === undefined);
+    errors.push(...missing.map(property => `Missing required field: ${propertyPath(property)}`));
+
+    for (const [property, propertyValue] of Object.entries(object)) {
+      const propertySchema = schema.properties?.[property] ??
+        (typeof schema.additionalProperties === 'object' ? schema.additionalProperties : undefined);
+      if (propertySchema) {
+        if (propertyValue !== undefined) {
+          errors.push(...validateAt(propertyValue, propertySchema, propertyPath(property), rootName));
+        }
+      } else if (schema.additionalProperties === false) {
+        errors.push(`Unknown field: ${propertyPath(property)}`);
+      }
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Validate a value against a schema - returns one message per problem, empty if the value is valid
+ * Fields are named by their path, e.g. `Invalid requests[2].kycLevel: expected one of ...`; `name` labels the
+ * value itself
+ */
+export function validateJsonSchema(value: unknown, schema: JsonSchema, name = 'value'): string[] {
+  return validateAt(value, schema, '', name);
+}
+
+/**
+ * A DID, e.g. did:web:jpmorgan.com
+ */
+export const DID_SCHEMA: JsonSchema = { type: 'string', pattern: '^did:[a-z0-9]+:\\S+$', description: 'a DID' };
+
+/**
+ * Jurisdiction codes - ISO 3166 country codes and regions such as EU or APAC
+ */
+export const JURISDICTIONS_SCHEMA: JsonSchema = {
+  type: 'array',
+  minItems: 1,
+  items: { type: 'string', pattern: '^[A-Z]{2,4}$', description: 'a jurisdiction code such as US, EU or APAC' }
+};
@@ -0,0 +1,81 @@
+/**
+ * JSON Web Key conversion
+ * Converts between hex-encoded public keys and public JWKs (RFC 7517 / RFC 8037)
+ */
+
+import * as secp256k1 from '@noble/secp256k1';
+import { ECDH } from 'crypto';
+import { SignatureAlgorithm } from '../types/credentials';
+
+export interface PublicJwk {
+  kty: 'OKP' | 'EC';
+  crv: 'Ed25519' | 'secp256k1' | 'P-256';
+  x: string;
+  y?: string;
+  kid?: string;
+}
+
+/**
+ * Convert a hex public key to a public JWK
+ */
+export function publicKeyToJwk(publicKeyHex: string, algorithm: SignatureAlgorithm): PublicJwk {
+  if (algorithm === 'Ed25519') {
+    return {
+      kty: 'OKP',
+      crv: 'Ed25519',
+      x: Buffer.from(publicKeyHex, 'hex').toString('base64url')
+    };
+  } else if (algorithm === 'secp256k1') {
+    const uncompressed = secp256k1.ProjectivePoint.fromHex(publicKeyHex).toRawBytes(false);
+    return {
+      kty: 'EC',
+      crv: 'secp256k1',
+      x: Buffer.from(uncompressed.slice(1, 33)).toString('base64url'),
+      y: Buffer.from(uncompressed.slice(33, 65)).toString('base64url')
+    };
+  } else if (algorithm === 'P-256') {
+    const uncompressed = Buffer.from(ECDH.convertKey(publicKeyHex, 'prime256v1', 'hex', 'hex', 'uncompressed') as string, 'hex');
+    return {
+      kty: 'EC',
+      crv: 'P-256',
+      x: uncompressed.subarray(1, 33).toString('base64url'),
+      y: uncompressed.subarray(33, 65).toString('base64url')
+    };
+  }
+
+  throw new Error(`Unsupported signature algorithm: ${algorithm}`);
+}
+
+/**
+ * Convert a public JWK to a hex public key (compressed for secp256k1 and P-256)
+ */
+export function jwkToPublicKey(jwk: PublicJwk): { publicKey: string; algorithm: SignatureAlgorithm } {
+  if (jwk.kty === 'OKP' && jwk.crv === 'Ed25519') {
+    return {
+      publicKey: Buffer.from(jwk.x, 'base64url').toString('hex'),
+      algorithm: 'Ed25519'
+    };
+  } else if (jwk.kty === 'EC' && jwk.crv === 'secp256k1' && jwk.y) {
+    const uncompressed = Buffer.concat([
+      Buffer.from([0x04]),
+      Buffer.from(jwk.x, 'base64url'),
+      Buffer.from(jwk.y, 'base64url')
+    ]);
+    return {
+      publicKey: secp256k1.ProjectivePoint.fromHex(uncompressed).toHex(true),
+      algorithm: 'secp256k1'
+    };
+  } else if (jwk.kty === 'EC' && jwk.crv === 'P-256' && jwk.y) {
+    const uncompressed = Buffer.concat([
+      Buffer.from([0x04]),
+      Buffer.from(jwk.x, 'base64url'),
+      Buffer.from(jwk.y, 'base64url')
+    ]);
+    return {
+      publicKey: ECDH.convertKey(uncompressed, 'prime256v1', undefined, 'hex', 'compressed') as string,
+      algorithm: 'P-256'
+    };
+  }
+
+  throw new Error(`Unsupported JWK: kty=${jwk.kty}, crv=${jwk.crv}`);
+}
@@ -0,0 +1,133 @@
+/**
+ * Compact JWS utilities
+ * Signs and verifies JWTs with the issuer key material (EdDSA for Ed25519, ES256K for secp256k1, ES256 for P-256)
+ */
+
+import { SignatureAlgorithm } from '../types/credentials';
+import { verifyBytes, SignFunction } from './crypto';
+
+export type JwsAlgorithm = 'EdDSA' | 'ES256K' | 'ES256';
+
+export interface JwtHeader {
+  alg: JwsAlgorithm;
+  typ?: string;
+  kid?: string;
+  [key: string]: unknown;
+}
+
+export type JwtPayload = Record<string, unknown>;
+
+export interface DecodedJwt {
+  header: JwtHeader;
+  payload: JwtPayload;
+  signature: Uint8Array;
+  signingInput: string;
+}
+
+const COMPACT_JWS_PATTERN = /^[A-Za-z0-9_-]+\.[A-Za-z0-9_-]+\.[A-Za-z0-9_-]*$/;
+
+/**
+ * Map a signature algorithm to its JWS "alg" value
+ */
+export function getJwsAlgorithm(algorithm: SignatureAlgorithm): JwsAlgorithm {
+  if (algorithm === 'Ed25519') {
+    return 'EdDSA';
+  } else if (algorithm === 'secp256k1') {
+    return 'ES256K';
+  } else if (algorithm === 'P-256') {
+    return 'ES256';
+  }
+
+  throw new Error(`Unsupported signature algorithm: ${algorithm}`);
+}
+
+/**
+ * Map a JWS "alg" value back to a signature algorithm
+ */
+export function getSignatureAlgorithm(alg: string): SignatureAlgorithm {
+  if (alg === 'EdDSA') {
+    return 'Ed25519';
+  } else if (alg === 'ES256K') {
+    return 'secp256k1';
+  } else if (alg === 'ES256') {
+    return 'P-256';
+  }
+
+  throw new Error(`Unsupported JWS algorithm: ${alg}`);
+}
+
+/**
+ * Base64url-encode a JSON value
+ */
+export function base64UrlEncodeJson(value: unknown): string {
+  return Buffer.from(JSON.stringify(value)).toString('base64url');
+}
+
+/**
+ * Check whether a value looks like a compact JWS
+ */
+export function isCompactJws(value: unknown): value is string {
+  return typeof value === 'string' && COMPACT_JWS_PATTERN.test(value.trim());
+}
+
+/**
+ * Signing time of a JWT as an ISO date, from iat (falling back to nbf)
+ */
+export function getJwtIssuedAt(payload: JwtPayload): string | undefined {
+  const issuedAt = typeof payload.iat === 'number' ? payload.iat : payload.nbf;
+  return typeof issuedAt === 'number' ? new Date(issuedAt * 1000).toISOString() : undefined;
+}
+
+/**
+ * Sign a JWT payload
+ */
+export async function signJwt(
+  header: Omit<JwtHeader, 'alg'>,
+  payload: JwtPayload,
+  sign: SignFunction,
+  algorithm: SignatureAlgorithm
+): Promise<string> {
+  const fullHeader: JwtHeader = { alg: getJwsAlgorithm(algorithm), ...header };
+  const signingInput = `${base64UrlEncodeJson(fullHeader)}.${base64UrlEncodeJson(payload)}`;
+  const signature = await sign(Buffer.from(signingInput));
+
+  return `${signingInput}.${Buffer.from(signature).toString('base64url')}`;
+}
+
+/**
+ * Decode a compact JWS without verifying it
+ */
+export function decodeJwt(token: string): DecodedJwt {
+  if (!isCompactJws(token)) {
+    throw new Error('Malformed JWT');
+  }
+
+  const [encodedHeader, encodedPayload, encodedSignature] = token.trim().split('.');
+
+  try {
+    return {
+      header: JSON.parse(Buffer.from(encodedHeader, 'base64url').toString('utf8')),
+      payload: JSON.parse(Buffer.from(encodedPayload, 'base64url').toString('utf8')),
+      signature: Uint8Array.from(Buffer.from(encodedSignature, 'base64url')),
+      signingInput: `${encodedHeader}.${encodedPayload}`
+    };
+  } catch (error) {
+    throw new Error('Malformed JWT');
+  }
+}
+
+/**
+ * Verify the signature of a decoded JWS
+ * The header "alg" must match the algorithm of the key it is verified against
+ */
+export async function verifyJwtSignature(
+  decoded: DecodedJwt,
+  publicKey: string,
+  algorithm: SignatureAlgorithm
+): Promise<boolean> {
+  if (decoded.header.alg !== getJwsAlgorithm(algorithm)) {
+    return false;
+  }
+
+  return verifyBytes(Buffer.from(decoded.signingInput), decoded.signature, publicKey, algorithm);
+}
@@ -0,0 +1,235 @@
+/**
+ * XML parsing and serialization
+ * Covers what ISO 20022 messages use: elements, attributes, namespaces, text, CDATA, comments and processing
+ * instructions. DOCTYPE declarations are refused, so no external or expanding entities are ever resolved
+ */
+
+/**
+ * An element to serialize
+ */
+export interface XmlNode {
+  name: string;
+  attributes?: Record<string, string>;
+  children?: XmlNode[];
+  text?: string;
+}
+
+/**
+ * A parsed element - names are local names, with the namespace URI they resolve to
+ */
+export interface XmlElement {
+  name: string;
+  namespace: string | null;
+  attributes: Record<string, string>; // By local name; namespace declarations are left out
+  children: XmlElement[];
+  text: string; // Character data directly inside the element
+}
+
+const NAME = '[A-Za-z_][\\w.-]*(?::[A-Za-z_][\\w.-]*)?';
+const START_TAG = new RegExp(`<(${NAME})`, 'y');
+const ATTRIBUTE = new RegExp(`\\s+(${NAME})\\s*=\\s*(?:"([^"<]*)"|'([^'<]*)')`, 'y');
+const START_TAG_END = /\s*(\/?)>/y;
+const END_TAG = new RegExp(`</(${NAME})\\s*>`, 'y');
+const WHITESPACE = /\s*/y;
+
+const PREDEFINED_ENTITIES: Record<string, string> = {
+  lt: '<',
+  gt: '>',
+  amp: '&',
+  quot: '"',
+  apos: "'"
+};
+
+/**
+ * Escape text for use in element content or a double-quoted attribute
+ */
+export function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+/**
+ * Parse an XML document and return its root element - throws if it is not well-formed
+ */
+export function parseXml(xml: string): XmlElement {
+  let pos = 0;
+
+  const fail = (message: string): never => {
+    const line = xml.slice(0, pos).split('\n').length;
+    throw new Error(`XML is not well-formed (line ${line}): ${message}`);
+  };
+
+  const match = (pattern: RegExp): RegExpExecArray | null => {
+    pattern.lastIndex = pos;
+    const result = pattern.exec(xml);
+    if (result) {
+      pos = pattern.lastIndex;
+    }
+    return result;
+  };
+
+  const skipUntil = (terminator: string, what: string): string => {
+    const end = xml.indexOf(terminator, pos);
+    if (end === -1) {
+      fail(`unterminated ${what}`);
+    }
+    const skipped = xml.slice(pos, end);
+    pos = end + terminator.length;
+    return skipped;
+  };
+
+  const decode = (text: string): string => text.replace(/&([^;&\s]*);|&/g, (entity, name: string | undefined) => {
+    if (name === undefined) {
+      return fail('unescaped &');
+    }
+    if (PREDEFINED_ENTITIES[name]) {
+      return PREDEFINED_ENTITIES[name];
+    }
+    const codePoint = /^#x[0-9a-f]+$/i.test(name)
+      ? parseInt(name.slice(2), 16)
+      : /^#\d+$/.test(name) ? parseInt(name.slice(1), 10) : NaN;
+    if (isNaN(codePoint) || codePoint > 0x10ffff) {
+      return fail(`unknown entity ${entity}`);
+    }
+    return String.fromCodePoint(codePoint);
+  });
+
+  // Comments, processing instructions and whitespace outside the root element
+  const skipMisc = (): void => {
+    for (;;) {
+      match(WHITESPACE);
+      if (xml.startsWith('<?', pos)) {
+        pos += 2;
+        skipUntil('?>', 'processing instruction');
+      } else if (xml.startsWith('<!--', pos)) {
+        pos += 4;
+        skipUntil('-->', 'comment');
+      } else if (xml.startsWith('<!DOCTYPE', pos)) {
+        fail('DOCTYPE declarations are not allowed');
+      } else {
+        return;
+      }
+    }
+  };
+
+  const parseElement = (scope: Record<string, string>): XmlElement => {
+    const start = match(START_TAG);
+    if (!start) {
+      return fail('expected an element');
+    }
+    const qualifiedName = start[1];
+
+    // 1. Attributes and namespace declarations
+    const rawAttributes: Array<[string, string]> = [];
+    let attribute: RegExpExecArray | null;
+    while ((attribute = match(ATTRIBUTE))) {
+      const name = attribute[1];
+      if (rawAttributes.some(([existing]) => existing === name)) {
+        fail(`duplicate attribute ${name} on ${qualifiedName}`);
+      }
+      rawAttributes.push([name, decode(attribute[2] ?? attribute[3])]);
+    }
+    const end = match(START_TAG_END);
+    if (!end) {
+      return fail(`malformed start tag ${qualifiedName}`);
+    }
+
+    const elementScope = { ...scope };
+    const attributes: Record<string, string> = {};
+    for (const [name, value] of rawAttributes) {
+      if (name === 'xmlns') {
+        elementScope[''] = value;
+      } else if (name.startsWith('xmlns:')) {
+        elementScope[name.slice('xmlns:'.length)] = value;
+      } else {
+        attributes[name.includes(':') ? name.split(':')[1] : name] = value;
+      }
+    }
+
+    const [prefix, localName] = qualifiedName.includes(':') ? qualifiedName.split(':') : ['', qualifiedName];
+    if (prefix && elementScope[prefix] === undefined) {
+      fail(`undeclared namespace prefix ${prefix}`);
+    }
+    const element: XmlElement = {
+      name: localName,
+      namespace: elementScope[prefix] || null,
+      attributes,
+      children: [],
+      text: ''
+    };
+    if (end[1] === '/') {
+      return element;
+    }
+
+    // 2. Content up to the matching end tag
+    for (;;) {
+      if (pos >= xml.length) {
+        return fail(`missing end tag for ${qualifiedName}`);
+      }
+      if (xml.startsWith('</', pos)) {
+        const close = match(END_TAG);
+        if (!close || close[1] !== qualifiedName) {
+          return fail(`expected </${qualifiedName}>`);
+        }
+        return element;
+      }
+      if (xml.startsWith('<!--', pos)) {
+        pos += 4;
+        skipUntil('-->', 'comment');
+      } else if (xml.startsWith('<![CDATA[', pos)) {
+        pos += 9;
+        element.text += skipUntil(']]>', 'CDATA section');
+      } else if (xml.startsWith('<?', pos)) {
+        pos += 2;
+        skipUntil('?>', 'processing instruction');
+      } else if (xml.startsWith('<', pos)) {
+        element.children.push(parseElement(elementScope));
+      } else {
+        const next = xml.indexOf('<', pos);
+        const text = xml.slice(pos, next === -1 ? xml.length : next);
+        pos += text.length;
+        element.text += decode(text);
+      }
+    }
+  };
+
+  skipMisc();
+  const root = parseElement({});
+  skipMisc();
+  if (pos < xml.length) {
+    fail('content after the root element');
+  }
+  return root;
+}
+
+/**
+ * Serialize an element as an indented XML document with a declaration
+ */
+export function serializeXml(root: XmlNode): string {
+  const lines: string[] = ['<?xml version="1.0" encoding="UTF-8"?>'];
+
+  const write = (node: XmlNode, depth: number): void => {
+    const indent = '  '.repeat(depth);
+    const attributes = Object.entries(node.attributes || {})
+      .map(([name, value]) => ` ${name}="${escapeXml(value)}"`)
+      .join('');
+    const children = node.children || [];
+
+    if (children.length > 0) {
+      lines.push(`${indent}<${node.name}${attributes}>`);
+      children.forEach(child => write(child, depth + 1));
+      lines.push(`${indent}</${node.name}>`);
+    } else if (node.text !== undefined && node.text !== '') {
+      lines.push(`${indent}<${node.name}${attributes}>${escapeXml(node.text)}</${node.name}>`);
+    } else {
+      lines.push(`${indent}<${node.name}${attributes}/>`);
+    }
+  };
+
+  write(root, 0);
+  return lines.join('\n') + '\n';
+}
@@ -0,0 +1,138 @@
+import { AddressInfo } from 'net';
+import { Server } from 'http';
+import app from '../src/api/server';
+import { useDevApiClients } from '../src/auth/api-clients';
+import { setAccessTokenConfig } from '../src/auth/access-tokens';
+import { createLocalAuthorizationServer, LocalAuthorizationServer } from '../src/mocks/local-authorization-server';
+import { ProblemDetails } from '../src/api/problems';
+
+const JPMORGAN_API_KEY = 'dev-jpmorgan-api-key';
+const VERIFIER_API_KEY = 'dev-verifier-api-key';
+
+let server: Server;
+let baseUrl: string;
+let authorizationServer: LocalAuthorizationServer;
+
+beforeAll(async () => {
+  jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  server = app.listen(0);
+  await new Promise(resolve => server.once('listening', resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/api`;
+});
+
+afterAll(async () => {
+  await new Promise(resolve => server.close(resolve));
+  jest.restoreAllMocks();
+});
+
+function request(path: string, headers: Record<string, string>, body?: unknown): Promise<globalThis.Response> {
+  return fetch(`${baseUrl}${path}`, {
+    method: body === undefined ? 'GET' : 'POST',
+    headers: { ...headers, ...(body !== undefined && { 'Content-Type': 'application/json' }) },
+    body: body === undefined ? undefined : JSON.stringify(body)
+  });
+}
+
+const problem = (response: globalThis.Response) => response.json() as Promise<ProblemDetails>;
+const bearer = (token: string) => ({ Authorization: `Bearer ${token}` });
+
+describe('without configured clients', () => {
+  it('does not accept the development API keys', async () => {
+    const response = await request('/credentials', { 'X-API-Key': JPMORGAN_API_KEY });
+
+    expect(response.status).toBe(401);
+    expect((await problem(response)).detail).toBe('Authentication required: Invalid API key');
+  });
+});
+
+describe('API keys', () => {
+  beforeAll(() => {
+    useDevApiClients();
+  });
+
+  it('asks for credentials when none are presented', async () => {
+    const response = await request('/credentials', {});
+
+    expect(response.status).toBe(401);
+    expect(response.headers.get('www-authenticate')).toBe('Bearer, ApiKey');
+  });
+
+  it('rejects an unknown API key', async () => {
+    const response = await request('/credentials', { 'X-API-Key': 'not-a-key' });
+
+    expect(response.status).toBe(401);
+    expect((await problem(response)).detail).toBe('Authentication required: Invalid API key');
+  });
+
+  it('accepts a known API key for a scope its client holds', async () => {
+    const response = await request('/credentials', { 'X-API-Key': JPMORGAN_API_KEY });
+
+    expect(response.status).toBe(200);
+  });
+
+  it('refuses a scope the client does not hold', async () => {
+    const response = await request('/credentials', { 'X-API-Key': VERIFIER_API_KEY });
+
+    expect(response.status).toBe(403);
+    expect(await problem(response)).toMatchObject({ code: 'INSUFFICIENT_SCOPE', requiredScope: 'credentials:read' });
+  });
+
+  it('refuses to issue for a bank the client is not bound to', async () => {
+    const response = await request('/credentials/issue', { 'X-API-Key': JPMORGAN_API_KEY }, {
+      customerKycId: 'KYC-001',
+      issuerDid: 'did:did3:bank:goldmansachs',
+      kycLevel: 'enhanced',
+      accreditedInvestor: true,
+      jurisdiction: ['US']
+    });
+
+    expect(response.status).toBe(403);
+    expect((await problem(response)).code).toBe('ISSUER_NOT_AUTHORIZED');
+  });
+});
+
+describe('access tokens', () => {
+  beforeAll(async () => {
+    useDevApiClients();
+    authorizationServer = await createLocalAuthorizationServer();
+    setAccessTokenConfig(authorizationServer.config);
+  });
+
+  it('accepts a token granting a scope its client holds', async () => {
+    const token = await authorizationServer.issueToken('jpmorgan-backoffice', ['credentials:read']);
+
+    const response = await request('/credentials', bearer(token));
+    expect(response.status).toBe(200);
+  });
+
+  it('grants only the scopes both the token and its client hold', async () => {
+    const token = await authorizationServer.issueToken('jpmorgan-backoffice', ['verify']);
+
+    const response = await request('/credentials', bearer(token));
+    expect(response.status).toBe(403);
+    expect((await problem(response)).code).toBe('INSUFFICIENT_SCOPE');
+  });
+
+  it('rejects an expired token', async () => {
+    const token = await authorizationServer.issueToken('jpmorgan-backoffice', ['credentials:read'], -120);
+
+    const response = await request('/credentials', bearer(token));
+    expect(response.status).toBe(401);
+  });
+
+  it('rejects a token signed by another authorization server', async () => {
+    const other = await createLocalAuthorizationServer();
+    const token = await other.issueToken('jpmorgan-backoffice', ['credentials:read']);
+
+    const response = await request('/credentials', bearer(token));
+    expect(response.status).toBe(401);
+  });
+
+  it('rejects a token for an unknown client', async () => {
+    const token = await authorizationServer.issueToken('unknown-client', ['credentials:read']);
+
+    const response = await request('/credentials', bearer(token));
+    expect(response.status).toBe(401);
+    expect((await problem(response)).detail).toBe('Authentication required: Unknown client: unknown-client');
+  });
+});
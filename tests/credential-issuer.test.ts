@@ -0,0 +1,81 @@
+import {
+  issueCredential,
+  revokeCredential,
+  verifyCredential,
+  verifyJwtCredential
+} from '../src/services/credential-issuer';
+import { decodeJwt } from '../src/utils/jwt';
+import { IssueCredentialRequest, VerifiableCredential } from '../src/types/credentials';
+
+const JPMORGAN = 'did:did3:bank:jpmorgan'; // Ed25519
+const GOLDMAN_SACHS = 'did:did3:bank:goldmansachs'; // P-256
+
+function issueRequest(issuerDid: string): IssueCredentialRequest {
+  return {
+    customerKycId: 'KYC-001',
+    issuerDid,
+    kycLevel: 'enhanced',
+    accreditedInvestor: true,
+    jurisdiction: ['US']
+  };
+}
+
+describe('JSON-LD credentials', () => {
+  it.each([
+    [JPMORGAN, 'eddsa-jcs-2022'],
+    [GOLDMAN_SACHS, 'ecdsa-jcs-2019']
+  ])('signs and verifies a credential of %s with %s', async (issuerDid, cryptosuite) => {
+    const credential = await issueCredential(issueRequest(issuerDid));
+
+    expect(credential.proof.type).toBe('DataIntegrityProof');
+    expect(credential.proof.cryptosuite).toBe(cryptosuite);
+    const result = await verifyCredential(credential);
+    expect(result.errors).toEqual([]);
+    expect(result.valid).toBe(true);
+  });
+
+  it.each([JPMORGAN, GOLDMAN_SACHS])('rejects a credential of %s with a tampered nested claim', async issuerDid => {
+    const credential = await issueCredential(issueRequest(issuerDid));
+    const tampered: VerifiableCredential = JSON.parse(JSON.stringify(credential));
+    tampered.credentialSubject.claims.accreditedInvestor = false;
+
+    const result = await verifyCredential(tampered);
+    expect(result.valid).toBe(false);
+    expect(result.errors).toContain('Invalid signature');
+  });
+
+  it('reports a revoked credential', async () => {
+    const credential = await issueCredential(issueRequest(JPMORGAN));
+    await revokeCredential(credential.id);
+
+    const result = await verifyCredential(credential);
+    expect(result.valid).toBe(false);
+    expect(result.revoked).toBe(true);
+  });
+});
+
+describe('JWT-VC credentials', () => {
+  it.each([
+    [JPMORGAN, 'EdDSA'],
+    [GOLDMAN_SACHS, 'ES256']
+  ])('signs and verifies a JWT of %s with %s', async (issuerDid, alg) => {
+    const token = await issueCredential(issueRequest(issuerDid), { envelope: 'jwt' });
+
+    expect(decodeJwt(token).header.alg).toBe(alg);
+    const result = await verifyJwtCredential(token);
+    expect(result.errors).toEqual([]);
+    expect(result.valid).toBe(true);
+  });
+
+  it('rejects a JWT whose payload was changed', async () => {
+    const token = await issueCredential(issueRequest(JPMORGAN), { envelope: 'jwt' });
+    const [header, payload, signature] = token.split('.');
+    const claims = JSON.parse(Buffer.from(payload, 'base64url').toString());
+    claims.vc.credentialSubject.claims.kycLevel = 'institutional';
+    const tampered = [header, Buffer.from(JSON.stringify(claims)).toString('base64url'), signature].join('.');
+
+    const result = await verifyJwtCredential(tampered);
+    expect(result.valid).toBe(false);
+    expect(result.errors).toContain('Invalid signature');
+  });
+});
@@ -0,0 +1,98 @@
+import { issueCredential } from '../src/services/credential-issuer';
+import { createChallenge, createPresentation, verifyPresentation } from '../src/services/presentation';
+import { generateKeyPair } from '../src/utils/crypto';
+import { publicKeyToDidKey } from '../src/utils/did-key';
+import { VerifiableCredential, VerifiablePresentation } from '../src/types/credentials';
+
+const DOMAIN = 'https://pool.example';
+
+let holder: { did: string; privateKey: string };
+let credential: VerifiableCredential;
+
+beforeAll(async () => {
+  const { privateKey, publicKey } = await generateKeyPair('Ed25519');
+  holder = { did: publicKeyToDidKey(publicKey, 'Ed25519'), privateKey };
+  credential = await issueCredential({
+    customerKycId: 'KYC-001',
+    issuerDid: 'did:did3:bank:jpmorgan',
+    kycLevel: 'enhanced',
+    accreditedInvestor: true,
+    jurisdiction: ['US']
+  }, { holderDid: holder.did });
+});
+
+function present(challenge: string, domain: string = DOMAIN): Promise<VerifiablePresentation> {
+  return createPresentation([credential], {
+    holder: holder.did,
+    privateKey: holder.privateKey,
+    algorithm: 'Ed25519',
+    challenge,
+    domain
+  });
+}
+
+describe('verifyPresentation', () => {
+  it('accepts a presentation for an issued challenge and reports its domain and challenge', async () => {
+    const { challenge } = createChallenge(DOMAIN);
+
+    const result = await verifyPresentation(await present(challenge));
+    expect(result.errors).toEqual([]);
+    expect(result.valid).toBe(true);
+    expect(result.domain).toBe(DOMAIN);
+    expect(result.challenge).toBe(challenge);
+  });
+
+  it('accepts a challenge only once', async () => {
+    const { challenge } = createChallenge(DOMAIN);
+    const presentation = await present(challenge);
+
+    expect((await verifyPresentation(presentation)).valid).toBe(true);
+    const replay = await verifyPresentation(presentation);
+    expect(replay.valid).toBe(false);
+    expect(replay.errors).toContain('Unknown or already used challenge');
+  });
+
+  it('rejects a challenge it did not issue', async () => {
+    const result = await verifyPresentation(await present('made-up-challenge'));
+
+    expect(result.valid).toBe(false);
+    expect(result.errors).toContain('Unknown or already used challenge');
+  });
+
+  it('rejects a presentation for another domain', async () => {
+    const { challenge } = createChallenge(DOMAIN);
+
+    const result = await verifyPresentation(await present(challenge, 'https://attacker.example'));
+    expect(result.valid).toBe(false);
+    expect(result.errors).toContain('Challenge was issued for a different domain');
+  });
+
+  it('rejects an expired challenge', async () => {
+    const { challenge } = createChallenge(DOMAIN, -1);
+
+    const result = await verifyPresentation(await present(challenge));
+    expect(result.valid).toBe(false);
+    expect(result.errors).toContain('Challenge has expired');
+  });
+
+  it('only lets the client a challenge was issued to use it', async () => {
+    const { challenge } = createChallenge(DOMAIN, undefined, 'verifier-a');
+    const presentation = await present(challenge);
+
+    const otherClient = await verifyPresentation(presentation, { clientId: 'verifier-b' });
+    expect(otherClient.valid).toBe(false);
+    expect(otherClient.errors).toContain('Unknown or already used challenge');
+    expect((await verifyPresentation(presentation)).valid).toBe(false);
+    expect((await verifyPresentation(presentation, { clientId: 'verifier-a' })).valid).toBe(true);
+  });
+
+  it('does not spend the challenge on a presentation that fails', async () => {
+    const { challenge } = createChallenge(DOMAIN);
+    const presentation = await present(challenge);
+    const tampered: VerifiablePresentation = { ...presentation, type: ['VerifiablePresentation', 'Tampered'] };
+
+    const failed = await verifyPresentation(tampered);
+    expect(failed.errors).toContain('Invalid holder signature');
+    expect((await verifyPresentation(presentation)).valid).toBe(true);
+  });
+});
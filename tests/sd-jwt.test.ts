@@ -0,0 +1,119 @@
+import { issueCredential } from '../src/services/credential-issuer';
+import { createSdJwtPresentation, verifySdJwtCredential, KEY_BINDING_MAX_AGE_SECONDS } from '../src/services/sd-jwt';
+import { generateKeyPair } from '../src/utils/crypto';
+import { IssueCredentialRequest, SignatureAlgorithm } from '../src/types/credentials';
+
+const REQUEST: IssueCredentialRequest = {
+  customerKycId: 'KYC-001',
+  issuerDid: 'did:did3:bank:jpmorgan',
+  kycLevel: 'enhanced',
+  accreditedInvestor: true,
+  jurisdiction: ['US']
+};
+const VERIFIER = { audience: 'https://pool.example', nonce: 'n-8f2e1b9d' };
+
+describe.each<SignatureAlgorithm>(['Ed25519', 'P-256', 'secp256k1'])('key binding with a %s holder key', algorithm => {
+  let holderPrivateKey: string;
+  let boundSdJwt: string;
+
+  beforeAll(async () => {
+    const { privateKey, publicKey } = await generateKeyPair(algorithm);
+    holderPrivateKey = privateKey;
+    boundSdJwt = await issueCredential(REQUEST, { envelope: 'sd-jwt', holderPublicKey: { publicKey, algorithm } });
+  });
+
+  const presentWithKeyBinding = (keyBinding: Partial<typeof VERIFIER> = {}) =>
+    createSdJwtPresentation(boundSdJwt, ['claims.kycLevel'], {
+      privateKey: holderPrivateKey,
+      algorithm,
+      ...VERIFIER,
+      ...keyBinding
+    });
+
+  it('verifies a presentation bound to the verifier audience and nonce', async () => {
+    const result = await verifySdJwtCredential(await presentWithKeyBinding(), VERIFIER);
+
+    expect(result.errors).toEqual([]);
+    expect(result.valid).toBe(true);
+    expect(result.keyBound).toBe(true);
+    expect(result.disclosedClaims).toMatchObject({ claims: { kycLevel: 'enhanced' } });
+  });
+
+  it('rejects a holder-bound credential presented without a key binding JWT', async () => {
+    const presentation = await createSdJwtPresentation(boundSdJwt, ['claims.kycLevel']);
+
+    const result = await verifySdJwtCredential(presentation, VERIFIER);
+    expect(result.valid).toBe(false);
+    expect(result.errors).toContain('Key binding JWT required');
+  });
+
+  it('rejects key binding for another audience or nonce', async () => {
+    const otherAudience = await verifySdJwtCredential(
+      await presentWithKeyBinding({ audience: 'https://attacker.example' }),
+      VERIFIER
+    );
+    const otherNonce = await verifySdJwtCredential(await presentWithKeyBinding({ nonce: 'n-other' }), VERIFIER);
+
+    expect(otherAudience.errors).toContain('Key binding audience mismatch');
+    expect(otherNonce.errors).toContain('Key binding nonce mismatch');
+  });
+
+  it('rejects key binding when the verifier gives no audience and nonce', async () => {
+    const result = await verifySdJwtCredential(await presentWithKeyBinding());
+
+    expect(result.valid).toBe(false);
+    expect(result.errors).toEqual([
+      'Key binding audience not given by the verifier',
+      'Key binding nonce not given by the verifier'
+    ]);
+  });
+
+  it('rejects a key binding JWT signed with another key', async () => {
+    const { privateKey } = await generateKeyPair(algorithm);
+    const presentation = await createSdJwtPresentation(boundSdJwt, ['claims.kycLevel'], {
+      privateKey,
+      algorithm,
+      ...VERIFIER
+    });
+
+    const result = await verifySdJwtCredential(presentation, VERIFIER);
+    expect(result.valid).toBe(false);
+    expect(result.errors).toContain('Invalid key binding signature');
+  });
+});
+
+describe('key binding freshness', () => {
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('rejects a key binding JWT older than KEY_BINDING_MAX_AGE_SECONDS', async () => {
+    const { privateKey, publicKey } = await generateKeyPair('Ed25519');
+    const sdJwt = await issueCredential(REQUEST, {
+      envelope: 'sd-jwt',
+      holderPublicKey: { publicKey, algorithm: 'Ed25519' }
+    });
+    const presentation = await createSdJwtPresentation(sdJwt, ['claims.kycLevel'], {
+      privateKey,
+      algorithm: 'Ed25519',
+      ...VERIFIER
+    });
+
+    jest.useFakeTimers({ now: Date.now() + (KEY_BINDING_MAX_AGE_SECONDS + 1) * 1000 });
+    const result = await verifySdJwtCredential(presentation, VERIFIER);
+    expect(result.valid).toBe(false);
+    expect(result.errors).toEqual(['Key binding iat is missing or outside the accepted window']);
+  });
+});
+
+describe('credentials without a holder key', () => {
+  it('verify without key binding unless the verifier requires it', async () => {
+    const sdJwt = await issueCredential(REQUEST, { envelope: 'sd-jwt' });
+    const presentation = await createSdJwtPresentation(sdJwt, ['claims.kycLevel']);
+
+    expect((await verifySdJwtCredential(presentation)).valid).toBe(true);
+    const required = await verifySdJwtCredential(presentation, { requireKeyBinding: true });
+    expect(required.valid).toBe(false);
+    expect(required.errors).toContain('Key binding JWT required');
+  });
+});
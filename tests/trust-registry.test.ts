@@ -0,0 +1,96 @@
+import { issueCredential, verifyCredential, verifyJwtCredential } from '../src/services/credential-issuer';
+import { checkIssuerTrust } from '../src/services/trust-registry';
+import { createDataIntegrityProof } from '../src/utils/data-integrity';
+import { generateKeyPair, privateKeySigner } from '../src/utils/crypto';
+import { publicKeyToDidKey } from '../src/utils/did-key';
+import { signJwt } from '../src/utils/jwt';
+import { VerifiableCredential } from '../src/types/credentials';
+
+/**
+ * A self-made issuer: a did:key that signs whatever it likes
+ */
+async function createSelfMadeIssuer() {
+  const { privateKey, publicKey } = await generateKeyPair('Ed25519');
+  const did = publicKeyToDidKey(publicKey, 'Ed25519');
+  return {
+    did,
+    verificationMethod: `${did}#${did.slice('did:key:'.length)}`,
+    sign: privateKeySigner(privateKey, 'Ed25519')
+  };
+}
+
+/**
+ * A genuine credential re-issued under another issuer DID and left unsigned
+ */
+async function unsignedCredentialFrom(issuerDid: string): Promise<Omit<VerifiableCredential, 'proof'>> {
+  const { proof, ...credential } = await issueCredential({
+    customerKycId: 'KYC-001',
+    issuerDid: 'did:did3:bank:jpmorgan',
+    kycLevel: 'enhanced',
+    accreditedInvestor: true,
+    jurisdiction: ['US']
+  });
+  return { ...credential, issuer: { ...credential.issuer, id: issuerDid } };
+}
+
+describe('issuers outside the trust registry', () => {
+  it('fails the trust check for an unregistered issuer', () => {
+    const trust = checkIssuerTrust('did:web:bank.example', { credentialTypes: ['KYCCredential'] });
+
+    expect(trust.errors).toEqual(['Issuer did:web:bank.example is not in the trust registry']);
+    expect(trust.warnings).toEqual([]);
+  });
+
+  it('rejects a correctly signed JSON-LD credential from a did:key issuer', async () => {
+    const issuer = await createSelfMadeIssuer();
+    const unsigned = await unsignedCredentialFrom(issuer.did);
+    const proof = await createDataIntegrityProof(
+      unsigned,
+      {
+        created: new Date().toISOString(),
+        verificationMethod: issuer.verificationMethod,
+        proofPurpose: 'assertionMethod'
+      },
+      issuer.sign,
+      'Ed25519'
+    );
+
+    const result = await verifyCredential({ ...unsigned, proof });
+    expect(result.valid).toBe(false);
+    expect(result.errors).toContain(`Unknown issuer: Issuer ${issuer.did} is not in the trust registry`);
+  });
+
+  it('rejects a correctly signed JWT-VC from a did:key issuer', async () => {
+    const issuer = await createSelfMadeIssuer();
+    const vc = await unsignedCredentialFrom(issuer.did);
+    const token = await signJwt(
+      { typ: 'JWT', kid: issuer.verificationMethod },
+      { iss: issuer.did, sub: vc.credentialSubject.id, jti: vc.id, iat: Math.floor(Date.now() / 1000), vc },
+      issuer.sign,
+      'Ed25519'
+    );
+
+    const result = await verifyJwtCredential(token);
+    expect(result.valid).toBe(false);
+    expect(result.errors).toContain(`Unknown issuer: Issuer ${issuer.did} is not in the trust registry`);
+  });
+
+  it('rejects a credential naming a did:web issuer without resolving it', async () => {
+    const unsigned = await unsignedCredentialFrom('did:web:bank.example');
+    const issuer = await createSelfMadeIssuer();
+    const proof = await createDataIntegrityProof(
+      unsigned,
+      {
+        created: new Date().toISOString(),
+        verificationMethod: 'did:web:bank.example#key-1',
+        proofPurpose: 'assertionMethod'
+      },
+      issuer.sign,
+      'Ed25519'
+    );
+
+    const result = await verifyCredential({ ...unsigned, proof });
+    expect(result.valid).toBe(false);
+    expect(result.errors).toContain('Unknown issuer: Issuer did:web:bank.example is not in the trust registry');
+  });
+});